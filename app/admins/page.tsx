@@ -0,0 +1,336 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import AdminHeader from "@/components/admin/AdminHeader";
+import MobileNav from "@/components/admin/MobileNav";
+import Confirmation from "@/components/ui/Confirmation";
+import { useAuth } from "@/context/AuthContext";
+import { ADMIN_ROLES, AdminRole, ROLE_LABELS } from "@/lib/permissions";
+
+type AdminAccount = {
+  _id: string;
+  username: string;
+  name: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+};
+
+const emptyForm = {
+  username: "",
+  name: "",
+  password: "",
+  role: "operations" as AdminRole,
+};
+
+export default function AdminsPage() {
+  const { getCurrentUser } = useAuth();
+  const currentUser = getCurrentUser();
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [adminToDelete, setAdminToDelete] = useState<AdminAccount | null>(null);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, []);
+
+  const fetchAdmins = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin-users", { cache: "no-store" });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch admin users");
+      }
+
+      setAdmins(data.admins);
+    } catch (error) {
+      console.error("Error fetching admin users:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load admin users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateAdmin = async (
+    admin: AdminAccount,
+    changes: Partial<Pick<AdminAccount, "role" | "isActive">> & {
+      password?: string;
+    },
+  ) => {
+    try {
+      const response = await fetch(`/api/admin-users/${admin._id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to update admin user");
+      }
+
+      toast.success(`${admin.name} updated`);
+      fetchAdmins();
+    } catch (error) {
+      console.error("Error updating admin user:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update admin user");
+    }
+  };
+
+  const handleResetPassword = (admin: AdminAccount) => {
+    const password = window.prompt(`New password for ${admin.username}`);
+    if (password) {
+      updateAdmin(admin, { password });
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/admin-users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to create admin user");
+      }
+
+      toast.success("Admin account created");
+      setForm(emptyForm);
+      fetchAdmins();
+    } catch (error) {
+      console.error("Error creating admin user:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create admin user");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDeleteAdmin = async () => {
+    if (!adminToDelete) return;
+
+    try {
+      const response = await fetch(`/api/admin-users/${adminToDelete._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete admin user");
+      }
+
+      toast.success("Admin account deleted");
+      fetchAdmins();
+    } catch (error) {
+      console.error("Error deleting admin user:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete admin user");
+    } finally {
+      setAdminToDelete(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      <AdminHeader />
+
+      <main className="p-4">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-dark">Admin Accounts</h1>
+            <p className="text-gray-600 text-sm mt-1">
+              Each role only sees the pages it needs
+            </p>
+          </div>
+          <button
+            onClick={fetchAdmins}
+            disabled={loading}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Name
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last Login
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {admins.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-4 py-6 text-center text-sm text-gray-500"
+                  >
+                    {loading ? "Loading admin accounts..." : "No admin accounts yet"}
+                  </td>
+                </tr>
+              ) : (
+                admins.map((admin) => {
+                  const isSelf = admin.username === currentUser;
+                  return (
+                    <tr
+                      key={admin._id}
+                      className={admin.isActive ? "" : "opacity-60"}
+                    >
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">
+                          {admin.name}
+                          {isSelf && (
+                            <span className="ml-2 text-xs text-gray-500">(you)</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {admin.username}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <select
+                          value={admin.role}
+                          disabled={isSelf}
+                          onChange={(e) =>
+                            updateAdmin(admin, {
+                              role: e.target.value as AdminRole,
+                            })
+                          }
+                          className="border rounded px-2 py-1 text-sm disabled:bg-gray-100"
+                        >
+                          {ADMIN_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {admin.lastLoginAt
+                          ? new Date(admin.lastLoginAt).toLocaleString("en-GB")
+                          : "Never"}
+                      </td>
+                      <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => handleResetPassword(admin)}
+                          className="text-primary hover:underline"
+                        >
+                          Reset password
+                        </button>
+                        {!isSelf && (
+                          <>
+                            <button
+                              onClick={() =>
+                                updateAdmin(admin, { isActive: !admin.isActive })
+                              }
+                              className="text-gray-700 hover:underline"
+                            >
+                              {admin.isActive ? "Deactivate" : "Activate"}
+                            </button>
+                            <button
+                              onClick={() => setAdminToDelete(admin)}
+                              className="text-red-600 hover:underline"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <form
+          onSubmit={handleCreate}
+          className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-dark">Add Admin</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              type="text"
+              placeholder="Username"
+              value={form.username}
+              onChange={(e) => setForm({ ...form, username: e.target.value })}
+              className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+              required
+            />
+            <input
+              type="text"
+              placeholder="Full name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+              required
+            />
+            <input
+              type="password"
+              placeholder="Password (min. 8 characters)"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+              className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+              minLength={8}
+              required
+            />
+            <select
+              value={form.role}
+              onChange={(e) =>
+                setForm({ ...form, role: e.target.value as AdminRole })
+              }
+              className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              {ADMIN_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+          >
+            {isSaving ? "Creating..." : "Create Account"}
+          </button>
+        </form>
+      </main>
+
+      <Confirmation
+        isOpen={adminToDelete !== null}
+        onClose={() => setAdminToDelete(null)}
+        onConfirm={confirmDeleteAdmin}
+        title="Delete Admin Account"
+        message={`Delete the account for ${adminToDelete?.name}? They will no longer be able to sign in.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { getSession, sessionCookieOptions } from '@/lib/auth';
+import dbConnect from '@/lib/dbConnect';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/password';
+import { isAdminRole } from '@/lib/permissions';
+import { createSessionToken, SESSION_COOKIE_NAME } from '@/lib/session';
+import AdminUser from '@/models/AdminUser';
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const body = await request.json();
+
+        if (!isValidObjectId(id)) {
+            return NextResponse.json(
+                { success: false, error: 'Admin user not found' },
+                { status: 404 }
+            );
+        }
+
+        await dbConnect();
+        const admin = await AdminUser.findById(id);
+        if (!admin) {
+            return NextResponse.json(
+                { success: false, error: 'Admin user not found' },
+                { status: 404 }
+            );
+        }
+
+        // Owners cannot lock themselves out by demoting or disabling their own account
+        const session = await getSession(request);
+        const isSelf = session?.sub === admin.username;
+        if (isSelf && ((body.role !== undefined && body.role !== admin.role) || body.isActive === false)) {
+            return NextResponse.json(
+                { success: false, error: 'You cannot change the role or status of your own account' },
+                { status: 400 }
+            );
+        }
+
+        if (body.name !== undefined) {
+            const name = typeof body.name === 'string' ? body.name.trim() : '';
+            if (!name) {
+                return NextResponse.json(
+                    { success: false, error: 'Name is required' },
+                    { status: 400 }
+                );
+            }
+            admin.name = name;
+        }
+
+        const previousAccess = { role: admin.role, isActive: admin.isActive };
+
+        if (body.role !== undefined) {
+            if (!isAdminRole(body.role)) {
+                return NextResponse.json(
+                    { success: false, error: 'Invalid role' },
+                    { status: 400 }
+                );
+            }
+            admin.role = body.role;
+        }
+
+        if (body.isActive !== undefined) {
+            admin.isActive = Boolean(body.isActive);
+        }
+
+        // Sessions signed with the old role or status stop working
+        if (admin.role !== previousAccess.role || admin.isActive !== previousAccess.isActive) {
+            admin.sessionVersion = (admin.sessionVersion ?? 0) + 1;
+        }
+
+        if (body.password) {
+            if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+                return NextResponse.json(
+                    { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+                    { status: 400 }
+                );
+            }
+            admin.passwordHash = await hashPassword(body.password);
+            // A reset password signs out every existing session
+            admin.sessionVersion = (admin.sessionVersion ?? 0) + 1;
+        }
+
+        await admin.save();
+
+        const response = NextResponse.json(
+            { success: true, admin },
+            { status: 200 }
+        );
+        // Keep the admin who changed their own password signed in
+        if (isSelf && body.password) {
+            const token = await createSessionToken(admin.username, admin.role, admin.sessionVersion);
+            response.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions());
+        }
+
+        return response;
+    } catch (error) {
+        console.error('Error updating admin user:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update admin user' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!isValidObjectId(id)) {
+            return NextResponse.json(
+                { success: false, error: 'Admin user not found' },
+                { status: 404 }
+            );
+        }
+
+        await dbConnect();
+        const admin = await AdminUser.findById(id);
+        if (!admin) {
+            return NextResponse.json(
+                { success: false, error: 'Admin user not found' },
+                { status: 404 }
+            );
+        }
+
+        const session = await getSession(request);
+        if (session?.sub === admin.username) {
+            return NextResponse.json(
+                { success: false, error: 'You cannot delete your own account' },
+                { status: 400 }
+            );
+        }
+
+        // Its sessions end with it; getSession rejects tokens with no account
+        await admin.deleteOne();
+
+        return NextResponse.json(
+            { success: true, message: 'Admin user deleted successfully' },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error deleting admin user:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete admin user' },
+            { status: 500 }
+        );
+    }
+}
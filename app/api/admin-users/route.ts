@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/password';
+import { isAdminRole } from '@/lib/permissions';
+import AdminUser from '@/models/AdminUser';
+
+export async function GET() {
+    try {
+        await dbConnect();
+        const admins = await AdminUser.find({})
+            .select('-passwordHash')
+            .sort({ createdAt: 1 })
+            .lean();
+
+        return NextResponse.json(
+            { success: true, admins },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error fetching admin users:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch admin users' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const username = typeof body.username === 'string' ? body.username.trim() : '';
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        const password = typeof body.password === 'string' ? body.password : '';
+
+        if (!username || !name || !isAdminRole(body.role)) {
+            return NextResponse.json(
+                { success: false, error: 'Username, name and a valid role are required' },
+                { status: 400 }
+            );
+        }
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return NextResponse.json(
+                { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        if (await AdminUser.exists({ username })) {
+            return NextResponse.json(
+                { success: false, error: 'An admin with this username already exists' },
+                { status: 409 }
+            );
+        }
+
+        const admin = await AdminUser.create({
+            username,
+            name,
+            role: body.role,
+            passwordHash: await hashPassword(password),
+        });
+
+        return NextResponse.json(
+            { success: true, admin },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Error creating admin user:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create admin user' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addDaysMYT, parseDateStringAsMYT } from '@/lib/dateUtils';
+import dbConnect from '@/lib/dbConnect';
+import AuditLog from '@/models/AuditLog';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export async function GET(request: NextRequest) {
+    try {
+        const searchParams = request.nextUrl.searchParams;
+        const entityType = searchParams.get('entityType');
+        const entityId = searchParams.get('entityId');
+        const actor = searchParams.get('actor');
+        const from = searchParams.get('from');
+        const to = searchParams.get('to');
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+        const limit = Math.min(
+            200,
+            Math.max(1, parseInt(searchParams.get('limit') || `${DEFAULT_PAGE_SIZE}`, 10) || DEFAULT_PAGE_SIZE)
+        );
+
+        const filter: Record<string, unknown> = {};
+        if (entityType) filter.entityType = entityType;
+        if (entityId) filter.entityId = entityId;
+        if (actor) filter.actor = actor;
+
+        // from/to are inclusive YYYY-MM-DD dates in Malaysian time
+        if (from || to) {
+            try {
+                filter.createdAt = {
+                    ...(from && { $gte: parseDateStringAsMYT(from) }),
+                    ...(to && { $lt: addDaysMYT(parseDateStringAsMYT(to), 1) }),
+                };
+            } catch {
+                return NextResponse.json(
+                    { success: false, error: 'Dates must be in YYYY-MM-DD format' },
+                    { status: 400 }
+                );
+            }
+        }
+
+        await dbConnect();
+        const [logs, total, actors] = await Promise.all([
+            AuditLog.find(filter)
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            AuditLog.countDocuments(filter),
+            AuditLog.distinct('actor'),
+        ]);
+
+        return NextResponse.json(
+            {
+                success: true,
+                logs,
+                actors,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.max(1, Math.ceil(total / limit)),
+                },
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error fetching audit log:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch audit log' },
+            { status: 500 }
+        );
+    }
+}
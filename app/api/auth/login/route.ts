@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, sessionCookieOptions } from '@/lib/auth';
+import { createSessionToken, SESSION_COOKIE_NAME } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const username = typeof body.username === 'string' ? body.username.trim() : '';
+        const password = typeof body.password === 'string' ? body.password : '';
+
+        if (!username || !password) {
+            return NextResponse.json(
+                { success: false, error: 'Username and password are required' },
+                { status: 400 }
+            );
+        }
+
+        const user = await authenticateAdmin(username, password);
+        if (!user) {
+            return NextResponse.json(
+                { success: false, error: 'Invalid credentials' },
+                { status: 401 }
+            );
+        }
+
+        const { sessionVersion, ...profile } = user;
+        const token = await createSessionToken(profile.username, profile.role, sessionVersion);
+        const response = NextResponse.json(
+            { success: true, user: profile },
+            { status: 200 }
+        );
+        response.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions());
+
+        return response;
+    } catch (error) {
+        console.error('Error logging in:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to log in' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { sessionCookieOptions } from '@/lib/auth';
+import { SESSION_COOKIE_NAME } from '@/lib/session';
+
+export async function POST() {
+    const response = NextResponse.json(
+        { success: true, message: 'Logged out' },
+        { status: 200 }
+    );
+    response.cookies.set(SESSION_COOKIE_NAME, '', sessionCookieOptions(0));
+
+    return response;
+}
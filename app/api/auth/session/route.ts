@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// Also the middleware's session check: the role returned is the account's current one
+export async function GET(request: NextRequest) {
+    const session = await getSession(request);
+
+    if (!session) {
+        return NextResponse.json(
+            { success: false, error: 'Not authenticated' },
+            { status: 401 }
+        );
+    }
+
+    return NextResponse.json(
+        {
+            success: true,
+            user: { username: session.sub, role: session.role },
+            expiresAt: session.exp * 1000,
+        },
+        { status: 200 }
+    );
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError, fetchBackendRecord, recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import { BOOKING_STATUS_LABELS, BookingStatus } from '@/lib/bookingStatus';
+import { canCheckIn, CheckInBooking, isCheckedIn } from '@/lib/checkIn';
+import { formatDateAsMYT, normalizeTime, parseFlexibleDate } from '@/lib/dateUtils';
+
+interface BoardingBooking extends CheckInBooking {
+  packageId: string | { _id: string };
+  date: string;
+  time: string;
+  contactInfo?: {
+    name?: string;
+  };
+}
+
+async function updateCheckIn(
+  bookingId: string,
+  update: Pick<CheckInBooking, 'checkedInAt' | 'checkedInBy'>
+) {
+  return fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/bookings/${bookingId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+  });
+}
+
+// Mark a scanned booking as boarded on the departure being checked in
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const body = await request.json();
+    const packageId = typeof body.packageId === 'string' ? body.packageId : '';
+    const date = typeof body.date === 'string' ? body.date : '';
+    const time = typeof body.time === 'string' ? body.time : '';
+
+    if (!packageId || !date || !time) {
+      return NextResponse.json(
+        { success: false, error: 'packageId, date and time of the departure are required' },
+        { status: 400 }
+      );
+    }
+
+    const booking = (await fetchBackendRecord(
+      `/api/bookings/${bookingId}`
+    )) as BoardingBooking | null;
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    // A code from another departure must not board on this one
+    const bookingPackageId =
+      typeof booking.packageId === 'string' ? booking.packageId : booking.packageId?._id;
+    const bookingDate = parseFlexibleDate(booking.date);
+    const isThisDeparture =
+      bookingPackageId === packageId &&
+      bookingDate !== null &&
+      formatDateAsMYT(bookingDate) === date &&
+      normalizeTime(booking.time) === normalizeTime(time);
+
+    if (!isThisDeparture) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This booking is for ${bookingDate ? formatDateAsMYT(bookingDate) : booking.date} at ${booking.time}, not this departure`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!canCheckIn(booking)) {
+      const status = BOOKING_STATUS_LABELS[booking.status as BookingStatus] || booking.status;
+      return NextResponse.json(
+        { success: false, error: `A ${status?.toLowerCase()} booking cannot be checked in` },
+        { status: 409 }
+      );
+    }
+
+    if (isCheckedIn(booking)) {
+      return NextResponse.json(
+        { success: true, booking, alreadyCheckedIn: true },
+        { status: 200 }
+      );
+    }
+
+    const session = await getSession(request);
+    const update = {
+      checkedInAt: new Date().toISOString(),
+      checkedInBy: session?.sub,
+    };
+    const response = await updateCheckIn(bookingId, update);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        { success: false, error: errorData.error || 'Failed to check in booking' },
+        { status: response.status }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'booking.check-in',
+      entityType: 'booking',
+      entityId: bookingId,
+      before: { checkedInAt: null },
+      after: update,
+    });
+
+    return NextResponse.json(
+      { success: true, booking: { ...booking, ...update }, alreadyCheckedIn: false },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error checking in booking:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check in booking' },
+      { status: 500 }
+    );
+  }
+}
+
+// Undo a check-in made by mistake
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const booking = (await fetchBackendRecord(
+      `/api/bookings/${bookingId}`
+    )) as BoardingBooking | null;
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const update = { checkedInAt: null, checkedInBy: null };
+    const response = await updateCheckIn(bookingId, update);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        { success: false, error: errorData.error || 'Failed to undo check-in' },
+        { status: response.status }
+      );
+    }
+
+    await recordAudit(request, {
+      action: 'booking.undo-check-in',
+      entityType: 'booking',
+      entityId: bookingId,
+      before: { checkedInAt: booking.checkedInAt, checkedInBy: booking.checkedInBy },
+      after: update,
+    });
+
+    return NextResponse.json(
+      { success: true, booking: { ...booking, ...update } },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error undoing check-in:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to undo check-in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError, fetchBackendRecord, recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import {
+  buildConfirmationMessage,
+  ConfirmationBooking,
+  ConfirmationPackage,
+  ConfirmationSendEntry,
+  getConfirmationDetails,
+  getConfirmationFileName,
+  getConfirmationSubject,
+  isConfirmationChannel,
+  toWhatsAppNumber,
+} from '@/lib/bookingConfirmation';
+import { buildConfirmationPdf } from '@/lib/confirmationPdf';
+import { isValidRecipient, sendMail } from '@/lib/mail';
+
+interface ConfirmableBooking extends ConfirmationBooking {
+  confirmationSends?: ConfirmationSendEntry[];
+}
+
+// Send the confirmation to the customer and record the send on the booking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const body = await request.json();
+    const channel = body.channel;
+
+    if (!isConfirmationChannel(channel)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid channel is required' },
+        { status: 400 }
+      );
+    }
+
+    const booking = (await fetchBackendRecord(
+      `/api/bookings/${bookingId}`
+    )) as ConfirmableBooking | null;
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    // Recipients come from the stored booking, not the request
+    const to =
+      channel === 'email'
+        ? booking.contactInfo?.email
+        : booking.contactInfo?.whatsapp || booking.contactInfo?.phone;
+
+    if (!to) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This booking has no customer ${channel === 'email' ? 'email' : 'phone number'}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Goes into the To: header and RCPT TO as is, so it must be one plain address
+    if (channel === 'email' && !isValidRecipient(to)) {
+      return NextResponse.json(
+        { success: false, error: `"${to}" is not a valid email address` },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(request);
+    const entry: ConfirmationSendEntry = {
+      channel,
+      to,
+      status: 'sent',
+      sentAt: new Date().toISOString(),
+      sentBy: session?.sub,
+    };
+
+    if (channel === 'email') {
+      // Contents come from the stored booking too, never from the request
+      const packageRef = typeof booking.packageId === 'object' ? booking.packageId : null;
+      const packageId = packageRef?._id ?? booking.packageId;
+      const pkg = packageRef?.title
+        ? packageRef
+        : ((await fetchBackendRecord(
+            `/api/${booking.packageType === 'transfer' ? 'transfers' : 'tours'}/${packageId}`
+          )) as ConfirmationPackage | null);
+      const details = getConfirmationDetails(bookingId, booking, pkg);
+      const pdf = Buffer.from(buildConfirmationPdf(details).output('arraybuffer'));
+
+      try {
+        const result = await sendMail({
+          to,
+          subject: getConfirmationSubject(details),
+          text: buildConfirmationMessage(details),
+          attachments: [
+            {
+              filename: getConfirmationFileName(bookingId),
+              contentType: 'application/pdf',
+              content: pdf,
+            },
+          ],
+        });
+        entry.messageId = result.messageId;
+      } catch (error) {
+        console.error('Error emailing booking confirmation:', error);
+        entry.status = 'failed';
+        entry.error = error instanceof Error ? error.message : 'Failed to send email';
+      }
+    } else if (!toWhatsAppNumber(to)) {
+      return NextResponse.json(
+        { success: false, error: `"${to}" is not a valid WhatsApp number` },
+        { status: 400 }
+      );
+    }
+
+    // Failed sends are recorded too, so the booking shows every attempt. The
+    // backend only takes the whole list, so this is last-write-wins: two
+    // sends for the same booking at the same moment can drop one entry
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/bookings/${bookingId}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          confirmationSends: [...(booking.confirmationSends || []), entry],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Error recording confirmation send:', response.status);
+    }
+
+    await recordAudit(request, {
+      action: 'booking.send-confirmation',
+      entityType: 'booking',
+      entityId: bookingId,
+      before: null,
+      after: entry,
+    });
+
+    if (entry.status === 'failed') {
+      return NextResponse.json(
+        { success: false, error: entry.error, send: entry },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, send: entry },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error sending booking confirmation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send booking confirmation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError, fetchBackendRecord, fetchBackendSnapshot, recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import { findInvoice, getCompanyDetails, getSstRate, issueInvoice } from '@/lib/invoiceIssuer';
+import { formatDateAsMYT, parseFlexibleDate } from '@/lib/dateUtils';
+import { calculateInvoiceAmounts, InvoiceableBooking } from '@/lib/invoices';
+import { getHolidayDates } from '@/lib/holidayCalendar';
+import { applyResolvedPrice, resolvePackagePrice, RuleBasedPackage } from '@/lib/pricingRules';
+
+interface InvoicedBooking extends InvoiceableBooking {
+  packageId: string | { _id: string; title?: string };
+  createdAt?: string;
+}
+
+// The booking's invoice, if one has been issued
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const invoice = await findInvoice(bookingId);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: 'No invoice has been issued for this booking' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, invoice }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invoice' },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue the invoice, or a new revision of it if the booking changed since
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const booking = (await fetchBackendRecord(
+      `/api/bookings/${bookingId}`
+    )) as InvoicedBooking | null;
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    const packageId =
+      typeof booking.packageId === 'string' ? booking.packageId : booking.packageId?._id;
+    const pkg = (await fetchBackendSnapshot(
+      `/api/${booking.packageType === 'tour' ? 'tours' : 'transfers'}/${packageId}`
+    )) as (RuleBasedPackage & { title?: string }) | null;
+    const packageTitle =
+      pkg?.title ||
+      (typeof booking.packageId === 'object' ? booking.packageId.title : undefined) ||
+      'Package';
+
+    // Line items use the prices the booking was made at, pricing rules included
+    const serviceDate = parseFlexibleDate(booking.date);
+    const pricedPackage = pkg
+      ? applyResolvedPrice(
+          pkg,
+          resolvePackagePrice(pkg, {
+            date: serviceDate ? formatDateAsMYT(serviceDate) : booking.date,
+            adults: booking.adults || 0,
+            children: booking.children || 0,
+            bookedOn: booking.createdAt ? new Date(booking.createdAt) : undefined,
+            holidays: await getHolidayDates(),
+          })
+        )
+      : null;
+
+    const session = await getSession(request);
+    const before = await findInvoice(bookingId);
+    const { invoice, created, revised } = await issueInvoice(
+      {
+        bookingId,
+        company: getCompanyDetails(),
+        customer: {
+          name: booking.contactInfo?.name || 'Customer',
+          email: booking.contactInfo?.email,
+          phone: booking.contactInfo?.phone,
+        },
+        packageTitle,
+        packageType: booking.packageType,
+        serviceDate: booking.date,
+        serviceTime: booking.time,
+        currency: booking.paymentInfo?.currency?.toUpperCase() || 'MYR',
+        paymentStatus: booking.paymentInfo?.paymentStatus,
+        ...calculateInvoiceAmounts(booking, packageTitle, pricedPackage, getSstRate()),
+      },
+      session?.sub ?? 'unknown'
+    );
+
+    if (created || revised) {
+      await recordAudit(request, {
+        action: created ? 'booking.issue-invoice' : 'booking.revise-invoice',
+        entityType: 'booking',
+        entityId: bookingId,
+        before,
+        after: invoice,
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, invoice, created, revised },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error issuing invoice:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to issue invoice' },
+      { status: 500 }
+    );
+  }
+}
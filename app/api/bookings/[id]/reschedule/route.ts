@@ -0,0 +1,280 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError, fetchBackendRecord, recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import {
+  RescheduleHistoryEntry,
+  TimeSlotAvailability,
+  validateSlotBooking,
+} from '@/lib/bookingSchedule';
+import { getBookingLoad, getOverbookingError } from '@/lib/capacity';
+import { parseCapacityOverride, resolveSlotCapacities } from '@/lib/capacityResolver';
+import { formatDateAsMYT, normalizeTime, parseFlexibleDate } from '@/lib/dateUtils';
+import { getHolidayDates } from '@/lib/holidayCalendar';
+import { getPriceBreakdown, RuleBasedPackage } from '@/lib/pricingRules';
+import { getRedemptionDiscount, updateBookingRedemption } from '@/lib/promotionRedemptions';
+import { resolveSlotClosures } from '@/lib/slotClosureRules';
+
+interface ReschedulableBooking {
+  packageType: 'tour' | 'transfer';
+  packageId: string | { _id: string };
+  date: string;
+  time: string;
+  adults: number;
+  children: number;
+  total: number;
+  discount?: number;
+  paymentInfo?: { amount?: number; bankCharge?: number };
+  status?: string;
+  isVehicleBooking?: boolean;
+  rescheduleHistory?: RescheduleHistoryEntry[];
+  createdAt?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed'];
+
+// Move a booking to another date/time and/or change its guest counts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const body = await request.json();
+    const date = typeof body.date === 'string' ? body.date : '';
+    const time = typeof body.time === 'string' ? body.time : '';
+    const adults = Number(body.adults);
+    const children = Number(body.children ?? 0);
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    const overrideReason = parseCapacityOverride(body);
+
+    if (!DATE_PATTERN.test(date) || !time) {
+      return NextResponse.json(
+        { success: false, error: 'date (YYYY-MM-DD) and time are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(adults) || !Number.isInteger(children) || adults < 1 || children < 0) {
+      return NextResponse.json(
+        { success: false, error: 'adults must be at least 1 and children cannot be negative' },
+        { status: 400 }
+      );
+    }
+
+    const booking = (await fetchBackendRecord(
+      `/api/bookings/${bookingId}`
+    )) as ReschedulableBooking | null;
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status || '')) {
+      return NextResponse.json(
+        { success: false, error: `A ${booking.status} booking cannot be rescheduled` },
+        { status: 409 }
+      );
+    }
+
+    const packageId =
+      typeof booking.packageId === 'string' ? booking.packageId : booking.packageId?._id;
+    const packageType = booking.packageType;
+    const pkg = (await fetchBackendRecord(
+      `/api/${packageType === 'tour' ? 'tours' : 'transfers'}/${packageId}`
+    )) as RuleBasedPackage | null;
+
+    if (!pkg || typeof pkg.newPrice !== 'number') {
+      return NextResponse.json(
+        { success: false, error: 'Package not found' },
+        { status: 404 }
+      );
+    }
+
+    const backendSlots = (await fetchBackendRecord(
+      `/api/timeslots/available?packageId=${packageId}&date=${date}&packageType=${packageType}&isAdmin=true`
+    )) as TimeSlotAvailability[] | null;
+    const slots = Array.isArray(backendSlots)
+      ? await resolveSlotCapacities(
+          await resolveSlotClosures(backendSlots, { packageType, packageId, date }),
+          { packageType, packageId, date }
+        )
+      : [];
+    const slot = slots.find((s) => normalizeTime(s.time) === normalizeTime(time));
+
+    // Guests this booking already holds when it stays in the same slot
+    const currentDate = parseFlexibleDate(booking.date);
+    const isSameSlot =
+      currentDate !== null &&
+      formatDateAsMYT(currentDate) === date &&
+      normalizeTime(booking.time) === normalizeTime(time);
+    const ownGuests = isSameSlot
+      ? booking.isVehicleBooking
+        ? 1
+        : (booking.adults || 0) + (booking.children || 0)
+      : 0;
+
+    const slotError = validateSlotBooking(slot, pkg, { adults, children }, ownGuests, true);
+    if (slotError) {
+      return NextResponse.json(
+        { success: false, error: slotError },
+        { status: 409 }
+      );
+    }
+
+    // Overbooking is allowed only with an explicit, recorded reason
+    const overbooking = slot
+      ? getOverbookingError(
+          slot,
+          getBookingLoad({ adults, children }, slot.capacityUnit),
+          isSameSlot ? getBookingLoad(booking, slot.capacityUnit) : 0
+        )
+      : null;
+    if (overbooking && !overrideReason) {
+      return NextResponse.json(
+        { success: false, error: overbooking, requiresOverride: true },
+        { status: 409 }
+      );
+    }
+
+    const session = await getSession(request);
+    // Early-bird rules still count from when the booking was first made
+    const { total: subtotal } = getPriceBreakdown(packageType, pkg, {
+      date,
+      adults,
+      children,
+      bookedOn: booking.createdAt ? new Date(booking.createdAt) : undefined,
+      holidays: await getHolidayDates(),
+    });
+    // The promo code is re-applied to the new subtotal on its own terms; if
+    // the promotion has since been deleted, the amount granted carries over
+    const promoDiscount = booking.discount
+      ? await getRedemptionDiscount(bookingId, subtotal)
+      : null;
+    const discount = promoDiscount ?? Math.min(booking.discount || 0, subtotal);
+    const bankCharge = booking.paymentInfo?.bankCharge || 0;
+    const total = Math.round((subtotal - discount + bankCharge) * 100) / 100;
+    // What was already paid no longer matches; the difference is collected or refunded separately
+    const paid = booking.paymentInfo?.amount;
+    const balanceDue =
+      paid !== undefined ? Math.round((total - paid) * 100) / 100 : undefined;
+    const previous: RescheduleHistoryEntry = {
+      date: currentDate ? formatDateAsMYT(currentDate) : booking.date,
+      time: booking.time,
+      adults: booking.adults,
+      children: booking.children,
+      total: booking.total,
+      reason: reason || undefined,
+      changedAt: new Date().toISOString(),
+      changedBy: session?.sub,
+    };
+    const update = {
+      date,
+      time: slot?.time || time,
+      adults,
+      children,
+      subtotal,
+      ...(booking.discount ? { discount } : {}),
+      total,
+      rescheduleHistory: [...(booking.rescheduleHistory || []), previous],
+      ...(overbooking
+        ? {
+            capacityOverride: {
+              reason: overrideReason,
+              message: overbooking,
+              by: session?.sub,
+              at: new Date().toISOString(),
+            },
+          }
+        : {}),
+    };
+
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/bookings/${bookingId}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.error || 'Failed to reschedule booking'
+        },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+
+    if (booking.discount) {
+      await updateBookingRedemption(bookingId, { subtotal, discount });
+    }
+
+    await recordAudit(request, {
+      action: 'booking.reschedule',
+      entityType: 'booking',
+      entityId: bookingId,
+      before: {
+        date: previous.date,
+        time: previous.time,
+        adults: previous.adults,
+        children: previous.children,
+        total: previous.total,
+        ...(booking.discount ? { discount: booking.discount } : {}),
+      },
+      after: {
+        date,
+        time: update.time,
+        adults,
+        children,
+        ...(booking.discount ? { discount } : {}),
+        total,
+        ...(balanceDue ? { balanceDue } : {}),
+        reason: reason || undefined,
+      },
+    });
+
+    if (overbooking) {
+      await recordAudit(request, {
+        action: 'booking.capacity-override',
+        entityType: 'booking',
+        entityId: bookingId,
+        before: null,
+        after: { date, time: update.time, adults, children, overbooking, reason: overrideReason },
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Booking rescheduled successfully',
+        data: data.data ?? data.booking ?? data,
+        // Positive: still to collect from the customer; negative: to refund
+        balanceDue: balanceDue || 0,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error rescheduling booking:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reschedule booking' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,129 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError, fetchBackendRecord, recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import {
+  canTransition,
+  getAllowedTransitions,
+  isBookingStatus,
+  REASON_REQUIRED_STATUSES,
+} from '@/lib/bookingStatus';
+import { releaseBookingRedemption } from '@/lib/promotionRedemptions';
+
+// Move a booking along the status workflow (confirm, cancel, no-show, completed)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookingId } = await params;
+    const body = await request.json();
+    const status = body.status;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!isBookingStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid status is required' },
+        { status: 400 }
+      );
+    }
+
+    if (REASON_REQUIRED_STATUSES.includes(status) && !reason) {
+      return NextResponse.json(
+        { success: false, error: 'A reason is required for this status change' },
+        { status: 400 }
+      );
+    }
+
+    const before = (await fetchBackendRecord(`/api/bookings/${bookingId}`)) as
+      | { status?: string }
+      | null;
+
+    if (!before) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canTransition(before.status, status)) {
+      const allowed = getAllowedTransitions(before.status);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot change a ${before.status || 'unknown'} booking to ${status}`
+            + (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ''),
+        },
+        { status: 409 }
+      );
+    }
+
+    const session = await getSession(request);
+    const update = {
+      status,
+      statusReason: reason || undefined,
+      statusChangedAt: new Date().toISOString(),
+      statusChangedBy: session?.sub,
+    };
+
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/bookings/${bookingId}`,
+      {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        {
+          success: false,
+          error: errorData.error || 'Failed to update booking status'
+        },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+
+    // A cancelled booking gives its promo code use back
+    if (status === 'cancelled') {
+      await releaseBookingRedemption(bookingId);
+    }
+
+    await recordAudit(request, {
+      action: 'booking.status',
+      entityType: 'booking',
+      entityId: bookingId,
+      before: { status: before.status },
+      after: { status, reason: reason || undefined },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Booking status updated successfully',
+        data: data.data ?? data.booking ?? data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error updating booking status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update booking status' },
+      { status: 500 }
+    );
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
@@ -14,6 +139,15 @@ export async function DELETE(
       );
     }
 
+    const before = await fetchBackendRecord(`/api/bookings/${bookingId}`);
+
+    if (!before) {
+      return NextResponse.json(
+        { success: false, error: 'Booking not found' },
+        { status: 404 }
+      );
+    }
+
     const response = await fetch(
       `${process.env.NEXT_PUBLIC_API_URL}/api/bookings/${bookingId}`,
       {
@@ -36,7 +170,16 @@ export async function DELETE(
     }
 
     const data = await response.json();
-    
+    await releaseBookingRedemption(bookingId);
+
+    await recordAudit(request, {
+      action: 'booking.delete',
+      entityType: 'booking',
+      entityId: bookingId,
+      before,
+      after: null,
+    });
+
     return NextResponse.json(
       { 
         success: true, 
@@ -46,6 +189,12 @@ export async function DELETE(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
     console.error('Error deleting booking:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete booking' },
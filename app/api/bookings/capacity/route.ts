@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError } from '@/lib/audit';
+import { getDayCapacities } from '@/lib/capacityResolver';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Capacity and load of every departure on a date, keyed by
+// `${packageId}_${HH:mm}`, for the bookings calendar
+export async function GET(request: NextRequest) {
+  try {
+    const date = request.nextUrl.searchParams.get('date') || '';
+
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'date (YYYY-MM-DD) is required' },
+        { status: 400 }
+      );
+    }
+
+    const capacities = await getDayCapacities(date);
+
+    return NextResponse.json({ success: true, capacities }, { status: 200 });
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error resolving capacities:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resolve capacities' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,40 +1,107 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchBackendBookings } from '@/lib/bookings';
+import { addDaysMYT, parseDateStringAsMYT } from '@/lib/dateUtils';
+import dbConnect from '@/lib/dbConnect';
+import Refund from '@/models/Refund';
+import {
+    buildRevenueComparison,
+    buildRevenueReport,
+    getComparisonRange,
+    isRevenueGroupBy,
+    REVENUE_COMPARISONS,
+    RevenueBooking,
+    RevenueRefund,
+} from '@/lib/revenue';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Bookings for an inclusive range of Malaysian calendar dates
+async function fetchBookingsForRange(from: string, to: string) {
+    return fetchBackendBookings<RevenueBooking>({
+        startDate: parseDateStringAsMYT(from).toISOString(),
+        endDate: addDaysMYT(parseDateStringAsMYT(to), 1).toISOString(),
+    });
+}
+
+// Processed refunds for a set of bookings; revenue is reported gross if the
+// refunds store is unavailable
+async function fetchRefundsForBookings(bookings: RevenueBooking[]): Promise<RevenueRefund[]> {
+    if (bookings.length === 0) return [];
+
+    try {
+        await dbConnect();
+        const refunds = await Refund.find({
+            status: 'processed',
+            bookingId: { $in: bookings.map((booking) => booking._id) },
+        })
+            .select('bookingId amount method')
+            .lean();
+
+        return refunds.map((refund) => ({
+            bookingId: refund.bookingId,
+            amount: refund.amount,
+            method: refund.method,
+        }));
+    } catch (error) {
+        console.error('Error fetching refunds for revenue:', error);
+        return [];
+    }
+}
 
 export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
         const from = searchParams.get('from');
         const to = searchParams.get('to');
-        
+        const groupBy = searchParams.get('groupBy') || 'day';
+        const includeLineItems = searchParams.get('includeLineItems') === 'true';
+        const compare = searchParams.get('compare') === 'true';
+
         if (!from || !to) {
             return NextResponse.json(
                 { success: false, message: 'From date and to date are required' },
                 { status: 400 }
             );
         }
-        
-        // Call your backend API to get revenue data
-        const response = await fetch(
-            `${process.env.NEXT_PUBLIC_API_URL}/api/bookings/revenue?from=${from}&to=${to}`,
-            {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            }
-        );
 
-        if (!response.ok) {
-            const errorData = await response.json();
+        if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+            return NextResponse.json(
+                { success: false, message: 'Dates must be YYYY-MM-DD with from on or before to' },
+                { status: 400 }
+            );
+        }
+
+        if (!isRevenueGroupBy(groupBy)) {
             return NextResponse.json(
-                { success: false, error: errorData.message || 'Failed to fetch revenue data' },
-                { status: response.status }
+                { success: false, message: 'groupBy must be one of day, week, month, package, packageType' },
+                { status: 400 }
+            );
+        }
+
+        const bookings = await fetchBookingsForRange(from, to);
+        const report = buildRevenueReport(bookings, from, to, groupBy, {
+            includeLineItems,
+            refunds: await fetchRefundsForBookings(bookings),
+        });
+
+        if (compare) {
+            report.comparisons = await Promise.all(
+                REVENUE_COMPARISONS.map(async (kind) => {
+                    const range = getComparisonRange(from, to, kind);
+                    const previousBookings = await fetchBookingsForRange(range.from, range.to);
+                    return buildRevenueComparison(
+                        report,
+                        previousBookings,
+                        kind,
+                        await fetchRefundsForBookings(previousBookings)
+                    );
+                })
             );
         }
 
-        const data = await response.json();
-        
-        return NextResponse.json(data, { status: 200 });
+        return NextResponse.json({ success: true, data: report }, { status: 200 });
     } catch (error) {
         console.error('Error fetching revenue data:', error);
         return NextResponse.json(
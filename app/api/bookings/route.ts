@@ -1,4 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { BackendUnavailableError, fetchBackendRecord, recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import { checkDepartureCapacity, parseCapacityOverride } from '@/lib/capacityResolver';
+import { getHolidayDates } from '@/lib/holidayCalendar';
+import { getPriceBreakdown, RuleBasedPackage } from '@/lib/pricingRules';
+import {
+    attachRedemption,
+    releaseReservation,
+    reservePromotion,
+} from '@/lib/promotionRedemptions';
+import { findSlotClosure } from '@/lib/slotClosureRules';
 
 export async function GET(request: NextRequest) {
     try {
@@ -52,3 +63,204 @@ export async function GET(request: NextRequest) {
         );
     }
 }
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Create a booking in the backend once its departure is open and has room;
+// an overbooking needs capacityOverride.reason and is recorded on the booking.
+// A promo code is priced and reserved here, never taken from the client
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const packageType = body.packageType;
+        const packageId = typeof body.packageId === 'string' ? body.packageId : '';
+        const date = typeof body.date === 'string' ? body.date : '';
+        const time = typeof body.time === 'string' ? body.time : '';
+        const adults = Number(body.adults);
+        const children = Number(body.children ?? 0);
+
+        if (
+            (packageType !== 'tour' && packageType !== 'transfer') ||
+            !packageId ||
+            !DATE_PATTERN.test(date) ||
+            !time
+        ) {
+            return NextResponse.json(
+                { success: false, error: 'packageType, packageId, date (YYYY-MM-DD) and time are required' },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(adults) || !Number.isInteger(children) || adults < 1 || children < 0) {
+            return NextResponse.json(
+                { success: false, error: 'adults must be at least 1 and children cannot be negative' },
+                { status: 400 }
+            );
+        }
+
+        // Closures are not known to the backend, so they are checked here
+        const closure = await findSlotClosure({ packageType, packageId, date }, time);
+        if (closure) {
+            return NextResponse.json(
+                { success: false, error: `This departure is closed: ${closure.reason}` },
+                { status: 409 }
+            );
+        }
+
+        const overrideReason = parseCapacityOverride(body);
+        const capacityCheck = await checkDepartureCapacity(
+            { packageType, packageId, date, time },
+            { adults, children }
+        );
+
+        if (!capacityCheck.ok) {
+            return NextResponse.json(
+                { success: false, error: capacityCheck.error },
+                { status: capacityCheck.status }
+            );
+        }
+
+        const { overbooking } = capacityCheck;
+        if (overbooking && !overrideReason) {
+            return NextResponse.json(
+                { success: false, error: overbooking, requiresOverride: true },
+                { status: 409 }
+            );
+        }
+
+        const session = await getSession(request);
+        // The reason is only kept when the booking actually overbooks
+        const booking = { ...body };
+        delete booking.capacityOverride;
+        delete booking.promoCode;
+        delete booking.discount;
+
+        const promoCode = typeof body.promoCode === 'string' ? body.promoCode.trim() : '';
+        let promotion: { code: string; redemptionId: string; subtotal: number; discount: number } | null = null;
+        if (promoCode) {
+            const customerEmail = typeof body.contactInfo?.email === 'string' ? body.contactInfo.email.trim() : '';
+            if (!customerEmail) {
+                return NextResponse.json(
+                    { success: false, error: "Enter the customer's email to use a promo code" },
+                    { status: 400 }
+                );
+            }
+
+            const pkg = (await fetchBackendRecord(
+                `/api/${packageType === 'tour' ? 'tours' : 'transfers'}/${packageId}`
+            )) as RuleBasedPackage | null;
+            if (!pkg || typeof pkg.newPrice !== 'number') {
+                return NextResponse.json(
+                    { success: false, error: 'Package not found' },
+                    { status: 404 }
+                );
+            }
+
+            const { total: subtotal } = getPriceBreakdown(packageType, pkg, {
+                date,
+                adults,
+                children,
+                holidays: await getHolidayDates(),
+            });
+            const reservation = await reservePromotion(
+                { code: promoCode, packageType, packageId, subtotal, customerEmail },
+                session?.sub ?? 'unknown'
+            );
+            if (!reservation.ok) {
+                return NextResponse.json(
+                    { success: false, error: reservation.error },
+                    { status: reservation.status }
+                );
+            }
+
+            promotion = {
+                code: reservation.promotion.code,
+                redemptionId: reservation.redemptionId,
+                subtotal,
+                discount: reservation.discount,
+            };
+            const total = Math.round((subtotal - reservation.discount) * 100) / 100;
+            Object.assign(booking, {
+                subtotal,
+                promoCode: promotion.code,
+                discount: promotion.discount,
+                total,
+                paymentInfo: { ...(booking.paymentInfo || {}), amount: total },
+            });
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/bookings`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    ...booking,
+                    ...(overbooking
+                    ? {
+                        capacityOverride: {
+                            reason: overrideReason,
+                            message: overbooking,
+                            by: session?.sub,
+                            at: new Date().toISOString(),
+                        },
+                    }
+                    : {}),
+                }),
+            });
+        } catch (error) {
+            if (promotion) await releaseReservation(promotion.redemptionId);
+            throw error;
+        }
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || data.success === false) {
+            if (promotion) await releaseReservation(promotion.redemptionId);
+            return NextResponse.json(
+                { success: false, error: data.error || data.message || 'Failed to create booking' },
+                { status: response.ok ? 500 : response.status }
+            );
+        }
+
+        const created = data.data ?? data.booking ?? data;
+        const bookingId = String(created?._id ?? created?.id ?? '');
+        if (promotion) {
+            await attachRedemption(promotion.redemptionId, bookingId);
+            await recordAudit(request, {
+                action: 'booking.apply-promotion',
+                entityType: 'booking',
+                entityId: bookingId,
+                before: null,
+                after: { code: promotion.code, subtotal: promotion.subtotal, discount: promotion.discount },
+            });
+        }
+        if (overbooking) {
+            await recordAudit(request, {
+                action: 'booking.capacity-override',
+                entityType: 'booking',
+                entityId: bookingId,
+                before: null,
+                after: { packageId, date, time, adults, children, overbooking, reason: overrideReason },
+            });
+        }
+
+        return NextResponse.json(
+            { success: true, data: created },
+            { status: 201 }
+        );
+    } catch (error) {
+        if (error instanceof BackendUnavailableError) {
+            return NextResponse.json(
+                { success: false, error: error.message },
+                { status: 502 }
+            );
+        }
+        console.error('Error creating booking:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create booking' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { recordAudit } from '@/lib/audit';
+import dbConnect from '@/lib/dbConnect';
+import WaitlistEntry from '@/models/WaitlistEntry';
+
+// Close a waiting entry: "promoted" once the customer has been booked (with
+// the new booking's ID), "removed" when they no longer want the departure
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const status = body.status;
+    const bookingId = typeof body.bookingId === 'string' ? body.bookingId.trim() : '';
+
+    if (status !== 'promoted' && status !== 'removed') {
+      return NextResponse.json(
+        { success: false, error: 'status must be promoted or removed' },
+        { status: 400 }
+      );
+    }
+
+    if (status === 'promoted' && !bookingId) {
+      return NextResponse.json(
+        { success: false, error: 'bookingId is required to promote an entry' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Waitlist entry not found' },
+        { status: 404 }
+      );
+    }
+
+    await dbConnect();
+    const before = await WaitlistEntry.findById(id).lean();
+    if (!before) {
+      return NextResponse.json(
+        { success: false, error: 'Waitlist entry not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only a waiting entry can change, so two admins promoting the same
+    // customer cannot both succeed
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      { _id: id, status: 'waiting' },
+      { $set: { status, ...(status === 'promoted' ? { bookingId } : {}) } },
+      { new: true }
+    ).lean();
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'This customer is no longer waiting' },
+        { status: 409 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: status === 'promoted' ? 'waitlist.promote' : 'waitlist.remove',
+      entityType: 'waitlist',
+      entityId: id,
+      before,
+      after: entry,
+    });
+
+    return NextResponse.json({ success: true, entry }, { status: 200 });
+  } catch (error) {
+    console.error('Error updating waitlist entry:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update waitlist entry' },
+      { status: 500 }
+    );
+  }
+}
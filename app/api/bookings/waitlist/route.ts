@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import { normalizeTime } from '@/lib/dateUtils';
+import dbConnect from '@/lib/dbConnect';
+import {
+  validateWaitlistEntry,
+  WAITLIST_STATUSES,
+  WaitlistEntryInput,
+  WaitlistStatus,
+} from '@/lib/waitlist';
+import WaitlistEntry from '@/models/WaitlistEntry';
+
+export const dynamic = 'force-dynamic';
+
+const trimmedString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+function parseWaitlistEntryInput(body: Record<string, unknown>): WaitlistEntryInput {
+  const contactInfo = (body.contactInfo || {}) as Record<string, unknown>;
+  return {
+    packageType: body.packageType as WaitlistEntryInput['packageType'],
+    packageId: trimmedString(body.packageId),
+    date: trimmedString(body.date),
+    time: normalizeTime(trimmedString(body.time)),
+    contactInfo: {
+      name: trimmedString(contactInfo.name),
+      email: trimmedString(contactInfo.email).toLowerCase(),
+      phone: trimmedString(contactInfo.phone),
+    },
+    adults: Number(body.adults),
+    children: Number(body.children || 0),
+    notes: trimmedString(body.notes) || undefined,
+  };
+}
+
+// Waitlist entries for a day, optionally narrowed to one package, time or
+// status; entries are returned in queue order
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date');
+    const packageId = searchParams.get('packageId');
+    const time = searchParams.get('time');
+    const status = searchParams.get('status');
+
+    if (!date) {
+      return NextResponse.json(
+        { success: false, error: 'date is required' },
+        { status: 400 }
+      );
+    }
+
+    const filter: Record<string, unknown> = { date };
+    if (packageId) filter.packageId = packageId;
+    if (time) filter.time = normalizeTime(time);
+    if (status) {
+      if (!WAITLIST_STATUSES.includes(status as WaitlistStatus)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid status' },
+          { status: 400 }
+        );
+      }
+      filter.status = status;
+    }
+
+    await dbConnect();
+    const entries = await WaitlistEntry.find(filter).sort({ createdAt: 1 }).lean();
+
+    return NextResponse.json({ success: true, entries }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching waitlist:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch waitlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseWaitlistEntryInput(await request.json());
+    const validationError = validateWaitlistEntry(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    // The same customer queued twice for a departure would be offered seats twice
+    const contactFilter = input.contactInfo.email
+      ? { 'contactInfo.email': input.contactInfo.email }
+      : { 'contactInfo.phone': input.contactInfo.phone };
+    const duplicate = await WaitlistEntry.exists({
+      packageId: input.packageId,
+      date: input.date,
+      time: input.time,
+      status: 'waiting',
+      ...contactFilter,
+    });
+    if (duplicate) {
+      return NextResponse.json(
+        { success: false, error: 'This customer is already on the waitlist for this departure' },
+        { status: 409 }
+      );
+    }
+
+    const session = await getSession(request);
+    const entry = await WaitlistEntry.create({
+      ...input,
+      status: 'waiting',
+      addedBy: session?.sub ?? 'unknown',
+    });
+
+    await recordAudit(request, {
+      action: 'waitlist.create',
+      entityType: 'waitlist',
+      entityId: String(entry._id),
+      before: null,
+      after: entry.toObject(),
+    });
+
+    return NextResponse.json({ success: true, entry }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding to waitlist:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add to waitlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchBackendBookings } from '@/lib/bookings';
+import { buildCustomerDirectory, CustomerBooking } from '@/lib/customers';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const customerId = decodeURIComponent(id);
+
+        const bookings = await fetchBackendBookings<CustomerBooking>();
+        const customer = buildCustomerDirectory(bookings).find(
+            (c) => c.id === customerId
+        );
+
+        if (!customer) {
+            return NextResponse.json(
+                { success: false, error: 'Customer not found' },
+                { status: 404 }
+            );
+        }
+
+        const bookingIds = new Set(customer.bookingIds);
+        const customerBookings = bookings
+            .filter((booking) => bookingIds.has(booking._id))
+            .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+
+        return NextResponse.json(
+            { success: true, customer, bookings: customerBookings },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error fetching customer:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch customer' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchBackendBookings } from '@/lib/bookings';
+import {
+    buildCustomerDirectory,
+    CustomerBooking,
+    matchesCustomerSearch,
+} from '@/lib/customers';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export async function GET(request: NextRequest) {
+    try {
+        const searchParams = request.nextUrl.searchParams;
+        const search = searchParams.get('search') || '';
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+        const limit = Math.min(
+            100,
+            Math.max(1, parseInt(searchParams.get('limit') || `${DEFAULT_PAGE_SIZE}`, 10) || DEFAULT_PAGE_SIZE)
+        );
+
+        const bookings = await fetchBackendBookings<CustomerBooking>();
+        const customers = buildCustomerDirectory(bookings).filter((customer) =>
+            matchesCustomerSearch(customer, search)
+        );
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: customers.slice((page - 1) * limit, page * limit),
+                pagination: {
+                    page,
+                    limit,
+                    total: customers.length,
+                    pages: Math.max(1, Math.ceil(customers.length / limit)),
+                },
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error fetching customers:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch customers' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import DepartureAssignment from "@/models/DepartureAssignment";
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: "Assignment not found",
+    },
+    { status: 404 }
+  );
+
+// Unassign a vehicle and/or driver from a departure
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const assignment = await DepartureAssignment.findByIdAndDelete(id).lean();
+    if (!assignment) return notFound();
+
+    await recordAudit(request, {
+      action: "assignment.delete",
+      entityType: "assignment",
+      entityId: id,
+      before: assignment,
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, message: "Assignment removed" });
+  } catch (error) {
+    console.error("Error deleting departure assignment:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to remove assignment",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import { getSession } from "@/lib/auth";
+import dbConnect from "@/lib/dbConnect";
+import { validateDepartureAssignment } from "@/lib/fleet";
+import { getDayAssignments, parseDepartureAssignmentInput } from "@/lib/fleetRecords";
+import DepartureAssignment from "@/models/DepartureAssignment";
+import Driver from "@/models/Driver";
+import FleetVehicle from "@/models/FleetVehicle";
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A day's assignments, optionally narrowed to one departure, with the
+// conflicts of each keyed by assignment id
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const date = searchParams.get("date") || "";
+    const packageId = searchParams.get("packageId") || undefined;
+    const time = searchParams.get("time") || undefined;
+
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "date (YYYY-MM-DD) is required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { assignments, conflicts } = await getDayAssignments(date, { packageId, time });
+
+    return NextResponse.json({ success: true, assignments, conflicts });
+  } catch (error) {
+    console.error("Error fetching departure assignments:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch assignments",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Conflicts are returned with the new assignment rather than blocking it
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseDepartureAssignmentInput(await request.json());
+    const validationError = validateDepartureAssignment(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (input.vehicleId && !isValidObjectId(input.vehicleId)) ||
+      (input.driverId && !isValidObjectId(input.driverId))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Vehicle or driver not found",
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const [vehicle, driver] = await Promise.all([
+      input.vehicleId ? FleetVehicle.exists({ _id: input.vehicleId }) : true,
+      input.driverId ? Driver.exists({ _id: input.driverId }) : true,
+    ]);
+    if (!vehicle || !driver) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Vehicle or driver not found",
+        },
+        { status: 400 }
+      );
+    }
+
+    const departure = {
+      packageId: input.packageId,
+      date: input.date,
+      time: input.time,
+    };
+    const alreadyAssigned = await DepartureAssignment.exists({
+      ...departure,
+      $or: [
+        ...(input.vehicleId ? [{ vehicleId: input.vehicleId }] : []),
+        ...(input.driverId ? [{ driverId: input.driverId }] : []),
+      ],
+    });
+    if (alreadyAssigned) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "This vehicle or driver is already assigned to this departure",
+        },
+        { status: 409 }
+      );
+    }
+
+    const session = await getSession(request);
+    const assignment = await DepartureAssignment.create({
+      ...input,
+      assignedBy: session?.sub ?? "unknown",
+    });
+    const { conflicts } = await getDayAssignments(input.date, departure);
+
+    await recordAudit(request, {
+      action: "assignment.create",
+      entityType: "assignment",
+      entityId: String(assignment._id),
+      before: null,
+      after: assignment.toObject(),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        assignment,
+        conflicts: conflicts[String(assignment._id)] || [],
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating departure assignment:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create assignment",
+      },
+      { status: 500 }
+    );
+  }
+}
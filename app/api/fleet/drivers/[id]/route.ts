@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import { formatDateAsMYT, getMalaysianNow } from "@/lib/dateUtils";
+import dbConnect from "@/lib/dbConnect";
+import { validateDriver } from "@/lib/fleet";
+import { isDuplicateKeyError, parseDriverInput } from "@/lib/fleetRecords";
+import DepartureAssignment from "@/models/DepartureAssignment";
+import Driver from "@/models/Driver";
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: "Driver not found",
+    },
+    { status: 404 }
+  );
+
+// Replace a driver's details
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const input = parseDriverInput(await request.json());
+    const validationError = validateDriver(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const before = await Driver.findById(id).lean();
+    if (!before) return notFound();
+
+    // Cleared optional fields are removed rather than stored as null
+    const { email, notes, ...fields } = input;
+    const driver = await Driver.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          ...fields,
+          ...(email ? { email } : {}),
+          ...(notes ? { notes } : {}),
+        },
+        $unset: {
+          ...(email ? {} : { email: 1 }),
+          ...(notes ? {} : { notes: 1 }),
+        },
+      },
+      { new: true, runValidators: true }
+    ).lean();
+
+    await recordAudit(request, {
+      action: "driver.update",
+      entityType: "driver",
+      entityId: id,
+      before,
+      after: driver,
+    });
+
+    return NextResponse.json({ success: true, driver });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "A driver with this license number already exists",
+        },
+        { status: 409 }
+      );
+    }
+    console.error("Error updating driver:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update driver",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Drivers with upcoming assignments are kept; mark them unavailable instead
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const upcoming = await DepartureAssignment.countDocuments({
+      driverId: id,
+      date: { $gte: formatDateAsMYT(getMalaysianNow()) },
+    });
+    if (upcoming > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This driver is assigned to ${upcoming} upcoming departure${upcoming === 1 ? "" : "s"}. Reassign them or mark the driver unavailable.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const driver = await Driver.findByIdAndDelete(id).lean();
+    if (!driver) return notFound();
+
+    await recordAudit(request, {
+      action: "driver.delete",
+      entityType: "driver",
+      entityId: id,
+      before: driver,
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, message: "Driver deleted" });
+  } catch (error) {
+    console.error("Error deleting driver:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete driver",
+      },
+      { status: 500 }
+    );
+  }
+}
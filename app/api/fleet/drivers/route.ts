@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import { validateDriver } from "@/lib/fleet";
+import { isDuplicateKeyError, parseDriverInput } from "@/lib/fleetRecords";
+import Driver from "@/models/Driver";
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    await dbConnect();
+    const drivers = await Driver.find({}).sort({ name: 1 }).lean();
+
+    return NextResponse.json({ success: true, drivers });
+  } catch (error) {
+    console.error("Error fetching drivers:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch drivers",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseDriverInput(await request.json());
+    const validationError = validateDriver(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const driver = await Driver.create(input);
+
+    await recordAudit(request, {
+      action: "driver.create",
+      entityType: "driver",
+      entityId: String(driver._id),
+      before: null,
+      after: driver.toObject(),
+    });
+
+    return NextResponse.json({ success: true, driver }, { status: 201 });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "A driver with this license number already exists",
+        },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating driver:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create driver",
+      },
+      { status: 500 }
+    );
+  }
+}
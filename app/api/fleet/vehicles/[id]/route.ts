@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import { formatDateAsMYT, getMalaysianNow } from "@/lib/dateUtils";
+import dbConnect from "@/lib/dbConnect";
+import { validateFleetVehicle } from "@/lib/fleet";
+import { isDuplicateKeyError, parseFleetVehicleInput } from "@/lib/fleetRecords";
+import DepartureAssignment from "@/models/DepartureAssignment";
+import FleetVehicle from "@/models/FleetVehicle";
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: "Vehicle not found",
+    },
+    { status: 404 }
+  );
+
+// Replace a vehicle's details, maintenance windows and availability
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const input = parseFleetVehicleInput(await request.json());
+    const validationError = validateFleetVehicle(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const before = await FleetVehicle.findById(id).lean();
+    if (!before) return notFound();
+
+    // A cleared description is removed rather than stored as null
+    const { description, ...fields } = input;
+    const vehicle = await FleetVehicle.findByIdAndUpdate(
+      id,
+      {
+        $set: { ...fields, ...(description ? { description } : {}) },
+        $unset: description ? {} : { description: 1 },
+      },
+      { new: true, runValidators: true }
+    ).lean();
+
+    await recordAudit(request, {
+      action: "vehicle.update",
+      entityType: "vehicle",
+      entityId: id,
+      before,
+      after: vehicle,
+    });
+
+    return NextResponse.json({ success: true, vehicle });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "A vehicle with this plate number already exists",
+        },
+        { status: 409 }
+      );
+    }
+    console.error("Error updating fleet vehicle:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update vehicle",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vehicles with upcoming assignments are kept; mark them unavailable instead
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const upcoming = await DepartureAssignment.countDocuments({
+      vehicleId: id,
+      date: { $gte: formatDateAsMYT(getMalaysianNow()) },
+    });
+    if (upcoming > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This vehicle is assigned to ${upcoming} upcoming departure${upcoming === 1 ? "" : "s"}. Reassign them or mark the vehicle unavailable.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const vehicle = await FleetVehicle.findByIdAndDelete(id).lean();
+    if (!vehicle) return notFound();
+
+    await recordAudit(request, {
+      action: "vehicle.delete",
+      entityType: "vehicle",
+      entityId: id,
+      before: vehicle,
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, message: "Vehicle deleted" });
+  } catch (error) {
+    console.error("Error deleting fleet vehicle:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete vehicle",
+      },
+      { status: 500 }
+    );
+  }
+}
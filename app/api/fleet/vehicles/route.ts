@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import { validateFleetVehicle } from "@/lib/fleet";
+import { isDuplicateKeyError, parseFleetVehicleInput } from "@/lib/fleetRecords";
+import FleetVehicle from "@/models/FleetVehicle";
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// The whole fleet, grouped by vehicle type
+export async function GET() {
+  try {
+    await dbConnect();
+    const vehicles = await FleetVehicle.find({}).sort({ vehicleType: 1, plateNumber: 1 }).lean();
+
+    return NextResponse.json({ success: true, vehicles });
+  } catch (error) {
+    console.error("Error fetching fleet vehicles:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch vehicles",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseFleetVehicleInput(await request.json());
+    const validationError = validateFleetVehicle(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const vehicle = await FleetVehicle.create(input);
+
+    await recordAudit(request, {
+      action: "vehicle.create",
+      entityType: "vehicle",
+      entityId: String(vehicle._id),
+      before: null,
+      after: vehicle.toObject(),
+    });
+
+    return NextResponse.json({ success: true, vehicle }, { status: 201 });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "A vehicle with this plate number already exists",
+        },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating fleet vehicle:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create vehicle",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import { isBundledHolidayDate } from "@/lib/holidayCalendar";
+import HolidayOverride from "@/models/HolidayOverride";
+
+// Drop the edits to a bundled holiday so the shipped name and date apply again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+
+    if (!isBundledHolidayDate(date)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Only bundled holidays can be restored",
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const before = await HolidayOverride.findOneAndDelete({ date }).lean();
+
+    if (before) {
+      await recordAudit(request, {
+        action: "holiday.restore",
+        entityType: "holiday",
+        entityId: date,
+        before,
+        after: null,
+      });
+    }
+
+    return NextResponse.json({ success: true, message: "Holiday restored" });
+  } catch (error) {
+    console.error("Error restoring holiday:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to restore holiday",
+      },
+      { status: 500 }
+    );
+  }
+}
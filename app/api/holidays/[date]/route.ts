@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { getSession } from "@/lib/auth";
+import dbConnect from "@/lib/dbConnect";
+import { isBundledHolidayDate } from "@/lib/holidayCalendar";
+import { HolidayScope, isHolidayDate, validateHoliday } from "@/lib/holidays";
+import HolidayOverride from "@/models/HolidayOverride";
+
+const invalidDate = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: "Date must be YYYY-MM-DD",
+    },
+    { status: 400 }
+  );
+
+// Add a holiday on this date, or rename or re-scope the one already there
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+    const body = await request.json();
+    const holiday = {
+      date,
+      name: typeof body.name === "string" ? body.name.trim() : "",
+      scope: body.scope as HolidayScope,
+    };
+
+    const validationError = validateHoliday(holiday);
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const session = await getSession(request);
+    const before = await HolidayOverride.findOne({ date }).lean();
+    const override = await HolidayOverride.findOneAndUpdate(
+      { date },
+      {
+        $set: {
+          name: holiday.name,
+          scope: holiday.scope,
+          removed: false,
+          updatedBy: session?.sub ?? "unknown",
+        },
+      },
+      { new: true, upsert: true, runValidators: true }
+    ).lean();
+
+    await recordAudit(request, {
+      action: "holiday.update",
+      entityType: "holiday",
+      entityId: date,
+      before,
+      after: override,
+    });
+
+    return NextResponse.json({ success: true, holiday });
+  } catch (error) {
+    console.error("Error saving holiday:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to save holiday",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Take this date off the calendar
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+    if (!isHolidayDate(date)) return invalidDate();
+
+    await dbConnect();
+    const session = await getSession(request);
+    const before = await HolidayOverride.findOne({ date }).lean();
+
+    // Bundled holidays are hidden with a marker; custom ones are just deleted
+    if (isBundledHolidayDate(date)) {
+      await HolidayOverride.updateOne(
+        { date },
+        { $set: { removed: true, updatedBy: session?.sub ?? "unknown" } },
+        { upsert: true }
+      );
+    } else if (before) {
+      await HolidayOverride.deleteOne({ date });
+    } else {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "No holiday on this date",
+        },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, {
+      action: "holiday.delete",
+      entityType: "holiday",
+      entityId: date,
+      before,
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, message: "Holiday removed" });
+  } catch (error) {
+    console.error("Error removing holiday:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to remove holiday",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHolidayCalendar } from "@/lib/holidayCalendar";
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// The holiday calendar, optionally for one year
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const year = Number(searchParams.get("year")) || undefined;
+    const includeRemoved = searchParams.get("includeRemoved") === "true";
+
+    const holidays = await getHolidayCalendar({ year, includeRemoved });
+
+    return NextResponse.json({ success: true, holidays });
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch holidays",
+      },
+      { status: 500 }
+    );
+  }
+}
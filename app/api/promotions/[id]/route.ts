@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { recordAudit } from '@/lib/audit';
+import dbConnect from '@/lib/dbConnect';
+import { parsePromotionInput } from '@/lib/promotionRedemptions';
+import { validatePromotionInput } from '@/lib/promotions';
+import Promotion from '@/models/Promotion';
+import PromotionRedemption from '@/models/PromotionRedemption';
+
+// Replace a promotion's settings; usage so far is kept
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const input = parsePromotionInput(await request.json());
+        const validationError = validatePromotionInput(input);
+
+        if (validationError) {
+            return NextResponse.json(
+                { success: false, error: validationError },
+                { status: 400 }
+            );
+        }
+
+        if (!isValidObjectId(id)) {
+            return NextResponse.json(
+                { success: false, error: 'Promotion not found' },
+                { status: 404 }
+            );
+        }
+
+        await dbConnect();
+        const before = await Promotion.findById(id).lean();
+        if (!before) {
+            return NextResponse.json(
+                { success: false, error: 'Promotion not found' },
+                { status: 404 }
+            );
+        }
+
+        if (input.code !== before.code && (await Promotion.exists({ code: input.code }))) {
+            return NextResponse.json(
+                { success: false, error: `The code ${input.code} already exists` },
+                { status: 409 }
+            );
+        }
+
+        // Cleared optional fields are removed rather than stored as null
+        const unset = Object.fromEntries(
+            Object.entries(input)
+                .filter(([, value]) => value === undefined)
+                .map(([key]) => [key, 1])
+        );
+        const promotion = await Promotion.findByIdAndUpdate(
+            id,
+            { $set: input, ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}) },
+            { new: true, runValidators: true }
+        ).lean();
+
+        await recordAudit(request, {
+            action: 'promotion.update',
+            entityType: 'promotion',
+            entityId: id,
+            before,
+            after: promotion,
+        });
+
+        return NextResponse.json(
+            { success: true, promotion },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error updating promotion:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update promotion' },
+            { status: 500 }
+        );
+    }
+}
+
+// Only unused promotions can be deleted; used ones keep the usage report intact
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+
+        if (!isValidObjectId(id)) {
+            return NextResponse.json(
+                { success: false, error: 'Promotion not found' },
+                { status: 404 }
+            );
+        }
+
+        await dbConnect();
+        const promotion = await Promotion.findById(id).lean();
+        if (!promotion) {
+            return NextResponse.json(
+                { success: false, error: 'Promotion not found' },
+                { status: 404 }
+            );
+        }
+
+        if (await PromotionRedemption.exists({ promotionId: promotion._id })) {
+            return NextResponse.json(
+                { success: false, error: 'This code has been used. Deactivate it instead.' },
+                { status: 409 }
+            );
+        }
+
+        await Promotion.deleteOne({ _id: promotion._id });
+
+        await recordAudit(request, {
+            action: 'promotion.delete',
+            entityType: 'promotion',
+            entityId: id,
+            before: promotion,
+            after: null,
+        });
+
+        return NextResponse.json(
+            { success: true, message: 'Promotion deleted successfully' },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error deleting promotion:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete promotion' },
+            { status: 500 }
+        );
+    }
+}
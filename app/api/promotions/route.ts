@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordAudit } from '@/lib/audit';
+import { getSession } from '@/lib/auth';
+import dbConnect from '@/lib/dbConnect';
+import { getPromotionUsage, parsePromotionInput } from '@/lib/promotionRedemptions';
+import { validatePromotionInput } from '@/lib/promotions';
+import Promotion from '@/models/Promotion';
+
+// All promotions with how many bookings and how much revenue each produced
+export async function GET() {
+    try {
+        await dbConnect();
+        const promotions = await Promotion.find({}).sort({ createdAt: -1 }).lean();
+        const usage = await getPromotionUsage(promotions.map((promotion) => String(promotion._id)));
+
+        return NextResponse.json(
+            {
+                success: true,
+                promotions: promotions.map((promotion) => ({
+                    ...promotion,
+                    usage: usage[String(promotion._id)] || { bookings: 0, revenue: 0, discount: 0 },
+                })),
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error fetching promotions:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch promotions' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const input = parsePromotionInput(await request.json());
+        const validationError = validatePromotionInput(input);
+
+        if (validationError) {
+            return NextResponse.json(
+                { success: false, error: validationError },
+                { status: 400 }
+            );
+        }
+
+        await dbConnect();
+
+        if (await Promotion.exists({ code: input.code })) {
+            return NextResponse.json(
+                { success: false, error: `The code ${input.code} already exists` },
+                { status: 409 }
+            );
+        }
+
+        const session = await getSession(request);
+        const promotion = await Promotion.create({
+            ...input,
+            createdBy: session?.sub ?? 'unknown',
+        });
+
+        await recordAudit(request, {
+            action: 'promotion.create',
+            entityType: 'promotion',
+            entityId: String(promotion._id),
+            before: null,
+            after: promotion.toObject(),
+        });
+
+        return NextResponse.json(
+            { success: true, promotion },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Error creating promotion:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create promotion' },
+            { status: 500 }
+        );
+    }
+}
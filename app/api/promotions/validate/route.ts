@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkPromotion, isPromotionPackageType } from '@/lib/promotionRedemptions';
+
+// Check a code against a booking that is being made and return its discount
+export async function POST(request: NextRequest) {
+    try {
+        const { code, packageType, packageId, subtotal, customerEmail } = await request.json();
+
+        if (
+            typeof code !== 'string' ||
+            !code.trim() ||
+            !isPromotionPackageType(packageType) ||
+            typeof packageId !== 'string' ||
+            !(Number(subtotal) >= 0)
+        ) {
+            return NextResponse.json(
+                { success: false, error: 'Code, package and subtotal are required' },
+                { status: 400 }
+            );
+        }
+
+        const result = await checkPromotion({
+            code,
+            packageType,
+            packageId,
+            subtotal: Number(subtotal),
+            customerEmail: typeof customerEmail === 'string' ? customerEmail : undefined,
+        });
+
+        if (!result.ok) {
+            return NextResponse.json(
+                { success: false, error: result.error },
+                { status: result.status }
+            );
+        }
+
+        const { promotion, discount } = result;
+        return NextResponse.json(
+            {
+                success: true,
+                promotion: {
+                    code: promotion.code,
+                    description: promotion.description,
+                    discountType: promotion.discountType,
+                    discountValue: promotion.discountValue,
+                    maxDiscount: promotion.maxDiscount,
+                },
+                discount,
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Error validating promo code:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to validate promo code' },
+            { status: 500 }
+        );
+    }
+}
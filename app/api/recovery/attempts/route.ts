@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import RecoveryAttempt, { RECOVERY_MODES, RecoveryMode } from "@/models/RecoveryAttempt";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const search = searchParams.get("search")?.trim();
+    const outcome = searchParams.get("outcome");
+    const mode = searchParams.get("mode");
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const limit = Math.min(
+      100,
+      Math.max(1, parseInt(searchParams.get("limit") || `${DEFAULT_PAGE_SIZE}`, 10) || DEFAULT_PAGE_SIZE)
+    );
+
+    const filter: Record<string, unknown> = {};
+    if (outcome === "success") filter.success = true;
+    if (outcome === "failed") filter.success = false;
+    if (mode && RECOVERY_MODES.includes(mode as RecoveryMode)) filter.mode = mode;
+
+    // Payment intent, booking, customer email or admin
+    if (search) {
+      const pattern = new RegExp(escapeRegExp(search), "i");
+      filter.$or = [
+        { paymentIntentId: pattern },
+        { bookingId: pattern },
+        { customerEmail: pattern },
+        { actor: pattern },
+      ];
+    }
+
+    await dbConnect();
+    const [attempts, total] = await Promise.all([
+      RecoveryAttempt.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      RecoveryAttempt.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      attempts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.max(1, Math.ceil(total / limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching recovery attempts:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch recovery history" },
+      { status: 500 }
+    );
+  }
+}
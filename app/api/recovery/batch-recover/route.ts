@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import type { BatchRecoveryResult } from "@/lib/recoveryApi";
+import {
+  fetchPaymentDetails,
+  getPaymentSummary,
+  recordRecoveryAttempts,
+  RecoveryAttemptEntry,
+} from "@/lib/recoveryAttempts";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { paymentIntentIds } = await request.json();
+
+    if (!Array.isArray(paymentIntentIds) || paymentIntentIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Missing required field: paymentIntentIds" },
+        { status: 400 }
+      );
+    }
+
+    const snapshots = await Promise.all(
+      paymentIntentIds.map((id: string) => fetchPaymentDetails(id))
+    );
+
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/recovery/batch-recover`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ paymentIntentIds }),
+      }
+    );
+
+    const data: BatchRecoveryResult = await response.json();
+
+    if (Array.isArray(data.results)) {
+      await recordRecoveryAttempts(
+        request,
+        data.results.map((result): RecoveryAttemptEntry => {
+          const paymentDetails =
+            snapshots[paymentIntentIds.indexOf(result.paymentIntentId)] ?? null;
+          return {
+            paymentIntentId: result.paymentIntentId,
+            mode: "batch",
+            success: result.success,
+            bookingId: result.bookingId,
+            message: result.message,
+            error: result.error,
+            ...getPaymentSummary(paymentDetails),
+            paymentDetails,
+          };
+        })
+      );
+    }
+
+    // One entry per recovered payment so each booking has its own trail
+    if (response.ok && Array.isArray(data.results)) {
+      for (const result of data.results.filter((r) => r.success)) {
+        await recordAudit(request, {
+          action: "payment.batch-recover",
+          entityType: "payment",
+          entityId: result.paymentIntentId,
+          before: null,
+          after: { bookingId: result.bookingId, message: result.message },
+        });
+      }
+    }
+
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error("Error batch recovering payments:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
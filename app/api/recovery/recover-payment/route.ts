@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import {
+  fetchPaymentDetails,
+  getPaymentSummary,
+  recordRecoveryAttempts,
+} from "@/lib/recoveryAttempts";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { paymentIntentId } = await request.json();
+
+    if (!paymentIntentId) {
+      return NextResponse.json(
+        { success: false, error: "Missing required field: paymentIntentId" },
+        { status: 400 }
+      );
+    }
+
+    const paymentDetails = await fetchPaymentDetails(paymentIntentId);
+
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/recovery/recover-payment`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ paymentIntentId }),
+      }
+    );
+
+    const data = await response.json();
+    const success = response.ok && !!data.success;
+
+    await recordRecoveryAttempts(request, [
+      {
+        paymentIntentId,
+        mode: "single",
+        success,
+        bookingId: data.bookingId,
+        alreadyExists: data.alreadyExists,
+        message: data.message,
+        error: success ? undefined : data.error || `HTTP ${response.status}`,
+        ...getPaymentSummary(paymentDetails),
+        paymentDetails,
+      },
+    ]);
+
+    if (success) {
+      await recordAudit(request, {
+        action: "payment.recover",
+        entityType: "payment",
+        entityId: paymentIntentId,
+        before: null,
+        after: {
+          bookingId: data.bookingId,
+          amount: data.amount,
+          currency: data.currency,
+          customerEmail: data.customerEmail,
+          alreadyExists: data.alreadyExists,
+        },
+      });
+    }
+
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error("Error recovering payment:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
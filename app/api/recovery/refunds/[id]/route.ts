@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import Refund from "@/models/Refund";
+
+// Settle a requested manual refund once the money has (or has not) gone out
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const status = body.status;
+    const reference = typeof body.reference === "string" ? body.reference.trim() : "";
+
+    if (status !== "processed" && status !== "failed") {
+      return NextResponse.json(
+        { success: false, error: "status must be processed or failed" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, error: "Refund not found" },
+        { status: 404 }
+      );
+    }
+
+    await dbConnect();
+    const refund = await Refund.findById(id);
+
+    if (!refund) {
+      return NextResponse.json(
+        { success: false, error: "Refund not found" },
+        { status: 404 }
+      );
+    }
+
+    // Stripe refunds are settled by Stripe, not by hand
+    if (refund.method === "stripe" || refund.status !== "requested") {
+      return NextResponse.json(
+        { success: false, error: "Only requested manual refunds can be updated" },
+        { status: 409 }
+      );
+    }
+
+    const before = { status: refund.status, reference: refund.reference };
+    refund.status = status;
+    if (reference) refund.reference = reference;
+    if (status === "processed") refund.processedAt = new Date();
+    await refund.save();
+
+    await recordAudit(request, {
+      action: "payment.refund-update",
+      entityType: "booking",
+      entityId: refund.bookingId,
+      before,
+      after: { status, reference: refund.reference },
+    });
+
+    return NextResponse.json({ success: true, refund });
+  } catch (error) {
+    console.error("Error updating refund:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update refund" },
+      { status: 500 }
+    );
+  }
+}
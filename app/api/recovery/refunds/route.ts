@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BackendUnavailableError, fetchBackendRecord, recordAudit } from "@/lib/audit";
+import { getSession } from "@/lib/auth";
+import dbConnect from "@/lib/dbConnect";
+import {
+  acquireRefundLock,
+  getRemainingRefundable,
+  releaseRefundLock,
+  submitStripeRefund,
+  syncStripeRefunds,
+} from "@/lib/refundRecords";
+import { isRefundMethod, isRefundStatus } from "@/lib/refunds";
+import Refund from "@/models/Refund";
+
+export const dynamic = "force-dynamic";
+
+interface RefundableBooking {
+  total?: number;
+  paymentInfo?: {
+    amount?: number;
+    paymentIntentId?: string;
+    stripePaymentIntentId?: string;
+  };
+  stripePaymentIntentId?: string;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const bookingIds = searchParams.get("bookingIds");
+    const status = searchParams.get("status");
+
+    const filter: Record<string, unknown> = {};
+    if (bookingIds) filter.bookingId = { $in: bookingIds.split(",").filter(Boolean) };
+    if (status && isRefundStatus(status)) filter.status = status;
+
+    await dbConnect();
+    // Pending card refunds settle on Stripe's side; pick that up on each load
+    const synced = await syncStripeRefunds(
+      await Refund.find(filter).sort({ createdAt: -1 }).limit(500).lean()
+    );
+    const refunds = filter.status ? synced.filter((refund) => refund.status === filter.status) : synced;
+
+    return NextResponse.json({ success: true, refunds });
+  } catch (error) {
+    console.error("Error fetching refunds:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue a Stripe refund or record a manual (bank transfer / cash) refund
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const bookingId = typeof body.bookingId === "string" ? body.bookingId.trim() : "";
+    const amount = Math.round(Number(body.amount) * 100) / 100;
+    const method = body.method;
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+    const reference = typeof body.reference === "string" ? body.reference.trim() : "";
+
+    if (!bookingId || !isRefundMethod(method) || !(amount > 0)) {
+      return NextResponse.json(
+        { success: false, error: "bookingId, a valid method and a positive amount are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!reason) {
+      return NextResponse.json(
+        { success: false, error: "A refund reason is required" },
+        { status: 400 }
+      );
+    }
+
+    const booking = (await fetchBackendRecord(
+      `/api/bookings/${bookingId}`
+    )) as RefundableBooking | null;
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    // Card refunds only ever go back to the payment the booking was made with
+    const paymentIntentId =
+      booking.paymentInfo?.paymentIntentId ||
+      booking.paymentInfo?.stripePaymentIntentId ||
+      booking.stripePaymentIntentId;
+
+    if (method === "stripe" && !paymentIntentId) {
+      return NextResponse.json(
+        { success: false, error: "This booking has no card payment to refund" },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(request);
+    // Manual refunds may be recorded before the money has actually been sent
+    const manualStatus = body.status === "requested" ? "requested" : "processed";
+
+    const lockToken = await acquireRefundLock(bookingId);
+    if (!lockToken) {
+      return NextResponse.json(
+        { success: false, error: "Another refund for this booking is in progress, try again" },
+        { status: 409 }
+      );
+    }
+
+    // The created refund counts against the balance as soon as the lock is released
+    let refund;
+    try {
+      const paid = booking.paymentInfo?.amount ?? booking.total ?? 0;
+      const remaining = await getRemainingRefundable(bookingId, paid);
+      if (amount > remaining + 0.001) {
+        return NextResponse.json(
+          { success: false, error: `Only RM ${Math.max(0, remaining).toFixed(2)} is left to refund on this booking` },
+          { status: 409 }
+        );
+      }
+
+      refund = await Refund.create({
+        bookingId,
+        paymentIntentId,
+        amount,
+        method,
+        status: method === "stripe" ? "requested" : manualStatus,
+        reason,
+        reference: reference || undefined,
+        requestedBy: session?.sub ?? "unknown",
+        processedAt: method !== "stripe" && manualStatus === "processed" ? new Date() : undefined,
+      });
+    } finally {
+      await releaseRefundLock(bookingId, lockToken);
+    }
+
+    if (method === "stripe") {
+      refund.set(await submitStripeRefund(refund));
+      await refund.save();
+    }
+
+    await recordAudit(request, {
+      action: "payment.refund",
+      entityType: "booking",
+      entityId: bookingId,
+      before: null,
+      after: {
+        refundId: refund._id.toString(),
+        amount,
+        method,
+        status: refund.status,
+        reason,
+      },
+    });
+
+    if (refund.status === "failed") {
+      return NextResponse.json(
+        { success: false, error: refund.error || "Refund failed", refund },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, refund }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error("Error creating refund:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create refund" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { getRecoveryPolicy } from "@/lib/recoveryScheduler";
+import RecoveryScan from "@/models/RecoveryScan";
+
+export const dynamic = "force-dynamic";
+
+// Recent finished scans; the newest one drives the Recovery nav badge
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 10, 1), 50);
+
+    await dbConnect();
+    const scans = await RecoveryScan.find({ finishedAt: { $exists: true } })
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      scans,
+      needsAttention: scans[0]?.needsAttentionCount ?? 0,
+      policy: getRecoveryPolicy(),
+    });
+  } catch (error) {
+    console.error("Error fetching recovery scans:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch recovery scans" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import { validateSlotClosureInput } from "@/lib/slotClosures";
+import { parseSlotClosureInput } from "@/lib/slotClosureRules";
+import SlotClosure from "@/models/SlotClosure";
+
+const notFound = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: "Slot closure rule not found",
+    },
+    { status: 404 }
+  );
+
+// Replace a rule's settings
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const input = parseSlotClosureInput(await request.json());
+    const validationError = validateSlotClosureInput(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const before = await SlotClosure.findById(id).lean();
+    if (!before) return notFound();
+
+    // Cleared optional dates are removed rather than stored as null
+    const { startsOn, endsOn, ...fields } = input;
+    const rule = await SlotClosure.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          ...fields,
+          ...(startsOn ? { startsOn } : {}),
+          ...(endsOn ? { endsOn } : {}),
+        },
+        $unset: {
+          ...(startsOn ? {} : { startsOn: 1 }),
+          ...(endsOn ? {} : { endsOn: 1 }),
+        },
+      },
+      { new: true, runValidators: true }
+    ).lean();
+
+    await recordAudit(request, {
+      action: "slot-closure.update",
+      entityType: "slot-closure",
+      entityId: id,
+      before,
+      after: rule,
+    });
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error("Error updating slot closure rule:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update slot closure rule",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!isValidObjectId(id)) return notFound();
+
+    await dbConnect();
+    const rule = await SlotClosure.findByIdAndDelete(id).lean();
+    if (!rule) return notFound();
+
+    await recordAudit(request, {
+      action: "slot-closure.delete",
+      entityType: "slot-closure",
+      entityId: id,
+      before: rule,
+      after: null,
+    });
+
+    return NextResponse.json({ success: true, message: "Slot closure rule deleted" });
+  } catch (error) {
+    console.error("Error deleting slot closure rule:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete slot closure rule",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit";
+import { getSession } from "@/lib/auth";
+import dbConnect from "@/lib/dbConnect";
+import { slotClosureAppliesToPackage, validateSlotClosureInput } from "@/lib/slotClosures";
+import { isSlotClosurePackageType, parseSlotClosureInput } from "@/lib/slotClosureRules";
+import SlotClosure from "@/models/SlotClosure";
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// All closure rules, or only those covering one package when packageType and packageId are given
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const packageType = searchParams.get("packageType");
+    const packageId = searchParams.get("packageId");
+
+    await dbConnect();
+    const rules = await SlotClosure.find({}).sort({ createdAt: -1 }).lean();
+
+    return NextResponse.json({
+      success: true,
+      rules:
+        isSlotClosurePackageType(packageType) && packageId
+          ? rules.filter((rule) => slotClosureAppliesToPackage(rule, packageType, packageId))
+          : rules,
+    });
+  } catch (error) {
+    console.error("Error fetching slot closure rules:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch slot closure rules",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = parseSlotClosureInput(await request.json());
+    const validationError = validateSlotClosureInput(input);
+
+    if (validationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validationError,
+        },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+    const session = await getSession(request);
+    const rule = await SlotClosure.create({
+      ...input,
+      createdBy: session?.sub ?? "unknown",
+    });
+
+    await recordAudit(request, {
+      action: "slot-closure.create",
+      entityType: "slot-closure",
+      entityId: String(rule._id),
+      before: null,
+      after: rule.toObject(),
+    });
+
+    return NextResponse.json({ success: true, rule }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating slot closure rule:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create slot closure rule",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
+import { BackendUnavailableError } from "@/lib/audit";
+import { TimeSlotAvailability } from "@/lib/bookingSchedule";
+import { resolveSlotCapacities } from "@/lib/capacityResolver";
+import { getHolidayDates } from "@/lib/holidayCalendar";
+import { applySlotClosures } from "@/lib/slotClosures";
+import {
+  getActiveSlotClosures,
+  isSlotClosurePackageType,
+  resolveSlotClosures,
+} from "@/lib/slotClosureRules";
+
+// One package's slots in the bulk all-by-date response
+interface PackageSlots {
+  packageId: string;
+  packageType?: string;
+  slots?: { time: string; isAvailable: boolean }[];
+}
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -47,9 +64,27 @@ export async function GET(request: NextRequest) {
       }
 
       const data = await response.json();
+      const packages: PackageSlots[] = Array.isArray(data.data) ? data.data : [];
+      const [rules, holidays] =
+        packages.length > 0
+          ? await Promise.all([getActiveSlotClosures(), getHolidayDates()])
+          : [[], []];
+
       return NextResponse.json({
         success: true,
-        data: Array.isArray(data.data) ? data.data : [],
+        data: packages.map((pkgSlots) =>
+          isSlotClosurePackageType(pkgSlots.packageType) && Array.isArray(pkgSlots.slots)
+            ? {
+                ...pkgSlots,
+                slots: applySlotClosures(pkgSlots.slots, rules, {
+                  packageType: pkgSlots.packageType,
+                  packageId: String(pkgSlots.packageId),
+                  date,
+                  holidays,
+                }),
+              }
+            : pkgSlots
+        ),
       });
     }
 
@@ -89,13 +124,26 @@ export async function GET(request: NextRequest) {
     const data = await response.json();
     
     // Ensure we have a consistent format with the slots properly formatted
+    const slots: TimeSlotAvailability[] = Array.isArray(data.data) ? data.data : [];
+    // Closures and capacity are resolved here rather than trusted from the backend
     const formattedData = {
       success: true,
-      data: Array.isArray(data.data) ? data.data : []
+      data: isSlotClosurePackageType(packageType)
+        ? await resolveSlotCapacities(
+            await resolveSlotClosures(slots, { packageType, packageId, date }),
+            { packageType, packageId, date }
+          )
+        : slots
     };
     
     return NextResponse.json(formattedData);
   } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 502 }
+      );
+    }
     console.error("Error fetching time slots:", error);
     return NextResponse.json(
       {
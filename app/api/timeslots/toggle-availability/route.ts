@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { fetchTimeSlotSnapshot, recordAudit, timeSlotEntityId } from "@/lib/audit";
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -18,6 +19,9 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const slot = { packageType, packageId, date, time };
+    const before = await fetchTimeSlotSnapshot(slot);
+
     // Call the backend API to toggle slot availability
     const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://192.168.163.50:3002";
     const response = await fetch(
@@ -49,6 +53,15 @@ export async function PUT(request: NextRequest) {
     }
 
     const data = await response.json();
+
+    await recordAudit(request, {
+      action: "timeslot.toggle-availability",
+      entityType: "timeslot",
+      entityId: timeSlotEntityId(slot),
+      before: before && { isAvailable: before.isAvailable },
+      after: { isAvailable },
+    });
+
     return NextResponse.json(data);
   } catch (error) {
     console.error("Error updating time slot availability:", error);
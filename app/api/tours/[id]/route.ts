@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchBackendSnapshot, recordAudit } from '@/lib/audit';
 
 export async function GET(
     request: NextRequest,
@@ -39,3 +40,92 @@ export async function GET(
         );
     }
 }
+
+// Forward a mutation to the backend and record it in the audit log
+async function mutateTour(
+    request: NextRequest,
+    tourId: string,
+    method: 'PUT' | 'PATCH' | 'DELETE',
+    action: string
+) {
+    const body = method === 'DELETE' ? undefined : await request.text();
+    const before = await fetchBackendSnapshot(`/api/tours/${tourId}`);
+
+    const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/tours/${tourId}`,
+        {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body,
+        }
+    );
+
+    const data = await response.json();
+    if (!response.ok) {
+        return NextResponse.json(
+            { success: false, error: data.error || data.message || 'Failed to update tour' },
+            { status: response.status }
+        );
+    }
+
+    await recordAudit(request, {
+        action,
+        entityType: 'tour',
+        entityId: tourId,
+        before,
+        after: body ? JSON.parse(body) : null,
+    });
+
+    // Pass the backend response through unchanged so tourApi callers keep working
+    return NextResponse.json(data, { status: response.status });
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: tourId } = await params;
+        return await mutateTour(request, tourId, 'PUT', 'tour.update');
+    } catch (error) {
+        console.error('Error updating tour:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update tour' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: tourId } = await params;
+        return await mutateTour(request, tourId, 'PATCH', 'tour.update-status');
+    } catch (error) {
+        console.error('Error updating tour status:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update tour status' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: tourId } = await params;
+        return await mutateTour(request, tourId, 'DELETE', 'tour.delete');
+    } catch (error) {
+        console.error('Error deleting tour:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete tour' },
+            { status: 500 }
+        );
+    }
+}
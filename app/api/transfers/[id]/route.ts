@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchBackendSnapshot, recordAudit } from '@/lib/audit';
 
 export async function GET(
     request: NextRequest,
@@ -39,3 +40,92 @@ export async function GET(
         );
     }
 }
+
+// Forward a mutation to the backend and record it in the audit log
+async function mutateTransfer(
+    request: NextRequest,
+    transferId: string,
+    method: 'PUT' | 'PATCH' | 'DELETE',
+    action: string
+) {
+    const body = method === 'DELETE' ? undefined : await request.text();
+    const before = await fetchBackendSnapshot(`/api/transfers/${transferId}`);
+
+    const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/transfers/${transferId}`,
+        {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body,
+        }
+    );
+
+    const data = await response.json();
+    if (!response.ok) {
+        return NextResponse.json(
+            { success: false, error: data.error || data.message || 'Failed to update transfer' },
+            { status: response.status }
+        );
+    }
+
+    await recordAudit(request, {
+        action,
+        entityType: 'transfer',
+        entityId: transferId,
+        before,
+        after: body ? JSON.parse(body) : null,
+    });
+
+    // Pass the backend response through unchanged so transferApi callers keep working
+    return NextResponse.json(data, { status: response.status });
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: transferId } = await params;
+        return await mutateTransfer(request, transferId, 'PUT', 'transfer.update');
+    } catch (error) {
+        console.error('Error updating transfer:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update transfer' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: transferId } = await params;
+        return await mutateTransfer(request, transferId, 'PATCH', 'transfer.update-status');
+    } catch (error) {
+        console.error('Error updating transfer status:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update transfer status' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id: transferId } = await params;
+        return await mutateTransfer(request, transferId, 'DELETE', 'transfer.delete');
+    } catch (error) {
+        console.error('Error deleting transfer:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete transfer' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import AdminHeader from "@/components/admin/AdminHeader";
+import MobileNav from "@/components/admin/MobileNav";
+
+type AuditLogEntry = {
+  _id: string;
+  actor: string;
+  actorRole?: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  createdAt: string;
+};
+
+const ENTITY_TYPE_OPTIONS = [
+  { value: "", label: "All entities" },
+  { value: "timeslot", label: "Time slots" },
+  { value: "booking", label: "Bookings" },
+  { value: "tour", label: "Tours" },
+  { value: "transfer", label: "Transfers" },
+  { value: "payment", label: "Payments" },
+  { value: "promotion", label: "Promotions" },
+  { value: "slot-closure", label: "Slot closures" },
+  { value: "holiday", label: "Holidays" },
+  { value: "waitlist", label: "Waitlist" },
+  { value: "vehicle", label: "Fleet vehicles" },
+  { value: "driver", label: "Drivers" },
+  { value: "assignment", label: "Vehicle & driver assignments" },
+];
+
+const emptyFilters = {
+  entityType: "",
+  entityId: "",
+  actor: "",
+  from: "",
+  to: "",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return JSON.stringify(value, null, 2);
+}
+
+export default function AuditPage() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [actors, setActors] = useState<string[]>([]);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchLogs();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters, page]);
+
+  const fetchLogs = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString() });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      const response = await fetch(`/api/audit?${params}`, {
+        cache: "no-store",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch audit log");
+      }
+
+      setLogs(data.logs);
+      setActors(data.actors);
+      setPages(data.pagination.pages);
+      setTotal(data.pagination.total);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load audit log",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const inputClassName =
+    "border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      <AdminHeader />
+
+      <main className="p-4">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-dark">Audit Log</h1>
+            <p className="text-gray-600 text-sm mt-1">
+              {loading
+                ? "Loading..."
+                : `${total} change${total !== 1 ? "s" : ""} recorded`}
+            </p>
+          </div>
+          <button
+            onClick={fetchLogs}
+            disabled={loading}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 mb-6 grid grid-cols-2 md:grid-cols-5 gap-3">
+          <select
+            value={filters.entityType}
+            onChange={(e) => updateFilter("entityType", e.target.value)}
+            className={inputClassName}
+          >
+            {ENTITY_TYPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Entity ID"
+            value={filters.entityId}
+            onChange={(e) => updateFilter("entityId", e.target.value.trim())}
+            className={inputClassName}
+          />
+          <select
+            value={filters.actor}
+            onChange={(e) => updateFilter("actor", e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All users</option>
+            {actors.map((actor) => (
+              <option key={actor} value={actor}>
+                {actor}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className={inputClassName}
+            aria-label="To date"
+          />
+        </div>
+
+        <div className="space-y-3">
+          {!loading && logs.length === 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-8 text-center text-gray-500">
+              No changes match these filters
+            </div>
+          )}
+
+          {logs.map((log) => (
+            <div
+              key={log._id}
+              className="bg-white rounded-lg shadow-sm border border-gray-100 p-4"
+            >
+              <div className="flex flex-wrap justify-between gap-2">
+                <div>
+                  <div className="font-medium text-dark">{log.action}</div>
+                  <div className="text-xs text-gray-500 break-all">
+                    {log.entityType} · {log.entityId}
+                  </div>
+                </div>
+                <div className="text-right text-sm">
+                  <div className="text-gray-900">{log.actor}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(log.createdAt).toLocaleString("en-GB", {
+                      timeZone: "Asia/Kuala_Lumpur",
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              <details className="mt-3 text-xs">
+                <summary className="cursor-pointer text-primary">
+                  Show before / after
+                </summary>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+                  <div>
+                    <div className="font-semibold text-gray-600 mb-1">Before</div>
+                    <pre className="bg-gray-50 rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                      {formatValue(log.before)}
+                    </pre>
+                  </div>
+                  <div>
+                    <div className="font-semibold text-gray-600 mb-1">After</div>
+                    <pre className="bg-gray-50 rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                      {formatValue(log.after)}
+                    </pre>
+                  </div>
+                </div>
+              </details>
+            </div>
+          ))}
+        </div>
+
+        {pages > 1 && (
+          <div className="flex justify-between items-center mt-6 text-sm">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1 || loading}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-gray-600">
+              Page {page} of {pages}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= pages || loading}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </main>
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+"use client";
+import AdminHeader from "@/components/admin/AdminHeader";
+import MobileNav from "@/components/admin/MobileNav";
+import QrScanner from "@/components/admin/QrScanner";
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import {
+  FiArrowLeft,
+  FiCamera,
+  FiCheckCircle,
+  FiMapPin,
+  FiRotateCcw,
+  FiUsers,
+  FiXCircle,
+} from "react-icons/fi";
+import { toast } from "react-hot-toast";
+import { formatTimeDisplay } from "@/lib/dateUtils";
+import {
+  canCheckIn,
+  CheckInBooking,
+  getCheckInCounts,
+  isCheckedIn,
+  parseCheckInCode,
+} from "@/lib/checkIn";
+import { toPlainPickupLocation } from "@/lib/manifest";
+
+interface BoardingCustomer extends CheckInBooking {
+  contactInfo: {
+    name: string;
+    phone: string;
+  };
+  pickupLocation?: string;
+}
+
+interface ScanResult {
+  success: boolean;
+  message: string;
+}
+
+// Other guides may be checking in the same departure
+const REFRESH_INTERVAL_MS = 15000;
+
+export default function CheckInPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const packageId = params.id as string;
+  const date = searchParams.get("date");
+  const time = searchParams.get("time");
+  const type = searchParams.get("type");
+
+  const [customers, setCustomers] = useState<BoardingCustomer[]>([]);
+  const [packageTitle, setPackageTitle] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [manualCode, setManualCode] = useState("");
+  const [lastScan, setLastScan] = useState<ScanResult | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/bookings?packageId=${packageId}&date=${date}&time=${time}`,
+        { cache: "no-store" },
+      );
+      if (!response.ok) throw new Error("Failed to fetch bookings");
+
+      const data = await response.json();
+      setCustomers(data.bookings || []);
+    } catch (err) {
+      console.error("Error fetching bookings:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [packageId, date, time]);
+
+  useEffect(() => {
+    if (!packageId || !date || !time) return;
+
+    fetchCustomers();
+    const interval = setInterval(fetchCustomers, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [packageId, date, time, fetchCustomers]);
+
+  useEffect(() => {
+    if (!packageId) return;
+
+    const endpoint = type === "tour" ? "/api/tours" : "/api/transfers";
+    fetch(`${endpoint}/${packageId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setPackageTitle((data?.tour || data?.transfer)?.title || ""))
+      .catch((err) => console.error("Error fetching package details:", err));
+  }, [packageId, type]);
+
+  const replaceCustomer = (booking: BoardingCustomer) => {
+    setCustomers((current) =>
+      current.map((customer) =>
+        customer._id === booking._id ? { ...customer, ...booking } : customer,
+      ),
+    );
+  };
+
+  const checkIn = async (bookingId: string) => {
+    setPendingId(bookingId);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/check-in`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ packageId, date, time }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setLastScan({ success: false, message: data.error || "Check-in failed" });
+        return;
+      }
+
+      const booking = data.booking as BoardingCustomer;
+      replaceCustomer(booking);
+      const party = booking.adults + booking.children;
+      setLastScan({
+        success: true,
+        message: data.alreadyCheckedIn
+          ? `${booking.contactInfo.name} is already boarded`
+          : `${booking.contactInfo.name} boarded (${party} ${party === 1 ? "person" : "persons"})`,
+      });
+    } catch (error) {
+      console.error("Error checking in booking:", error);
+      setLastScan({ success: false, message: "An error occurred during check-in" });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const undoCheckIn = async (bookingId: string) => {
+    setPendingId(bookingId);
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}/check-in`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        replaceCustomer(data.booking);
+      } else {
+        toast.error(data.error || "Failed to undo check-in");
+      }
+    } catch (error) {
+      console.error("Error undoing check-in:", error);
+      toast.error("An error occurred while undoing the check-in.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCode = (text: string) => {
+    const bookingId = parseCheckInCode(text);
+    if (!bookingId) {
+      setLastScan({ success: false, message: "Not a booking code" });
+      return;
+    }
+    checkIn(bookingId);
+  };
+
+  const handleManualSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    handleCode(manualCode);
+    setManualCode("");
+  };
+
+  const counts = getCheckInCounts(customers);
+  const progress =
+    counts.expectedPersons > 0
+      ? Math.round((counts.boardedPersons / counts.expectedPersons) * 100)
+      : 0;
+  // Parties still to board first, then boarded ones, then those who cannot board
+  const sortedCustomers = [...customers].sort((a, b) => {
+    const rank = (customer: BoardingCustomer) =>
+      !canCheckIn(customer) ? 2 : isCheckedIn(customer) ? 1 : 0;
+    return rank(a) - rank(b);
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+
+      <div className="max-w-2xl mx-auto p-4 md:p-6 pb-20 md:pb-6">
+        <div className="flex items-center gap-4 mb-6">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <FiArrowLeft className="text-xl" />
+          </button>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold text-dark">
+              Check-in{packageTitle ? `: ${packageTitle}` : ""}
+            </h1>
+            <p className="text-light text-sm">
+              {new Date(date || "").toLocaleDateString("en-US", {
+                weekday: "short",
+                month: "short",
+                day: "numeric",
+                timeZone: "Asia/Kuala_Lumpur",
+              })}{" "}
+              at {formatTimeDisplay(time || "")}
+            </p>
+          </div>
+        </div>
+
+        {/* Live boarding count */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border mb-4">
+          <div className="flex items-end justify-between mb-2">
+            <div>
+              <p className="text-light text-sm">Boarded</p>
+              <p className="text-3xl font-bold text-dark">
+                {counts.boardedPersons}
+                <span className="text-lg text-light font-medium">
+                  {" "}
+                  / {counts.expectedPersons}
+                </span>
+              </p>
+            </div>
+            <p className="text-light text-sm">
+              {counts.boardedBookings} of {counts.expectedBookings} bookings
+            </p>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+
+        {/* Scanner */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border mb-4 space-y-3">
+          {scanning ? (
+            <>
+              <QrScanner onScan={handleCode} />
+              <button
+                onClick={() => setScanning(false)}
+                className="w-full py-2 text-sm border border-gray-200 text-dark rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                Stop Camera
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setScanning(true)}
+              className="w-full flex items-center justify-center gap-2 py-4 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors font-medium"
+            >
+              <FiCamera className="text-lg" />
+              Scan QR Code
+            </button>
+          )}
+
+          <form onSubmit={handleManualSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="Booking ID"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              type="submit"
+              disabled={!manualCode.trim() || pendingId !== null}
+              className="px-4 py-2 text-sm border border-primary text-primary rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Check In
+            </button>
+          </form>
+
+          {lastScan && (
+            <div
+              className={`flex items-center gap-2 p-3 rounded-lg text-sm font-medium ${
+                lastScan.success
+                  ? "bg-green-50 text-green-700"
+                  : "bg-red-50 text-red-700"
+              }`}
+            >
+              {lastScan.success ? (
+                <FiCheckCircle className="text-lg shrink-0" />
+              ) : (
+                <FiXCircle className="text-lg shrink-0" />
+              )}
+              <span>{lastScan.message}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Passenger list */}
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
+          </div>
+        ) : sortedCustomers.length === 0 ? (
+          <p className="text-center text-light py-8">No bookings for this departure</p>
+        ) : (
+          <div className="space-y-2">
+            {sortedCustomers.map((customer) => {
+              const boarded = isCheckedIn(customer);
+              const eligible = canCheckIn(customer);
+              const pickup = toPlainPickupLocation(customer.pickupLocation);
+
+              return (
+                <div
+                  key={customer._id}
+                  className={`flex items-center gap-3 p-3 rounded-xl border ${
+                    boarded ? "border-green-200 bg-green-50" : "bg-white"
+                  } ${eligible ? "" : "opacity-60"}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-dark truncate">
+                      {customer.contactInfo.name}
+                    </p>
+                    <p className="text-light text-xs flex items-center gap-1">
+                      <FiUsers className="shrink-0" />
+                      {customer.adults} adult(s)
+                      {customer.children > 0 && `, ${customer.children} child(ren)`}
+                      {!eligible && ` - ${customer.status}`}
+                    </p>
+                    {pickup && (
+                      <p className="text-light text-xs flex items-center gap-1">
+                        <FiMapPin className="shrink-0" />
+                        <span className="truncate">{pickup}</span>
+                      </p>
+                    )}
+                  </div>
+                  {eligible &&
+                    (boarded ? (
+                      <button
+                        onClick={() => undoCheckIn(customer._id)}
+                        disabled={pendingId === customer._id}
+                        className="flex items-center gap-1 px-3 py-2 text-xs text-green-700 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+                        title="Undo check-in"
+                      >
+                        <FiCheckCircle />
+                        Boarded
+                        <FiRotateCcw className="ml-1" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => checkIn(customer._id)}
+                        disabled={pendingId === customer._id}
+                        className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+                      >
+                        Board
+                      </button>
+                    ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -12,10 +12,46 @@ import {
   FiPhone,
   FiMail,
   FiTrash2,
+  FiFileText,
+  FiGrid,
+  FiEdit,
+  FiDollarSign,
+  FiCheckSquare,
+  FiCheckCircle,
 } from "react-icons/fi";
 import Confirmation from "@/components/ui/Confirmation";
 import { toast } from "react-hot-toast";
-import { formatTimeDisplay } from "@/lib/dateUtils";
+import RescheduleBookingModal from "@/components/admin/RescheduleBookingModal";
+import DepartureAssignments from "@/components/admin/DepartureAssignments";
+import SlotWaitlist from "@/components/admin/SlotWaitlist";
+import {
+  formatDateAsMYT,
+  formatTimeDisplay,
+  parseFlexibleDate,
+} from "@/lib/dateUtils";
+import type { RescheduleHistoryEntry } from "@/lib/bookingSchedule";
+import {
+  CONFIRMATION_CHANNEL_LABELS,
+  ConfirmationSendEntry,
+} from "@/lib/bookingConfirmation";
+import {
+  BOOKING_STATUS_ACTIONS,
+  BOOKING_STATUS_LABELS,
+  BookingStatus,
+  countsTowardCapacity,
+  getAllowedTransitions,
+  REASON_REQUIRED_STATUSES,
+} from "@/lib/bookingStatus";
+import {
+  INVOICE_DOCUMENT_LABELS,
+  InvoiceDocumentType,
+  InvoiceRecord,
+  isInvoicePaid,
+} from "@/lib/invoices";
+import { buildInvoicePdf, getInvoiceFileName } from "@/lib/invoicePdf";
+import { getCheckInCounts, isCheckedIn } from "@/lib/checkIn";
+import { buildManifestDepartures } from "@/lib/manifest";
+import { exportManifestPdf, exportManifestXlsx } from "@/lib/manifestExport";
 
 interface Customer {
   _id: string;
@@ -30,7 +66,14 @@ interface Customer {
   date: string;
   time: string;
   pickupLocation?: string;
-  status: "pending" | "confirmed" | "cancelled";
+  status: BookingStatus;
+  statusReason?: string;
+  rescheduleHistory?: RescheduleHistoryEntry[];
+  confirmationSends?: ConfirmationSendEntry[];
+  paymentInfo?: {
+    paymentStatus?: string;
+  };
+  checkedInAt?: string | null;
   total: number;
   createdAt: string;
 }
@@ -59,6 +102,15 @@ export default function PackageDetailsPage() {
     bookingId: "",
     customerName: "",
   });
+  const [statusChange, setStatusChange] = useState<{
+    bookingId: string;
+    customerName: string;
+    status: BookingStatus;
+  } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(
+    null,
+  );
 
   useEffect(() => {
     if (packageId && date && time) {
@@ -154,6 +206,91 @@ export default function PackageDetailsPage() {
     }
   };
 
+  const handleStatusChange = async () => {
+    if (!statusChange) return;
+
+    const reasonRequired = REASON_REQUIRED_STATUSES.includes(statusChange.status);
+    if (reasonRequired && !statusReason.trim()) {
+      toast.error("Please enter a reason");
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+
+      const response = await fetch(`/api/bookings/${statusChange.bookingId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          status: statusChange.status,
+          reason: statusReason.trim() || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        await fetchPackageCustomers();
+        setStatusChange(null);
+        setStatusReason("");
+        toast.success(
+          `Booking marked as ${BOOKING_STATUS_LABELS[statusChange.status].toLowerCase()}`,
+        );
+      } else {
+        toast.error(data.error || "Failed to update booking status");
+      }
+    } catch (error) {
+      console.error("Error updating booking status:", error);
+      toast.error("An error occurred while updating the booking status.");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Issue the booking's invoice (or a new revision if it changed), then download it as a PDF
+  const handleDownloadInvoice = async (
+    bookingId: string,
+    documentType: InvoiceDocumentType,
+  ) => {
+    try {
+      setIsUpdating(true);
+
+      const response = await fetch(`/api/bookings/${bookingId}/invoice`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        toast.error(data.error || "Failed to issue invoice");
+        return;
+      }
+
+      const invoice = data.invoice as InvoiceRecord;
+      if (documentType === "receipt" && !isInvoicePaid(invoice)) {
+        toast.error("A receipt can only be issued once the booking is paid");
+        return;
+      }
+
+      buildInvoicePdf(invoice, documentType).save(
+        getInvoiceFileName(invoice, documentType),
+      );
+      if (data.revised) {
+        toast.success(`Invoice ${invoice.invoiceNumber} issued, replacing ${invoice.supersedes}`);
+      } else if (data.created) {
+        toast.success(`Invoice ${invoice.invoiceNumber} issued`);
+      }
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      toast.error(
+        `An error occurred while generating the ${INVOICE_DOCUMENT_LABELS[documentType].toLowerCase()}.`,
+      );
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const openDeleteConfirmation = (bookingId: string, customerName: string) => {
     setDeleteConfirmation({
       isOpen: true,
@@ -178,6 +315,10 @@ export default function PackageDetailsPage() {
         return "bg-yellow-100 text-yellow-800";
       case "cancelled":
         return "bg-red-100 text-red-800";
+      case "no-show":
+        return "bg-orange-100 text-orange-800";
+      case "completed":
+        return "bg-blue-100 text-blue-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -230,10 +371,32 @@ export default function PackageDetailsPage() {
     }
   };
 
-  const totalCustomers = customers.reduce(
-    (sum, customer) => sum + customer.adults + customer.children,
-    0,
-  );
+  const handleExportManifest = (format: "pdf" | "xlsx") => {
+    const departures = buildManifestDepartures(
+      customers.map((customer) => ({
+        ...customer,
+        packageType: type === "tour" ? "tour" : "transfer",
+        packageId: {
+          _id: packageId,
+          title: packageDetails?.title || "Package",
+        },
+      })),
+      date || "",
+    );
+
+    if (departures.length === 0) {
+      toast.error("No active bookings to include in the manifest");
+      return;
+    }
+
+    if (format === "pdf") exportManifestPdf(departures);
+    else exportManifestXlsx(departures);
+  };
+
+  const totalCustomers = customers
+    .filter((customer) => countsTowardCapacity(customer.status))
+    .reduce((sum, customer) => sum + customer.adults + customer.children, 0);
+  const { boardedPersons } = getCheckInCounts(customers);
   const totalRevenue = customers
     .filter((customer) => customer.status !== "cancelled")
     .reduce((sum, customer) => sum + customer.total, 0);
@@ -278,6 +441,39 @@ export default function PackageDetailsPage() {
               at {formatTimeDisplay(time || "")}
             </p>
           </div>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() =>
+                router.push(
+                  `/bookings/${packageId}/check-in?date=${date}&time=${time}&type=${type}`,
+                )
+              }
+              disabled={customers.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Check in guests at pickup"
+            >
+              <FiCheckSquare />
+              <span className="hidden sm:inline">Check-in</span>
+            </button>
+            <button
+              onClick={() => handleExportManifest("pdf")}
+              disabled={customers.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download passenger manifest as PDF"
+            >
+              <FiFileText />
+              <span className="hidden sm:inline">Manifest PDF</span>
+            </button>
+            <button
+              onClick={() => handleExportManifest("xlsx")}
+              disabled={customers.length === 0}
+              className="flex items-center gap-2 px-3 py-2 text-sm border border-primary text-primary rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download passenger manifest as Excel"
+            >
+              <FiGrid />
+              <span className="hidden sm:inline">Manifest XLSX</span>
+            </button>
+          </div>
         </div>
 
         {/* Summary Cards */}
@@ -293,6 +489,11 @@ export default function PackageDetailsPage() {
                 <p className="text-lg md:text-2xl font-bold text-dark">
                   {totalCustomers}
                 </p>
+                {boardedPersons > 0 && (
+                  <p className="text-xs text-green-700">
+                    {boardedPersons} boarded
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -328,6 +529,48 @@ export default function PackageDetailsPage() {
           </div>
         </div>
 
+        {packageDetails && date && time && (
+          <SlotWaitlist
+            packageType={type === "tour" ? "tour" : "transfer"}
+            packageDetails={{
+              _id: packageId,
+              title: packageDetails.title,
+              newPrice: packageDetails.newPrice,
+              childPrice: packageDetails.childPrice,
+              minimumPerson: packageDetails.minimumPerson,
+              maximumPerson: packageDetails.maximumPerson,
+              type: packageDetails.type,
+              from: packageDetails.from,
+              to: packageDetails.to,
+              pricingRules: packageDetails.pricingRules,
+              details: {
+                pickupLocations:
+                  packageDetails.details?.pickupLocations ||
+                  packageDetails.details?.pickupLocation,
+                pickupOption: packageDetails.details?.pickupOption || "user",
+              },
+            }}
+            date={date}
+            time={time}
+            perVehicle={type !== "tour" && isPackagePrivate}
+            activeGuests={totalCustomers}
+            onBooked={fetchPackageCustomers}
+          />
+        )}
+
+        {packageDetails && date && time && (
+          <DepartureAssignments
+            packageType={type === "tour" ? "tour" : "transfer"}
+            packageId={packageId}
+            date={date}
+            time={time}
+            duration={packageDetails.duration}
+            period={packageDetails.period}
+            vehicleType={packageDetails.vehicle}
+            passengers={totalCustomers}
+          />
+        )}
+
         {/* Customer List */}
         <div className="bg-white rounded-xl shadow-sm border">
           <div className="p-6 border-b">
@@ -356,8 +599,24 @@ export default function PackageDetailsPage() {
                         <FiUser className="text-primary text-xl" />
                       </div>
                       <div>
-                        <h3 className="font-semibold text-dark">
+                        <h3 className="font-semibold text-dark flex items-center gap-2">
                           {customer.contactInfo.name}
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(customer.status)}`}
+                            title={customer.statusReason}
+                          >
+                            {BOOKING_STATUS_LABELS[customer.status] ||
+                              customer.status}
+                          </span>
+                          {isCheckedIn(customer) && (
+                            <span
+                              className="flex items-center gap-1 text-xs font-medium text-green-700"
+                              title={`Checked in ${new Date(customer.checkedInAt || "").toLocaleString("en-MY")}`}
+                            >
+                              <FiCheckCircle />
+                              Boarded
+                            </span>
+                          )}
                         </h3>
                         <p className="text-light text-sm">
                           Booked on{" "}
@@ -370,7 +629,63 @@ export default function PackageDetailsPage() {
                         </p>
                       </div>
                     </div>
-                    <div className="flex items-center gap-3">
+                    <div className="flex flex-wrap items-center justify-end gap-2">
+                      {(customer.status === "pending" ||
+                        customer.status === "confirmed") &&
+                        packageDetails && (
+                          <button
+                            onClick={() => setEditingCustomer(customer)}
+                            disabled={isUpdating}
+                            className="p-2 text-dark hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Edit or reschedule booking"
+                          >
+                            <FiEdit className="text-lg" />
+                          </button>
+                        )}
+                      <button
+                        onClick={() =>
+                          handleDownloadInvoice(customer._id, "invoice")
+                        }
+                        disabled={isUpdating}
+                        className="p-2 text-dark hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Download tax invoice"
+                      >
+                        <FiFileText className="text-lg" />
+                      </button>
+                      {customer.paymentInfo &&
+                        isInvoicePaid(customer.paymentInfo) && (
+                        <button
+                          onClick={() =>
+                            handleDownloadInvoice(customer._id, "receipt")
+                          }
+                          disabled={isUpdating}
+                          className="p-2 text-dark hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Download official receipt"
+                        >
+                          <FiDollarSign className="text-lg" />
+                        </button>
+                      )}
+                      {getAllowedTransitions(customer.status).map((status) => (
+                        <button
+                          key={status}
+                          onClick={() => {
+                            setStatusReason("");
+                            setStatusChange({
+                              bookingId: customer._id,
+                              customerName: customer.contactInfo.name,
+                              status,
+                            });
+                          }}
+                          disabled={isUpdating}
+                          className={`px-3 py-1 text-xs font-medium rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            status === "cancelled"
+                              ? "border-red-200 text-red-600 hover:bg-red-50"
+                              : "border-gray-200 text-dark hover:bg-gray-100"
+                          }`}
+                        >
+                          {BOOKING_STATUS_ACTIONS[status]}
+                        </button>
+                      ))}
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -430,6 +745,46 @@ export default function PackageDetailsPage() {
                     )}
                   </div>
 
+                  {customer.rescheduleHistory &&
+                    customer.rescheduleHistory.length > 0 && (
+                      <div className="mt-3 text-sm text-light">
+                        {customer.rescheduleHistory.map((entry, index) => (
+                          <p key={index}>
+                            <span className="font-medium">Moved from</span>{" "}
+                            {formatDateTime(entry.date, entry.time)} (
+                            {entry.adults} adults, {entry.children} children, RM{" "}
+                            {Math.round(entry.total).toLocaleString()})
+                            {entry.reason && ` - ${entry.reason}`}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                  {customer.confirmationSends &&
+                    customer.confirmationSends.length > 0 && (
+                      <div className="mt-3 text-sm text-light">
+                        {customer.confirmationSends.map((send, index) => (
+                          <p key={index}>
+                            <span className="font-medium">
+                              Confirmation{" "}
+                              {send.status === "failed" ? "failed" : "sent"} by{" "}
+                              {CONFIRMATION_CHANNEL_LABELS[send.channel]}
+                            </span>{" "}
+                            to {send.to} on{" "}
+                            {new Date(send.sentAt).toLocaleString("en-MY")}
+                            {send.error && ` - ${send.error}`}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                  {customer.statusReason && (
+                    <p className="mt-3 text-sm text-light">
+                      <span className="font-medium">Reason:</span>{" "}
+                      {customer.statusReason}
+                    </p>
+                  )}
+
                   <div className="mt-4 pt-4 border-t flex justify-between items-center">
                     <span className="text-light text-sm">Total Amount</span>
                     <span className="font-semibold text-primary">
@@ -465,6 +820,83 @@ export default function PackageDetailsPage() {
         variant="danger"
       />
 
+      {editingCustomer && packageDetails && (
+        <RescheduleBookingModal
+          booking={{
+            _id: editingCustomer._id,
+            customerName: editingCustomer.contactInfo.name,
+            date: (() => {
+              const parsed = parseFlexibleDate(editingCustomer.date);
+              return parsed ? formatDateAsMYT(parsed) : date || "";
+            })(),
+            time: editingCustomer.time,
+            adults: editingCustomer.adults,
+            children: editingCustomer.children,
+            total: editingCustomer.total,
+            createdAt: editingCustomer.createdAt,
+          }}
+          packageType={type === "tour" ? "tour" : "transfer"}
+          packageDetails={packageDetails}
+          onClose={() => setEditingCustomer(null)}
+          onSuccess={() => {
+            setEditingCustomer(null);
+            fetchPackageCustomers();
+          }}
+        />
+      )}
+
+      {/* Status Change Modal */}
+      {statusChange && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className="bg-white rounded-xl shadow-xl border border-gray-100 max-w-sm w-full p-5">
+            <h3 className="text-lg font-bold text-dark mb-2">
+              {BOOKING_STATUS_ACTIONS[statusChange.status]} Booking
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Change the booking for{" "}
+              <span className="font-semibold">{statusChange.customerName}</span>{" "}
+              to{" "}
+              <span className="font-semibold">
+                {BOOKING_STATUS_LABELS[statusChange.status].toLowerCase()}
+              </span>
+              .
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason
+              {REASON_REQUIRED_STATUSES.includes(statusChange.status)
+                ? ""
+                : " (optional)"}
+            </label>
+            <textarea
+              value={statusReason}
+              onChange={(e) => setStatusReason(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setStatusChange(null)}
+                disabled={isUpdating}
+                className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleStatusChange}
+                disabled={isUpdating}
+                className={`px-4 py-2 text-sm text-white rounded-lg transition-colors disabled:opacity-50 ${
+                  statusChange.status === "cancelled"
+                    ? "bg-red-600 hover:bg-red-700"
+                    : "bg-primary hover:bg-primary/90"
+                }`}
+              >
+                {isUpdating ? "Saving..." : BOOKING_STATUS_ACTIONS[statusChange.status]}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <MobileNav />
     </div>
   );
@@ -12,9 +12,13 @@ import {
   FiSave,
   FiX,
   FiEdit,
+  FiFileText,
+  FiGrid,
+  FiDownload,
 } from "react-icons/fi";
 import { useRouter } from "next/navigation";
 import Confirmation from "@/components/ui/Confirmation";
+import BookingExportModal from "@/components/admin/BookingExportModal";
 import toast from "react-hot-toast";
 import {
   formatDateAsMYT,
@@ -31,6 +35,13 @@ import {
   normalizeTime,
   formatTimeDisplay,
 } from "@/lib/dateUtils";
+import { countsTowardCapacity } from "@/lib/bookingStatus";
+import { CapacityUnit, DEFAULT_SLOT_CAPACITY, DepartureCapacity } from "@/lib/capacity";
+import { buildManifestDepartures } from "@/lib/manifest";
+import { exportManifestPdf, exportManifestXlsx } from "@/lib/manifestExport";
+import { toHolidayMap } from "@/lib/holidays";
+import { useHolidays } from "@/lib/useHolidays";
+import { getNextWaitlistCandidate, WaitlistEntryRecord } from "@/lib/waitlist";
 
 type Package = {
   id: string;
@@ -39,9 +50,11 @@ type Package = {
   duration?: "half-day" | "full-day"; // Only for tours
   currentBookings: number;
   maxSlots: number;
+  capacityUnit: CapacityUnit;
   startTime: string;
   price: string;
   isAvailable: boolean; // Slot availability status
+  closureReason?: string; // Set when a recurring closure rule closed the slot
   minimumPerson: number;
   vehicle?: string; // Vehicle name for private transfers
   transferType?: string; // Transfer type (Private, Van, etc.)
@@ -57,23 +70,28 @@ export default function BookingsPage() {
   const [isLoadingBookings, setIsLoadingBookings] = useState(false);
   const [packages, setPackages] = useState<any[]>([]);
   const [isLoadingPackages, setIsLoadingPackages] = useState(false);
-  const [vehicles, setVehicles] = useState<any[]>([]);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [timeSlotsMap, setTimeSlotsMap] = useState<
-    Record<string, { isAvailable: boolean; minimumPerson: number }>
+    Record<string, { isAvailable: boolean; minimumPerson: number; closureReason?: string }>
   >({});
+  // Server-resolved capacity per departure, keyed like timeSlotsMap
+  const [capacityMap, setCapacityMap] = useState<Record<string, DepartureCapacity>>({});
+  // Waiting customers per departure, keyed like timeSlotsMap
+  const [waitlistMap, setWaitlistMap] = useState<Record<string, WaitlistEntryRecord[]>>({});
   const router = useRouter();
+  const holidayMap = toHolidayMap(useHolidays());
 
   const handleRefresh = async () => {
     fetchRealBookings();
     fetchPackages();
     fetchTimeSlotsForDate(selectedDate);
+    fetchWaitlistForDate(selectedDate);
   };
 
   useEffect(() => {
     fetchRealBookings();
     fetchPackages();
-    fetchVehicles();
     fetchTimeSlotsForDate(selectedDate);
 
     // Set up auto-refresh for booking counts every 30 seconds
@@ -93,8 +111,14 @@ export default function BookingsPage() {
   useEffect(() => {
     fetchRealBookings();
     fetchTimeSlotsForDate(selectedDate);
+    fetchWaitlistForDate(selectedDate);
   }, [selectedDate]);
 
+  // Bookings change on refresh and auto-refresh, and so does what is left
+  useEffect(() => {
+    fetchCapacitiesForDate(selectedDate);
+  }, [selectedDate, realBookings]);
+
   const fetchPackages = async () => {
     try {
       setIsLoadingPackages(true);
@@ -129,15 +153,15 @@ export default function BookingsPage() {
     }
   };
 
-  const fetchVehicles = async () => {
+  const fetchCapacitiesForDate = async (date: Date) => {
     try {
-      const response = await fetch("/api/vehicles");
-      const data = await response.json();
+      const res = await fetch(`/api/bookings/capacity?date=${formatDateAsMYT(date)}`);
+      const data = await res.json();
       if (data.success) {
-        setVehicles(data.data || []);
+        setCapacityMap(data.capacities || {});
       }
     } catch (error) {
-      console.error("Error fetching vehicles:", error);
+      console.error("Error fetching capacities for date:", error);
     }
   };
 
@@ -173,6 +197,28 @@ export default function BookingsPage() {
     }
   };
 
+  const fetchWaitlistForDate = async (date: Date) => {
+    try {
+      const res = await fetch(
+        `/api/bookings/waitlist?date=${formatDateAsMYT(date)}&status=waiting`,
+        { cache: "no-store" },
+      );
+      const result = await res.json();
+      if (!res.ok || !result.success) {
+        throw new Error(result.error || "Failed to fetch waitlist");
+      }
+      const map: Record<string, WaitlistEntryRecord[]> = {};
+      result.entries.forEach((entry: WaitlistEntryRecord) => {
+        const key = `${entry.packageId}_${normalizeTime(entry.time)}`;
+        map[key] = [...(map[key] || []), entry];
+      });
+      setWaitlistMap(map);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      setWaitlistMap({});
+    }
+  };
+
   const fetchTimeSlotsForDate = async (date: Date) => {
     const dateStr = formatDateAsMYT(date);
     try {
@@ -186,7 +232,10 @@ export default function BookingsPage() {
       if (res.ok) {
         const result = await res.json();
         if (result.success && Array.isArray(result.data)) {
-          const map: Record<string, { isAvailable: boolean; minimumPerson: number }> = {};
+          const map: Record<
+            string,
+            { isAvailable: boolean; minimumPerson: number; closureReason?: string }
+          > = {};
           result.data.forEach((pkgSlots: any) => {
             const pkgId = pkgSlots.packageId;
             if (pkgId && Array.isArray(pkgSlots.slots)) {
@@ -194,7 +243,8 @@ export default function BookingsPage() {
                 const normTime = normalizeTime(slot.time);
                 map[`${pkgId}_${normTime}`] = {
                   isAvailable: slot.isAvailable,
-                  minimumPerson: typeof slot.currentMinimum === "number" ? slot.currentMinimum : slot.minimumPerson
+                  minimumPerson: typeof slot.currentMinimum === "number" ? slot.currentMinimum : slot.minimumPerson,
+                  closureReason: slot.closureReason
                 };
               });
             }
@@ -388,29 +438,7 @@ export default function BookingsPage() {
       const normTime = normalizeTime(booking.time);
       const key = `${booking.packageId._id}-${normTime}`;
       if (!bookingMap.has(key)) {
-        // Determine maxSlots: prefer slotConfigs, then vehicle.units for private transfers, then maximumPerson
-        let maxSlots = 15;
-        const slotCfg = booking.packageId?.slotConfigs?.find(
-          (sc: any) => normalizeTime(sc.time) === normTime,
-        );
-        if (slotCfg && typeof slotCfg.maximumPerson === "number") {
-          maxSlots = slotCfg.maximumPerson;
-        } else if (booking.packageId?.maximumPerson) {
-          maxSlots = booking.packageId.maximumPerson;
-        }
-        try {
-          const isPrivate =
-            booking.packageId?.type === "Private" ||
-            booking.packageId?.type === "private";
-          const vehicleName = booking.packageId?.vehicle;
-          if (isPrivate && vehicleName && Array.isArray(vehicles)) {
-            const v = vehicles.find((x) => x.name === vehicleName);
-            if (v && typeof v.units === "number") maxSlots = v.units;
-          }
-        } catch (err) {
-          // ignore and fallback
-        }
-
+        const capacity = capacityMap[`${booking.packageId._id}_${normTime}`];
         bookingMap.set(key, {
           id: booking.packageId._id,
           title: booking.packageId?.title || `${booking.packageType} Package`,
@@ -419,7 +447,8 @@ export default function BookingsPage() {
             booking.packageId?.period?.toLowerCase() ||
             ((booking.packageType || booking.packageId?.packageType) === "tour" ? "half-day" : undefined),
           currentBookings: 0,
-          maxSlots,
+          maxSlots: capacity?.capacity ?? DEFAULT_SLOT_CAPACITY,
+          capacityUnit: capacity?.unit ?? "seats",
           startTime: booking.time,
           price: `RM ${booking.packageId?.newPrice || booking.total}`,
           isAvailable: true, // Default to available, will be updated with actual slot data
@@ -431,10 +460,13 @@ export default function BookingsPage() {
         });
       }
       const packageData = bookingMap.get(key);
-      // Count vehicle bookings as 1 (per-vehicle) instead of adults+children
-      const increment = booking.isVehicleBooking
-        ? 1
-        : (booking.adults || 0) + (booking.children || 0);
+      // Count vehicle bookings as 1 (per-vehicle) instead of adults+children;
+      // cancelled bookings no longer take up seats
+      const increment = !countsTowardCapacity(booking.status)
+        ? 0
+        : booking.isVehicleBooking
+          ? 1
+          : (booking.adults || 0) + (booking.children || 0);
       packageData.currentBookings += increment;
       packageData.bookings.push(booking);
     });
@@ -481,6 +513,7 @@ export default function BookingsPage() {
         const key = `${pkg._id}-${normTime}`;
         const slotMapKey = `${pkg._id}_${normTime}`;
         const slotData = timeSlotsMap[slotMapKey];
+        const capacity = capacityMap[slotMapKey];
 
         const slotCfg = pkg.slotConfigs?.find(
           (sc: any) => normalizeTime(sc.time) === normTime
@@ -493,25 +526,14 @@ export default function BookingsPage() {
         if (bookingMap.has(key)) {
           const bookingPkg = bookingMap.get(key);
           bookingPkg.isAvailable = isAvailable;
+          bookingPkg.closureReason = slotData?.closureReason;
           bookingPkg.minimumPerson = minimumPerson;
+          // A vehicle is shared by every private package using it
+          if (capacity?.unit === "vehicles") {
+            bookingPkg.currentBookings = capacity.booked;
+          }
           mergedPackages.push(bookingPkg);
         } else {
-          let maxSlots = 15;
-          if (slotCfg && typeof slotCfg.maximumPerson === "number") {
-            maxSlots = slotCfg.maximumPerson;
-          } else if (pkg.maximumPerson) {
-            maxSlots = pkg.maximumPerson;
-          }
-          try {
-            const isPrivate = pkg.type === "Private" || pkg.type === "private";
-            if (isPrivate && pkg.vehicle && Array.isArray(vehicles)) {
-              const v = vehicles.find((x) => x.name === pkg.vehicle);
-              if (v && typeof v.units === "number") maxSlots = v.units;
-            }
-          } catch (err) {
-            // ignore
-          }
-
           mergedPackages.push({
             id: pkg._id,
             title: pkg.title || "Package",
@@ -519,11 +541,13 @@ export default function BookingsPage() {
             duration:
               pkg.period?.toLowerCase() ||
               (pkg.packageType === "tour" ? "half-day" : undefined),
-            currentBookings: 0,
-            maxSlots,
+            currentBookings: capacity?.unit === "vehicles" ? capacity.booked : 0,
+            maxSlots: capacity?.capacity ?? DEFAULT_SLOT_CAPACITY,
+            capacityUnit: capacity?.unit ?? "seats",
             startTime: displayTime,
             price: `RM ${pkg.newPrice || 0}`,
             isAvailable,
+            closureReason: slotData?.closureReason,
             minimumPerson,
             vehicle: pkg.vehicle || undefined,
             transferType: pkg.type || undefined,
@@ -601,6 +625,22 @@ export default function BookingsPage() {
     return { tourCount: tCount, transferCount: trCount };
   })();
 
+  // Combined manifest of every departure (tours and transfers) on the selected date
+  const handleExportDayManifest = (format: "pdf" | "xlsx") => {
+    const departures = buildManifestDepartures(
+      Array.isArray(realBookings) ? realBookings : [],
+      formatDateAsMYT(selectedDate),
+    );
+
+    if (departures.length === 0) {
+      toast.error("No bookings to include in the manifest for this date");
+      return;
+    }
+
+    if (format === "pdf") exportManifestPdf(departures);
+    else exportManifestXlsx(departures);
+  };
+
   // Generate days for the current month view using Malaysian timezone
   const { year: currentYear, month: currentMonth } =
     getMalaysianDateComponents(currentDate);
@@ -657,6 +697,7 @@ export default function BookingsPage() {
       });
     const isSelected = isSameDay(date, selectedDate);
     const isDisabled = false; // Admin can select any day
+    const holiday = holidayMap.get(dateStr);
 
     return (
       <button
@@ -670,8 +711,20 @@ export default function BookingsPage() {
               ? "bg-primary/5 border-gray-100"
               : "border-gray-100"
         } ${isSameDay(date, today) ? "border-2 border-primary" : ""}`}
+        title={holiday?.name}
       >
-        <div className="text-right text-sm mb-1">{day}</div>
+        <div
+          className={`text-right text-sm mb-1 ${
+            holiday ? "text-red-600 font-semibold" : ""
+          }`}
+        >
+          {day}
+        </div>
+        {holiday && (
+          <div className="hidden sm:block text-[10px] leading-tight text-red-600 truncate">
+            {holiday.name}
+          </div>
+        )}
         {hasBookings && (
           <div className="w-2 h-2 bg-primary rounded-full mx-auto"></div>
         )}
@@ -697,6 +750,13 @@ export default function BookingsPage() {
             )}
           </div>
           <div className="flex gap-2">
+            <button
+              onClick={() => setShowExportModal(true)}
+              className="flex items-center gap-2 p-2 rounded-lg bg-gray-200 text-gray-500 hover:bg-green-500/20 transition-colors sm:p-3 sm:px-4"
+              title="Export Bookings"
+            >
+              <FiDownload className="text-lg sm:text-xl" />
+            </button>
             <button
               onClick={handleRefresh}
               className="flex items-center gap-2 p-2 rounded-lg bg-gray-200 text-gray-500 hover:bg-green-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed sm:p-3 sm:px-4"
@@ -758,19 +818,46 @@ export default function BookingsPage() {
 
         {/* Selected Date Packages */}
         <div>
-          <div className="mb-3">
-            <h2 className="text-lg font-semibold">
-              {isSameDay(selectedDate, today)
-                ? "Today's Packages"
-                : formatMalaysianDateForDisplay(selectedDate, {
-                    weekday: "long",
-                    month: "short",
-                    day: "numeric",
-                  })}
-            </h2>
-            <p className="text-sm text-light">
-              Available tours and transfers with booking status
-            </p>
+          <div className="mb-3 flex items-start justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">
+                {isSameDay(selectedDate, today)
+                  ? "Today's Packages"
+                  : formatMalaysianDateForDisplay(selectedDate, {
+                      weekday: "long",
+                      month: "short",
+                      day: "numeric",
+                    })}
+              </h2>
+              {holidayMap.has(formatDateAsMYT(selectedDate)) && (
+                <p className="text-sm font-medium text-red-600">
+                  Public holiday: {holidayMap.get(formatDateAsMYT(selectedDate))?.name}
+                </p>
+              )}
+              <p className="text-sm text-light">
+                Available tours and transfers with booking status
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExportDayManifest("pdf")}
+                disabled={tourCount + transferCount === 0}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Download all departures for this day as a PDF manifest"
+              >
+                <FiFileText />
+                <span className="hidden sm:inline">Day Manifest</span>
+              </button>
+              <button
+                onClick={() => handleExportDayManifest("xlsx")}
+                disabled={tourCount + transferCount === 0}
+                className="flex items-center gap-1 px-3 py-2 text-sm border border-primary text-primary rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Download all departures for this day as an Excel manifest"
+              >
+                <FiGrid />
+                <span className="hidden sm:inline">XLSX</span>
+              </button>
+            </div>
           </div>
 
           {selectedDatePackages.length === 0 ? (
@@ -819,7 +906,9 @@ export default function BookingsPage() {
                             toggleSlotAvailability={toggleSlotAvailability}
                             updateMinimumPerson={updateMinimumPerson}
                             isLoadingBookings={isLoadingBookings}
-                            vehicles={vehicles}
+                            waitlist={
+                              waitlistMap[`${pkg.id}_${normalizeTime(pkg.startTime)}`] || []
+                            }
                           />
                         ))}
                       </div>
@@ -840,7 +929,9 @@ export default function BookingsPage() {
                           toggleSlotAvailability={toggleSlotAvailability}
                           updateMinimumPerson={updateMinimumPerson}
                           isLoadingBookings={isLoadingBookings}
-                          vehicles={vehicles}
+                          waitlist={
+                            waitlistMap[`${pkg.id}_${normalizeTime(pkg.startTime)}`] || []
+                          }
                         />
                       ))}
                     </div>
@@ -879,6 +970,15 @@ export default function BookingsPage() {
         </div>
       </main>
 
+      {showExportModal && (
+        <BookingExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          packages={packages}
+          defaultDate={formatDateAsMYT(selectedDate)}
+        />
+      )}
+
       <MobileNav />
     </div>
   );
@@ -892,7 +992,7 @@ function PackageCard({
   toggleSlotAvailability,
   updateMinimumPerson,
   isLoadingBookings,
-  vehicles,
+  waitlist,
 }: {
   package: Package;
   selectedDate: Date;
@@ -910,7 +1010,7 @@ function PackageCard({
     newMinimumPerson: number
   ) => Promise<void>;
   isLoadingBookings: boolean;
-  vehicles: any[];
+  waitlist: WaitlistEntryRecord[];
 }) {
   const router = useRouter();
 
@@ -929,33 +1029,22 @@ function PackageCard({
     setEditingMinPersonValue(pkg.minimumPerson.toString());
   }, [pkg.minimumPerson]);
 
-  // Calculate vehicle availability for private transfers
-  const getVehicleAvailability = () => {
-    if (
-      pkg.type === "transfer" &&
-      pkg.transferType === "Private" &&
-      pkg.vehicle
-    ) {
-      const vehicle = vehicles.find((v) => v.name === pkg.vehicle);
-      if (vehicle) {
-        // For private transfers, each booking takes 1 vehicle
-        const availableVehicles = vehicle.units - pkg.currentBookings;
-        return {
-          available: Math.max(0, availableVehicles),
-          total: vehicle.units,
-          isVehicleDisplay: true,
-        };
-      }
-    }
-    // Default for non-private transfers or when vehicle not found
-    return {
-      available: pkg.maxSlots - pkg.currentBookings,
-      total: pkg.maxSlots,
-      isVehicleDisplay: false,
-    };
+  // Private packages are counted in vehicles, each booking taking one
+  const availability = {
+    available: Math.max(0, pkg.maxSlots - pkg.currentBookings),
+    total: pkg.maxSlots,
+    isVehicleDisplay: pkg.capacityUnit === "vehicles",
   };
-
-  const availability = getVehicleAvailability();
+  // Overbooked with an override, or capacity was lowered after booking
+  const overbookedBy = Math.max(0, pkg.currentBookings - pkg.maxSlots);
+  // Freed seats are offered to the waitlist from the departure page
+  const waitlistCandidate = pkg.isAvailable
+    ? getNextWaitlistCandidate(
+        waitlist,
+        availability.available,
+        availability.isVehicleDisplay,
+      )
+    : null;
 
   const handlePackageClick = () => {
     const dateStr = formatDate(selectedDate);
@@ -1025,10 +1114,16 @@ function PackageCard({
               / <span className="font-semibold">{availability.total}</span>{" "}
               Booked
             </span>
-            <span className="font-semibold text-gray-500">
-              {availability.available}{" "}
-              {availability.isVehicleDisplay ? "veh" : "slots"} left
-            </span>
+            {overbookedBy > 0 ? (
+              <span className="font-semibold text-red-600">
+                Overbooked by {overbookedBy}
+              </span>
+            ) : (
+              <span className="font-semibold text-gray-500">
+                {availability.available}{" "}
+                {availability.isVehicleDisplay ? "veh" : "slots"} left
+              </span>
+            )}
           </div>
           <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden border border-gray-200/50">
             <div
@@ -1049,6 +1144,17 @@ function PackageCard({
               }}
             />
           </div>
+          {waitlist.length > 0 && (
+            <span
+              className={`text-xs font-medium ${
+                waitlistCandidate ? "text-green-700" : "text-gray-500"
+              }`}
+            >
+              {waitlist.length} on waitlist
+              {waitlistCandidate &&
+                ` · seats free for ${waitlistCandidate.contactInfo.name}`}
+            </span>
+          )}
         </div>
 
         {/* Right Side: Status Toggle & Minimum Person Info */}
@@ -1061,7 +1167,10 @@ function PackageCard({
                 e.stopPropagation();
                 setShowToggleConfirm(true);
               }}
-              className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${
+              // A rule-closed slot can only be reopened by changing the rule
+              disabled={!!pkg.closureReason}
+              title={pkg.closureReason ? `Closed by rule: ${pkg.closureReason}` : undefined}
+              className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none disabled:cursor-not-allowed disabled:opacity-60 ${
                 pkg.isAvailable ? "bg-green-500" : "bg-gray-300"
               }`}
               aria-label={
@@ -1079,7 +1188,11 @@ function PackageCard({
                 pkg.isAvailable ? "text-green-600" : "text-red-500"
               }`}
             >
-              {pkg.isAvailable ? "Active" : "Disabled"}
+              {pkg.isAvailable
+                ? "Active"
+                : pkg.closureReason
+                  ? `Closed: ${pkg.closureReason}`
+                  : "Disabled"}
             </span>
           </div>
 
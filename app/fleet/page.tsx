@@ -0,0 +1,274 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import { FiAlertTriangle } from "react-icons/fi";
+import AdminHeader from "@/components/admin/AdminHeader";
+import FleetDrivers from "@/components/admin/FleetDrivers";
+import FleetVehicles from "@/components/admin/FleetVehicles";
+import MobileNav from "@/components/admin/MobileNav";
+import { formatDateAsMYT, formatTimeDisplay, getMalaysianNow } from "@/lib/dateUtils";
+import {
+  AssignmentConflict,
+  DepartureAssignmentRecord,
+  DriverRecord,
+  FleetVehicleRecord,
+} from "@/lib/fleet";
+
+type FleetTab = "schedule" | "vehicles" | "drivers";
+
+const TABS: { value: FleetTab; label: string }[] = [
+  { value: "schedule", label: "Schedule" },
+  { value: "vehicles", label: "Vehicles" },
+  { value: "drivers", label: "Drivers" },
+];
+
+const inputClassName =
+  "border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export default function FleetPage() {
+  const today = formatDateAsMYT(getMalaysianNow());
+  const [activeTab, setActiveTab] = useState<FleetTab>("schedule");
+  const [vehicles, setVehicles] = useState<FleetVehicleRecord[]>([]);
+  const [vehicleTypes, setVehicleTypes] = useState<{ name: string; units: number }[]>([]);
+  const [drivers, setDrivers] = useState<DriverRecord[]>([]);
+  const [packageTitles, setPackageTitles] = useState<Record<string, string>>({});
+  const [date, setDate] = useState(today);
+  const [assignments, setAssignments] = useState<DepartureAssignmentRecord[]>([]);
+  const [conflicts, setConflicts] = useState<Record<string, AssignmentConflict[]>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchFleet = useCallback(async () => {
+    try {
+      const [vehiclesResponse, driversResponse, typesResponse] = await Promise.all([
+        fetch("/api/fleet/vehicles", { cache: "no-store" }),
+        fetch("/api/fleet/drivers", { cache: "no-store" }),
+        fetch("/api/vehicles", { cache: "no-store" }),
+      ]);
+      const vehiclesData = await vehiclesResponse.json();
+      const driversData = await driversResponse.json();
+      const typesData = await typesResponse.json();
+
+      if (!vehiclesData.success || !driversData.success) {
+        throw new Error(vehiclesData.error || driversData.error || "Failed to fetch fleet");
+      }
+
+      setVehicles(vehiclesData.vehicles);
+      setDrivers(driversData.drivers);
+      setVehicleTypes(typesData.success ? typesData.data : []);
+    } catch (error) {
+      console.error("Error fetching fleet:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load the fleet");
+    }
+  }, []);
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/fleet/assignments?date=${date}`, {
+        cache: "no-store",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch assignments");
+      }
+
+      setAssignments(data.assignments);
+      setConflicts(data.conflicts);
+    } catch (error) {
+      console.error("Error fetching assignments:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load assignments");
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  // Titles for the schedule; assignments only store package ids
+  const fetchPackageTitles = useCallback(async () => {
+    try {
+      const [toursResponse, transfersResponse] = await Promise.all([
+        fetch("/api/tours"),
+        fetch("/api/transfers"),
+      ]);
+      const toursData = await toursResponse.json();
+      const transfersData = await transfersResponse.json();
+      const packages: { _id: string; title?: string }[] = [
+        ...(toursData.tours || toursData.data || []),
+        ...(transfersData.transfers || transfersData.data || []),
+      ];
+
+      setPackageTitles(
+        Object.fromEntries(packages.map((pkg) => [pkg._id, pkg.title || "Package"]))
+      );
+    } catch (error) {
+      console.error("Error fetching packages:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFleet();
+    fetchPackageTitles();
+  }, [fetchFleet, fetchPackageTitles]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  // Edits to a vehicle or driver can add or clear conflicts
+  const handleFleetChange = () => {
+    fetchFleet();
+    fetchAssignments();
+  };
+
+  const conflictCount = Object.keys(conflicts).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      <AdminHeader />
+
+      <main className="p-4">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-dark">Fleet & Drivers</h1>
+          <p className="text-gray-600 text-sm mt-1">
+            Vehicles, drivers and who is out on each departure. Assign them from a departure
+            on the bookings page.
+          </p>
+        </div>
+
+        <div className="flex gap-2 mb-6 border-b">
+          {TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setActiveTab(tab.value)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab.value
+                  ? "border-primary text-primary"
+                  : "border-transparent text-gray-500 hover:text-dark"
+              }`}
+            >
+              {tab.label}
+              {tab.value === "schedule" && conflictCount > 0 && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">
+                  {conflictCount}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === "schedule" && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value || today)}
+                className={inputClassName}
+              />
+              {conflictCount > 0 && (
+                <span className="flex items-center gap-1 text-sm text-red-600">
+                  <FiAlertTriangle />
+                  {conflictCount} assignment{conflictCount === 1 ? "" : "s"} with conflicts
+                </span>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Time
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Departure
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Vehicle
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Driver
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {assignments.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-sm text-gray-500">
+                        {loading ? "Loading assignments..." : "Nothing assigned on this date"}
+                      </td>
+                    </tr>
+                  ) : (
+                    assignments.map((assignment) => {
+                      const vehicle = vehicles.find((v) => v._id === assignment.vehicleId);
+                      const driver = drivers.find((d) => d._id === assignment.driverId);
+                      return (
+                        <tr
+                          key={assignment._id}
+                          className={conflicts[assignment._id] ? "bg-red-50/60" : ""}
+                        >
+                          <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                            {formatTimeDisplay(assignment.time)} –{" "}
+                            {formatTimeDisplay(assignment.endTime)}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <Link
+                              href={`/bookings/${assignment.packageId}?date=${assignment.date}&time=${assignment.time}&type=${assignment.packageType}`}
+                              className="text-primary hover:underline"
+                            >
+                              {packageTitles[assignment.packageId] || "Package"}
+                            </Link>
+                            {conflicts[assignment._id]?.map((conflict, index) => (
+                              <p
+                                key={`${conflict.type}-${index}`}
+                                className="mt-1 text-xs text-red-600 flex items-center gap-1"
+                              >
+                                <FiAlertTriangle className="flex-shrink-0" />
+                                {conflict.message}
+                              </p>
+                            ))}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {vehicle
+                              ? `${vehicle.plateNumber} (${vehicle.vehicleType})`
+                              : assignment.vehicleId
+                                ? "Removed vehicle"
+                                : "—"}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {driver
+                              ? `${driver.name} · ${driver.phone}`
+                              : assignment.driverId
+                                ? "Removed driver"
+                                : "—"}
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === "vehicles" && (
+          <FleetVehicles
+            vehicles={vehicles}
+            vehicleTypes={vehicleTypes}
+            today={today}
+            onChange={handleFleetChange}
+          />
+        )}
+
+        {activeTab === "drivers" && (
+          <FleetDrivers drivers={drivers} today={today} onChange={handleFleetChange} />
+        )}
+      </main>
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiChevronLeft, FiChevronRight } from "react-icons/fi";
+import AdminHeader from "@/components/admin/AdminHeader";
+import MobileNav from "@/components/admin/MobileNav";
+import Confirmation from "@/components/ui/Confirmation";
+import { useAuth } from "@/context/AuthContext";
+import { formatMalaysianDateForDisplay, getMalaysianDateComponents, getMalaysianNow, parseDateStringAsMYT } from "@/lib/dateUtils";
+import {
+  CalendarHoliday,
+  HOLIDAY_SCOPE_LABELS,
+  HOLIDAY_SCOPES,
+  HolidayScope,
+  validateHoliday,
+} from "@/lib/holidays";
+
+const emptyForm = {
+  date: "",
+  name: "",
+  scope: "national" as HolidayScope,
+};
+
+const inputClassName =
+  "border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export default function HolidaysPage() {
+  const { canAccess } = useAuth();
+  const isEditable = canAccess("/api/holidays", "PUT");
+  const [year, setYear] = useState(() => getMalaysianDateComponents(getMalaysianNow()).year);
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [holidayToRemove, setHolidayToRemove] = useState<CalendarHoliday | null>(null);
+
+  const fetchHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/holidays?year=${year}&includeRemoved=true`, {
+        cache: "no-store",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch holidays");
+      }
+
+      setHolidays(data.holidays);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load holidays");
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateHoliday(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/holidays/${form.date}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: form.name, scope: form.scope }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to save holiday");
+      }
+
+      toast.success(isEditing ? "Holiday updated" : "Holiday added");
+      setForm(emptyForm);
+      setIsEditing(false);
+      fetchHolidays();
+    } catch (error) {
+      console.error("Error saving holiday:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save holiday");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (holiday: CalendarHoliday) => {
+    setForm({ date: holiday.date, name: holiday.name, scope: holiday.scope });
+    setIsEditing(true);
+  };
+
+  const handleCancelEdit = () => {
+    setForm(emptyForm);
+    setIsEditing(false);
+  };
+
+  const handleRestore = async (holiday: CalendarHoliday) => {
+    try {
+      const response = await fetch(`/api/holidays/${holiday.date}/restore`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to restore holiday");
+      }
+
+      toast.success("Holiday restored");
+      fetchHolidays();
+    } catch (error) {
+      console.error("Error restoring holiday:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore holiday");
+    }
+  };
+
+  const confirmRemoveHoliday = async () => {
+    if (!holidayToRemove) return;
+
+    try {
+      const response = await fetch(`/api/holidays/${holidayToRemove.date}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to remove holiday");
+      }
+
+      toast.success("Holiday removed");
+      fetchHolidays();
+    } catch (error) {
+      console.error("Error removing holiday:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove holiday");
+    } finally {
+      setHolidayToRemove(null);
+    }
+  };
+
+  const sourceLabel = (holiday: CalendarHoliday) => {
+    if (holiday.removed) return "Removed";
+    if (holiday.source === "custom") return "Added";
+    return holiday.edited ? "Edited" : "Standard";
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      <AdminHeader />
+
+      <main className="p-4">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-dark">Public Holidays</h1>
+            <p className="text-gray-600 text-sm mt-1">
+              National and Pahang holidays used for pricing rules, slot closures and the
+              bookings calendar
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setYear(year - 1)}
+              className="p-2 rounded-full hover:bg-gray-100"
+              title="Previous year"
+            >
+              <FiChevronLeft className="text-xl" />
+            </button>
+            <span className="text-lg font-semibold">{year}</span>
+            <button
+              onClick={() => setYear(year + 1)}
+              className="p-2 rounded-full hover:bg-gray-100"
+              title="Next year"
+            >
+              <FiChevronRight className="text-xl" />
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Holiday
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Source
+                </th>
+                {isEditable && (
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {holidays.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={isEditable ? 5 : 4}
+                    className="px-4 py-6 text-center text-sm text-gray-500"
+                  >
+                    {loading ? "Loading holidays..." : `No holidays for ${year}`}
+                  </td>
+                </tr>
+              ) : (
+                holidays.map((holiday) => (
+                  <tr key={holiday.date} className={holiday.removed ? "opacity-60" : ""}>
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      {formatMalaysianDateForDisplay(parseDateStringAsMYT(holiday.date), {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                      })}
+                    </td>
+                    <td
+                      className={`px-4 py-3 text-sm text-gray-900 ${
+                        holiday.removed ? "line-through" : ""
+                      }`}
+                    >
+                      {holiday.name}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {HOLIDAY_SCOPE_LABELS[holiday.scope]}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{sourceLabel(holiday)}</td>
+                    {isEditable && (
+                      <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                        {!holiday.removed && (
+                          <>
+                            <button
+                              onClick={() => handleEdit(holiday)}
+                              className="text-primary hover:underline"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => setHolidayToRemove(holiday)}
+                              className="text-red-600 hover:underline"
+                            >
+                              Remove
+                            </button>
+                          </>
+                        )}
+                        {holiday.source === "bundled" && holiday.edited && (
+                          <button
+                            onClick={() => handleRestore(holiday)}
+                            className="text-gray-700 hover:underline"
+                          >
+                            Restore
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {isEditable && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-dark">
+              {isEditing ? "Edit Holiday" : "Add Holiday"}
+            </h2>
+            <p className="text-sm text-gray-600">
+              Lunar holidays can move by a day after moon sighting: remove the old date and add
+              the new one. Replacement holidays announced during the year can be added here too.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                disabled={isEditing}
+                className={`${inputClassName} disabled:bg-gray-100`}
+                required
+              />
+              <input
+                type="text"
+                placeholder="Name, e.g. Hari Raya Aidilfitri"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+                required
+              />
+              <select
+                value={form.scope}
+                onChange={(e) => setForm({ ...form, scope: e.target.value as HolidayScope })}
+                className={inputClassName}
+              >
+                {HOLIDAY_SCOPES.map((scope) => (
+                  <option key={scope} value={scope}>
+                    {HOLIDAY_SCOPE_LABELS[scope]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : isEditing ? "Save Changes" : "Add Holiday"}
+              </button>
+              {isEditing && (
+                <button
+                  type="button"
+                  onClick={handleCancelEdit}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </main>
+
+      <Confirmation
+        isOpen={holidayToRemove !== null}
+        onClose={() => setHolidayToRemove(null)}
+        onConfirm={confirmRemoveHoliday}
+        title="Remove Holiday"
+        message={`Remove ${holidayToRemove?.name} on ${holidayToRemove?.date}? Holiday pricing and closures will no longer apply on that day.`}
+        confirmText="Remove"
+        variant="danger"
+      />
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import MobileNav from "@/components/admin/MobileNav";
 import StatsCard from "@/components/admin/StatsCard";
 import { FiClock, FiUsers } from "react-icons/fi";
 import { formatMalaysianDateForDisplay } from "@/lib/dateUtils";
+import { useAuth } from "@/context/AuthContext";
 
 interface Booking {
   _id?: string;
@@ -62,6 +63,7 @@ interface SortedBooking {
 
 export default function DashboardPage() {
   const router = useRouter();
+  const { canAccess } = useAuth();
   const [stats, setStats] = useState([
     {
       title: "Total Bookings",
@@ -261,15 +263,17 @@ export default function DashboardPage() {
           </h2>
 
           <div className="grid grid-cols-2 gap-4 mb-6">
-            {stats.map((stat, index) => (
-              <StatsCard
-                key={index}
-                title={stat.title}
-                value={stat.value}
-                icon={stat.icon}
-                link={stat.link}
-              />
-            ))}
+            {stats
+              .filter((stat) => canAccess(stat.link))
+              .map((stat, index) => (
+                <StatsCard
+                  key={index}
+                  title={stat.title}
+                  value={stat.value}
+                  icon={stat.icon}
+                  link={stat.link}
+                />
+              ))}
           </div>
         </div>
 
@@ -304,44 +308,63 @@ export default function DashboardPage() {
         <div>
           <h2 className="text-xl font-bold text-dark mb-4">Quick Actions</h2>
           <div className="grid grid-cols-2 gap-4">
-            <button
-              onClick={() => router.push("/tours/add-tour")}
-              className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
-            >
-              <span className="text-2xl mb-2">🚗</span>
-              <span className="font-medium">Add Tour</span>
-            </button>
-            <button
-              onClick={() => router.push("/transfers/add-transfer")}
-              className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
-            >
-              <span className="text-2xl mb-2">🚐</span>
-              <span className="font-medium">Add Transfer</span>
-            </button>
-            <button
-              onClick={() => router.push("/blogs/add-blog")}
-              className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
-            >
-              <span className="text-2xl mb-2">📝</span>
-              <span className="font-medium">Create Blog</span>
-            </button>
-            <button
-              onClick={() => router.push("/bookings")}
-              className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
-            >
-              <span className="text-2xl mb-2">🔖</span>
-              <span className="font-medium">See Bookings</span>
-            </button>
-            <button
-              onClick={() => router.push("/recovery")}
-              className="bg-red-50 p-4 rounded-lg shadow-sm border border-red-200 flex flex-col items-center justify-center hover:bg-red-100 transition-colors col-span-2"
-            >
-              <span className="text-2xl mb-2">⚠️</span>
-              <span className="font-medium text-red-700">Payment Recovery</span>
-              <span className="text-xs text-red-600 mt-1">
-                Recover orphaned payments
-              </span>
-            </button>
+            {canAccess("/tours/add-tour") && (
+              <button
+                onClick={() => router.push("/tours/add-tour")}
+                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-2xl mb-2">🚗</span>
+                <span className="font-medium">Add Tour</span>
+              </button>
+            )}
+            {canAccess("/transfers/add-transfer") && (
+              <button
+                onClick={() => router.push("/transfers/add-transfer")}
+                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-2xl mb-2">🚐</span>
+                <span className="font-medium">Add Transfer</span>
+              </button>
+            )}
+            {canAccess("/blogs/add-blog") && (
+              <button
+                onClick={() => router.push("/blogs/add-blog")}
+                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-2xl mb-2">📝</span>
+                <span className="font-medium">Create Blog</span>
+              </button>
+            )}
+            {canAccess("/bookings") && (
+              <button
+                onClick={() => router.push("/bookings")}
+                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-2xl mb-2">🔖</span>
+                <span className="font-medium">See Bookings</span>
+              </button>
+            )}
+            {canAccess("/users") && (
+              <button
+                onClick={() => router.push("/users")}
+                className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 flex flex-col items-center justify-center hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-2xl mb-2">👥</span>
+                <span className="font-medium">Customers</span>
+              </button>
+            )}
+            {canAccess("/recovery") && (
+              <button
+                onClick={() => router.push("/recovery")}
+                className="bg-red-50 p-4 rounded-lg shadow-sm border border-red-200 flex flex-col items-center justify-center hover:bg-red-100 transition-colors col-span-2"
+              >
+                <span className="text-2xl mb-2">⚠️</span>
+                <span className="font-medium text-red-700">Payment Recovery</span>
+                <span className="text-xs text-red-600 mt-1">
+                  Recover orphaned payments
+                </span>
+              </button>
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,604 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "react-hot-toast";
+import AdminHeader from "@/components/admin/AdminHeader";
+import MobileNav from "@/components/admin/MobileNav";
+import Confirmation from "@/components/ui/Confirmation";
+import { useAuth } from "@/context/AuthContext";
+import { tourApi } from "@/lib/tourApi";
+import { transferApi } from "@/lib/transferApi";
+import {
+  describePromotionDiscount,
+  DiscountType,
+  PROMOTION_PACKAGE_TYPES,
+  PromotionPackageType,
+  PromotionRecord,
+  validatePromotionInput,
+} from "@/lib/promotions";
+
+type PackageOption = {
+  id: string;
+  title: string;
+  packageType: PromotionPackageType;
+};
+
+// Number inputs are kept as strings so optional limits can be left empty
+const emptyForm = {
+  code: "",
+  description: "",
+  discountType: "percent" as DiscountType,
+  discountValue: "",
+  maxDiscount: "",
+  startsOn: "",
+  endsOn: "",
+  usageLimit: "",
+  perCustomerLimit: "",
+  packageTypes: [] as PromotionPackageType[],
+  packageIds: [] as string[],
+  isActive: true,
+};
+
+type PromotionForm = typeof emptyForm;
+
+const optionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+const toInput = (form: PromotionForm) => ({
+  code: form.code.trim().toUpperCase(),
+  description: form.description.trim() || undefined,
+  discountType: form.discountType,
+  discountValue: Number(form.discountValue),
+  maxDiscount: form.discountType === "percent" ? optionalNumber(form.maxDiscount) : undefined,
+  startsOn: form.startsOn || undefined,
+  endsOn: form.endsOn || undefined,
+  usageLimit: optionalNumber(form.usageLimit),
+  perCustomerLimit: optionalNumber(form.perCustomerLimit),
+  packageTypes: form.packageTypes,
+  packageIds: form.packageIds,
+  isActive: form.isActive,
+});
+
+const toForm = (promotion: PromotionRecord): PromotionForm => ({
+  code: promotion.code,
+  description: promotion.description || "",
+  discountType: promotion.discountType,
+  discountValue: String(promotion.discountValue),
+  maxDiscount: promotion.maxDiscount !== undefined ? String(promotion.maxDiscount) : "",
+  startsOn: promotion.startsOn || "",
+  endsOn: promotion.endsOn || "",
+  usageLimit: promotion.usageLimit !== undefined ? String(promotion.usageLimit) : "",
+  perCustomerLimit:
+    promotion.perCustomerLimit !== undefined ? String(promotion.perCustomerLimit) : "",
+  packageTypes: promotion.packageTypes,
+  packageIds: promotion.packageIds,
+  isActive: promotion.isActive,
+});
+
+const formatRM = (amount: number) =>
+  `RM ${amount.toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const inputClassName =
+  "border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export default function PromotionsPage() {
+  const { canAccess } = useAuth();
+  // Finance can review the usage report but not change codes
+  const isEditable = canAccess("/api/promotions", "POST");
+  const [promotions, setPromotions] = useState<PromotionRecord[]>([]);
+  const [packages, setPackages] = useState<PackageOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [promotionToDelete, setPromotionToDelete] = useState<PromotionRecord | null>(null);
+
+  useEffect(() => {
+    fetchPromotions();
+    fetchPackages();
+  }, []);
+
+  const fetchPromotions = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/promotions", { cache: "no-store" });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch promotions");
+      }
+
+      setPromotions(data.promotions);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load promotions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPackages = async () => {
+    try {
+      const [tours, transfers] = await Promise.all([
+        tourApi.getTours({ limit: 100 }),
+        transferApi.getTransfers({ limit: 100 }),
+      ]);
+      setPackages([
+        ...tours.data.map((tour) => ({
+          id: tour._id,
+          title: tour.title,
+          packageType: "tour" as const,
+        })),
+        ...transfers.data.map((transfer) => ({
+          id: transfer._id,
+          title: transfer.title,
+          packageType: "transfer" as const,
+        })),
+      ]);
+    } catch (error) {
+      console.error("Error fetching packages:", error);
+    }
+  };
+
+  const packageTitle = (id: string) =>
+    packages.find((pkg) => pkg.id === id)?.title || "Unknown package";
+
+  const describeRestrictions = (promotion: PromotionRecord) => {
+    if (promotion.packageIds.length > 0) {
+      return promotion.packageIds.map(packageTitle).join(", ");
+    }
+    if (promotion.packageTypes.length > 0) {
+      return `All ${promotion.packageTypes.map((type) => `${type}s`).join(" and ")}`;
+    }
+    return "All packages";
+  };
+
+  const describeValidity = (promotion: PromotionRecord) => {
+    if (promotion.startsOn && promotion.endsOn) {
+      return `${promotion.startsOn} to ${promotion.endsOn}`;
+    }
+    if (promotion.startsOn) return `From ${promotion.startsOn}`;
+    if (promotion.endsOn) return `Until ${promotion.endsOn}`;
+    return "Always";
+  };
+
+  const togglePackageType = (type: PromotionPackageType) => {
+    setForm((current) => ({
+      ...current,
+      packageTypes: current.packageTypes.includes(type)
+        ? current.packageTypes.filter((t) => t !== type)
+        : [...current.packageTypes, type],
+    }));
+  };
+
+  const togglePackage = (id: string) => {
+    setForm((current) => ({
+      ...current,
+      packageIds: current.packageIds.includes(id)
+        ? current.packageIds.filter((packageId) => packageId !== id)
+        : [...current.packageIds, id],
+    }));
+  };
+
+  const savePromotion = async (id: string | null, input: ReturnType<typeof toInput>) => {
+    const response = await fetch(id ? `/api/promotions/${id}` : "/api/promotions", {
+      method: id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Failed to save promotion");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toInput(form);
+    const validationError = validatePromotionInput(input);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await savePromotion(editingId, input);
+      toast.success(editingId ? `${input.code} updated` : `${input.code} created`);
+      setForm(emptyForm);
+      setEditingId(null);
+      fetchPromotions();
+    } catch (error) {
+      console.error("Error saving promotion:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save promotion");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: PromotionRecord) => {
+    try {
+      await savePromotion(promotion._id, {
+        ...toInput(toForm(promotion)),
+        isActive: !promotion.isActive,
+      });
+      toast.success(`${promotion.code} ${promotion.isActive ? "deactivated" : "activated"}`);
+      fetchPromotions();
+    } catch (error) {
+      console.error("Error updating promotion:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update promotion");
+    }
+  };
+
+  const handleEdit = (promotion: PromotionRecord) => {
+    setEditingId(promotion._id);
+    setForm(toForm(promotion));
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const confirmDeletePromotion = async () => {
+    if (!promotionToDelete) return;
+
+    try {
+      const response = await fetch(`/api/promotions/${promotionToDelete._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete promotion");
+      }
+
+      toast.success("Promotion deleted");
+      fetchPromotions();
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete promotion");
+    } finally {
+      setPromotionToDelete(null);
+    }
+  };
+
+  // Restricting to package types narrows the package list as well
+  const selectablePackages = packages.filter(
+    (pkg) => form.packageTypes.length === 0 || form.packageTypes.includes(pkg.packageType)
+  );
+
+  const totals = promotions.reduce(
+    (sum, promotion) => ({
+      bookings: sum.bookings + (promotion.usage?.bookings || 0),
+      revenue: sum.revenue + (promotion.usage?.revenue || 0),
+      discount: sum.discount + (promotion.usage?.discount || 0),
+    }),
+    { bookings: 0, revenue: 0, discount: 0 }
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-16">
+      <AdminHeader />
+
+      <main className="p-4">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-dark">Promotions</h1>
+            <p className="text-gray-600 text-sm mt-1">
+              Promo codes and vouchers, and the bookings they brought in
+            </p>
+          </div>
+          <button
+            onClick={fetchPromotions}
+            disabled={loading}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">Bookings</p>
+            <p className="text-xl font-bold text-dark mt-1">{totals.bookings}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">Revenue</p>
+            <p className="text-xl font-bold text-dark mt-1">{formatRM(totals.revenue)}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
+            <p className="text-xs text-gray-500 uppercase tracking-wider">Discount Given</p>
+            <p className="text-xl font-bold text-dark mt-1">{formatRM(totals.discount)}</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-x-auto mb-6">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Code
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Valid
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Uses
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Revenue
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Discount
+                </th>
+                {isEditable && (
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {promotions.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={isEditable ? 7 : 6}
+                    className="px-4 py-6 text-center text-sm text-gray-500"
+                  >
+                    {loading ? "Loading promotions..." : "No promo codes yet"}
+                  </td>
+                </tr>
+              ) : (
+                promotions.map((promotion) => (
+                  <tr
+                    key={promotion._id}
+                    className={promotion.isActive ? "" : "opacity-60"}
+                  >
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-mono font-medium text-gray-900">
+                        {promotion.code}
+                        {!promotion.isActive && (
+                          <span className="ml-2 font-sans text-xs text-gray-500">
+                            (inactive)
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {describePromotionDiscount(promotion)}
+                        {promotion.description && ` - ${promotion.description}`}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {describeValidity(promotion)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {describeRestrictions(promotion)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {promotion.usedCount}
+                      {promotion.usageLimit !== undefined && ` / ${promotion.usageLimit}`}
+                      {promotion.perCustomerLimit !== undefined && (
+                        <div className="text-xs text-gray-500">
+                          {promotion.perCustomerLimit} per customer
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 text-right whitespace-nowrap">
+                      {formatRM(promotion.usage?.revenue || 0)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right whitespace-nowrap">
+                      {formatRM(promotion.usage?.discount || 0)}
+                    </td>
+                    {isEditable && (
+                      <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => handleEdit(promotion)}
+                          className="text-primary hover:underline"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(promotion)}
+                          className="text-gray-700 hover:underline"
+                        >
+                          {promotion.isActive ? "Deactivate" : "Activate"}
+                        </button>
+                        {promotion.usedCount === 0 && (
+                          <button
+                            onClick={() => setPromotionToDelete(promotion)}
+                            className="text-red-600 hover:underline"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {isEditable && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-dark">
+              {editingId ? `Edit ${form.code}` : "Add Promo Code"}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="text"
+                placeholder="Code, e.g. MERDEKA10"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                className={`${inputClassName} font-mono`}
+                required
+              />
+              <input
+                type="text"
+                placeholder="Description (optional)"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClassName}
+              />
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Discount"
+                  value={form.discountValue}
+                  onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                  className={`${inputClassName} flex-1 min-w-0`}
+                  required
+                />
+                <select
+                  value={form.discountType}
+                  onChange={(e) =>
+                    setForm({ ...form, discountType: e.target.value as DiscountType })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="percent">% off</option>
+                  <option value="fixed">RM off</option>
+                </select>
+              </div>
+              {form.discountType === "percent" && (
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Maximum discount in RM (optional)"
+                  value={form.maxDiscount}
+                  onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })}
+                  className={inputClassName}
+                />
+              )}
+              <label className="text-xs text-gray-600">
+                Valid from
+                <input
+                  type="date"
+                  value={form.startsOn}
+                  onChange={(e) => setForm({ ...form, startsOn: e.target.value })}
+                  className={`${inputClassName} mt-1 w-full`}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Valid until
+                <input
+                  type="date"
+                  value={form.endsOn}
+                  onChange={(e) => setForm({ ...form, endsOn: e.target.value })}
+                  className={`${inputClassName} mt-1 w-full`}
+                />
+              </label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Total uses (optional)"
+                value={form.usageLimit}
+                onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Uses per customer (optional)"
+                value={form.perCustomerLimit}
+                onChange={(e) => setForm({ ...form, perCustomerLimit: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Applies to</p>
+              <div className="flex flex-wrap gap-4">
+                {PROMOTION_PACKAGE_TYPES.map((type) => (
+                  <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.packageTypes.includes(type)}
+                      onChange={() => togglePackageType(type)}
+                    />
+                    All {type}s
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Leave everything unticked for all packages, or pick specific packages below.
+              </p>
+              {selectablePackages.length > 0 && (
+                <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+                  {selectablePackages.map((pkg) => (
+                    <label
+                      key={pkg.id}
+                      className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={form.packageIds.includes(pkg.id)}
+                        onChange={() => togglePackage(pkg.id)}
+                      />
+                      <span className="flex-1">{pkg.title}</span>
+                      <span className="text-xs text-gray-500 capitalize">{pkg.packageType}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : editingId ? "Save Changes" : "Create Code"}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={handleCancelEdit}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </main>
+
+      <Confirmation
+        isOpen={promotionToDelete !== null}
+        onClose={() => setPromotionToDelete(null)}
+        onConfirm={confirmDeletePromotion}
+        title="Delete Promo Code"
+        message={`Delete ${promotionToDelete?.code}? It has not been used on any booking.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+
+      <MobileNav />
+    </div>
+  );
+}
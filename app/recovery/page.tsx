@@ -9,7 +9,6 @@ import {
   FiCheckCircle,
   FiClock,
   FiDollarSign,
-  FiMail,
   FiPackage,
   FiSearch,
   FiUsers,
@@ -19,9 +18,26 @@ import {
 } from "react-icons/fi";
 import {
   recoveryApi,
+  CreateRefundInput,
   OrphanedPayment,
   PaymentDetails,
+  RecoveryScanRecord,
 } from "@/lib/recoveryApi";
+import {
+  getCommittedRefundTotal,
+  REFUND_METHOD_LABELS,
+  REFUND_STATUS_LABELS,
+  RefundRecord,
+  RefundStatus,
+} from "@/lib/refunds";
+import RecoveryHistory from "@/components/admin/RecoveryHistory";
+import RefundModal from "@/components/admin/RefundModal";
+
+const REFUND_STATUS_COLORS: Record<RefundStatus, string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  processed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
 
 // Helper function to format ISO date to human-readable format
 const formatDate = (dateString: string) => {
@@ -78,14 +94,21 @@ export default function PaymentRecoveryPage() {
   const [orphanedPayments, setOrphanedPayments] = useState<OrphanedPayment[]>([]);
   const [selectedPayments, setSelectedPayments] = useState<Set<string>>(new Set());
   const [lastScanTime, setLastScanTime] = useState<Date | null>(null);
+  const [lastAutoScan, setLastAutoScan] = useState<RecoveryScanRecord | null>(null);
   const [scanSummary, setScanSummary] = useState<any>(null);
   const [isRecovering, setIsRecovering] = useState<string | null>(null);
-  const [recoveryHistory, setRecoveryHistory] = useState<any[]>([]);
+  const [historyKey, setHistoryKey] = useState(0);
 
   // Refunded Bookings states
   const [refundedBookings, setRefundedBookings] = useState<any[]>([]);
   const [loadingRefunded, setLoadingRefunded] = useState(false);
   const [refundedError, setRefundedError] = useState<string | null>(null);
+  const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+  const [refundTarget, setRefundTarget] = useState<{
+    bookingId?: string;
+    paymentIntentId?: string;
+    maxAmount?: number;
+  } | null>(null);
 
   // Manual recovery form
   const [manualPaymentId, setManualPaymentId] = useState("");
@@ -102,6 +125,10 @@ export default function PaymentRecoveryPage() {
     // Auto-scan on mount
     handleScan();
     fetchRefundedBookings();
+    recoveryApi
+      .getRecoveryScans(1)
+      .then((scans) => setLastAutoScan(scans[0] || null))
+      .catch(() => setLastAutoScan(null));
   }, []);
 
   const showToast = (message: string, type: "success" | "error") => {
@@ -140,6 +167,7 @@ export default function PaymentRecoveryPage() {
       const result = await recoveryApi.getRefundedBookings();
       if (result.success && result.data) {
         setRefundedBookings(result.data);
+        await fetchRefunds(result.data.map((booking: { _id: string }) => booking._id));
       } else {
         setRefundedError("Failed to fetch refunded bookings");
       }
@@ -151,6 +179,35 @@ export default function PaymentRecoveryPage() {
     }
   };
 
+  const fetchRefunds = async (bookingIds: string[]) => {
+    if (bookingIds.length === 0) return;
+    try {
+      setRefunds(await recoveryApi.getRefunds(bookingIds));
+    } catch (error) {
+      console.error("Fetch refunds error:", error);
+    }
+  };
+
+  const handleCreateRefund = async (input: CreateRefundInput) => {
+    const refund = await recoveryApi.createRefund(input);
+    setRefunds((prev) => [refund, ...prev]);
+    setRefundTarget(null);
+    showToast(
+      `Refund of RM ${refund.amount.toFixed(2)} ${refund.status === "processed" ? "processed" : "recorded"}`,
+      "success"
+    );
+  };
+
+  const handleUpdateRefund = async (refund: RefundRecord, status: "processed" | "failed") => {
+    try {
+      const updated = await recoveryApi.updateRefund(refund._id, status);
+      setRefunds((prev) => prev.map((r) => (r._id === updated._id ? updated : r)));
+      showToast(`Refund marked as ${REFUND_STATUS_LABELS[status].toLowerCase()}`, "success");
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : "Failed to update refund", "error");
+    }
+  };
+
   const handleRecover = async (paymentIntentId: string) => {
     setIsRecovering(paymentIntentId);
     try {
@@ -164,18 +221,6 @@ export default function PaymentRecoveryPage() {
           "success"
         );
 
-        // Add to history
-        setRecoveryHistory((prev) => [
-          {
-            paymentIntentId,
-            bookingId: result.bookingId,
-            customerEmail: result.customerEmail,
-            timestamp: new Date(),
-            status: "success",
-          },
-          ...prev,
-        ]);
-
         // Remove from orphaned list
         setOrphanedPayments((prev) =>
           prev.filter((p) => p.paymentIntentId !== paymentIntentId)
@@ -197,6 +242,8 @@ export default function PaymentRecoveryPage() {
       showToast(error.message || "Failed to recover payment", "error");
     } finally {
       setIsRecovering(null);
+      // Failed attempts are recorded too
+      setHistoryKey((key) => key + 1);
     }
   };
 
@@ -222,21 +269,6 @@ export default function PaymentRecoveryPage() {
         result.summary.failed > 0 ? "error" : "success"
       );
 
-      // Add successful recoveries to history
-      result.results.forEach((r) => {
-        if (r.success) {
-          setRecoveryHistory((prev) => [
-            {
-              paymentIntentId: r.paymentIntentId,
-              bookingId: r.bookingId,
-              timestamp: new Date(),
-              status: "success",
-            },
-            ...prev,
-          ]);
-        }
-      });
-
       // Rescan after batch recovery
       await handleScan();
       setSelectedPayments(new Set());
@@ -245,6 +277,7 @@ export default function PaymentRecoveryPage() {
       showToast(error.message || "Batch recovery failed", "error");
     } finally {
       setIsRecovering(null);
+      setHistoryKey((key) => key + 1);
     }
   };
 
@@ -356,6 +389,26 @@ export default function PaymentRecoveryPage() {
 
         {activeTab === "recovery" ? (
           <>
+            {lastAutoScan && (
+              <div
+                className={`rounded-lg p-4 mb-6 text-sm ${
+                  lastAutoScan.error
+                    ? "bg-red-50 text-red-800"
+                    : lastAutoScan.needsAttentionCount > 0
+                      ? "bg-yellow-50 text-yellow-800"
+                      : "bg-green-50 text-green-800"
+                }`}
+              >
+                <strong>Automatic scan</strong> at{" "}
+                {new Date(lastAutoScan.startedAt).toLocaleString()} (last{" "}
+                {lastAutoScan.hours}h):{" "}
+                {lastAutoScan.error
+                  ? `failed - ${lastAutoScan.error}`
+                  : `${lastAutoScan.orphans.length} orphaned, ${lastAutoScan.recoveredCount} recovered automatically, ${lastAutoScan.needsAttentionCount} need attention`}
+                {!lastAutoScan.autoRecoverEnabled && " (auto recovery is off)"}
+              </div>
+            )}
+
             {/* Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
               <div className="bg-white rounded-lg shadow p-6">
@@ -717,58 +770,7 @@ export default function PaymentRecoveryPage() {
                 </div>
               </div>
 
-              <div className="bg-white rounded-lg shadow p-6">
-                <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                  <FiClock />
-                  Recovery History
-                </h2>
-                <p className="text-sm text-gray-600 mb-4">
-                  Recently recovered payments (session only)
-                </p>
-
-                {recoveryHistory.length === 0 ? (
-                  <div className="text-center py-8 text-gray-500">
-                    <p>No recoveries yet</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {recoveryHistory.slice(0, 10).map((item, index) => (
-                      <div
-                        key={index}
-                        className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <FiCheckCircle className="text-green-500" />
-                              <code className="text-xs bg-gray-100 px-2 py-1 rounded">
-                                {item.paymentIntentId.substring(0, 20)}...
-                              </code>
-                            </div>
-                            <div className="text-sm text-gray-600">
-                              <div>
-                                Booking:{" "}
-                                <span className="font-medium">
-                                  {item.bookingId}
-                                </span>
-                              </div>
-                              {item.customerEmail && (
-                                <div className="flex items-center gap-1 mt-1">
-                                  <FiMail className="text-xs" />
-                                  {item.customerEmail}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                          <div className="text-xs text-gray-500">
-                            {new Date(item.timestamp).toLocaleTimeString()}
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <RecoveryHistory refreshKey={historyKey} />
             </div>
 
             {/* Help Section */}
@@ -803,14 +805,23 @@ export default function PaymentRecoveryPage() {
                 <FiSlash className="text-red-500" />
                 Cancelled & Refunded Bookings ({refundedBookings.length})
               </h2>
-              <button
-                onClick={fetchRefundedBookings}
-                disabled={loadingRefunded}
-                className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-semibold disabled:opacity-50"
-              >
-                <FiRefreshCw className={loadingRefunded ? "animate-spin" : ""} />
-                Refresh List
-              </button>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => setRefundTarget({})}
+                  className="flex items-center gap-1.5 text-sm text-red-600 hover:text-red-700 font-semibold"
+                >
+                  <FiDollarSign />
+                  New Refund
+                </button>
+                <button
+                  onClick={fetchRefundedBookings}
+                  disabled={loadingRefunded}
+                  className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-semibold disabled:opacity-50"
+                >
+                  <FiRefreshCw className={loadingRefunded ? "animate-spin" : ""} />
+                  Refresh List
+                </button>
+              </div>
             </div>
 
             {loadingRefunded ? (
@@ -855,10 +866,24 @@ export default function PaymentRecoveryPage() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Stripe Link
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Admin Refunds
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {refundedBookings.map((booking) => (
+                    {refundedBookings.map((booking) => {
+                      const bookingRefunds = refunds.filter((refund) => refund.bookingId === booking._id);
+                      const hasStripePayment =
+                        booking.stripePaymentIntentId &&
+                        booking.stripePaymentIntentId !== "N/A" &&
+                        booking.stripePaymentIntentId !== "None";
+                      const refundable = Math.max(
+                        0,
+                        (booking.totalAmount || 0) - getCommittedRefundTotal(bookingRefunds)
+                      );
+
+                      return (
                       <tr key={booking._id} className="hover:bg-gray-50">
                         <td className="px-6 py-4">
                           <code className="text-xs bg-gray-100 px-2 py-1 rounded select-all">
@@ -907,8 +932,59 @@ export default function PaymentRecoveryPage() {
                             <span className="text-gray-400 text-xs">No Stripe charge</span>
                           )}
                         </td>
+                        <td className="px-6 py-4">
+                          <div className="space-y-1.5">
+                            {bookingRefunds.map((refund) => (
+                              <div key={refund._id} className="text-xs">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-semibold text-gray-900">
+                                    RM {refund.amount.toFixed(2)}
+                                  </span>
+                                  <span className="text-gray-500">{REFUND_METHOD_LABELS[refund.method]}</span>
+                                  <span
+                                    className={`px-2 py-0.5 rounded-full font-medium ${REFUND_STATUS_COLORS[refund.status]}`}
+                                    title={refund.error || refund.reason}
+                                  >
+                                    {REFUND_STATUS_LABELS[refund.status]}
+                                  </span>
+                                </div>
+                                {refund.status === "requested" && refund.method !== "stripe" && (
+                                  <div className="flex gap-2 mt-1">
+                                    <button
+                                      onClick={() => handleUpdateRefund(refund, "processed")}
+                                      className="text-green-600 hover:text-green-700 font-semibold"
+                                    >
+                                      Mark processed
+                                    </button>
+                                    <button
+                                      onClick={() => handleUpdateRefund(refund, "failed")}
+                                      className="text-red-600 hover:text-red-700 font-semibold"
+                                    >
+                                      Mark failed
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                            {refundable > 0 && (
+                              <button
+                                onClick={() =>
+                                  setRefundTarget({
+                                    bookingId: booking._id,
+                                    paymentIntentId: hasStripePayment ? booking.stripePaymentIntentId : undefined,
+                                    maxAmount: refundable,
+                                  })
+                                }
+                                className="text-sm text-red-600 hover:text-red-700 font-semibold"
+                              >
+                                Refund
+                              </button>
+                            )}
+                          </div>
+                        </td>
                       </tr>
-                    ))}
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
@@ -916,6 +992,16 @@ export default function PaymentRecoveryPage() {
           </div>
         )}
       </main>
+
+      {refundTarget && (
+        <RefundModal
+          bookingId={refundTarget.bookingId}
+          paymentIntentId={refundTarget.paymentIntentId}
+          maxAmount={refundTarget.maxAmount}
+          onClose={() => setRefundTarget(null)}
+          onSubmit={handleCreateRefund}
+        />
+      )}
     </div>
   );
 }
@@ -1,53 +1,78 @@
 "use client";
 import { useState, useEffect } from "react";
-
-interface BookingData {
-  _id: string;
-  packageType: "tour" | "transfer";
-  packageId: {
-    _id: string;
-    title: string;
-    type?: string;
-  };
-  adults: number;
-  children: number;
-  total: number;
-  status: string;
-  date: string;
-  createdAt: string;
-  transport?: "Van" | "Van + Ferry" | "Private"; // Add transport type for transfers
-}
-
-interface PackagePerformance {
-  name: string;
-  type: string;
-  bookings: number;
-  totalPersons: number;
-  revenue: number;
-}
-
-interface RevenueData {
-  totalRevenue: number;
-  totalBookings: number;
-  totalPersons: number;
-  avgBookingValue: number;
+import RevenueChange from "@/components/admin/RevenueChange";
+import RevenueChart from "@/components/admin/RevenueChart";
+import type {
+  PackagePerformance,
+  RevenueComparison,
+  RevenueComparisonKind,
+  RevenueGroupBy,
+  RevenueReport,
+  RevenueSeriesPoint,
+  RevenueSummary,
+} from "@/lib/revenue";
+import {
+  exportRevenueCsv,
+  exportRevenuePdf,
+  exportRevenueXlsx,
+} from "@/lib/revenueExport";
+import {
+  formatMalaysianDateForDisplay,
+  parseDateStringAsMYT,
+} from "@/lib/dateUtils";
+
+type RevenueData = RevenueSummary & {
   packagePerformance: PackagePerformance[];
-}
+  series: RevenueSeriesPoint[];
+  comparisons: RevenueComparison[];
+};
+
+type ExportFormat = "xlsx" | "csv" | "pdf";
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; className: string }[] = [
+  { format: "xlsx", label: "Excel", className: "bg-green-600 hover:bg-green-700" },
+  { format: "csv", label: "CSV", className: "bg-gray-700 hover:bg-gray-800" },
+  { format: "pdf", label: "PDF", className: "bg-red-600 hover:bg-red-700" },
+];
+
+const COMPARISON_OPTIONS: { value: RevenueComparisonKind; label: string }[] = [
+  { value: "previousPeriod", label: "Previous period" },
+  { value: "lastYear", label: "Same period last year" },
+];
+
+const GROUP_BY_OPTIONS: { value: RevenueGroupBy; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "package", label: "Package" },
+  { value: "packageType", label: "Package Type" },
+];
 
 export default function RevenuePage() {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [groupBy, setGroupBy] = useState<RevenueGroupBy>("day");
   const [revenueData, setRevenueData] = useState<RevenueData>({
     totalRevenue: 0,
+    totalRefunds: 0,
     totalBookings: 0,
     totalPersons: 0,
     avgBookingValue: 0,
     packagePerformance: [],
+    series: [],
+    comparisons: [],
   });
+  const [comparisonKind, setComparisonKind] =
+    useState<RevenueComparisonKind>("previousPeriod");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(
+    null,
+  );
 
-  const fetchRevenueData = async () => {
+  const fetchRevenueData = async (
+    selectedGroupBy: RevenueGroupBy = groupBy,
+  ) => {
     if (!startDate || !endDate) {
       setError("Please select both start and end dates");
       return;
@@ -57,85 +82,29 @@ export default function RevenuePage() {
     setError(null);
 
     try {
-      let url = `${process.env.NEXT_PUBLIC_API_URL}/api/bookings`;
-      const params = new URLSearchParams();
-
-      params.append("startDate", new Date(startDate).toISOString());
-      params.append("endDate", new Date(endDate).toISOString());
-
-      url += `?${params.toString()}`;
-
-      const response = await fetch(url);
+      const params = new URLSearchParams({
+        from: startDate,
+        to: endDate,
+        groupBy: selectedGroupBy,
+        compare: "true",
+      });
+
+      const response = await fetch(`/api/bookings/revenue?${params}`);
       const data = await response.json();
 
-      if (data.success) {
-        const bookings: BookingData[] = data.bookings || [];
-
-        // Filter bookings to ensure they fall within the selected date range
-        const filteredBookings = bookings.filter((booking) => {
-          const bookingDate = new Date(booking.date || booking.createdAt);
-          const start = new Date(startDate);
-          const end = new Date(endDate);
-          return bookingDate >= start && bookingDate <= end;
-        });
-
-        // Calculate metrics for filtered data
-        const totalRevenue = filteredBookings.reduce(
-          (sum, booking) => sum + (booking.total || 0),
-          0,
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.error || data.message || "Failed to fetch revenue data",
         );
-        const totalBookings = filteredBookings.length;
-        const totalPersons = filteredBookings.reduce(
-          (sum, booking) =>
-            sum + (booking.adults || 0) + (booking.children || 0),
-          0,
-        );
-        const avgBookingValue =
-          totalBookings > 0 ? totalRevenue / totalBookings : 0;
-
-        // Group by package for performance analysis
-        const packageMap = new Map<string, PackagePerformance>();
-
-        filteredBookings.forEach((booking) => {
-          const packageId = booking.packageId?._id || "unknown";
-          const packageName = booking.packageId?.title || "Unknown Package";
-          // For transfers, use transport type; for tours, use package type
-          const packageType =
-            booking.packageType === "transfer"
-              ? booking.transport || "Unknown Transfer Type"
-              : booking.packageId?.type || booking.packageType || "unknown";
-
-          if (!packageMap.has(packageId)) {
-            packageMap.set(packageId, {
-              name: packageName,
-              type: packageType,
-              bookings: 0,
-              totalPersons: 0,
-              revenue: 0,
-            });
-          }
-
-          const packageData = packageMap.get(packageId)!;
-          packageData.bookings += 1;
-          packageData.totalPersons +=
-            (booking.adults || 0) + (booking.children || 0);
-          packageData.revenue += booking.total || 0;
-        });
-
-        const packagePerformance = Array.from(packageMap.values()).sort(
-          (a, b) => b.revenue - a.revenue,
-        );
-
-        setRevenueData({
-          totalRevenue,
-          totalBookings,
-          totalPersons,
-          avgBookingValue,
-          packagePerformance,
-        });
-      } else {
-        throw new Error(data.error || "Failed to fetch revenue data");
       }
+
+      const report: RevenueReport = data.data;
+      setRevenueData({
+        ...report.summary,
+        packagePerformance: report.packagePerformance,
+        series: report.series,
+        comparisons: report.comparisons || [],
+      });
     } catch (err) {
       console.error("Error fetching revenue data:", err);
       setError(err instanceof Error ? err.message : "Failed to fetch data");
@@ -144,87 +113,49 @@ export default function RevenuePage() {
     }
   };
 
-  const exportToSpreadsheet = () => {
-    if (revenueData.packagePerformance.length === 0) {
-      alert("No data available to export");
+  const handleExport = async (format: ExportFormat) => {
+    if (!startDate || !endDate) {
+      setError("Please select both start and end dates");
       return;
     }
 
-    // Get month and year for title
-    const startMonth = new Date(startDate).toLocaleDateString("en-US", {
-      month: "long",
-      year: "numeric",
-    });
-    const endMonth = new Date(endDate).toLocaleDateString("en-US", {
-      month: "long",
-      year: "numeric",
-    });
-    const periodTitle =
-      startMonth === endMonth ? startMonth : `${startMonth} - ${endMonth}`;
-
-    // Create professional header with title and date range
-    const title = `Revenue Analytics Report - ${periodTitle}\n`;
-    const subTitle = `Generated on: ${new Date().toLocaleDateString()}\n`;
-    const dateRange = `Report Period: ${new Date(
-      startDate,
-    ).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()}\n\n`;
-
-    // Create data rows with proper formatting
-    const csvData = revenueData.packagePerformance
-      .map(
-        (item) =>
-          `"${item.name}","${item.type}",${item.bookings},${
-            item.totalPersons
-          },"RM ${item.revenue.toFixed(2)}"`,
-      )
-      .join("\n");
-
-    // Create professional header row
-    const header =
-      "Package Name,Package Type,Total Bookings,Total Persons,Total Revenue\n";
-
-    // Create total section with separator line
-    const separator = ",,,,\n";
-    const totalLabel = `"TOTAL - ${periodTitle}","All Packages",${
-      revenueData.totalBookings
-    },${revenueData.totalPersons},"RM ${revenueData.totalRevenue.toFixed(
-      2,
-    )}"\n`;
-
-    // Additional summary metrics
-    const summaryHeader = "\n\nSUMMARY METRICS\n";
-    const avgBookingValue = `"Average Booking Value","","","","RM ${revenueData.avgBookingValue.toFixed(
-      2,
-    )}"\n`;
-
-    // Combine all parts
-    const csvContent =
-      title +
-      subTitle +
-      dateRange +
-      header +
-      csvData +
-      separator +
-      totalLabel +
-      summaryHeader +
-      avgBookingValue;
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    const dateStr = new Date().toLocaleDateString("en-CA", {
-      timeZone: "Asia/Kuala_Lumpur",
-    });
-    a.download = `revenue-analytics-${periodTitle
-      .replace(/\s+/g, "-")
-      .toLowerCase()}-${dateStr}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+    setExportingFormat(format);
+    try {
+      const params = new URLSearchParams({
+        from: startDate,
+        to: endDate,
+        groupBy,
+        includeLineItems: "true",
+      });
+
+      const response = await fetch(`/api/bookings/revenue?${params}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(
+          data.error || data.message || "Failed to fetch revenue data",
+        );
+      }
+
+      const report: RevenueReport = data.data;
+      if (format === "xlsx") exportRevenueXlsx(report);
+      else if (format === "csv") exportRevenueCsv(report);
+      else exportRevenuePdf(report);
+    } catch (err) {
+      console.error("Error exporting revenue report:", err);
+      setError(err instanceof Error ? err.message : "Failed to export report");
+    } finally {
+      setExportingFormat(null);
+    }
   };
 
+  const comparison = revenueData.comparisons.find(
+    (item) => item.kind === comparisonKind,
+  );
+  const comparisonLabel = COMPARISON_OPTIONS.find(
+    (option) => option.value === comparisonKind,
+  )?.label.toLowerCase();
+
   // Remove automatic data fetching on mount - users must select dates first
   // useEffect(() => {
   //   fetchRevenueData();
@@ -237,22 +168,29 @@ export default function RevenuePage() {
           Revenue Analytics Dashboard
         </h1>
 
-        {/* Export to Spreadsheet button at the top */}
-        <div className="flex justify-end mb-6">
-          <button
-            onClick={exportToSpreadsheet}
-            disabled={revenueData.packagePerformance.length === 0}
-            className="bg-green-600 hover:bg-green-700 text-white font-semibold py-3 px-6 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 flex items-center gap-2"
-          >
-            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-              <path
-                fillRule="evenodd"
-                d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z"
-                clipRule="evenodd"
-              />
-            </svg>
-            Export to Excel
-          </button>
+        {/* Export buttons at the top */}
+        <div className="flex flex-wrap justify-end gap-3 mb-6">
+          {EXPORT_OPTIONS.map((option) => (
+            <button
+              key={option.format}
+              onClick={() => handleExport(option.format)}
+              disabled={
+                revenueData.totalBookings === 0 || exportingFormat !== null
+              }
+              className={`${option.className} text-white font-semibold py-3 px-6 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 flex items-center gap-2`}
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z"
+                  clipRule="evenodd"
+                />
+              </svg>
+              {exportingFormat === option.format
+                ? "Exporting..."
+                : `Export to ${option.label}`}
+            </button>
+          ))}
         </div>
 
         {/* Date filter box with shadow */}
@@ -287,7 +225,7 @@ export default function RevenuePage() {
             </div>
             <div className="w-full lg:w-auto">
               <button
-                onClick={fetchRevenueData}
+                onClick={() => fetchRevenueData()}
                 disabled={isLoading}
                 className="w-full lg:w-auto bg-primary hover:bg-primary text-white font-semibold px-8 py-3 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors duration-200"
               >
@@ -318,6 +256,37 @@ export default function RevenuePage() {
           </div>
         )}
 
+        {/* Comparison period */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700">
+              Compare with:
+            </span>
+            {COMPARISON_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setComparisonKind(option.value)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  comparisonKind === option.value
+                    ? "bg-primary text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {comparison && (
+            <p className="text-sm text-gray-500">
+              {formatMalaysianDateForDisplay(
+                parseDateStringAsMYT(comparison.from),
+              )}{" "}
+              -{" "}
+              {formatMalaysianDateForDisplay(parseDateStringAsMYT(comparison.to))}
+            </p>
+          )}
+        </div>
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-lg p-6">
@@ -330,6 +299,18 @@ export default function RevenuePage() {
                 <p className="text-2xl font-bold text-gray-900">
                   RM {Math.round(revenueData.totalRevenue).toLocaleString()}
                 </p>
+                {revenueData.totalRefunds > 0 && (
+                  <p className="text-xs text-gray-500">
+                    after RM{" "}
+                    {Math.round(revenueData.totalRefunds).toLocaleString()}{" "}
+                    refunds
+                  </p>
+                )}
+                <RevenueChange
+                  change={comparison?.metrics.totalRevenue}
+                  currency
+                  label={`vs ${comparisonLabel}`}
+                />
               </div>
             </div>
           </div>
@@ -344,6 +325,10 @@ export default function RevenuePage() {
                 <p className="text-2xl font-bold text-gray-900">
                   {revenueData.totalBookings.toLocaleString()}
                 </p>
+                <RevenueChange
+                  change={comparison?.metrics.totalBookings}
+                  label={`vs ${comparisonLabel}`}
+                />
               </div>
             </div>
           </div>
@@ -358,6 +343,10 @@ export default function RevenuePage() {
                 <p className="text-2xl font-bold text-gray-900">
                   {revenueData.totalPersons.toLocaleString()}
                 </p>
+                <RevenueChange
+                  change={comparison?.metrics.totalPersons}
+                  label={`vs ${comparisonLabel}`}
+                />
               </div>
             </div>
           </div>
@@ -372,11 +361,55 @@ export default function RevenuePage() {
                 <p className="text-2xl font-bold text-gray-900">
                   RM {Math.round(revenueData.avgBookingValue).toLocaleString()}
                 </p>
+                <RevenueChange
+                  change={comparison?.metrics.avgBookingValue}
+                  currency
+                  label={`vs ${comparisonLabel}`}
+                />
               </div>
             </div>
           </div>
         </div>
 
+        {/* Revenue Chart */}
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Revenue by{" "}
+              {GROUP_BY_OPTIONS.find(
+                (option) => option.value === groupBy,
+              )?.label.toLowerCase()}
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {GROUP_BY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => {
+                    setGroupBy(option.value);
+                    if (startDate && endDate) fetchRevenueData(option.value);
+                  }}
+                  disabled={isLoading}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    groupBy === option.value
+                      ? "bg-primary text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin h-12 w-12 border-4 border-primary border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <RevenueChart series={revenueData.series} />
+          )}
+        </div>
+
         {/* Package Performance Table */}
         <div className="bg-white rounded-xl shadow-lg overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -412,8 +445,8 @@ export default function RevenuePage() {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {revenueData.packagePerformance.map((item, i) => (
-                    <tr key={i} className="hover:bg-gray-50">
+                  {revenueData.packagePerformance.map((item) => (
+                    <tr key={item.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
                           {item.name}
@@ -442,12 +475,22 @@ export default function RevenuePage() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {item.bookings}
+                        <RevenueChange
+                          change={comparison?.packages[item.id]?.bookings}
+                        />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {item.totalPersons}
+                        <RevenueChange
+                          change={comparison?.packages[item.id]?.totalPersons}
+                        />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         RM {Math.round(item.revenue).toLocaleString()}
+                        <RevenueChange
+                          change={comparison?.packages[item.id]?.revenue}
+                          currency
+                        />
                       </td>
                     </tr>
                   ))}
@@ -20,7 +20,9 @@ import { toast } from "react-hot-toast";
 import RichTextEditor from "@/components/RichTextEditor";
 import TourCardPreview from "@/components/TourCardPreview";
 import Confirmation from "@/components/ui/Confirmation";
+import PricingRulesEditor from "@/components/admin/PricingRulesEditor";
 import { tourApi } from "@/lib/tourApi";
+import { getPricingRulesError, PricingRule } from "@/lib/pricingRules";
 import { stripHtmlTags } from "@/lib/htmlValidation";
 
 // Schema validation
@@ -221,10 +223,14 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
     { time: "08:00", minimumPerson: 1, maximumPerson: 10 }
   ]);
 
+  // Seasonal/dynamic pricing rules, saved alongside the tour
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+
   // Section visibility states
   const [sectionsExpanded, setSectionsExpanded] = useState({
     basicInfo: true,
     pricing: false,
+    pricingRules: false,
     departureTimes: false,
     tourDetails: false,
     faq: false,
@@ -421,6 +427,8 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
             );
           }
 
+          setPricingRules(tour.pricingRules || []);
+
           // Set other state values
           setOriginalSlug(tour.slug || "");
           setUploadedImageUrl(tour.image || "");
@@ -481,6 +489,7 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
     watchDetailsPickupLocation,
     watchDetailsNote,
     watchDetailsFaq,
+    pricingRules,
     isLoading,
   ]);
 
@@ -686,6 +695,7 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
           minimumPerson: Number(s.minimumPerson ?? data.minimumPerson ?? 1),
           maximumPerson: Number(s.maximumPerson ?? data.maximumPerson ?? 10),
         })),
+        pricingRules,
         details: {
           ...data.details,
           faq: validFaqs,
@@ -760,6 +770,8 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
           (faq) => faq.question.trim() && faq.answer.trim(),
         );
 
+        const pricingRulesError = getPricingRulesError(pricingRules);
+
         if (validFaqs.length === 0) {
           // Add a custom error for FAQ
           toast.error(
@@ -769,6 +781,11 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
             },
           );
           setValidationSuccess(false);
+        } else if (pricingRulesError) {
+          toast.error(pricingRulesError, {
+            duration: 4000,
+          });
+          setValidationSuccess(false);
         } else {
           setValidationSuccess(true);
 
@@ -1306,6 +1323,18 @@ export default function EditTourPage({ params }: { params: { id: string } }) {
                   </div>
                 </CollapsibleSection>
 
+                {/* Seasonal & Dynamic Pricing */}
+                <CollapsibleSection
+                  title="Pricing Rules"
+                  isExpanded={sectionsExpanded.pricingRules}
+                  onToggle={() => toggleSection("pricingRules")}
+                >
+                  <PricingRulesEditor
+                    rules={pricingRules}
+                    onChange={setPricingRules}
+                  />
+                </CollapsibleSection>
+
                 {/* Departure Times & Per-Slot Capacity */}
                 <CollapsibleSection
                   title="Departure Times & Timeslot Capacity"
@@ -21,8 +21,10 @@ import { toast } from "react-hot-toast";
 import TransferCardPreview from "@/components/TransferCardPreview";
 import RichTextEditor from "@/components/RichTextEditor";
 import Confirmation from "@/components/ui/Confirmation";
+import PricingRulesEditor from "@/components/admin/PricingRulesEditor";
 import { generateSlug, debounce } from "@/lib/utils";
 import { transferApi } from "@/lib/transferApi";
+import { getPricingRulesError, PricingRule } from "@/lib/pricingRules";
 import { useForm as useHookForm } from "react-hook-form";
 import { stripHtmlTags } from "@/lib/htmlValidation";
 
@@ -324,11 +326,15 @@ export default function EditTransferPage({
     { time: "08:00", minimumPerson: 1, maximumPerson: 10 }
   ]);
 
+  // Seasonal/dynamic pricing rules, saved alongside the transfer
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+
   // Section visibility states
   const [sectionsExpanded, setSectionsExpanded] = useState({
     basicInfo: true,
     routeInfo: true,
     pricing: false,
+    pricingRules: false,
     departureTimes: false,
     transferDetails: false,
     faq: false,
@@ -528,6 +534,7 @@ export default function EditTransferPage({
     watchPickupOption,
     watchDetailsPickupLocation,
     watchDetailsPickupGuidelines,
+    pricingRules,
     isLoading,
     isNavigating,
   ]);
@@ -702,6 +709,8 @@ export default function EditTransferPage({
             );
           }
 
+          setPricingRules(transfer.pricingRules || []);
+
           // Set other state values
           setOriginalSlug(transfer.slug || "");
           setUploadedImageUrl(transfer.image || "");
@@ -769,6 +778,7 @@ export default function EditTransferPage({
         basicInfo: true,
         routeInfo: true,
         pricing: false,
+        pricingRules: false,
         departureTimes: false,
         transferDetails: false,
         faq: false,
@@ -955,6 +965,7 @@ export default function EditTransferPage({
           minimumPerson: Number(s.minimumPerson ?? data.minimumPerson ?? 1),
           maximumPerson: Number(s.maximumPerson ?? data.maximumPerson ?? 10),
         })),
+        pricingRules,
         // ensure vehicle is explicitly preserved
         vehicle: data.vehicle || rest.vehicle || "",
         // include seat capacity for private transfers
@@ -1020,7 +1031,13 @@ export default function EditTransferPage({
       const validFaqs = currentData.details.faq.filter(
         (faq) => faq.question.trim() && faq.answer.trim(),
       );
-      if (validFaqs.length === 0) {
+      const pricingRulesError = getPricingRulesError(pricingRules);
+      if (pricingRulesError) {
+        toast.error(pricingRulesError, {
+          duration: 4000,
+        });
+      }
+      if (validFaqs.length === 0 || pricingRulesError) {
         setValidationSuccess(false);
       } else {
         setValidationSuccess(true);
@@ -1773,6 +1790,18 @@ export default function EditTransferPage({
                   </div>
                 </CollapsibleSection>
 
+                {/* Seasonal & Dynamic Pricing */}
+                <CollapsibleSection
+                  title="Pricing Rules"
+                  isExpanded={sectionsExpanded.pricingRules}
+                  onToggle={() => toggleSection("pricingRules")}
+                >
+                  <PricingRulesEditor
+                    rules={pricingRules}
+                    onChange={setPricingRules}
+                  />
+                </CollapsibleSection>
+
                 {/* Departure Times & Per-Slot Capacity */}
                 <CollapsibleSection
                   title="Departure Times & Timeslot Capacity"
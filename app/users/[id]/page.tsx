@@ -0,0 +1,195 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { FiArrowLeft, FiMail, FiPhone } from "react-icons/fi"
+import AdminHeader from "@/components/admin/AdminHeader"
+import MobileNav from "@/components/admin/MobileNav"
+import {
+    formatDateAsMYT,
+    formatMalaysianDateForDisplay,
+    formatTimeDisplay,
+} from "@/lib/dateUtils"
+import type { Customer, CustomerBooking } from "@/lib/customers"
+
+const getStatusColor = (status?: string) => {
+    switch (status) {
+        case "confirmed":
+            return "bg-green-100 text-green-800"
+        case "pending":
+            return "bg-yellow-100 text-yellow-800"
+        case "cancelled":
+            return "bg-red-100 text-red-800"
+        default:
+            return "bg-gray-100 text-gray-800"
+    }
+}
+
+const formatDate = (value?: string | null) =>
+    value
+        ? formatMalaysianDateForDisplay(new Date(value), {
+              year: "numeric",
+              month: "short",
+              day: "numeric",
+          })
+        : "-"
+
+export default function CustomerDetailsPage() {
+    const params = useParams()
+    const router = useRouter()
+    const customerId = params.id as string
+
+    const [customer, setCustomer] = useState<Customer | null>(null)
+    const [bookings, setBookings] = useState<CustomerBooking[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchCustomer = async () => {
+            try {
+                setLoading(true)
+                const response = await fetch(`/api/customers/${customerId}`)
+                const data = await response.json()
+
+                if (!response.ok || !data.success) {
+                    throw new Error(data.error || "Failed to fetch customer")
+                }
+
+                setCustomer(data.customer)
+                setBookings(data.bookings)
+            } catch (err) {
+                setError(err instanceof Error ? err.message : "An error occurred")
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchCustomer()
+    }, [customerId])
+
+    const openSlot = (booking: CustomerBooking) => {
+        const packageId =
+            typeof booking.packageId === "string"
+                ? booking.packageId
+                : booking.packageId?._id
+        if (!packageId || !booking.date) return
+
+        const dateStr = formatDateAsMYT(new Date(booking.date))
+        router.push(
+            `/bookings/${packageId}?date=${dateStr}&time=${booking.time}&type=${booking.packageType}`
+        )
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-50 pb-16">
+            <AdminHeader />
+
+            <main className="p-4">
+                <button
+                    onClick={() => router.push("/users")}
+                    className="flex items-center text-sm text-primary mb-4 hover:underline"
+                >
+                    <FiArrowLeft className="mr-1" />
+                    Back to customers
+                </button>
+
+                {loading ? (
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-8">
+                        <div className="flex items-center justify-center">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                            <span className="ml-2 text-gray-600">Loading customer...</span>
+                        </div>
+                    </div>
+                ) : error || !customer ? (
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-8 text-center">
+                        <div className="text-red-500 text-lg mb-2">Error loading customer</div>
+                        <p className="text-gray-600">{error}</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 mb-6">
+                            <h1 className="text-2xl font-bold text-dark">{customer.name}</h1>
+                            <div className="mt-2 space-y-1 text-sm text-gray-600">
+                                {customer.emails.map((email) => (
+                                    <div key={email} className="flex items-center">
+                                        <FiMail className="mr-2" />
+                                        {email}
+                                    </div>
+                                ))}
+                                {customer.phones.map((phone) => (
+                                    <div key={phone} className="flex items-center">
+                                        <FiPhone className="mr-2" />
+                                        {phone}
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                                <div>
+                                    <div className="text-xs text-gray-500">Bookings</div>
+                                    <div className="text-lg font-semibold">{customer.totalBookings}</div>
+                                </div>
+                                <div>
+                                    <div className="text-xs text-gray-500">Lifetime Spend</div>
+                                    <div className="text-lg font-semibold">
+                                        RM {customer.lifetimeSpend.toLocaleString()}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-xs text-gray-500">First Booking</div>
+                                    <div className="text-lg font-semibold">
+                                        {formatDate(customer.firstBookingDate)}
+                                    </div>
+                                </div>
+                                <div>
+                                    <div className="text-xs text-gray-500">Last Booking</div>
+                                    <div className="text-lg font-semibold">
+                                        {formatDate(customer.lastBookingDate)}
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+
+                        <h2 className="text-xl font-bold text-dark mb-4">Bookings</h2>
+                        <div className="space-y-3">
+                            {bookings.map((booking) => (
+                                <button
+                                    key={booking._id}
+                                    onClick={() => openSlot(booking)}
+                                    className="w-full text-left bg-white rounded-lg shadow-sm border border-gray-100 p-4 hover:bg-gray-50 transition-colors"
+                                >
+                                    <div className="flex justify-between items-start">
+                                        <div>
+                                            <div className="font-medium text-dark">
+                                                {typeof booking.packageId === "object" && booking.packageId?.title
+                                                    ? booking.packageId.title
+                                                    : "Unknown Package"}
+                                            </div>
+                                            <div className="text-sm text-gray-600 mt-1">
+                                                {formatDate(booking.date)}
+                                                {booking.time && ` · ${formatTimeDisplay(booking.time)}`}
+                                                {` · ${booking.adults || 0} adult(s), ${booking.children || 0} child(ren)`}
+                                            </div>
+                                        </div>
+                                        <div className="text-right">
+                                            <span
+                                                className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}
+                                            >
+                                                {booking.status || "unknown"}
+                                            </span>
+                                            <div className="text-sm font-semibold mt-2">
+                                                RM {(booking.total || 0).toLocaleString()}
+                                            </div>
+                                        </div>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </main>
+
+            <MobileNav />
+        </div>
+    )
+}
@@ -1,70 +1,149 @@
 "use client"
 
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { toast } from "react-hot-toast"
 import AdminHeader from "@/components/admin/AdminHeader"
 import MobileNav from "@/components/admin/MobileNav"
 import DataTable from "@/components/admin/DataTable"
+import { formatMalaysianDateForDisplay } from "@/lib/dateUtils"
+import type { Customer } from "@/lib/customers"
+
+const PAGE_SIZE = 20
+
+const formatDate = (value: string | null) =>
+    value
+        ? formatMalaysianDateForDisplay(new Date(value), {
+              year: "numeric",
+              month: "short",
+              day: "numeric",
+          })
+        : "-"
 
 export default function UsersPage() {
-    const users = [
-        {
-            id: "U001",
-            name: "Alex Cooper",
-            email: "alex@example.com",
-            bookings: 12,
-            joined: "2023-01-15",
-        },
-        {
-            id: "U002",
-            name: "Sarah Lim",
-            email: "sarah@example.com",
-            bookings: 5,
-            joined: "2023-05-22",
-        },
-        {
-            id: "U003",
-            name: "Raj Patel",
-            email: "raj@example.com",
-            bookings: 3,
-            joined: "2023-08-10",
-        },
-    ]
+    const router = useRouter()
+    const [customers, setCustomers] = useState<Customer[]>([])
+    const [loading, setLoading] = useState(true)
+    const [search, setSearch] = useState("")
+    const [debouncedSearch, setDebouncedSearch] = useState("")
+    const [page, setPage] = useState(1)
+    const [pagination, setPagination] = useState({ pages: 1, total: 0 })
+
+    // Wait for typing to pause before querying
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            setDebouncedSearch(search)
+            setPage(1)
+        }, 300)
+        return () => clearTimeout(timeout)
+    }, [search])
+
+    useEffect(() => {
+        const fetchCustomers = async () => {
+            try {
+                setLoading(true)
+                const params = new URLSearchParams({
+                    page: page.toString(),
+                    limit: PAGE_SIZE.toString(),
+                })
+                if (debouncedSearch) params.set("search", debouncedSearch)
+
+                const response = await fetch(`/api/customers?${params}`)
+                const data = await response.json()
+
+                if (!response.ok || !data.success) {
+                    throw new Error(data.error || "Failed to fetch customers")
+                }
+
+                setCustomers(data.data)
+                setPagination({
+                    pages: data.pagination.pages,
+                    total: data.pagination.total,
+                })
+            } catch (error) {
+                console.error("Error fetching customers:", error)
+                toast.error("Failed to load customers")
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchCustomers()
+    }, [debouncedSearch, page])
 
     const columns = [
         { key: "name", label: "Name" },
         { key: "email", label: "Email" },
+        { key: "phone", label: "Phone" },
         { key: "bookings", label: "Bookings" },
-        { key: "joined", label: "Joined On" },
+        { key: "spend", label: "Lifetime Spend" },
+        { key: "firstBooking", label: "First Booking" },
+        { key: "lastBooking", label: "Last Booking" },
         { key: "actions", label: "Actions" },
     ]
 
+    const tableData = customers.map((customer) => ({
+        id: customer.id,
+        name: customer.name,
+        email: customer.email || "-",
+        phone: customer.phone || "-",
+        bookings: customer.totalBookings,
+        spend: `RM ${customer.lifetimeSpend.toLocaleString()}`,
+        firstBooking: formatDate(customer.firstBookingDate),
+        lastBooking: formatDate(customer.lastBookingDate),
+    }))
+
     return (
         <div className="min-h-screen bg-gray-50 pb-16">
             <AdminHeader />
 
             <main className="p-4">
                 <div className="flex justify-between items-center mb-6">
-                    <h1 className="text-2xl font-bold text-dark">Users</h1>
+                    <div>
+                        <h1 className="text-2xl font-bold text-dark">Customers</h1>
+                        <p className="text-gray-600 text-sm mt-1">
+                            {loading
+                                ? "Loading..."
+                                : `${pagination.total} customer${pagination.total !== 1 ? "s" : ""}`}
+                        </p>
+                    </div>
                     <div className="flex space-x-2">
                         <input
                             type="text"
-                            placeholder="Search users..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search name, email or phone..."
                             className="bg-gray-100 rounded-full px-4 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
                         />
                     </div>
                 </div>
 
                 <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
-                    <DataTable
-                        columns={columns}
-                        data={users}
-                        rowActions={["view"]}
-                        actionHandlers={{
-                            onMore: (row: any) => {
-                                console.log("View user:", row)
-                                // TODO: Navigate to user details page
-                            },
-                        }}
-                    />
+                    {!loading && customers.length === 0 ? (
+                        <div className="p-8 text-center text-gray-500">
+                            {debouncedSearch
+                                ? "No customers match your search"
+                                : "No customers yet"}
+                        </div>
+                    ) : (
+                        <DataTable
+                            columns={columns}
+                            data={tableData}
+                            rowActions={["view"]}
+                            actionHandlers={{
+                                onView: (row) =>
+                                    router.push(
+                                        `/users/${encodeURIComponent(row.id as string)}`
+                                    ),
+                            }}
+                            pagination={{
+                                page,
+                                pages: pagination.pages,
+                                total: pagination.total,
+                                onPageChange: setPage,
+                            }}
+                        />
+                    )}
                 </div>
             </main>
 
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { toast } from "react-hot-toast";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import {
   FiX,
   FiCalendar,
@@ -10,15 +10,18 @@ import {
   FiUsers,
   FiMapPin,
   FiDollarSign,
+  FiTag,
 } from "react-icons/fi";
-
-interface TimeSlot {
-  time: string;
-  capacity: number;
-  bookedCount: number;
-  isAvailable: boolean;
-  minimumPerson: number;
-}
+import { TimeSlotAvailability } from "@/lib/bookingSchedule";
+import { getBookingLoad, getOverbookingError } from "@/lib/capacity";
+import { normalizeTime } from "@/lib/dateUtils";
+import { getPriceBreakdown, PricingRule } from "@/lib/pricingRules";
+import { useHolidays } from "@/lib/useHolidays";
+import {
+  calculatePromoDiscount,
+  describePromotionDiscount,
+  PromotionInput,
+} from "@/lib/promotions";
 
 interface ContactInfo {
   name: string;
@@ -26,6 +29,21 @@ interface ContactInfo {
   phone: string;
 }
 
+type AppliedPromotion = Pick<
+  PromotionInput,
+  "code" | "discountType" | "discountValue" | "maxDiscount"
+>;
+
+/** Booking details to start the form with, e.g. a customer off the waitlist */
+export interface AdminBookingPrefill {
+  /** YYYY-MM-DD */
+  date: string;
+  time: string;
+  adults: number;
+  children: number;
+  contactInfo: ContactInfo;
+}
+
 interface AdminBookingModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -42,11 +60,14 @@ interface AdminBookingModalProps {
     type?: string;
     from?: string;
     to?: string;
+    pricingRules?: PricingRule[];
     details?: {
       pickupLocations?: string;
       pickupOption?: string;
     };
   };
+  /** Read when the modal mounts */
+  initialBooking?: AdminBookingPrefill;
 }
 
 export default function AdminBookingModal({
@@ -56,20 +77,38 @@ export default function AdminBookingModal({
   onBookingComplete,
   packageType,
   packageDetails,
+  initialBooking,
 }: AdminBookingModalProps) {
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [selectedDate, setSelectedDate] = useState<Date>(() =>
+    initialBooking ? parseISO(initialBooking.date) : new Date()
+  );
   const [selectedTime, setSelectedTime] = useState("");
-  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
-  const [adults, setAdults] = useState(packageDetails.minimumPerson || 1);
-  const [children, setChildren] = useState(0);
+  const [timeSlots, setTimeSlots] = useState<TimeSlotAvailability[]>([]);
+  const [adults, setAdults] = useState(
+    initialBooking?.adults || packageDetails.minimumPerson || 1
+  );
+  const [children, setChildren] = useState(initialBooking?.children || 0);
   const [pickupLocation, setPickupLocation] = useState("");
-  const [contactInfo, setContactInfo] = useState<ContactInfo>({
-    name: "",
-    email: "",
-    phone: "",
-  });
+  const [contactInfo, setContactInfo] = useState<ContactInfo>(
+    initialBooking?.contactInfo || {
+      name: "",
+      email: "",
+      phone: "",
+    }
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [promoCode, setPromoCode] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromotion | null>(
+    null
+  );
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
+  // Set when the server finds an overbooking the loaded slots did not show
+  const [serverOverbooking, setServerOverbooking] = useState<string | null>(
+    null
+  );
+  const holidays = useHolidays();
 
   // Calculate minimum date (tomorrow)
   const minDate = new Date();
@@ -84,6 +123,18 @@ export default function AdminBookingModal({
   // Compute currently selected slot (if any)
   const selectedSlot = timeSlots.find((s) => s.time === selectedTime);
 
+  const overbooking =
+    (selectedSlot &&
+      getOverbookingError(
+        selectedSlot,
+        getBookingLoad({ adults, children }, selectedSlot.capacityUnit)
+      )) ||
+    serverOverbooking;
+
+  useEffect(() => {
+    setServerOverbooking(null);
+  }, [selectedDate, selectedTime, adults, children]);
+
   // Ensure adults respect slot/package minimum when slot changes
   useEffect(() => {
     const requiredMinimum =
@@ -117,9 +168,17 @@ export default function AdminBookingModal({
 
       const data = await response.json();
       if (data.success) {
-        setTimeSlots(data.data || []);
-        // Reset selected time when date changes
-        setSelectedTime("");
+        const slots: TimeSlotAvailability[] = data.data || [];
+        setTimeSlots(slots);
+        // Reset selected time when date changes, except on a prefilled date
+        const prefilledSlot =
+          initialBooking?.date === formattedDate
+            ? slots.find(
+                (slot) =>
+                  normalizeTime(slot.time) === normalizeTime(initialBooking.time)
+              )
+            : undefined;
+        setSelectedTime(prefilledSlot?.time || "");
       } else {
         console.error("Failed to fetch time slots:", data.message);
         setTimeSlots([]);
@@ -133,19 +192,64 @@ export default function AdminBookingModal({
     }
   };
 
-  const calculateTotalPrice = () => {
-    if (packageType === "tour" && packageDetails.type === "private") {
-      // Private tours - price for entire group divided by 8 people
-      return Math.ceil(adults / 8) * packageDetails.newPrice;
-    } else {
-      // Regular pricing per person
-      return (
-        adults * packageDetails.newPrice +
-        children * (packageDetails.childPrice || 0)
+  // Base prices adjusted by the package's pricing rules for the chosen date
+  const priceBreakdown = getPriceBreakdown(packageType, packageDetails, {
+    date: format(selectedDate, "yyyy-MM-dd"),
+    adults,
+    children,
+    holidays: holidays.map((holiday) => holiday.date),
+  });
+
+  // Recalculated as guests change; the server prices and reserves the code on create
+  const promoDiscount = appliedPromo
+    ? calculatePromoDiscount(appliedPromo, priceBreakdown.total)
+    : 0;
+
+  const calculateTotalPrice = () =>
+    Math.round((priceBreakdown.total - promoDiscount) * 100) / 100;
+
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+
+    try {
+      setIsApplyingPromo(true);
+      const response = await fetch("/api/promotions/validate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          code: promoCode,
+          packageType,
+          packageId: packageDetails._id,
+          subtotal: priceBreakdown.total,
+          customerEmail: contactInfo.email.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Invalid promo code");
+      }
+
+      setAppliedPromo(data.promotion);
+      setPromoCode(data.promotion.code);
+      toast.success(`${data.promotion.code} applied`);
+    } catch (error) {
+      setAppliedPromo(null);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to apply promo code"
       );
+    } finally {
+      setIsApplyingPromo(false);
     }
   };
 
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoCode("");
+  };
+
   const validateBooking = () => {
     const totalGuests = adults + children;
 
@@ -196,15 +300,9 @@ export default function AdminBookingModal({
       return false;
     }
 
-    const availableCapacity = selectedSlot.capacity - selectedSlot.bookedCount;
-    if (totalGuests > availableCapacity) {
-      toast.error(
-        `Only ${availableCapacity} ${
-          packageType === "transfer" && packageDetails.type === "Private"
-            ? "units"
-            : "seats"
-        } available for this time slot`
-      );
+    // Overbooking needs a reason; the server checks capacity again
+    if (overbooking && !overrideReason.trim()) {
+      toast.error(`${overbooking}. Enter a reason to overbook.`);
       return false;
     }
 
@@ -264,7 +362,8 @@ export default function AdminBookingModal({
           phone: contactInfo.phone.trim(),
           whatsapp: contactInfo.phone.trim(), // Use phone as WhatsApp
         },
-        subtotal: calculateTotalPrice(),
+        subtotal: priceBreakdown.total,
+        ...(appliedPromo ? { promoCode: appliedPromo.code } : {}),
         total: calculateTotalPrice(),
         paymentInfo: {
           amount: calculateTotalPrice(),
@@ -274,22 +373,25 @@ export default function AdminBookingModal({
         },
         // Mark as admin booking for tracking
         isAdminBooking: true,
+        ...(overbooking
+          ? { capacityOverride: { reason: overrideReason.trim() } }
+          : {}),
       };
 
-      // Create booking using existing booking API
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/bookings`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(bookingData),
-        }
-      );
+      // Created through the admin API so capacity is checked server-side
+      const response = await fetch("/api/bookings", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(bookingData),
+      });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.requiresOverride) {
+          setServerOverbooking(errorData.error);
+        }
         throw new Error(
           errorData.error || `HTTP error! status: ${response.status}`
         );
@@ -319,7 +421,7 @@ export default function AdminBookingModal({
           customerName: contactInfo.name.trim(),
           customerEmail: contactInfo.email.trim(),
           customerPhone: contactInfo.phone.trim(),
-          total: calculateTotalPrice(),
+          total: data.data.total ?? calculateTotalPrice(),
         };
 
         onSuccess?.();
@@ -355,6 +457,10 @@ export default function AdminBookingModal({
       email: "",
       phone: "",
     });
+    setPromoCode("");
+    setAppliedPromo(null);
+    setOverrideReason("");
+    setServerOverbooking(null);
   };
 
   const formatTimeDisplay = (time: string) => {
@@ -432,24 +538,24 @@ export default function AdminBookingModal({
                   <option value="">Select a time</option>
                   {timeSlots.map((slot) => {
                     const availableSeats = slot.capacity - slot.bookedCount;
-                    const isSlotAvailable =
-                      slot.isAvailable && availableSeats > 0;
 
+                    // Full slots stay selectable so they can be overbooked
                     return (
                       <option
                         key={slot.time}
                         value={slot.time}
-                        disabled={!isSlotAvailable}
+                        disabled={!slot.isAvailable}
                       >
                         {formatTimeDisplay(slot.time)}
-                        {isSlotAvailable
-                          ? ` (${availableSeats} ${
-                              packageType === "transfer" &&
-                              packageDetails.type === "Private"
-                                ? "units"
-                                : "seats"
-                            } available)`
-                          : " (Fully booked)"}
+                        {!slot.isAvailable
+                          ? " (Closed)"
+                          : availableSeats > 0
+                            ? ` (${availableSeats} ${
+                                slot.capacityUnit === "vehicles"
+                                  ? "units"
+                                  : "seats"
+                              } available)`
+                            : " (Fully booked)"}
                       </option>
                     );
                   })}
@@ -469,7 +575,7 @@ export default function AdminBookingModal({
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 <FiUsers className="inline w-4 h-4 mr-1" />
-                Adults (RM {packageDetails.newPrice}
+                Adults (RM {priceBreakdown.price.adultPrice}
                 {packageDetails.type === "private" ? "/group" : "/person"})
               </label>
               <div className="flex items-center space-x-3">
@@ -525,7 +631,7 @@ export default function AdminBookingModal({
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     <FiUsers className="inline w-4 h-4 mr-1" />
-                    Children (RM {packageDetails.childPrice}/person)
+                    Children (RM {priceBreakdown.price.childPrice}/person)
                   </label>
                   <div className="flex items-center space-x-3">
                     <button
@@ -655,6 +761,42 @@ export default function AdminBookingModal({
             </div>
           </div>
 
+          {/* Promo Code */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <FiTag className="inline w-4 h-4 mr-1" />
+              Promo Code
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                placeholder="Optional"
+                disabled={appliedPromo !== null}
+                className="flex-1 min-w-0 p-3 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-primary focus:border-transparent disabled:bg-gray-100"
+              />
+              {appliedPromo ? (
+                <button
+                  type="button"
+                  onClick={handleRemovePromo}
+                  className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Remove
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleApplyPromo}
+                  disabled={!promoCode.trim() || isApplyingPromo}
+                  className="px-4 py-3 border border-primary text-primary rounded-lg hover:bg-primary/5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isApplyingPromo ? "Checking..." : "Apply"}
+                </button>
+              )}
+            </div>
+          </div>
+
           {/* Price Summary */}
           <div className="bg-gray-50 rounded-lg p-4">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">
@@ -662,28 +804,27 @@ export default function AdminBookingModal({
               Price Summary
             </h3>
             <div className="space-y-2">
-              <div className="flex justify-between">
-                <span>
-                  Adults ({adults}x RM {packageDetails.newPrice})
-                </span>
-                <span>
-                  RM{" "}
-                  {Math.round(
-                    adults * packageDetails.newPrice
-                  ).toLocaleString()}
-                </span>
-              </div>
-              {children > 0 && packageDetails.childPrice && (
-                <div className="flex justify-between">
+              {priceBreakdown.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={`flex justify-between ${
+                    line.kind === "rule" ? "text-sm text-gray-600" : ""
+                  }`}
+                >
+                  <span>{line.label}</span>
                   <span>
-                    Children ({children}x RM {packageDetails.childPrice})
+                    {line.amount < 0 ? "-" : ""}RM{" "}
+                    {Math.abs(line.amount).toLocaleString()}
                   </span>
+                </div>
+              ))}
+              {appliedPromo && promoDiscount > 0 && (
+                <div className="flex justify-between text-sm text-green-700">
                   <span>
-                    RM{" "}
-                    {Math.round(
-                      children * packageDetails.childPrice
-                    ).toLocaleString()}
+                    Promo {appliedPromo.code} (
+                    {describePromotionDiscount(appliedPromo)})
                   </span>
+                  <span>-RM {promoDiscount.toLocaleString()}</span>
                 </div>
               )}
               <div className="border-t pt-2 flex justify-between font-bold text-lg">
@@ -698,6 +839,23 @@ export default function AdminBookingModal({
             </div>
           </div>
 
+          {overbooking && (
+            <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 space-y-2">
+              <p className="text-sm font-medium text-amber-800">
+                {overbooking}
+              </p>
+              <label className="block text-sm text-amber-800">
+                Reason to overbook (recorded on the booking)
+                <textarea
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  rows={2}
+                  className="mt-1 w-full p-2 border border-amber-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+              </label>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex space-x-4 pt-4">
             <button
@@ -1,10 +1,8 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { toast } from "react-hot-toast";
 import { format } from "date-fns";
-import html2canvas from "html2canvas";
-import jsPDF from "jspdf";
 import {
   FiX,
   FiDownload,
@@ -17,7 +15,15 @@ import {
   FiMail,
   FiPhone,
   FiDollarSign,
+  FiSend,
 } from "react-icons/fi";
+import { FaWhatsapp } from "react-icons/fa";
+import {
+  buildWhatsAppLink,
+  ConfirmationChannel,
+  getConfirmationFileName,
+} from "@/lib/bookingConfirmation";
+import { buildConfirmationPdf } from "@/lib/confirmationPdf";
 
 interface BookingConfirmationProps {
   isOpen: boolean;
@@ -47,160 +53,79 @@ export default function BookingConfirmation({
   onClose,
   bookingData,
 }: BookingConfirmationProps) {
-  const [isDownloading, setIsDownloading] = useState(false);
-  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const [sendingChannel, setSendingChannel] =
+    useState<ConfirmationChannel | null>(null);
 
   if (!isOpen) return null;
 
-  const handleDownloadPDF = async () => {
+  const handleDownloadPDF = () => {
     try {
-      setIsDownloading(true);
-
-      if (!wrapperRef.current)
-        throw new Error("Confirmation wrapper not found");
-
-      const pdfWidthMm = 210;
-      const pdfHeightMm = 297;
-      const dpi = 96;
-      const pxPerMm = dpi / 25.4;
-      const pagePaddingMm = 12;
-      const targetPxWidth = Math.round(
-        (pdfWidthMm - pagePaddingMm * 2) * pxPerMm
+      buildConfirmationPdf(bookingData).save(
+        getConfirmationFileName(bookingData.bookingId)
       );
+      toast.success("Booking confirmation downloaded!");
+    } catch (error) {
+      console.error("Error downloading PDF:", error);
+      toast.error("Failed to download confirmation");
+    }
+  };
 
-      const wrapper = document.createElement("div");
-      wrapper.style.width = `${targetPxWidth}px`;
-      wrapper.style.boxSizing = "border-box";
-      wrapper.style.padding = "0";
-      wrapper.style.background = "#ffffff";
-      wrapper.style.fontFamily = "Poppins, Arial, Helvetica, sans-serif";
-      wrapper.style.position = "fixed";
-      wrapper.style.left = `0`;
-      wrapper.style.top = `-99999px`;
-
-      const clone = wrapperRef.current.cloneNode(true) as HTMLElement;
-      clone.style.width = "100%";
-      clone.style.boxSizing = "border-box";
-
-      wrapper.appendChild(clone);
-      document.body.appendChild(wrapper);
-
-      const scale = 2;
-      const canvas = await html2canvas(wrapper, {
-        scale,
-        useCORS: true,
-        allowTaint: false,
-        backgroundColor: "#ffffff",
-      });
-
-      document.body.removeChild(wrapper);
-
-      const imgData = canvas.toDataURL("image/png");
-      const pdf = new jsPDF("p", "mm", "a4");
-
-      const pxToMm = (px: number) => (px / (dpi * scale)) * 25.4;
-      const imgWidthMm = pxToMm(canvas.width);
-      const imgHeightMm = pxToMm(canvas.height);
-
-      const maxImgWidthMm = pdfWidthMm - pagePaddingMm * 2;
-      const fitScaleVert = pdfHeightMm / imgHeightMm;
-      const fitScaleWidth = maxImgWidthMm / imgWidthMm;
-      const fitScale = Math.min(fitScaleVert, fitScaleWidth, 1);
-      const minAllowedScale = 0.6;
-
-      if (fitScale >= 1 || fitScale >= minAllowedScale) {
-        const scaleToUse = Math.min(fitScale, 1);
-        const sCanvas = document.createElement("canvas");
-        sCanvas.width = Math.round(canvas.width * scaleToUse);
-        sCanvas.height = Math.round(canvas.height * scaleToUse);
-        const sCtx = sCanvas.getContext("2d");
-        if (!sCtx) throw new Error("Canvas context not available");
-        sCtx.fillStyle = "#ffffff";
-        sCtx.fillRect(0, 0, sCanvas.width, sCanvas.height);
-        sCtx.drawImage(
-          canvas,
-          0,
-          0,
-          canvas.width,
-          canvas.height,
-          0,
-          0,
-          sCanvas.width,
-          sCanvas.height
-        );
-
-        const pageImgData = sCanvas.toDataURL("image/png");
-        const pageImgWidthMm = pxToMm(sCanvas.width);
-        const pageImgHeightMm = pxToMm(sCanvas.height);
-        const x = (pdfWidthMm - pageImgWidthMm) / 2;
-        const y = (pdfHeightMm - pageImgHeightMm) / 2;
-        pdf.addImage(pageImgData, "PNG", x, y, pageImgWidthMm, pageImgHeightMm);
-        pdf.save(`booking-confirmation-${bookingData.bookingId}.pdf`);
-      } else {
-        const pages = Math.ceil(imgHeightMm / pdfHeightMm);
-
-        for (let i = 0; i < pages; i++) {
-          const sY = (i * pdfHeightMm * (dpi * scale)) / 25.4;
-          const pageCanvas = document.createElement("canvas");
-          const pagePxWidth = canvas.width;
-          const pagePxHeight = Math.min(
-            canvas.height - sY,
-            Math.round((pdfHeightMm * (dpi * scale)) / 25.4)
-          );
-          pageCanvas.width = pagePxWidth;
-          pageCanvas.height = pagePxHeight;
-          const ctx = pageCanvas.getContext("2d");
-          if (!ctx) throw new Error("Canvas context not available");
-          ctx.fillStyle = "#ffffff";
-          ctx.fillRect(0, 0, pageCanvas.width, pageCanvas.height);
-          ctx.drawImage(
-            canvas,
-            0,
-            sY,
-            pageCanvas.width,
-            pageCanvas.height,
-            0,
-            0,
-            pageCanvas.width,
-            pageCanvas.height
-          );
-
-          const pageImgData = pageCanvas.toDataURL("image/png");
-          const pageImgHeightMm = pxToMm(pageCanvas.height);
-          const pageImgWidthMm = pxToMm(pageCanvas.width);
-
-          const x = (pdfWidthMm - pageImgWidthMm) / 2;
-          const y = 0;
+  // The server builds the email and PDF from the stored booking
+  const sendConfirmation = async (channel: ConfirmationChannel) => {
+    const response = await fetch(
+      `/api/bookings/${bookingData.bookingId}/confirmation`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel }),
+      }
+    );
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Failed to send confirmation");
+    }
+  };
 
-          pdf.addImage(
-            pageImgData,
-            "PNG",
-            x,
-            y,
-            pageImgWidthMm,
-            pageImgHeightMm
-          );
-          if (i < pages - 1) pdf.addPage();
-        }
+  const handleSendEmail = async () => {
+    try {
+      setSendingChannel("email");
+      await sendConfirmation("email");
+      toast.success(`Confirmation emailed to ${bookingData.customerEmail}`);
+    } catch (error) {
+      console.error("Error emailing confirmation:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to email confirmation"
+      );
+    } finally {
+      setSendingChannel(null);
+    }
+  };
 
-        pdf.save(`booking-confirmation-${bookingData.bookingId}.pdf`);
-      }
+  const handleSendWhatsApp = async () => {
+    const link = buildWhatsAppLink(bookingData);
+    if (!link) {
+      toast.error("The customer's phone number is not a valid WhatsApp number");
+      return;
+    }
 
-      toast.success("Booking confirmation downloaded!");
+    // Open before awaiting so the popup isn't blocked
+    window.open(link, "_blank", "noopener,noreferrer");
+    try {
+      setSendingChannel("whatsapp");
+      await sendConfirmation("whatsapp");
     } catch (error) {
-      console.error("Error downloading PDF:", error);
-      toast.error("Failed to download confirmation");
+      console.error("Error recording WhatsApp send:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record WhatsApp send"
+      );
     } finally {
-      setIsDownloading(false);
+      setSendingChannel(null);
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div
-        className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
-        ref={wrapperRef}
-      >
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b bg-green-50">
           <div className="flex items-center space-x-3">
@@ -346,17 +271,36 @@ export default function BookingConfirmation({
             </div>
           </div>
 
+          {/* Send to customer */}
+          <div className="flex space-x-4">
+            <button
+              onClick={handleSendEmail}
+              disabled={sendingChannel !== null || !bookingData.customerEmail}
+              className="flex-1 bg-primary text-white px-4 py-2 rounded-lg hover:opacity-90 disabled:opacity-50 flex items-center justify-center space-x-2"
+            >
+              <FiSend className="w-4 h-4" />
+              <span>
+                {sendingChannel === "email" ? "Sending..." : "Email to Customer"}
+              </span>
+            </button>
+            <button
+              onClick={handleSendWhatsApp}
+              disabled={sendingChannel !== null || !bookingData.customerPhone}
+              className="flex-1 bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 disabled:opacity-50 flex items-center justify-center space-x-2"
+            >
+              <FaWhatsapp className="w-4 h-4" />
+              <span>Send via WhatsApp</span>
+            </button>
+          </div>
+
           {/* Actions */}
           <div className="flex space-x-4">
             <button
               onClick={handleDownloadPDF}
-              disabled={isDownloading}
               className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center space-x-2"
             >
               <FiDownload className="w-4 h-4" />
-              <span>
-                {isDownloading ? "Downloading..." : "Download Confirmation"}
-              </span>
+              <span>Download Confirmation</span>
             </button>
             <button
               onClick={onClose}
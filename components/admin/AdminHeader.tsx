@@ -1,13 +1,14 @@
 "use client";
 import { useState, useEffect } from "react";
-import { FiBell, FiLogOut, FiUser } from "react-icons/fi";
+import { FiBell, FiCalendar, FiFileText, FiLogOut, FiTag, FiTruck, FiUser, FiUsers } from "react-icons/fi";
 import Image from "next/image";
 import Link from "next/link";
 import { useAuth } from "@/context/AuthContext";
+import { ROLE_LABELS } from "@/lib/permissions";
 
 export default function AdminHeader() {
   const [showDropdown, setShowDropdown] = useState(false);
-  const { logout, getCurrentUser } = useAuth();
+  const { logout, getCurrentUser, role, canAccess } = useAuth();
   const [currentUser, setCurrentUser] = useState<string | null>(null);
 
   useEffect(() => {
@@ -57,13 +58,68 @@ export default function AdminHeader() {
               <div className="px-4 py-2 text-sm text-gray-700 border-b border-gray-100">
                 <div className="flex items-center">
                   <FiUser className="mr-2" />
-                  Administrator
+                  {role ? ROLE_LABELS[role] : "Administrator"}
                 </div>
                 <div className="text-xs text-gray-500 mt-1">
-                  {currentUser || "administrator@oastel"}
+                  {currentUser}
                 </div>
               </div>
 
+              {canAccess("/admins") && (
+                <Link
+                  href="/admins"
+                  onClick={() => setShowDropdown(false)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                >
+                  <FiUsers className="mr-2" />
+                  Manage Admins
+                </Link>
+              )}
+
+              {canAccess("/promotions") && (
+                <Link
+                  href="/promotions"
+                  onClick={() => setShowDropdown(false)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                >
+                  <FiTag className="mr-2" />
+                  Promotions
+                </Link>
+              )}
+
+              {canAccess("/holidays") && (
+                <Link
+                  href="/holidays"
+                  onClick={() => setShowDropdown(false)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                >
+                  <FiCalendar className="mr-2" />
+                  Holidays
+                </Link>
+              )}
+
+              {canAccess("/fleet") && (
+                <Link
+                  href="/fleet"
+                  onClick={() => setShowDropdown(false)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                >
+                  <FiTruck className="mr-2" />
+                  Fleet & Drivers
+                </Link>
+              )}
+
+              {canAccess("/audit") && (
+                <Link
+                  href="/audit"
+                  onClick={() => setShowDropdown(false)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                >
+                  <FiFileText className="mr-2" />
+                  Audit Log
+                </Link>
+              )}
+
               <button
                 onClick={handleLogout}
                 className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center"
@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiDownload, FiX } from "react-icons/fi";
+import {
+  addDaysMYT,
+  formatTimeDisplay,
+  parseDateStringAsMYT,
+} from "@/lib/dateUtils";
+import {
+  BookingExportFilters,
+  BookingExportFormat,
+  ExportBooking,
+  exportBookings,
+  filterBookingsForExport,
+} from "@/lib/bookingExport";
+
+export interface ExportablePackage {
+  _id: string;
+  title: string;
+  packageType: "tour" | "transfer";
+  departureTimes?: string[];
+  times?: string[];
+}
+
+interface BookingExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  packages: ExportablePackage[];
+  /** Initial range, YYYY-MM-DD */
+  defaultDate: string;
+}
+
+const STATUS_OPTIONS = ["pending", "confirmed", "cancelled"];
+
+export default function BookingExportModal({
+  isOpen,
+  onClose,
+  packages,
+  defaultDate,
+}: BookingExportModalProps) {
+  const [from, setFrom] = useState(defaultDate);
+  const [to, setTo] = useState(defaultDate);
+  const [packageType, setPackageType] = useState<"" | "tour" | "transfer">("");
+  const [status, setStatus] = useState("");
+  const [packageId, setPackageId] = useState("");
+  const [time, setTime] = useState("");
+  const [format, setFormat] = useState<BookingExportFormat>("xlsx");
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const packageOptions = packages.filter(
+    (pkg) => !packageType || pkg.packageType === packageType,
+  );
+  const selectedPackage = packages.find((pkg) => pkg._id === packageId);
+  const timeOptions =
+    selectedPackage?.departureTimes || selectedPackage?.times || [];
+
+  const handleExport = async () => {
+    if (!from || !to || from > to) {
+      toast.error("Please select a valid date range");
+      return;
+    }
+
+    const filters: BookingExportFilters = {
+      from,
+      to,
+      packageType: packageType || undefined,
+      status: status || undefined,
+      packageId: packageId || undefined,
+      time: time || undefined,
+    };
+
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({
+        startDate: parseDateStringAsMYT(from).toISOString(),
+        endDate: addDaysMYT(parseDateStringAsMYT(to), 1).toISOString(),
+      });
+      if (filters.packageType) params.set("packageType", filters.packageType);
+      if (filters.status) params.set("status", filters.status);
+      if (filters.packageId) params.set("packageId", filters.packageId);
+
+      const response = await fetch(`/api/bookings?${params}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch bookings");
+      }
+
+      const bookings = filterBookingsForExport(
+        (data.bookings || []) as ExportBooking[],
+        filters,
+      );
+      if (bookings.length === 0) {
+        toast.error("No bookings match these filters");
+        return;
+      }
+
+      exportBookings(bookings, filters, format);
+      toast.success(`Exported ${bookings.length} bookings`);
+      onClose();
+    } catch (error) {
+      console.error("Error exporting bookings:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export bookings",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="flex justify-between items-center p-5 border-b">
+          <h2 className="text-lg font-bold text-dark">Export Bookings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <FiX className="text-xl" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              To
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              Type
+              <select
+                value={packageType}
+                onChange={(e) => {
+                  setPackageType(e.target.value as "" | "tour" | "transfer");
+                  setPackageId("");
+                  setTime("");
+                }}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">Tours and transfers</option>
+                <option value="tour">Tours</option>
+                <option value="transfer">Transfers</option>
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Status
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value)}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">All statuses</option>
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              Package
+              <select
+                value={packageId}
+                onChange={(e) => {
+                  setPackageId(e.target.value);
+                  setTime("");
+                }}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">All packages</option>
+                {packageOptions.map((pkg) => (
+                  <option key={pkg._id} value={pkg._id}>
+                    {pkg.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Time Slot
+              <select
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                disabled={!packageId}
+                className={`${inputClass} mt-1 disabled:bg-gray-100`}
+              >
+                <option value="">All times</option>
+                {timeOptions.map((option) => (
+                  <option key={option} value={option}>
+                    {formatTimeDisplay(option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            {(["xlsx", "csv"] as BookingExportFormat[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  format === option
+                    ? "bg-primary text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option === "xlsx" ? "Excel" : "CSV"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FiDownload />
+            {isExporting ? "Exporting..." : "Export"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import {
   FiMoreVertical,
   FiCalendar,
   FiClock,
+  FiEye,
+  FiChevronLeft,
+  FiChevronRight,
 } from "react-icons/fi";
 import { ReactNode, useState, useRef, useEffect } from "react";
 
@@ -21,19 +24,29 @@ type ActionHandlers = {
   onDelete?: (row: DataRow) => void;
   onBook?: (row: DataRow) => void;
   onMore?: (row: DataRow) => void;
+  onView?: (row: DataRow) => void;
   onToggleAvailability?: (row: DataRow) => void;
 };
 
+type Pagination = {
+  page: number;
+  pages: number;
+  total: number;
+  onPageChange: (page: number) => void;
+};
+
 export default function DataTable({
   columns,
   data,
   rowActions,
   actionHandlers,
+  pagination,
 }: {
   columns: Column[];
   data: DataRow[];
   rowActions: string[];
   actionHandlers?: ActionHandlers;
+  pagination?: Pagination;
 }) {
   const [activeDropdown, setActiveDropdown] = useState<number | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -104,6 +117,15 @@ export default function DataTable({
                       className="px-4 py-3 whitespace-nowrap relative"
                     >
                       <div className="flex items-center space-x-2">
+                        {rowActions.includes("view") && (
+                          <button
+                            onClick={() => actionHandlers?.onView?.(row)}
+                            className="text-primary hover:text-primary/80"
+                            title="View"
+                          >
+                            <FiEye />
+                          </button>
+                        )}
                         {rowActions.includes("book") && (
                           <button
                             onClick={() => actionHandlers?.onBook?.(row)}
@@ -131,45 +153,47 @@ export default function DataTable({
                             <FiTrash2 />
                           </button>
                         )}
-                        <div className="relative">
-                          <button
-                            onClick={() =>
-                              setActiveDropdown(
-                                activeDropdown === rowIndex ? null : rowIndex,
-                              )
-                            }
-                            className="text-gray-600 hover:text-gray-900 p-1 rounded-full hover:bg-gray-100 transition-colors"
-                            title="More actions"
-                          >
-                            <FiMoreVertical size={18} />
-                          </button>
-
-                          {activeDropdown === rowIndex && (
-                            <div
-                              ref={dropdownRef}
-                              className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-[100] origin-top-right"
+                        {actionHandlers?.onMore && (
+                          <div className="relative">
+                            <button
+                              onClick={() =>
+                                setActiveDropdown(
+                                  activeDropdown === rowIndex ? null : rowIndex,
+                                )
+                              }
+                              className="text-gray-600 hover:text-gray-900 p-1 rounded-full hover:bg-gray-100 transition-colors"
+                              title="More actions"
                             >
+                              <FiMoreVertical size={18} />
+                            </button>
+
+                            {activeDropdown === rowIndex && (
                               <div
-                                className="py-1"
-                                role="menu"
-                                aria-orientation="vertical"
+                                ref={dropdownRef}
+                                className="absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-[100] origin-top-right"
                               >
-                                <button
-                                  onClick={() => {
-                                    actionHandlers?.onMore?.(row);
-                                    setActiveDropdown(null);
-                                  }}
-                                  className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
-                                  role="menuitem"
+                                <div
+                                  className="py-1"
+                                  role="menu"
+                                  aria-orientation="vertical"
                                 >
-                                  <FiClock className="mr-3 text-gray-400" />
-                                  Manage Time Slots
-                                </button>
-                                {/* Add more menu items here in the future */}
+                                  <button
+                                    onClick={() => {
+                                      actionHandlers?.onMore?.(row);
+                                      setActiveDropdown(null);
+                                    }}
+                                    className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                                    role="menuitem"
+                                  >
+                                    <FiClock className="mr-3 text-gray-400" />
+                                    Manage Time Slots
+                                  </button>
+                                  {/* Add more menu items here in the future */}
+                                </div>
                               </div>
-                            </div>
-                          )}
-                        </div>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </td>
                   );
@@ -187,6 +211,33 @@ export default function DataTable({
           ))}
         </tbody>
       </table>
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm">
+          <span className="text-light">
+            Page {pagination.page} of {pagination.pages} ({pagination.total}{" "}
+            total)
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => pagination.onPageChange(pagination.page - 1)}
+              disabled={pagination.page <= 1}
+              className="p-2 rounded-full hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Previous page"
+            >
+              <FiChevronLeft />
+            </button>
+            <button
+              onClick={() => pagination.onPageChange(pagination.page + 1)}
+              disabled={pagination.page >= pagination.pages}
+              className="p-2 rounded-full hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Next page"
+            >
+              <FiChevronRight />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,371 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiAlertTriangle, FiPlus, FiX } from "react-icons/fi";
+import Confirmation from "@/components/ui/Confirmation";
+import { formatTimeDisplay, normalizeTime } from "@/lib/dateUtils";
+import {
+  AssignmentConflict,
+  AssignmentPackageType,
+  DepartureAssignmentInput,
+  DepartureAssignmentRecord,
+  DriverRecord,
+  FleetVehicleRecord,
+  getAssignmentEndTime,
+  getMaintenanceWindow,
+  validateDepartureAssignment,
+} from "@/lib/fleet";
+
+interface DepartureAssignmentsProps {
+  packageType: AssignmentPackageType;
+  packageId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  time: string;
+  /** Package duration and tour period, for the default end time */
+  duration?: string;
+  period?: string;
+  /** Vehicle type the package is sold with; its vehicles are listed first */
+  vehicleType?: string;
+  /** Guests booked on the departure, shown against vehicle seats */
+  passengers: number;
+}
+
+const inputClassName =
+  "w-full p-2 border rounded-lg text-sm focus:ring-primary focus:border-primary";
+
+export default function DepartureAssignments({
+  packageType,
+  packageId,
+  date,
+  time,
+  duration,
+  period,
+  vehicleType,
+  passengers,
+}: DepartureAssignmentsProps) {
+  const departureTime = normalizeTime(time);
+  const defaultEndTime = getAssignmentEndTime(departureTime, duration, period);
+  const emptyForm = { vehicleId: "", driverId: "", endTime: defaultEndTime, notes: "" };
+
+  const [assignments, setAssignments] = useState<DepartureAssignmentRecord[]>([]);
+  const [conflicts, setConflicts] = useState<Record<string, AssignmentConflict[]>>({});
+  const [vehicles, setVehicles] = useState<FleetVehicleRecord[]>([]);
+  const [drivers, setDrivers] = useState<DriverRecord[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [assignmentToRemove, setAssignmentToRemove] = useState<DepartureAssignmentRecord | null>(
+    null
+  );
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/fleet/assignments?date=${date}&packageId=${packageId}&time=${departureTime}`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch assignments");
+      }
+
+      setAssignments(data.assignments);
+      setConflicts(data.conflicts);
+    } catch (error) {
+      console.error("Error fetching assignments:", error);
+      toast.error("Failed to load vehicle and driver assignments");
+    }
+  }, [date, packageId, departureTime]);
+
+  const fetchFleet = useCallback(async () => {
+    try {
+      const [vehiclesResponse, driversResponse] = await Promise.all([
+        fetch("/api/fleet/vehicles", { cache: "no-store" }),
+        fetch("/api/fleet/drivers", { cache: "no-store" }),
+      ]);
+      const vehiclesData = await vehiclesResponse.json();
+      const driversData = await driversResponse.json();
+
+      if (!vehiclesData.success || !driversData.success) {
+        throw new Error(vehiclesData.error || driversData.error || "Failed to fetch fleet");
+      }
+
+      setVehicles(vehiclesData.vehicles);
+      setDrivers(driversData.drivers);
+    } catch (error) {
+      console.error("Error fetching fleet:", error);
+      toast.error("Failed to load vehicles and drivers");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  useEffect(() => {
+    fetchFleet();
+  }, [fetchFleet]);
+
+  // The package's own vehicle type first, then the rest of the fleet
+  const sortedVehicles = [...vehicles].sort(
+    (a, b) => Number(b.vehicleType === vehicleType) - Number(a.vehicleType === vehicleType)
+  );
+  const assignedSeats = assignments.reduce(
+    (sum, assignment) =>
+      sum + (vehicles.find((v) => v._id === assignment.vehicleId)?.seats || 0),
+    0
+  );
+
+  const vehicleLabel = (vehicle: FleetVehicleRecord) => {
+    const maintenance = getMaintenanceWindow(vehicle, date);
+    const status = maintenance
+      ? " — in maintenance"
+      : vehicle.isActive
+        ? ""
+        : " — unavailable";
+    return `${vehicle.plateNumber} · ${vehicle.vehicleType}, ${vehicle.seats} seats${status}`;
+  };
+
+  const driverLabel = (driver: DriverRecord) => {
+    const status =
+      driver.licenseExpiry < date
+        ? " — license expired"
+        : driver.isActive
+          ? ""
+          : " — unavailable";
+    return `${driver.name}${status}`;
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: DepartureAssignmentInput = {
+      packageType,
+      packageId,
+      date,
+      time: departureTime,
+      endTime: form.endTime,
+      vehicleId: form.vehicleId || undefined,
+      driverId: form.driverId || undefined,
+      notes: form.notes.trim() || undefined,
+    };
+    const validationError = validateDepartureAssignment(input);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/fleet/assignments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to assign");
+      }
+
+      // Saved either way; conflicts stay flagged on the assignment
+      const found: AssignmentConflict[] = data.conflicts || [];
+      if (found.length > 0) {
+        toast.error(`Assigned with a conflict: ${found[0].message}`);
+      } else {
+        toast.success("Assigned to this departure");
+      }
+      setForm(emptyForm);
+      setShowForm(false);
+      fetchAssignments();
+    } catch (error) {
+      console.error("Error creating assignment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to assign");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmRemoveAssignment = async () => {
+    if (!assignmentToRemove) return;
+
+    try {
+      const response = await fetch(`/api/fleet/assignments/${assignmentToRemove._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to remove assignment");
+      }
+
+      toast.success("Assignment removed");
+      fetchAssignments();
+    } catch (error) {
+      console.error("Error removing assignment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove assignment");
+    } finally {
+      setAssignmentToRemove(null);
+    }
+  };
+
+  const conflictCount = Object.keys(conflicts).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border mb-8">
+      <div className="p-6 border-b flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-dark">Vehicles & Drivers</h2>
+          <p className="text-sm text-light">
+            {assignments.length} assigned
+            {assignedSeats > 0 && ` · ${assignedSeats} seats for ${passengers} guests`}
+            {conflictCount > 0 && (
+              <span className="text-red-600">
+                {" "}
+                · {conflictCount} with conflicts
+              </span>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-2 px-3 py-2 text-sm border border-primary text-primary rounded-lg hover:bg-primary/5 transition-colors"
+        >
+          {showForm ? <FiX /> : <FiPlus />}
+          <span className="hidden sm:inline">{showForm ? "Close" : "Assign"}</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleAssign} className="p-6 border-b space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600">
+              Vehicle
+              <select
+                value={form.vehicleId}
+                onChange={(e) => setForm({ ...form, vehicleId: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">No vehicle</option>
+                {sortedVehicles.map((vehicle) => (
+                  <option key={vehicle._id} value={vehicle._id}>
+                    {vehicleLabel(vehicle)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Driver
+              <select
+                value={form.driverId}
+                onChange={(e) => setForm({ ...form, driverId: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">No driver</option>
+                {drivers.map((driver) => (
+                  <option key={driver._id} value={driver._id}>
+                    {driverLabel(driver)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs text-gray-600">
+              Free again at
+              <input
+                type="time"
+                value={form.endTime}
+                onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-gray-600 md:col-span-2">
+              Notes
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? "Assigning..." : "Assign"}
+          </button>
+        </form>
+      )}
+
+      {assignments.length === 0 ? (
+        <p className="p-6 text-center text-sm text-light">
+          No vehicle or driver assigned to this departure yet.
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {assignments.map((assignment) => {
+            const vehicle = vehicles.find((v) => v._id === assignment.vehicleId);
+            const driver = drivers.find((d) => d._id === assignment.driverId);
+            return (
+              <li
+                key={assignment._id}
+                className="px-6 py-4 flex flex-wrap items-start justify-between gap-3"
+              >
+                <div>
+                  <p className="font-medium text-dark">
+                    {vehicle
+                      ? `${vehicle.plateNumber} (${vehicle.vehicleType}, ${vehicle.seats} seats)`
+                      : assignment.vehicleId
+                        ? "Removed vehicle"
+                        : "No vehicle"}
+                    {" · "}
+                    {driver
+                      ? `${driver.name} (${driver.phone})`
+                      : assignment.driverId
+                        ? "Removed driver"
+                        : "No driver"}
+                  </p>
+                  <p className="text-sm text-light">
+                    {formatTimeDisplay(assignment.time)} – {formatTimeDisplay(assignment.endTime)}
+                    {assignment.notes && ` · ${assignment.notes}`}
+                  </p>
+                  {conflicts[assignment._id]?.map((conflict, index) => (
+                    <p
+                      key={`${conflict.type}-${index}`}
+                      className="mt-1 text-sm text-red-600 flex items-center gap-1"
+                    >
+                      <FiAlertTriangle className="flex-shrink-0" />
+                      {conflict.message}
+                    </p>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setAssignmentToRemove(assignment)}
+                  className="px-3 py-1 text-xs font-medium rounded-lg border border-red-200 text-red-600 hover:bg-red-50 transition-colors"
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Confirmation
+        isOpen={assignmentToRemove !== null}
+        onClose={() => setAssignmentToRemove(null)}
+        onConfirm={confirmRemoveAssignment}
+        title="Remove Assignment"
+        message="Remove this vehicle and driver from the departure?"
+        confirmText="Remove"
+        variant="danger"
+      />
+    </div>
+  );
+}
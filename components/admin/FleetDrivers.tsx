@@ -0,0 +1,299 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiPlus, FiX } from "react-icons/fi";
+import Confirmation from "@/components/ui/Confirmation";
+import { DriverInput, DriverRecord, validateDriver } from "@/lib/fleet";
+
+interface FleetDriversProps {
+  drivers: DriverRecord[];
+  /** YYYY-MM-DD, for flagging expired licenses */
+  today: string;
+  onChange: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  phone: "",
+  email: "",
+  licenseNumber: "",
+  licenseExpiry: "",
+  notes: "",
+  isActive: true,
+};
+
+const inputClassName =
+  "border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export default function FleetDrivers({ drivers, today, onChange }: FleetDriversProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [driverToDelete, setDriverToDelete] = useState<DriverRecord | null>(null);
+
+  const closeForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (driver: DriverRecord) => {
+    setForm({
+      name: driver.name,
+      phone: driver.phone,
+      email: driver.email || "",
+      licenseNumber: driver.licenseNumber,
+      licenseExpiry: driver.licenseExpiry,
+      notes: driver.notes || "",
+      isActive: driver.isActive,
+    });
+    setEditingId(driver._id);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: DriverInput = {
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      email: form.email.trim() || undefined,
+      licenseNumber: form.licenseNumber.trim(),
+      licenseExpiry: form.licenseExpiry,
+      notes: form.notes.trim() || undefined,
+      isActive: form.isActive,
+    };
+    const validationError = validateDriver(input);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(
+        editingId ? `/api/fleet/drivers/${editingId}` : "/api/fleet/drivers",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to save driver");
+      }
+
+      toast.success(editingId ? "Driver updated" : `${input.name} added`);
+      closeForm();
+      onChange();
+    } catch (error) {
+      console.error("Error saving driver:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save driver");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDeleteDriver = async () => {
+    if (!driverToDelete) return;
+
+    try {
+      const response = await fetch(`/api/fleet/drivers/${driverToDelete._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete driver");
+      }
+
+      toast.success("Driver deleted");
+      onChange();
+    } catch (error) {
+      console.error("Error deleting driver:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete driver");
+    } finally {
+      setDriverToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Driver
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Contact
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                License
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {drivers.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No drivers added yet
+                </td>
+              </tr>
+            ) : (
+              drivers.map((driver) => (
+                <tr key={driver._id} className={driver.isActive ? "" : "opacity-60"}>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    <span className="font-medium">{driver.name}</span>
+                    {!driver.isActive && (
+                      <span className="ml-2 text-xs text-gray-500">Unavailable</span>
+                    )}
+                    {driver.notes && <p className="text-xs text-gray-500">{driver.notes}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {driver.phone}
+                    {driver.email && <p className="text-xs">{driver.email}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                    {driver.licenseNumber}
+                    <p
+                      className={`text-xs ${
+                        driver.licenseExpiry < today ? "text-red-600 font-medium" : ""
+                      }`}
+                    >
+                      {driver.licenseExpiry < today ? "Expired" : "Expires"}{" "}
+                      {driver.licenseExpiry}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                    <button
+                      onClick={() => handleEdit(driver)}
+                      className="text-primary hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setDriverToDelete(driver)}
+                      className="text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showForm ? (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-4"
+        >
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-dark">
+              {editingId ? "Edit Driver" : "Add Driver"}
+            </h2>
+            <button type="button" onClick={closeForm} className="p-1 hover:bg-gray-100 rounded">
+              <FiX />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              placeholder="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <input
+              type="tel"
+              placeholder="Phone"
+              value={form.phone}
+              onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <input
+              type="email"
+              placeholder="Email (optional)"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+            <input
+              type="text"
+              placeholder="License number"
+              value={form.licenseNumber}
+              onChange={(e) => setForm({ ...form, licenseNumber: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Expires
+              <input
+                type="date"
+                value={form.licenseExpiry}
+                onChange={(e) => setForm({ ...form, licenseExpiry: e.target.value })}
+                className={`${inputClassName} flex-1`}
+                required
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Available for assignments
+            </label>
+          </div>
+          <input
+            type="text"
+            placeholder="Notes, e.g. speaks Mandarin"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            className={`${inputClassName} w-full`}
+          />
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : editingId ? "Save Changes" : "Add Driver"}
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center gap-2 bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90"
+        >
+          <FiPlus />
+          Add Driver
+        </button>
+      )}
+
+      <Confirmation
+        isOpen={driverToDelete !== null}
+        onClose={() => setDriverToDelete(null)}
+        onConfirm={confirmDeleteDriver}
+        title="Delete Driver"
+        message={`Delete ${driverToDelete?.name}? Past assignments will show them as a removed driver.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiPlus, FiX } from "react-icons/fi";
+import Confirmation from "@/components/ui/Confirmation";
+import {
+  FleetVehicleInput,
+  FleetVehicleRecord,
+  getMaintenanceWindow,
+  MaintenanceWindow,
+  normalizePlateNumber,
+  validateFleetVehicle,
+} from "@/lib/fleet";
+
+interface FleetVehiclesProps {
+  vehicles: FleetVehicleRecord[];
+  /** Vehicle types from /api/vehicles */
+  vehicleTypes: { name: string; units: number }[];
+  /** YYYY-MM-DD, for the availability column */
+  today: string;
+  onChange: () => void;
+}
+
+const emptyForm = {
+  plateNumber: "",
+  vehicleType: "",
+  seats: "4",
+  description: "",
+  isActive: true,
+  maintenance: [] as MaintenanceWindow[],
+};
+
+const inputClassName =
+  "border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export default function FleetVehicles({
+  vehicles,
+  vehicleTypes,
+  today,
+  onChange,
+}: FleetVehiclesProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [vehicleToDelete, setVehicleToDelete] = useState<FleetVehicleRecord | null>(null);
+
+  const availabilityLabel = (vehicle: FleetVehicleRecord) => {
+    if (!vehicle.isActive) return { text: "Unavailable", className: "text-gray-500" };
+    const maintenance = getMaintenanceWindow(vehicle, today);
+    if (maintenance) {
+      return {
+        text: `In maintenance until ${maintenance.end}`,
+        className: "text-yellow-700",
+      };
+    }
+    return { text: "Available", className: "text-green-700" };
+  };
+
+  const nextMaintenance = (vehicle: FleetVehicleRecord) =>
+    vehicle.maintenance.find((entry) => entry.start > today);
+
+  const closeForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (vehicle: FleetVehicleRecord) => {
+    setForm({
+      plateNumber: vehicle.plateNumber,
+      vehicleType: vehicle.vehicleType,
+      seats: String(vehicle.seats),
+      description: vehicle.description || "",
+      isActive: vehicle.isActive,
+      maintenance: vehicle.maintenance.map((entry) => ({ ...entry })),
+    });
+    setEditingId(vehicle._id);
+    setShowForm(true);
+  };
+
+  const updateMaintenance = (index: number, changes: Partial<MaintenanceWindow>) => {
+    setForm({
+      ...form,
+      maintenance: form.maintenance.map((entry, i) =>
+        i === index ? { ...entry, ...changes } : entry
+      ),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: FleetVehicleInput = {
+      plateNumber: normalizePlateNumber(form.plateNumber),
+      vehicleType: form.vehicleType,
+      seats: parseInt(form.seats, 10),
+      description: form.description.trim() || undefined,
+      isActive: form.isActive,
+      maintenance: form.maintenance,
+    };
+    const validationError = validateFleetVehicle(input);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(
+        editingId ? `/api/fleet/vehicles/${editingId}` : "/api/fleet/vehicles",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to save vehicle");
+      }
+
+      toast.success(editingId ? "Vehicle updated" : `${input.plateNumber} added to the fleet`);
+      closeForm();
+      onChange();
+    } catch (error) {
+      console.error("Error saving vehicle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save vehicle");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDeleteVehicle = async () => {
+    if (!vehicleToDelete) return;
+
+    try {
+      const response = await fetch(`/api/fleet/vehicles/${vehicleToDelete._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete vehicle");
+      }
+
+      toast.success("Vehicle deleted");
+      onChange();
+    } catch (error) {
+      console.error("Error deleting vehicle:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete vehicle");
+    } finally {
+      setVehicleToDelete(null);
+    }
+  };
+
+  // A vehicle can keep a type that has since been removed from /api/vehicles
+  const typeOptions = Array.from(
+    new Set([...vehicleTypes.map((type) => type.name), form.vehicleType].filter(Boolean))
+  );
+
+  return (
+    <div className="space-y-4">
+      {vehicleTypes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {vehicleTypes.map((type) => {
+            const registered = vehicles.filter((v) => v.vehicleType === type.name).length;
+            return (
+              <span
+                key={type.name}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  registered < type.units
+                    ? "bg-yellow-100 text-yellow-800"
+                    : "bg-gray-100 text-gray-700"
+                }`}
+                title="Vehicles in the fleet / units packages are sold with"
+              >
+                {type.name}: {registered} of {type.units} registered
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Plate
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Seats
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Availability
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {vehicles.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-sm text-gray-500">
+                  No vehicles in the fleet yet
+                </td>
+              </tr>
+            ) : (
+              vehicles.map((vehicle) => {
+                const availability = availabilityLabel(vehicle);
+                const upcoming = nextMaintenance(vehicle);
+                return (
+                  <tr key={vehicle._id}>
+                    <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      <span className="font-medium">{vehicle.plateNumber}</span>
+                      {vehicle.description && (
+                        <p className="text-xs text-gray-500">{vehicle.description}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{vehicle.vehicleType}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{vehicle.seats}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={availability.className}>{availability.text}</span>
+                      {upcoming && (
+                        <p className="text-xs text-gray-500">
+                          Maintenance {upcoming.start} to {upcoming.end}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => handleEdit(vehicle)}
+                        className="text-primary hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setVehicleToDelete(vehicle)}
+                        className="text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showForm ? (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-4"
+        >
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-dark">
+              {editingId ? "Edit Vehicle" : "Add Vehicle"}
+            </h2>
+            <button type="button" onClick={closeForm} className="p-1 hover:bg-gray-100 rounded">
+              <FiX />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              placeholder="Plate number, e.g. PKA 1234"
+              value={form.plateNumber}
+              onChange={(e) => setForm({ ...form, plateNumber: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <select
+              value={form.vehicleType}
+              onChange={(e) => setForm({ ...form, vehicleType: e.target.value })}
+              className={inputClassName}
+              required
+            >
+              <option value="">Vehicle type</option>
+              {typeOptions.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Seats
+              <input
+                type="number"
+                min="1"
+                value={form.seats}
+                onChange={(e) => setForm({ ...form, seats: e.target.value })}
+                className={`${inputClassName} w-24`}
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+            <input
+              type="text"
+              placeholder="Description, e.g. Toyota Hiace, white"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={`${inputClassName} md:col-span-2`}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              Available for assignments
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-700">Maintenance windows</h3>
+              <button
+                type="button"
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    maintenance: [...form.maintenance, { start: today, end: today, reason: "" }],
+                  })
+                }
+                className="flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                <FiPlus />
+                Add window
+              </button>
+            </div>
+            {form.maintenance.length === 0 && (
+              <p className="text-sm text-gray-500">No maintenance scheduled.</p>
+            )}
+            {form.maintenance.map((entry, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[auto_auto_1fr_auto] gap-2">
+                <input
+                  type="date"
+                  value={entry.start}
+                  onChange={(e) => updateMaintenance(index, { start: e.target.value })}
+                  className={inputClassName}
+                />
+                <input
+                  type="date"
+                  value={entry.end}
+                  onChange={(e) => updateMaintenance(index, { end: e.target.value })}
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  placeholder="Reason, e.g. Annual service"
+                  value={entry.reason}
+                  onChange={(e) => updateMaintenance(index, { reason: e.target.value })}
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      maintenance: form.maintenance.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="text-sm text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : editingId ? "Save Changes" : "Add Vehicle"}
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="flex items-center gap-2 bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary/90"
+        >
+          <FiPlus />
+          Add Vehicle
+        </button>
+      )}
+
+      <Confirmation
+        isOpen={vehicleToDelete !== null}
+        onClose={() => setVehicleToDelete(null)}
+        onConfirm={confirmDeleteVehicle}
+        title="Delete Vehicle"
+        message={`Delete ${vehicleToDelete?.plateNumber} from the fleet? Past assignments will show it as a removed vehicle.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 "use client";
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import {
   FiPackage,
@@ -8,17 +9,48 @@ import {
 } from "react-icons/fi";
 import { RxDashboard } from "react-icons/rx";
 import { usePathname } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+
+const ALERT_POLL_INTERVAL = 5 * 60 * 1000;
 
 export default function MobileNav() {
   const pathname = usePathname();
+  const { canAccess } = useAuth();
+  const [recoveryAlerts, setRecoveryAlerts] = useState(0);
+  const canSeeRecovery = canAccess("/recovery");
+
+  // Orphaned payments the last automatic scan could not recover
+  useEffect(() => {
+    if (!canSeeRecovery) return;
+
+    const fetchAlerts = async () => {
+      try {
+        const response = await fetch("/api/recovery/scans?limit=1");
+        const data = await response.json();
+        if (data.success) setRecoveryAlerts(data.needsAttention);
+      } catch (error) {
+        console.error("Error fetching recovery alerts:", error);
+      }
+    };
+
+    fetchAlerts();
+    const timer = setInterval(fetchAlerts, ALERT_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [canSeeRecovery]);
 
   const navItems = [
     { name: "Home", path: "/", icon: RxDashboard, matchPaths: ["/"] },
     { name: "Bookings", path: "/bookings", icon: FiCalendar, matchPaths: ["/bookings"] },
     { name: "Packages", path: "/tours", icon: FiPackage, matchPaths: ["/tours", "/transfers"] },
-    { name: "Recovery", path: "/recovery", icon: FiAlertCircle, matchPaths: ["/recovery"] },
+    {
+      name: "Recovery",
+      path: "/recovery",
+      icon: FiAlertCircle,
+      matchPaths: ["/recovery"],
+      badge: recoveryAlerts,
+    },
     { name: "Blogs", path: "/blogs", icon: FiBook, matchPaths: ["/blogs"] },
-  ];
+  ].filter((item) => canAccess(item.path));
 
   const isItemActive = (item: (typeof navItems)[0]) => {
     if (item.matchPaths) {
@@ -43,7 +75,14 @@ export default function MobileNav() {
                   active ? "text-primary font-semibold" : "text-light"
                 }`}
               >
-                <item.icon className="text-xl" />
+                <span className="relative">
+                  <item.icon className="text-xl" />
+                  {!!item.badge && (
+                    <span className="absolute -top-2 -right-3 min-w-[1.25rem] px-1 bg-red-600 text-white text-[10px] leading-5 text-center rounded-full">
+                      {item.badge > 99 ? "99+" : item.badge}
+                    </span>
+                  )}
+                </span>
                 <span className="text-xs mt-1">{item.name}</span>
               </Link>
             );
@@ -0,0 +1,236 @@
+"use client";
+
+import { FiPlus, FiTrash2 } from "react-icons/fi";
+import {
+  createPricingRule,
+  DAY_OF_WEEK_LABELS,
+  describePricingRule,
+  PRICING_RULE_TYPE_LABELS,
+  PRICING_RULE_TYPES,
+  PricingAdjustmentType,
+  PricingRule,
+  validatePricingRule,
+} from "@/lib/pricingRules";
+
+interface PricingRulesEditorProps {
+  rules: PricingRule[];
+  onChange: (rules: PricingRule[]) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md text-sm";
+
+// Empty number inputs clear optional bounds instead of becoming 0
+const toOptionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+export default function PricingRulesEditor({ rules, onChange }: PricingRulesEditorProps) {
+  const updateRule = (index: number, changes: Partial<PricingRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = rules[index].daysOfWeek || [];
+    updateRule(index, {
+      daysOfWeek: days.includes(day)
+        ? days.filter((d) => d !== day)
+        : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Adjust the base prices for peak seasons, weekends, public holidays, large groups or
+        early bookings.
+        Use a positive value for a surcharge and a negative value for a discount. All matching
+        rules apply, each calculated from the base price.
+      </p>
+
+      {rules.length === 0 && (
+        <p className="text-sm text-gray-500 italic">No pricing rules, the base prices always apply.</p>
+      )}
+
+      {rules.map((rule, index) => {
+        const error = validatePricingRule(rule);
+
+        return (
+          <div
+            key={rule.id}
+            className={`p-4 border rounded-lg space-y-3 ${
+              rule.enabled ? "bg-white" : "bg-gray-50 opacity-75"
+            }`}
+          >
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-primary/10 text-primary">
+                {PRICING_RULE_TYPE_LABELS[rule.type]}
+              </span>
+              <input
+                type="text"
+                value={rule.label}
+                onChange={(e) => updateRule(index, { label: e.target.value })}
+                placeholder="Rule name, e.g. School holidays"
+                className={`${inputClassName} flex-1 min-w-[12rem]`}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                />
+                Active
+              </label>
+              <button
+                type="button"
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                title="Remove rule"
+              >
+                <FiTrash2 size={16} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Adjustment</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={Number.isFinite(rule.adjustment) ? rule.adjustment : ""}
+                    onChange={(e) => updateRule(index, { adjustment: Number(e.target.value) })}
+                    className={inputClassName}
+                  />
+                  <select
+                    value={rule.adjustmentType}
+                    onChange={(e) =>
+                      updateRule(index, {
+                        adjustmentType: e.target.value as PricingAdjustmentType,
+                      })
+                    }
+                    className="px-2 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="percent">%</option>
+                    <option value="amount">RM</option>
+                  </select>
+                </div>
+              </div>
+
+              {rule.type === "date-range" && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                    <input
+                      type="date"
+                      value={rule.startDate || ""}
+                      onChange={(e) => updateRule(index, { startDate: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+                    <input
+                      type="date"
+                      value={rule.endDate || ""}
+                      onChange={(e) => updateRule(index, { endDate: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+
+              {rule.type === "day-of-week" && (
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Days</label>
+                  <div className="flex flex-wrap gap-1">
+                    {DAY_OF_WEEK_LABELS.map((dayLabel, day) => (
+                      <button
+                        key={dayLabel}
+                        type="button"
+                        onClick={() => toggleDay(index, day)}
+                        className={`px-3 py-2 text-xs rounded-md border ${
+                          rule.daysOfWeek?.includes(day)
+                            ? "bg-primary text-white border-primary"
+                            : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        {dayLabel}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {rule.type === "group-size" && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Minimum guests
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={rule.minGuests ?? ""}
+                      onChange={(e) =>
+                        updateRule(index, { minGuests: toOptionalNumber(e.target.value) })
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Maximum guests
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={rule.maxGuests ?? ""}
+                      onChange={(e) =>
+                        updateRule(index, { maxGuests: toOptionalNumber(e.target.value) })
+                      }
+                      placeholder="No limit"
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+
+              {rule.type === "early-bird" && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    Booked at least (days ahead)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={rule.minDaysAhead ?? ""}
+                    onChange={(e) =>
+                      updateRule(index, { minDaysAhead: toOptionalNumber(e.target.value) })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+
+            <p className={`text-xs ${error ? "text-red-500" : "text-gray-500"}`}>
+              {error || describePricingRule(rule)}
+            </p>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        {PRICING_RULE_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onChange([...rules, createPricingRule(type)])}
+            className="flex items-center gap-1 px-3 py-2 text-sm border border-primary text-primary rounded-md hover:bg-primary/5"
+          >
+            <FiPlus size={14} />
+            {PRICING_RULE_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
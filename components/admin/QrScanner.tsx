@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FiCameraOff } from "react-icons/fi";
+
+// The Barcode Detection API is not in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+// The same code stays in view for a while; only report it once
+const REPEAT_SCAN_MS = 3000;
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+}
+
+/**
+ * Rear-camera QR scanner. Browsers without the Barcode Detection API (or
+ * without camera access) get a notice instead, so the page can fall back to
+ * typing the code.
+ */
+export default function QrScanner({ onScan }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const Detector = (window as { BarcodeDetector?: BarcodeDetectorConstructor })
+      .BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setError("Camera scanning is not supported in this browser. Enter the booking ID instead.");
+      return;
+    }
+
+    const detector = new Detector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+    let lastScan = { text: "", at: 0 };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (stopped || !video) return;
+
+        video.srcObject = mediaStream;
+        await video.play();
+
+        let detecting = false;
+        timer = setInterval(async () => {
+          if (detecting || video.readyState < 2) return;
+          detecting = true;
+          try {
+            const [barcode] = await detector.detect(video);
+            const now = Date.now();
+            if (
+              barcode?.rawValue &&
+              (barcode.rawValue !== lastScan.text || now - lastScan.at > REPEAT_SCAN_MS)
+            ) {
+              lastScan = { text: barcode.rawValue, at: now };
+              onScanRef.current(barcode.rawValue);
+            }
+          } catch (err) {
+            console.error("Error reading QR code:", err);
+          } finally {
+            detecting = false;
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch((err) => {
+        console.error("Error starting camera:", err);
+        setError("Could not open the camera. Allow camera access or enter the booking ID.");
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 p-6 bg-gray-100 rounded-xl text-center text-light text-sm">
+        <FiCameraOff className="text-2xl" />
+        <p>{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-xl bg-black aspect-square max-h-80 mx-auto">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <div className="absolute inset-10 border-2 border-white/80 rounded-lg pointer-events-none" />
+    </div>
+  );
+}
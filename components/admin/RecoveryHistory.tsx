@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  FiAlertCircle,
+  FiCheckCircle,
+  FiChevronDown,
+  FiChevronUp,
+  FiClock,
+  FiMail,
+  FiSearch,
+} from "react-icons/fi";
+import {
+  recoveryApi,
+  RecoveryAttemptQuery,
+  RecoveryAttemptRecord,
+} from "@/lib/recoveryApi";
+import type { RecoveryMode } from "@/models/RecoveryAttempt";
+
+const MODE_LABELS: Record<RecoveryMode, string> = {
+  single: "Single",
+  batch: "Batch",
+  automatic: "Automatic",
+};
+
+interface RecoveryHistoryProps {
+  /** Bump after a recovery so the list reloads */
+  refreshKey: number;
+}
+
+export default function RecoveryHistory({ refreshKey }: RecoveryHistoryProps) {
+  const [attempts, setAttempts] = useState<RecoveryAttemptRecord[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [query, setQuery] = useState<RecoveryAttemptQuery>({ page: 1 });
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    recoveryApi
+      .getRecoveryAttempts(query)
+      .then((result) => {
+        if (cancelled) return;
+        setAttempts(result.attempts);
+        setPages(result.pages);
+        setTotal(result.total);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load history");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, refreshKey]);
+
+  const page = query.page || 1;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <FiClock />
+        Recovery History
+      </h2>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setQuery({ ...query, search: searchInput.trim(), page: 1 });
+        }}
+        className="flex flex-wrap gap-2 mb-4"
+      >
+        <div className="relative flex-1 min-w-[12rem]">
+          <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Payment intent, booking, email or admin"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={query.outcome || ""}
+          onChange={(e) =>
+            setQuery({
+              ...query,
+              outcome: (e.target.value || undefined) as RecoveryAttemptQuery["outcome"],
+              page: 1,
+            })
+          }
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value="">All results</option>
+          <option value="success">Recovered</option>
+          <option value="failed">Failed</option>
+        </select>
+      </form>
+
+      {error ? (
+        <div className="text-center py-8 text-red-600 text-sm">{error}</div>
+      ) : loading && attempts.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">Loading...</div>
+      ) : attempts.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p>No recoveries found</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {attempts.map((item) => {
+            const expanded = expandedId === item._id;
+            const details = item.paymentDetails;
+            return (
+              <div
+                key={item._id}
+                className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-2">
+                      {item.success ? (
+                        <FiCheckCircle className="text-green-500 shrink-0" />
+                      ) : (
+                        <FiAlertCircle className="text-red-500 shrink-0" />
+                      )}
+                      <code className="text-xs bg-gray-100 px-2 py-1 rounded truncate">
+                        {item.paymentIntentId}
+                      </code>
+                      <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full">
+                        {MODE_LABELS[item.mode]}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-600 space-y-1">
+                      {item.bookingId && (
+                        <div>
+                          Booking:{" "}
+                          <span className="font-medium">{item.bookingId}</span>
+                          {item.alreadyExists && " (already existed)"}
+                        </div>
+                      )}
+                      {item.customerEmail && (
+                        <div className="flex items-center gap-1">
+                          <FiMail className="text-xs" />
+                          {item.customerEmail}
+                        </div>
+                      )}
+                      {item.error && <div className="text-red-600">{item.error}</div>}
+                      <div className="text-xs text-gray-500">by {item.actor}</div>
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-xs text-gray-500">
+                      {new Date(item.createdAt).toLocaleString()}
+                    </div>
+                    {item.amount !== undefined && (
+                      <div className="text-sm font-medium text-gray-900 mt-1">
+                        {item.currency?.toUpperCase()} {item.amount.toFixed(2)}
+                      </div>
+                    )}
+                    {details && (
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : item._id)}
+                        className="mt-2 inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                      >
+                        Payment snapshot
+                        {expanded ? <FiChevronUp /> : <FiChevronDown />}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expanded && details && (
+                  <div className="mt-3 pt-3 border-t text-xs text-gray-700 space-y-1">
+                    <div>
+                      Payment status: <strong>{details.payment?.status}</strong>
+                    </div>
+                    <div>
+                      Booking at the time:{" "}
+                      <strong>
+                        {details.booking
+                          ? `${details.booking.id} (${details.booking.status})`
+                          : "none"}
+                      </strong>
+                    </div>
+                    {details.analysis && (
+                      <>
+                        <div>
+                          Recoverable:{" "}
+                          <strong>{details.analysis.canRecover ? "yes" : "no"}</strong>
+                        </div>
+                        <div>{details.analysis.recommendation}</div>
+                      </>
+                    )}
+                    {details.payment?.metadata && (
+                      <pre className="mt-2 p-2 bg-gray-50 rounded overflow-x-auto">
+                        {JSON.stringify(details.payment.metadata, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <span className="text-gray-500">{total} attempts</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setQuery({ ...query, page: page - 1 })}
+              disabled={page <= 1}
+              className="px-3 py-1 border rounded-lg disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="px-2 py-1 text-gray-600">
+              {page} / {pages}
+            </span>
+            <button
+              onClick={() => setQuery({ ...query, page: page + 1 })}
+              disabled={page >= pages}
+              className="px-3 py-1 border rounded-lg disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { FiX } from "react-icons/fi";
+import type { CreateRefundInput } from "@/lib/recoveryApi";
+import { REFUND_METHOD_LABELS, REFUND_METHODS, RefundMethod } from "@/lib/refunds";
+
+interface RefundModalProps {
+  /** Prefilled when refunding a listed booking */
+  bookingId?: string;
+  paymentIntentId?: string;
+  /** Amount still refundable, used as the default */
+  maxAmount?: number;
+  onClose: () => void;
+  onSubmit: (input: CreateRefundInput) => Promise<void>;
+}
+
+export default function RefundModal({
+  bookingId: initialBookingId = "",
+  paymentIntentId,
+  maxAmount,
+  onClose,
+  onSubmit,
+}: RefundModalProps) {
+  const [bookingId, setBookingId] = useState(initialBookingId);
+  const [amount, setAmount] = useState(
+    maxAmount !== undefined ? maxAmount.toFixed(2) : "",
+  );
+  const [method, setMethod] = useState<RefundMethod>(
+    paymentIntentId || !initialBookingId ? "stripe" : "bank_transfer",
+  );
+  const [manualStatus, setManualStatus] = useState<"processed" | "requested">(
+    "processed",
+  );
+  const [reason, setReason] = useState("");
+  const [reference, setReference] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    const value = Number(amount);
+    if (!bookingId.trim() || !(value > 0) || !reason.trim()) {
+      setError("Booking ID, a positive amount and a reason are required");
+      return;
+    }
+    if (maxAmount !== undefined && value > maxAmount + 0.001) {
+      setError(`Only RM ${maxAmount.toFixed(2)} is left to refund`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        bookingId: bookingId.trim(),
+        amount: value,
+        method,
+        reason: reason.trim(),
+        reference: reference.trim() || undefined,
+        paymentIntentId,
+        status: method === "stripe" ? undefined : manualStatus,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create refund");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b">
+          <h2 className="text-lg font-bold text-gray-900">Issue Refund</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <FiX className="text-xl" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Booking ID
+            <input
+              type="text"
+              value={bookingId}
+              onChange={(e) => setBookingId(e.target.value)}
+              disabled={!!initialBookingId}
+              className={`${inputClass} mt-1 font-mono disabled:bg-gray-100`}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              Amount (RM)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Method
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as RefundMethod)}
+                className={`${inputClass} mt-1`}
+              >
+                {REFUND_METHODS.map((option) => (
+                  <option
+                    key={option}
+                    value={option}
+                    disabled={
+                      option === "stripe" && !!initialBookingId && !paymentIntentId
+                    }
+                  >
+                    {REFUND_METHOD_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {method !== "stripe" && (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm font-medium text-gray-700">
+                State
+                <select
+                  value={manualStatus}
+                  onChange={(e) =>
+                    setManualStatus(e.target.value as "processed" | "requested")
+                  }
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="processed">Already paid out</option>
+                  <option value="requested">To be paid</option>
+                </select>
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Reference
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Transfer ref / receipt no."
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+          )}
+
+          <label className="block text-sm font-medium text-gray-700">
+            Reason
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          {method === "stripe" && (
+            <p className="text-xs text-gray-500">
+              The refund is sent to the customer&apos;s card immediately and
+              cannot be undone.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Processing..." : "Refund"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiX } from "react-icons/fi";
+import { TimeSlotAvailability, validateSlotBooking } from "@/lib/bookingSchedule";
+import { getBookingLoad, getOverbookingError } from "@/lib/capacity";
+import { formatTimeDisplay, normalizeTime } from "@/lib/dateUtils";
+import { getPriceBreakdown, RuleBasedPackage } from "@/lib/pricingRules";
+import { useHolidays } from "@/lib/useHolidays";
+
+interface RescheduleBookingModalProps {
+  booking: {
+    _id: string;
+    customerName: string;
+    /** Current MYT date, YYYY-MM-DD */
+    date: string;
+    time: string;
+    adults: number;
+    children: number;
+    total: number;
+    /** When the booking was made, for early-bird pricing rules */
+    createdAt?: string;
+  };
+  packageType: "tour" | "transfer";
+  packageDetails: RuleBasedPackage & { _id: string };
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function RescheduleBookingModal({
+  booking,
+  packageType,
+  packageDetails,
+  onClose,
+  onSuccess,
+}: RescheduleBookingModalProps) {
+  const [date, setDate] = useState(booking.date);
+  const [time, setTime] = useState(normalizeTime(booking.time));
+  const [adults, setAdults] = useState(booking.adults);
+  const [children, setChildren] = useState(booking.children);
+  const [reason, setReason] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  // Set when the server finds an overbooking the loaded slots did not show
+  const [serverOverbooking, setServerOverbooking] = useState<string | null>(
+    null,
+  );
+  const [timeSlots, setTimeSlots] = useState<TimeSlotAvailability[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const holidays = useHolidays();
+
+  useEffect(() => {
+    if (!date) return;
+
+    const fetchTimeSlots = async () => {
+      try {
+        setIsLoadingSlots(true);
+        const response = await fetch(
+          `/api/timeslots?packageType=${packageType}&packageId=${packageDetails._id}&date=${date}`,
+        );
+        const data = await response.json();
+        setTimeSlots(data.success ? data.data || [] : []);
+      } catch (error) {
+        console.error("Error fetching time slots:", error);
+        setTimeSlots([]);
+        toast.error("Failed to load available time slots");
+      } finally {
+        setIsLoadingSlots(false);
+      }
+    };
+
+    fetchTimeSlots();
+  }, [date, packageType, packageDetails._id]);
+
+  const selectedSlot = timeSlots.find(
+    (slot) => normalizeTime(slot.time) === time,
+  );
+  const isSameSlot =
+    date === booking.date && time === normalizeTime(booking.time);
+  const ownGuests = isSameSlot ? booking.adults + booking.children : 0;
+  const slotError = validateSlotBooking(
+    selectedSlot,
+    packageDetails,
+    { adults, children },
+    ownGuests,
+    true,
+  );
+  const overbooking =
+    (selectedSlot &&
+      getOverbookingError(
+        selectedSlot,
+        getBookingLoad({ adults, children }, selectedSlot.capacityUnit),
+        isSameSlot ? getBookingLoad(booking, selectedSlot.capacityUnit) : 0,
+      )) ||
+    serverOverbooking;
+
+  useEffect(() => {
+    setServerOverbooking(null);
+  }, [date, time, adults, children]);
+
+  const newTotal = getPriceBreakdown(packageType, packageDetails, {
+    date,
+    adults,
+    children,
+    bookedOn: booking.createdAt ? new Date(booking.createdAt) : undefined,
+    holidays: holidays.map((holiday) => holiday.date),
+  }).total;
+  const isUnchanged =
+    isSameSlot && adults === booking.adults && children === booking.children;
+
+  const handleSubmit = async () => {
+    if (slotError) {
+      toast.error(slotError);
+      return;
+    }
+
+    if (overbooking && !overrideReason.trim()) {
+      toast.error(`${overbooking}. Enter a reason to overbook.`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/bookings/${booking._id}/reschedule`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          date,
+          time: selectedSlot?.time || time,
+          adults,
+          children,
+          reason: reason.trim() || undefined,
+          ...(overbooking
+            ? { capacityOverride: { reason: overrideReason.trim() } }
+            : {}),
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        toast.success("Booking updated successfully");
+        if (data.balanceDue > 0) {
+          toast(
+            `The new total is RM ${data.balanceDue.toFixed(2)} more than was paid; collect the difference`,
+          );
+        } else if (data.balanceDue < 0) {
+          toast(
+            `The new total is RM ${(-data.balanceDue).toFixed(2)} less than was paid; refund the difference`,
+          );
+        }
+        onSuccess();
+      } else {
+        if (data.requiresOverride) {
+          setServerOverbooking(data.error);
+        }
+        toast.error(data.error || "Failed to update booking");
+      }
+    } catch (error) {
+      console.error("Error rescheduling booking:", error);
+      toast.error("An error occurred while updating the booking.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="flex justify-between items-center p-5 border-b">
+          <div>
+            <h2 className="text-lg font-bold text-dark">Edit Booking</h2>
+            <p className="text-sm text-light">{booking.customerName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <FiX className="text-xl" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              Date
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Time
+              <select
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                disabled={isLoadingSlots}
+                className={`${inputClass} mt-1 disabled:bg-gray-100`}
+              >
+                <option value="">
+                  {isLoadingSlots ? "Loading..." : "Select a time"}
+                </option>
+                {timeSlots.map((slot) => {
+                  const slotTime = normalizeTime(slot.time);
+                  const held =
+                    date === booking.date &&
+                    slotTime === normalizeTime(booking.time)
+                      ? getBookingLoad(booking, slot.capacityUnit)
+                      : 0;
+                  const seatsLeft = slot.capacity - slot.bookedCount + held;
+                  return (
+                    <option key={slot.time} value={slotTime}>
+                      {formatTimeDisplay(slot.time)} ({seatsLeft} left
+                      {slot.isAvailable ? "" : ", closed"})
+                    </option>
+                  );
+                })}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm font-medium text-gray-700">
+              Adults
+              <input
+                type="number"
+                min={1}
+                value={adults}
+                onChange={(e) => setAdults(Math.max(0, Number(e.target.value)))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="text-sm font-medium text-gray-700">
+              Children
+              <input
+                type="number"
+                min={0}
+                value={children}
+                onChange={(e) =>
+                  setChildren(Math.max(0, Number(e.target.value)))
+                }
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <label className="block text-sm font-medium text-gray-700">
+            Reason (optional)
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <div className="flex justify-between items-center text-sm bg-gray-50 rounded-lg p-3">
+            <span className="text-light">
+              Total: RM {Math.round(booking.total).toLocaleString()} →
+            </span>
+            <span className="font-semibold text-primary">
+              RM {Math.round(newTotal).toLocaleString()}
+            </span>
+          </div>
+
+          {slotError && !isLoadingSlots && time && (
+            <p className="text-sm text-red-600">{slotError}</p>
+          )}
+
+          {!slotError && overbooking && !isLoadingSlots && time && (
+            <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 space-y-2">
+              <p className="text-sm font-medium text-amber-800">
+                {overbooking}
+              </p>
+              <label className="block text-sm text-amber-800">
+                Reason to overbook (recorded on the booking)
+                <textarea
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  rows={2}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm border rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={
+              isSubmitting || isLoadingSlots || !time || !!slotError || isUnchanged
+            }
+            className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type { MetricChange } from "@/lib/revenue";
+
+function formatValue(value: number, currency: boolean) {
+  const rounded = Math.round(Math.abs(value)).toLocaleString();
+  return currency ? `RM ${rounded}` : rounded;
+}
+
+export default function RevenueChange({
+  change,
+  currency = false,
+  label,
+}: {
+  change?: MetricChange;
+  currency?: boolean;
+  label?: string;
+}) {
+  if (!change) return null;
+
+  const sign = change.delta > 0 ? "+" : change.delta < 0 ? "-" : "";
+  const color =
+    change.delta > 0
+      ? "text-green-600"
+      : change.delta < 0
+        ? "text-red-600"
+        : "text-gray-500";
+
+  return (
+    <p
+      className={`text-xs ${color}`}
+      title={`Previous: ${formatValue(change.previous, currency)}`}
+    >
+      {sign}
+      {formatValue(change.delta, currency)}
+      {change.percentChange !== null
+        ? ` (${sign}${Math.abs(change.percentChange).toFixed(1)}%)`
+        : change.previous === 0 && change.current !== 0
+          ? " (new)"
+          : ""}
+      {label && <span className="text-gray-500"> {label}</span>}
+    </p>
+  );
+}
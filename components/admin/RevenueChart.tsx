@@ -0,0 +1,103 @@
+import type { RevenueSeriesPoint } from "@/lib/revenue";
+
+const CHART_HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 48, left: 64 };
+const MAX_X_LABELS = 12;
+
+function formatAxisValue(value: number) {
+  if (value >= 1000) return `RM ${(value / 1000).toFixed(value >= 10000 ? 0 : 1)}k`;
+  return `RM ${Math.round(value)}`;
+}
+
+export default function RevenueChart({
+  series,
+}: {
+  series: RevenueSeriesPoint[];
+}) {
+  if (series.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-60 text-gray-500 text-sm">
+        No revenue in this period
+      </div>
+    );
+  }
+
+  // Fixed-width viewBox, scaled to the container by the browser
+  const width = Math.max(640, series.length * 24);
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxRevenue = Math.max(...series.map((point) => point.revenue), 1);
+  const slotWidth = plotWidth / series.length;
+  const barWidth = Math.max(2, slotWidth * 0.7);
+  const labelEvery = Math.ceil(series.length / MAX_X_LABELS);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((ratio) => ratio * maxRevenue);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Revenue chart"
+    >
+      {ticks.map((tick) => {
+        const y = PADDING.top + plotHeight - (tick / maxRevenue) * plotHeight;
+        return (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={width - PADDING.right}
+              y1={y}
+              y2={y}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y + 4}
+              textAnchor="end"
+              fontSize="11"
+              fill="#6b7280"
+            >
+              {formatAxisValue(tick)}
+            </text>
+          </g>
+        );
+      })}
+
+      {series.map((point, index) => {
+        const barHeight = (point.revenue / maxRevenue) * plotHeight;
+        const x = PADDING.left + index * slotWidth + (slotWidth - barWidth) / 2;
+        const y = PADDING.top + plotHeight - barHeight;
+
+        return (
+          <g key={point.key}>
+            <rect
+              x={x}
+              y={y}
+              width={barWidth}
+              height={barHeight}
+              rx={2}
+              className="fill-primary"
+            >
+              <title>
+                {`${point.label}: RM ${Math.round(point.revenue).toLocaleString()} (${point.bookings} bookings, ${point.persons} persons)`}
+              </title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text
+                x={x + barWidth / 2}
+                y={CHART_HEIGHT - PADDING.bottom + 16}
+                textAnchor="middle"
+                fontSize="11"
+                fill="#6b7280"
+              >
+                {point.label.length > 14
+                  ? `${point.label.slice(0, 13)}…`
+                  : point.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
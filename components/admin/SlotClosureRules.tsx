@@ -0,0 +1,466 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiEdit2, FiPlus, FiRepeat, FiTrash2, FiX } from "react-icons/fi";
+import Confirmation from "@/components/ui/Confirmation";
+import { DAY_OF_WEEK_LABELS } from "@/lib/pricingRules";
+import {
+  createSlotClosureInput,
+  describeSlotClosure,
+  SlotClosureInput,
+  SlotClosurePackageType,
+  SlotClosureRecord,
+  validateSlotClosureInput,
+} from "@/lib/slotClosures";
+
+interface SlotClosureRulesProps {
+  packageId: string;
+  packageType: SlotClosurePackageType;
+  departureTimes: string[];
+}
+
+type ClosureScope = "package" | "type" | "all";
+
+const inputClassName =
+  "w-full p-2 border rounded-lg text-sm focus:ring-primary focus:border-primary";
+
+function getScope(rule: Pick<SlotClosureInput, "packageTypes" | "packageIds">): ClosureScope {
+  if (rule.packageIds.length > 0) return "package";
+  return rule.packageTypes.length > 0 ? "type" : "all";
+}
+
+export default function SlotClosureRules({
+  packageId,
+  packageType,
+  departureTimes,
+}: SlotClosureRulesProps) {
+  const [rules, setRules] = useState<SlotClosureRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null while the form is closed, "new" while adding a rule
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SlotClosureInput>(() =>
+    createSlotClosureInput({ packageTypes: [], packageIds: [packageId] })
+  );
+  const [newDate, setNewDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<SlotClosureRecord | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/api/timeslots/closures?packageType=${packageType}&packageId=${packageId}`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch closure rules");
+      }
+
+      setRules(data.rules);
+    } catch (error) {
+      console.error("Error fetching closure rules:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load closure rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [packageId, packageType]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const scope = getScope(form);
+
+  const setScope = (next: ClosureScope) => {
+    setForm({
+      ...form,
+      packageTypes: next === "type" ? [packageType] : [],
+      packageIds: next === "package" ? [packageId] : [],
+    });
+  };
+
+  const toggleTime = (time: string) => {
+    setForm({
+      ...form,
+      times: form.times.includes(time)
+        ? form.times.filter((t) => t !== time)
+        : [...form.times, time].sort(),
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    setForm({
+      ...form,
+      daysOfWeek: form.daysOfWeek.includes(day)
+        ? form.daysOfWeek.filter((d) => d !== day)
+        : [...form.daysOfWeek, day].sort((a, b) => a - b),
+    });
+  };
+
+  const addDate = () => {
+    if (!newDate || form.dates.includes(newDate)) return;
+    setForm({ ...form, dates: [...form.dates, newDate].sort() });
+    setNewDate("");
+  };
+
+  const startAdding = () => {
+    setForm(createSlotClosureInput({ packageTypes: [], packageIds: [packageId] }));
+    setNewDate("");
+    setEditingId("new");
+  };
+
+  const startEditing = (rule: SlotClosureRecord) => {
+    setForm({
+      reason: rule.reason,
+      packageTypes: rule.packageTypes,
+      packageIds: rule.packageIds,
+      times: rule.times,
+      recurrence: rule.recurrence,
+      daysOfWeek: rule.daysOfWeek,
+      dates: rule.dates,
+      startsOn: rule.startsOn,
+      endsOn: rule.endsOn,
+      isActive: rule.isActive,
+    });
+    setNewDate("");
+    setEditingId(rule._id);
+  };
+
+  const saveRule = async (id: string | null, input: SlotClosureInput) => {
+    const response = await fetch(
+      id ? `/api/timeslots/closures/${id}` : "/api/timeslots/closures",
+      {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      }
+    );
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Failed to save closure rule");
+    }
+  };
+
+  const handleSave = async () => {
+    const validationError = validateSlotClosureInput(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveRule(editingId === "new" ? null : editingId, form);
+      toast.success(editingId === "new" ? "Closure rule added" : "Closure rule updated");
+      setEditingId(null);
+      fetchRules();
+    } catch (error) {
+      console.error("Error saving closure rule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save closure rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: SlotClosureRecord) => {
+    try {
+      await saveRule(rule._id, { ...rule, isActive: !rule.isActive });
+      fetchRules();
+    } catch (error) {
+      console.error("Error updating closure rule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update closure rule");
+    }
+  };
+
+  const confirmDeleteRule = async () => {
+    if (!ruleToDelete) return;
+
+    try {
+      const response = await fetch(`/api/timeslots/closures/${ruleToDelete._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete closure rule");
+      }
+
+      toast.success("Closure rule deleted");
+      if (editingId === ruleToDelete._id) setEditingId(null);
+      fetchRules();
+    } catch (error) {
+      console.error("Error deleting closure rule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete closure rule");
+    } finally {
+      setRuleToDelete(null);
+    }
+  };
+
+  const scopeLabel = (rule: SlotClosureRecord) => {
+    const ruleScope = getScope(rule);
+    if (ruleScope === "package") return "This package";
+    if (ruleScope === "type") return `All ${rule.packageTypes.join(" and ")}s`;
+    return "All packages";
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 flex items-center">
+          <FiRepeat className="mr-2" /> Recurring Closures
+        </label>
+        {editingId === null && (
+          <button
+            onClick={startAdding}
+            className="flex items-center px-3 py-1 text-xs font-medium rounded-full border border-primary text-primary hover:bg-primary/5"
+          >
+            <FiPlus className="mr-1" /> Add Rule
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Closures apply to availability and bookings in this admin panel only.
+        The customer booking site does not check them, so also mark the
+        affected slots unavailable if customers must not book them.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading closure rules...</p>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">
+          No recurring closures. Departures follow their normal schedule.
+        </p>
+      ) : (
+        <div className="border rounded-lg divide-y">
+          {rules.map((rule) => (
+            <div
+              key={rule._id}
+              className={`flex items-start gap-3 p-3 ${rule.isActive ? "" : "opacity-60"}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {rule.reason}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {scopeLabel(rule)}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-600 break-words">
+                  {describeSlotClosure(rule)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleToggleActive(rule)}
+                className="text-xs text-gray-700 hover:underline whitespace-nowrap"
+              >
+                {rule.isActive ? "Pause" : "Resume"}
+              </button>
+              <button
+                onClick={() => startEditing(rule)}
+                className="p-1 text-gray-500 hover:text-primary"
+                title="Edit rule"
+              >
+                <FiEdit2 size={14} />
+              </button>
+              <button
+                onClick={() => setRuleToDelete(rule)}
+                className="p-1 text-gray-500 hover:text-red-600"
+                title="Delete rule"
+              >
+                <FiTrash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="p-4 border rounded-lg bg-gray-50 space-y-4">
+          <input
+            type="text"
+            value={form.reason}
+            onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            placeholder="Reason, e.g. Weekly boat maintenance"
+            className={inputClassName}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Applies to</label>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as ClosureScope)}
+                className={inputClassName}
+              >
+                <option value="package">This package</option>
+                <option value="type">All {packageType}s</option>
+                <option value="all">All tours and transfers</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Repeats</label>
+              <select
+                value={form.recurrence}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    recurrence: e.target.value as SlotClosureInput["recurrence"],
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="weekly">Every week</option>
+                <option value="dates">On specific dates</option>
+                <option value="public-holidays">On public holidays</option>
+              </select>
+            </div>
+          </div>
+
+          {form.recurrence === "weekly" ? (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Days</label>
+              <div className="flex flex-wrap gap-1">
+                {DAY_OF_WEEK_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-3 py-1 text-xs rounded-md border ${
+                      form.daysOfWeek.includes(day)
+                        ? "bg-primary text-white border-primary"
+                        : "bg-white border-gray-300 text-gray-700 hover:border-primary"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : form.recurrence === "dates" ? (
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Dates</label>
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="date"
+                  value={newDate}
+                  onChange={(e) => setNewDate(e.target.value)}
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={addDate}
+                  disabled={!newDate}
+                  className="px-3 py-1 text-sm border border-primary text-primary rounded-lg hover:bg-primary/5 disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {form.dates.map((date) => (
+                  <span
+                    key={date}
+                    className="flex items-center px-2 py-1 text-xs rounded-md bg-white border"
+                  >
+                    {date}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setForm({ ...form, dates: form.dates.filter((d) => d !== date) })
+                      }
+                      className="ml-1 text-gray-400 hover:text-red-600"
+                    >
+                      <FiX size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Uses the holiday calendar, including holidays added or moved there later.
+            </p>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Departures (none selected closes all of them)
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {departureTimes.map((time) => (
+                <button
+                  key={time}
+                  type="button"
+                  onClick={() => toggleTime(time)}
+                  className={`px-3 py-1 text-xs rounded-md border ${
+                    form.times.includes(time)
+                      ? "bg-primary text-white border-primary"
+                      : "bg-white border-gray-300 text-gray-700 hover:border-primary"
+                  }`}
+                >
+                  {time}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                In effect from (optional)
+              </label>
+              <input
+                type="date"
+                value={form.startsOn || ""}
+                onChange={(e) => setForm({ ...form, startsOn: e.target.value || undefined })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                Until (optional)
+              </label>
+              <input
+                type="date"
+                value={form.endsOn || ""}
+                onChange={(e) => setForm({ ...form, endsOn: e.target.value || undefined })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">{describeSlotClosure(form)}</p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : editingId === "new" ? "Add Rule" : "Save Rule"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Confirmation
+        isOpen={ruleToDelete !== null}
+        onClose={() => setRuleToDelete(null)}
+        onConfirm={confirmDeleteRule}
+        title="Delete Closure Rule"
+        message={`Delete "${ruleToDelete?.reason}"? The departures it closes will open again.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { tourApi } from "@/lib/tourApi";
 import { toast } from "react-hot-toast";
 import { FiCalendar, FiX, FiCheck, FiClock } from "react-icons/fi";
 import Confirmation from "@/components/ui/Confirmation";
+import SlotClosureRules from "@/components/admin/SlotClosureRules";
 
 interface SlotManagementModalProps {
   isOpen: boolean;
@@ -173,6 +174,15 @@ export default function SlotManagementModal({
               ))}
             </div>
           </div>
+
+          {/* Recurring closures are applied when availability is resolved */}
+          <div className="pt-6 border-t">
+            <SlotClosureRules
+              packageId={packageId}
+              packageType={packageType}
+              departureTimes={departureTimes}
+            />
+          </div>
         </div>
 
         <div className="p-6 border-t bg-gray-50 flex flex-col sm:flex-row justify-end gap-3">
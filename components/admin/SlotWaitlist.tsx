@@ -0,0 +1,403 @@
+"use client";
+
+import { ComponentProps, useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { FiPlus, FiUserPlus, FiX } from "react-icons/fi";
+import AdminBookingModal, { AdminBookingPrefill } from "@/components/AdminBookingModal";
+import Confirmation from "@/components/ui/Confirmation";
+import { TimeSlotAvailability } from "@/lib/bookingSchedule";
+import { normalizeTime } from "@/lib/dateUtils";
+import {
+  getNextWaitlistCandidate,
+  getWaitlistPartySize,
+  validateWaitlistEntry,
+  WaitlistEntryInput,
+  WaitlistEntryRecord,
+  WaitlistPackageType,
+} from "@/lib/waitlist";
+
+interface SlotWaitlistProps {
+  packageType: WaitlistPackageType;
+  packageDetails: ComponentProps<typeof AdminBookingModal>["packageDetails"];
+  /** YYYY-MM-DD */
+  date: string;
+  time: string;
+  /** Private transfers are sold by vehicle, so every party takes one unit */
+  perVehicle: boolean;
+  /** Guests currently holding seats; seats left are re-checked when it changes */
+  activeGuests: number;
+  /** Called after a waitlisted customer has been booked */
+  onBooked: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  email: "",
+  phone: "",
+  adults: "1",
+  children: "0",
+  notes: "",
+};
+
+const inputClassName =
+  "w-full p-2 border rounded-lg text-sm focus:ring-primary focus:border-primary";
+
+export default function SlotWaitlist({
+  packageType,
+  packageDetails,
+  date,
+  time,
+  perVehicle,
+  activeGuests,
+  onBooked,
+}: SlotWaitlistProps) {
+  const [entries, setEntries] = useState<WaitlistEntryRecord[]>([]);
+  const [seatsLeft, setSeatsLeft] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [entryToBook, setEntryToBook] = useState<WaitlistEntryRecord | null>(null);
+  const [entryToRemove, setEntryToRemove] = useState<WaitlistEntryRecord | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/bookings/waitlist?packageId=${packageDetails._id}&date=${date}&time=${time}`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch waitlist");
+      }
+
+      setEntries(data.entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      toast.error("Failed to load the waitlist");
+    }
+  }, [packageDetails._id, date, time]);
+
+  // Seats left come from the same availability AdminBookingModal checks against
+  const fetchSeatsLeft = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/timeslots?packageType=${packageType}&packageId=${packageDetails._id}&date=${date}`,
+        { cache: "no-store" }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch time slots");
+      }
+
+      const slot = (data.data as TimeSlotAvailability[]).find(
+        (s) => normalizeTime(s.time) === normalizeTime(time)
+      );
+      setSeatsLeft(slot && slot.isAvailable ? Math.max(0, slot.capacity - slot.bookedCount) : 0);
+    } catch (error) {
+      console.error("Error fetching slot availability:", error);
+      setSeatsLeft(null);
+    }
+  }, [packageType, packageDetails._id, date, time]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    fetchSeatsLeft();
+  }, [fetchSeatsLeft, activeGuests]);
+
+  const waiting = entries.filter((entry) => entry.status === "waiting");
+  const bookedCount = entries.filter((entry) => entry.status === "promoted").length;
+  const nextCandidate =
+    seatsLeft === null ? null : getNextWaitlistCandidate(waiting, seatsLeft, perVehicle);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input: WaitlistEntryInput = {
+      packageType,
+      packageId: packageDetails._id,
+      date,
+      time: normalizeTime(time),
+      contactInfo: {
+        name: form.name.trim(),
+        email: form.email.trim(),
+        phone: form.phone.trim(),
+      },
+      adults: parseInt(form.adults, 10),
+      children: parseInt(form.children || "0", 10),
+      notes: form.notes.trim() || undefined,
+    };
+    const validationError = validateWaitlistEntry(input);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/bookings/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to add to waitlist");
+      }
+
+      toast.success(`${input.contactInfo.name} added to the waitlist`);
+      setForm(emptyForm);
+      setShowForm(false);
+      fetchEntries();
+    } catch (error) {
+      console.error("Error adding to waitlist:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add to waitlist");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const closeEntry = async (
+    entry: WaitlistEntryRecord,
+    update: { status: "promoted"; bookingId: string } | { status: "removed" }
+  ) => {
+    const response = await fetch(`/api/bookings/waitlist/${entry._id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Failed to update waitlist entry");
+    }
+  };
+
+  const confirmRemoveEntry = async () => {
+    if (!entryToRemove) return;
+
+    try {
+      await closeEntry(entryToRemove, { status: "removed" });
+      toast.success(`${entryToRemove.contactInfo.name} removed from the waitlist`);
+      fetchEntries();
+    } catch (error) {
+      console.error("Error removing waitlist entry:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove entry");
+    } finally {
+      setEntryToRemove(null);
+    }
+  };
+
+  // The booking already exists here, so a failure only warns
+  const handleBookingComplete = async (bookingData: { bookingId: string }) => {
+    if (!entryToBook) return;
+
+    try {
+      await closeEntry(entryToBook, { status: "promoted", bookingId: bookingData.bookingId });
+    } catch (error) {
+      console.error("Error promoting waitlist entry:", error);
+      toast.error(
+        `Booking created, but ${entryToBook.contactInfo.name} is still on the waitlist`
+      );
+    } finally {
+      setEntryToBook(null);
+      fetchEntries();
+      onBooked();
+    }
+  };
+
+  const prefill: AdminBookingPrefill | undefined = entryToBook
+    ? {
+        date,
+        time: normalizeTime(time),
+        adults: entryToBook.adults,
+        children: entryToBook.children,
+        contactInfo: entryToBook.contactInfo,
+      }
+    : undefined;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border mb-8">
+      <div className="p-6 border-b flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-dark">Waitlist</h2>
+          <p className="text-sm text-light">
+            {waiting.length} waiting
+            {bookedCount > 0 && `, ${bookedCount} booked from the waitlist`}
+            {seatsLeft !== null &&
+              ` · ${seatsLeft} ${perVehicle ? "vehicles" : "seats"} left`}
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-2 px-3 py-2 text-sm border border-primary text-primary rounded-lg hover:bg-primary/5 transition-colors"
+        >
+          {showForm ? <FiX /> : <FiPlus />}
+          <span className="hidden sm:inline">{showForm ? "Close" : "Add to waitlist"}</span>
+        </button>
+      </div>
+
+      {nextCandidate && (
+        <div className="mx-6 mt-4 p-3 rounded-lg bg-green-50 border border-green-200 flex items-center justify-between gap-3">
+          <p className="text-sm text-green-800">
+            Seats are free again. Next on the waitlist:{" "}
+            <span className="font-semibold">{nextCandidate.contactInfo.name}</span> (
+            {nextCandidate.adults} adults, {nextCandidate.children} children)
+          </p>
+          <button
+            onClick={() => setEntryToBook(nextCandidate)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors whitespace-nowrap"
+          >
+            <FiUserPlus />
+            Book now
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleAdd} className="p-6 border-b space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Customer name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <input
+              type="email"
+              placeholder="Email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="tel"
+              placeholder="Phone"
+              value={form.phone}
+              onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="text-xs text-gray-600">
+              Adults
+              <input
+                type="number"
+                min="1"
+                value={form.adults}
+                onChange={(e) => setForm({ ...form, adults: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Children
+              <input
+                type="number"
+                min="0"
+                value={form.children}
+                onChange={(e) => setForm({ ...form, children: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-gray-600 col-span-2">
+              Notes
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 text-sm bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? "Adding..." : "Add to waitlist"}
+          </button>
+        </form>
+      )}
+
+      {waiting.length === 0 ? (
+        <p className="p-6 text-center text-sm text-light">Nobody is waiting for this departure.</p>
+      ) : (
+        <ol className="divide-y">
+          {waiting.map((entry, index) => {
+            const partySize = getWaitlistPartySize(entry, perVehicle);
+            const fits = seatsLeft !== null && partySize <= seatsLeft;
+            return (
+              <li
+                key={entry._id}
+                className="px-6 py-4 flex flex-wrap items-center justify-between gap-3"
+              >
+                <div>
+                  <p className="font-medium text-dark">
+                    {index + 1}. {entry.contactInfo.name}
+                    {entry._id === nextCandidate?._id && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Next
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-light">
+                    {entry.adults} adults, {entry.children} children
+                    {entry.contactInfo.phone && ` · ${entry.contactInfo.phone}`}
+                    {entry.contactInfo.email && ` · ${entry.contactInfo.email}`}
+                    {" · added "}
+                    {new Date(entry.createdAt).toLocaleString("en-MY")}
+                  </p>
+                  {entry.notes && <p className="text-sm text-light">{entry.notes}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setEntryToBook(entry)}
+                    disabled={!fits}
+                    title={fits ? undefined : "Not enough seats left for this party"}
+                    className="px-3 py-1 text-xs font-medium rounded-lg border border-gray-200 text-dark hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Book
+                  </button>
+                  <button
+                    onClick={() => setEntryToRemove(entry)}
+                    className="px-3 py-1 text-xs font-medium rounded-lg border border-red-200 text-red-600 hover:bg-red-50 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {entryToBook && prefill && (
+        <AdminBookingModal
+          isOpen
+          onClose={() => setEntryToBook(null)}
+          onBookingComplete={handleBookingComplete}
+          packageType={packageType}
+          packageDetails={packageDetails}
+          initialBooking={prefill}
+        />
+      )}
+
+      <Confirmation
+        isOpen={entryToRemove !== null}
+        onClose={() => setEntryToRemove(null)}
+        onConfirm={confirmRemoveEntry}
+        title="Remove from Waitlist"
+        message={`Remove ${entryToRemove?.contactInfo.name} from the waitlist for this departure?`}
+        confirmText="Remove"
+        variant="danger"
+      />
+    </div>
+  );
+}
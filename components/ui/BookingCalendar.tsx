@@ -3,12 +3,15 @@
 import { useState } from "react";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
+import type { Holiday } from "@/lib/holidays";
 
 type BookingCalendarProps = {
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   minDate?: Date;
   maxDate?: Date;
+  // Highlighted with their names shown on hover
+  holidays?: Holiday[];
 };
 
 export default function BookingCalendar({
@@ -16,6 +19,7 @@ export default function BookingCalendar({
   onDateChange,
   minDate,
   maxDate,
+  holidays = [],
 }: BookingCalendarProps) {
   return (
     <div className="bg-white rounded-lg shadow p-4">
@@ -30,6 +34,10 @@ export default function BookingCalendar({
         inline
         minDate={minDate}
         maxDate={maxDate}
+        holidays={holidays.map((holiday) => ({
+          date: holiday.date,
+          holidayName: holiday.name,
+        }))}
         calendarClassName="!border-0"
         wrapperClassName="!block"
       />
@@ -8,6 +8,7 @@ import {
   ReactNode,
 } from "react";
 import { useRouter } from "next/navigation";
+import { AdminRole, canAccess as roleCanAccess } from "@/lib/permissions";
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -15,6 +16,8 @@ interface AuthContextType {
   logout: () => void;
   loading: boolean;
   getCurrentUser: () => string | null;
+  role: AdminRole | null;
+  canAccess: (path: string, method?: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -32,36 +35,31 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider = ({ children }: AuthProviderProps) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [username, setUsername] = useState<string | null>(null);
+  const [role, setRole] = useState<AdminRole | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
-  // Admin credentials
-  const ADMIN_USERNAME = "administrator@oastel";
-  const ADMIN_PASSWORD = "0aste!@765";
-
   useEffect(() => {
-    // Check if user is already authenticated on page load
-    if (typeof window !== "undefined") {
-      const token = localStorage.getItem("admin_token");
-      const expiry = localStorage.getItem("admin_token_expiry");
-
-      if (token && expiry) {
-        const now = new Date().getTime();
-        const expiryTime = parseInt(expiry);
-
-        if (now < expiryTime) {
-          setIsAuthenticated(true);
-        } else {
-          // Token expired, clear storage
-          localStorage.removeItem("admin_token");
-          localStorage.removeItem("admin_token_expiry");
-          localStorage.removeItem("admin_user");
-        }
+    // The session lives in an HTTP-only cookie, so ask the server who we are
+    const checkSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session", {
+          cache: "no-store",
+        });
+        const data = await response.json();
+        setUsername(data.success ? data.user.username : null);
+        setRole(data.success ? data.user.role : null);
+      } catch (error) {
+        console.error("Session check error:", error);
+        setUsername(null);
+        setRole(null);
+      } finally {
+        setLoading(false);
       }
-    }
+    };
 
-    setLoading(false);
+    checkSession();
   }, []);
 
   const login = async (
@@ -69,30 +67,18 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     password: string
   ): Promise<boolean> => {
     try {
-      // Simulate API delay
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Trim whitespace and validate
-      const trimmedUsername = username.trim();
-      const trimmedPassword = password.trim();
-
-      if (
-        trimmedUsername === ADMIN_USERNAME &&
-        trimmedPassword === ADMIN_PASSWORD
-      ) {
-        if (typeof window !== "undefined") {
-          // Create session token (simple implementation)
-          const token = btoa(
-            `${trimmedUsername}:${Date.now()}:${Math.random()}`
-          );
-          const expiry = new Date().getTime() + 24 * 60 * 60 * 1000; // 24 hours
-
-          localStorage.setItem("admin_token", token);
-          localStorage.setItem("admin_token_expiry", expiry.toString());
-          localStorage.setItem("admin_user", trimmedUsername);
-        }
-
-        setIsAuthenticated(true);
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setUsername(data.user.username);
+        setRole(data.user.role);
         return true;
       }
 
@@ -103,26 +89,34 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
-  const logout = () => {
-    if (typeof window !== "undefined") {
-      localStorage.removeItem("admin_token");
-      localStorage.removeItem("admin_token_expiry");
-      localStorage.removeItem("admin_user");
+  const logout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Logout error:", error);
     }
-    setIsAuthenticated(false);
+    setUsername(null);
+    setRole(null);
     router.push("/login");
   };
 
-  const getCurrentUser = () => {
-    if (typeof window !== "undefined") {
-      return localStorage.getItem("admin_user");
-    }
-    return null;
-  };
+  const getCurrentUser = () => username;
+
+  // Mirrors the middleware check so navigation only offers reachable pages
+  const canAccess = (path: string, method?: string) =>
+    role !== null && roleCanAccess(role, path, method);
 
   return (
     <AuthContext.Provider
-      value={{ isAuthenticated, login, logout, loading, getCurrentUser }}
+      value={{
+        isAuthenticated: username !== null,
+        login,
+        logout,
+        loading,
+        getCurrentUser,
+        role,
+        canAccess,
+      }}
     >
       {children}
     </AuthContext.Provider>
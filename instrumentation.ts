@@ -0,0 +1,7 @@
+export async function register() {
+  // Background jobs only run in the Node.js server, not the Edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startRecoveryScheduler } = await import("@/lib/recoveryScheduler");
+    startRecoveryScheduler();
+  }
+}
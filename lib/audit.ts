@@ -0,0 +1,146 @@
+/**
+ * Audit trail for admin mutations (server only)
+ *
+ * Proxy routes call recordAudit after a successful backend mutation. Audit
+ * failures are logged but never fail the mutation itself, since the change
+ * has already been applied by the backend at that point.
+ */
+import type { NextRequest } from "next/server";
+import { getSession } from "@/lib/auth";
+import { normalizeTime } from "@/lib/dateUtils";
+import dbConnect from "@/lib/dbConnect";
+import AuditLog, { AuditEntityType } from "@/models/AuditLog";
+
+export interface AuditEntry {
+  /** What happened, e.g. "timeslot.toggle-availability" */
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Actor recorded for changes made by background jobs */
+export const SYSTEM_ACTOR = "system";
+
+/**
+ * Store an audit entry attributed to the signed-in admin
+ * @param request - Incoming request carrying the session cookie, or null for
+ *   background jobs (recorded as SYSTEM_ACTOR)
+ * @param entry - Entity and before/after values of the change
+ */
+export async function recordAudit(
+  request: NextRequest | null,
+  entry: AuditEntry
+): Promise<void> {
+  try {
+    const session = request ? await getSession(request) : null;
+
+    await dbConnect();
+    await AuditLog.create({
+      ...entry,
+      actor: session?.sub ?? (request ? "unknown" : SYSTEM_ACTOR),
+      actorRole: session?.role,
+    });
+  } catch (error) {
+    console.error("Error recording audit entry:", error);
+  }
+}
+
+/** The backend could not be reached or failed, as opposed to a missing record */
+export class BackendUnavailableError extends Error {
+  constructor(message = "The booking service is unavailable, please try again") {
+    super(message);
+    this.name = "BackendUnavailableError";
+  }
+}
+
+/**
+ * Fetch a backend record that a route needs in order to continue
+ * @param path - Backend path, e.g. "/api/bookings/123"
+ * @returns Parsed JSON body, or null if the backend has no such record
+ * @throws BackendUnavailableError if the backend is down or returns an error
+ */
+export async function fetchBackendRecord(path: string): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+      cache: "no-store",
+    });
+  } catch (error) {
+    console.error("Error reaching backend:", error);
+    throw new BackendUnavailableError();
+  }
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    console.error(`Backend ${path} responded with HTTP ${response.status}`);
+    throw new BackendUnavailableError();
+  }
+
+  const data = await response.json().catch(() => {
+    throw new BackendUnavailableError();
+  });
+  return data.data ?? data.booking ?? data.tour ?? data.transfer ?? data;
+}
+
+/**
+ * Fetch the current state of a backend record to use as the "before" value
+ * @param path - Backend path, e.g. "/api/bookings/123"
+ * @returns Parsed JSON body, or null if the record could not be read for any reason
+ */
+export async function fetchBackendSnapshot(path: string): Promise<unknown> {
+  try {
+    return await fetchBackendRecord(path);
+  } catch (error) {
+    console.error("Error fetching audit snapshot:", error);
+    return null;
+  }
+}
+
+interface BackendTimeSlot {
+  time: string;
+  isAvailable: boolean;
+  minimumPerson?: number;
+  currentMinimum?: number;
+}
+
+/**
+ * Fetch a single time slot's current state to use as the "before" value
+ */
+export async function fetchTimeSlotSnapshot(slot: {
+  packageType: string;
+  packageId: string;
+  date: string;
+  time: string;
+}): Promise<{ isAvailable?: boolean; minimumPerson?: number } | null> {
+  const slots = (await fetchBackendSnapshot(
+    `/api/timeslots/available?packageId=${slot.packageId}&date=${slot.date}&packageType=${slot.packageType}&isAdmin=true`
+  )) as BackendTimeSlot[] | null;
+  if (!Array.isArray(slots)) return null;
+
+  const match = slots.find(
+    (s) => normalizeTime(s.time) === normalizeTime(slot.time)
+  );
+  if (!match) return null;
+
+  return {
+    isAvailable: match.isAvailable,
+    minimumPerson:
+      typeof match.currentMinimum === "number"
+        ? match.currentMinimum
+        : match.minimumPerson,
+  };
+}
+
+/**
+ * Stable identifier for a time slot, used as the audit entity id
+ */
+export function timeSlotEntityId(slot: {
+  packageType: string;
+  packageId: string;
+  date: string;
+  time: string;
+}): string {
+  return `${slot.packageType}:${slot.packageId}:${slot.date}:${normalizeTime(slot.time)}`;
+}
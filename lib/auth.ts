@@ -0,0 +1,135 @@
+/**
+ * Server-side admin authentication helpers
+ *
+ * Admin accounts are stored in the AdminUser collection. The account defined
+ * by ADMIN_USERNAME / ADMIN_PASSWORD_HASH is a bootstrap owner that works even
+ * before any accounts exist. Credentials are only ever read on the server,
+ * never shipped in the client bundle.
+ */
+import type { NextRequest } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { verifyPassword } from "@/lib/password";
+import { AdminRole } from "@/lib/permissions";
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_SECONDS,
+  SessionPayload,
+  verifySessionToken,
+} from "@/lib/session";
+import AdminUserModel from "@/models/AdminUser";
+
+export interface AdminUser {
+  username: string;
+  name: string;
+  role: AdminRole;
+  /** Stored accounts only; goes into the session token */
+  sessionVersion?: number;
+}
+
+// Compared against when the username is unknown so failed lookups take as
+// long as failed password checks
+const DUMMY_HASH =
+  "scrypt:00000000000000000000000000000000:" + "0".repeat(128);
+
+async function authenticateStoredAdmin(
+  username: string,
+  password: string
+): Promise<AdminUser | null | undefined> {
+  if (!process.env.MONGODB_URI) return undefined;
+
+  await dbConnect();
+  const account = await AdminUserModel.findOne({ username });
+  if (!account) return undefined;
+
+  const passwordMatches = await verifyPassword(password, account.passwordHash);
+  if (!passwordMatches || !account.isActive) return null;
+
+  account.lastLoginAt = new Date();
+  await account.save();
+
+  return {
+    username: account.username,
+    name: account.name,
+    role: account.role,
+    sessionVersion: account.sessionVersion ?? 0,
+  };
+}
+
+async function authenticateBootstrapOwner(
+  username: string,
+  password: string
+): Promise<AdminUser | null> {
+  const configuredUsername = process.env.ADMIN_USERNAME;
+  const configuredHash = process.env.ADMIN_PASSWORD_HASH;
+
+  if (!configuredUsername || !configuredHash) {
+    await verifyPassword(password, DUMMY_HASH);
+    return null;
+  }
+
+  const usernameMatches = username === configuredUsername;
+  const passwordMatches = await verifyPassword(
+    password,
+    usernameMatches ? configuredHash : DUMMY_HASH
+  );
+
+  return usernameMatches && passwordMatches
+    ? { username, name: "Administrator", role: "owner" }
+    : null;
+}
+
+/**
+ * Validate a username/password pair
+ * @returns The authenticated admin, or null if the credentials are invalid
+ */
+export async function authenticateAdmin(
+  username: string,
+  password: string
+): Promise<AdminUser | null> {
+  const storedAdmin = await authenticateStoredAdmin(username, password);
+
+  // A stored account always takes precedence over the bootstrap owner
+  if (storedAdmin !== undefined) return storedAdmin;
+
+  return authenticateBootstrapOwner(username, password);
+}
+
+/**
+ * Read and verify the session cookie of an incoming request
+ *
+ * The token is checked against the stored account as well, so an admin who
+ * was disabled, deleted or given another role loses the old session at once.
+ */
+export async function getSession(
+  request: NextRequest
+): Promise<SessionPayload | null> {
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+  if (!session || !process.env.MONGODB_URI) return session;
+
+  await dbConnect();
+  const account = await AdminUserModel.findOne({ username: session.sub }).lean();
+
+  // Only the bootstrap owner signs in without a stored account
+  if (!account) {
+    return session.ver === undefined && session.sub === process.env.ADMIN_USERNAME
+      ? session
+      : null;
+  }
+
+  if (!account.isActive || (account.sessionVersion ?? 0) !== session.ver) return null;
+
+  return { ...session, role: account.role };
+}
+
+/**
+ * Cookie options for the admin session cookie
+ */
+export function sessionCookieOptions(maxAge: number = SESSION_MAX_AGE_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  };
+}
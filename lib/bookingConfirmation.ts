@@ -0,0 +1,191 @@
+/**
+ * Booking confirmation messages for customers
+ *
+ * The same template is used as the email body (with the PDF attached) and as
+ * the prefilled WhatsApp message, so customers get identical wording on
+ * either channel.
+ */
+
+export const CONFIRMATION_CHANNELS = ["email", "whatsapp"] as const;
+
+export type ConfirmationChannel = (typeof CONFIRMATION_CHANNELS)[number];
+
+export const CONFIRMATION_CHANNEL_LABELS: Record<ConfirmationChannel, string> = {
+  email: "Email",
+  whatsapp: "WhatsApp",
+};
+
+/** The fields shown on the confirmation modal and PDF */
+export interface ConfirmationDetails {
+  bookingId: string;
+  packageTitle: string;
+  packageFrom?: string;
+  packageTo?: string;
+  date: string;
+  time?: string;
+  adults?: number;
+  children?: number;
+  isPrivate?: boolean;
+  pickupLocation: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  total: number;
+}
+
+/** Stored booking fields a confirmation is built from on the server */
+export interface ConfirmationBooking {
+  packageType?: "tour" | "transfer";
+  packageId?: string | ConfirmationPackage;
+  date: string;
+  time?: string;
+  adults?: number;
+  children?: number;
+  pickupLocation?: string;
+  contactInfo?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+    whatsapp?: string;
+  };
+  total?: number;
+}
+
+export interface ConfirmationPackage {
+  _id?: string;
+  title?: string;
+  from?: string;
+  to?: string;
+  type?: string;
+}
+
+/**
+ * One send, stored on the booking as `confirmationSends`. WhatsApp sends are
+ * recorded when the admin opens the prefilled chat, since delivery happens
+ * in WhatsApp itself.
+ */
+export interface ConfirmationSendEntry {
+  channel: ConfirmationChannel;
+  to: string;
+  status: "sent" | "failed";
+  error?: string;
+  messageId?: string;
+  sentAt: string;
+  sentBy?: string;
+}
+
+/**
+ * Confirmation details from the stored booking and its package, so what is
+ * sent never depends on what the browser submitted
+ */
+export function getConfirmationDetails(
+  bookingId: string,
+  booking: ConfirmationBooking,
+  pkg: ConfirmationPackage | null
+): ConfirmationDetails {
+  return {
+    bookingId,
+    packageTitle: pkg?.title || "Package",
+    packageFrom: pkg?.from,
+    packageTo: pkg?.to,
+    date: booking.date,
+    time: booking.time,
+    adults: booking.adults,
+    children: booking.children,
+    isPrivate: (pkg?.type || "").toLowerCase() === "private",
+    pickupLocation: booking.pickupLocation || "",
+    customerName: booking.contactInfo?.name || "",
+    customerEmail: booking.contactInfo?.email || "",
+    customerPhone: booking.contactInfo?.phone || "",
+    total: booking.total || 0,
+  };
+}
+
+export function isConfirmationChannel(value: unknown): value is ConfirmationChannel {
+  return CONFIRMATION_CHANNELS.includes(value as ConfirmationChannel);
+}
+
+export function formatConfirmationDate(date: string) {
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString("en-MY", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "Asia/Kuala_Lumpur",
+  });
+}
+
+export function formatGuests(details: ConfirmationDetails) {
+  if (details.isPrivate) return "Private";
+  if (details.adults === undefined) return "N/A";
+  return details.children
+    ? `${details.adults} adult(s), ${details.children} child(ren)`
+    : `${details.adults} adult(s)`;
+}
+
+export function formatConfirmationTotal(total: number) {
+  return `RM ${Math.round(Number(total)).toLocaleString()}`;
+}
+
+export function getConfirmationFileName(bookingId: string) {
+  return `booking-confirmation-${bookingId}.pdf`;
+}
+
+export function getConfirmationSubject(details: ConfirmationDetails) {
+  return `Booking Confirmation ${details.bookingId} - ${details.packageTitle}`;
+}
+
+/**
+ * Plain-text confirmation used for the email body and the WhatsApp message
+ */
+export function buildConfirmationMessage(details: ConfirmationDetails): string {
+  const lines = [
+    `Hi ${details.customerName},`,
+    "",
+    "Your booking is confirmed.",
+    "",
+    `Booking ID: ${details.bookingId}`,
+    `Package: ${details.packageTitle}`,
+    details.packageFrom && details.packageTo
+      ? `Route: ${details.packageFrom} → ${details.packageTo}`
+      : null,
+    `Date: ${formatConfirmationDate(details.date)}`,
+    details.time ? `Time: ${details.time}` : null,
+    `Guests: ${formatGuests(details)}`,
+    details.pickupLocation ? `Pickup: ${details.pickupLocation}` : null,
+    `Total: ${formatConfirmationTotal(details.total)}`,
+    "",
+    "Please be ready at your pickup point 15 minutes before departure and bring a valid ID.",
+    "Contact us for any changes or cancellations.",
+    "",
+    "Thank you for booking with Oastel!",
+  ];
+
+  return lines.filter((line) => line !== null).join("\n");
+}
+
+/**
+ * Normalise a phone number to WhatsApp's international digits-only form.
+ * Local Malaysian numbers ("012-345 6789") get the 60 country code.
+ * @returns The digits, or null if the number is too short to be valid
+ */
+export function toWhatsAppNumber(phone: string): string | null {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("00")) digits = digits.slice(2);
+  else if (!trimmed.startsWith("+") && digits.startsWith("0")) digits = `6${digits}`;
+
+  return digits.length >= 8 && digits.length <= 15 ? digits : null;
+}
+
+/**
+ * wa.me link that opens a chat with the customer, prefilled with the confirmation
+ * @returns The link, or null if the customer's phone number is unusable
+ */
+export function buildWhatsAppLink(details: ConfirmationDetails): string | null {
+  const number = toWhatsAppNumber(details.customerPhone || "");
+  if (!number) return null;
+  return `https://wa.me/${number}?text=${encodeURIComponent(buildConfirmationMessage(details))}`;
+}
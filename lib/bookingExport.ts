@@ -0,0 +1,162 @@
+/**
+ * Bulk booking exports (browser only)
+ *
+ * One row per booking for an arbitrary MYT date range, filtered the same way
+ * as the bookings calendar.
+ */
+import * as XLSX from "xlsx";
+import {
+  formatDateAsMYT,
+  formatTimeDisplay,
+  normalizeTime,
+  parseFlexibleDate,
+} from "@/lib/dateUtils";
+import { toPlainPickupLocation } from "@/lib/manifest";
+import { escapeFormulaCells } from "@/lib/spreadsheet";
+
+export interface ExportBooking {
+  _id: string;
+  packageType?: "tour" | "transfer";
+  packageId?: {
+    _id: string;
+    title?: string;
+  };
+  contactInfo?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+    whatsapp?: string;
+  };
+  adults: number;
+  children: number;
+  date: string;
+  time?: string;
+  pickupLocation?: string;
+  status?: string;
+  total?: number;
+  paymentInfo?: {
+    paymentStatus?: string;
+  };
+  createdAt?: string;
+}
+
+export interface BookingExportFilters {
+  /** Inclusive MYT dates, YYYY-MM-DD */
+  from: string;
+  to: string;
+  packageType?: "tour" | "transfer";
+  status?: string;
+  packageId?: string;
+  /** Departure time in any format normalizeTime accepts */
+  time?: string;
+}
+
+export type BookingExportFormat = "csv" | "xlsx";
+
+const HEADERS = [
+  "Booking ID",
+  "Date",
+  "Time",
+  "Package Type",
+  "Package",
+  "Customer Name",
+  "Email",
+  "Phone",
+  "Adults",
+  "Children",
+  "Pickup Location",
+  "Total (RM)",
+  "Booking Status",
+  "Payment Status",
+  "Booked At",
+];
+
+function getBookingDate(booking: ExportBooking): string {
+  const date = parseFlexibleDate(booking.date);
+  return date ? formatDateAsMYT(date) : "";
+}
+
+/**
+ * Apply the filters the backend does not (MYT date bounds and time slot)
+ * and re-check the rest in case the backend ignores them
+ */
+export function filterBookingsForExport(
+  bookings: ExportBooking[],
+  filters: BookingExportFilters
+): ExportBooking[] {
+  const time = filters.time ? normalizeTime(filters.time) : "";
+
+  return bookings
+    .filter((booking) => {
+      const date = getBookingDate(booking);
+      if (!date || date < filters.from || date > filters.to) return false;
+      if (filters.packageType && booking.packageType !== filters.packageType) return false;
+      if (filters.status && booking.status !== filters.status) return false;
+      if (filters.packageId && booking.packageId?._id !== filters.packageId) return false;
+      if (time && normalizeTime(booking.time || "") !== time) return false;
+      return true;
+    })
+    .sort((a, b) =>
+      `${getBookingDate(a)} ${normalizeTime(a.time || "")}`.localeCompare(
+        `${getBookingDate(b)} ${normalizeTime(b.time || "")}`
+      )
+    );
+}
+
+function toRow(booking: ExportBooking): (string | number)[] {
+  const createdAt = booking.createdAt ? parseFlexibleDate(booking.createdAt) : null;
+
+  return [
+    booking._id,
+    getBookingDate(booking),
+    booking.time ? formatTimeDisplay(booking.time) : "",
+    booking.packageType || "",
+    booking.packageId?.title || "",
+    booking.contactInfo?.name || "",
+    booking.contactInfo?.email || "",
+    booking.contactInfo?.phone || booking.contactInfo?.whatsapp || "",
+    booking.adults || 0,
+    booking.children || 0,
+    toPlainPickupLocation(booking.pickupLocation),
+    Number((booking.total || 0).toFixed(2)),
+    booking.status || "",
+    booking.paymentInfo?.paymentStatus || "",
+    createdAt ? formatDateAsMYT(createdAt) : "",
+  ];
+}
+
+/**
+ * Download bookings as CSV or a single-sheet workbook
+ */
+export function exportBookings(
+  bookings: ExportBooking[],
+  filters: BookingExportFilters,
+  format: BookingExportFormat
+) {
+  const sheet = XLSX.utils.aoa_to_sheet(escapeFormulaCells([HEADERS, ...bookings.map(toRow)]));
+  const fileName = `bookings-${filters.from}-to-${filters.to}.${format}`;
+
+  if (format === "xlsx") {
+    sheet["!cols"] = [
+      { wch: 26 }, { wch: 12 }, { wch: 10 }, { wch: 12 }, { wch: 36 }, { wch: 24 },
+      { wch: 28 }, { wch: 16 }, { wch: 8 }, { wch: 8 }, { wch: 40 }, { wch: 12 },
+      { wch: 14 }, { wch: 14 }, { wch: 12 },
+    ];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Bookings");
+    XLSX.writeFile(workbook, fileName);
+    return;
+  }
+
+  // Byte order mark so Excel opens the file as UTF-8
+  const csv = "\uFEFF" + XLSX.utils.sheet_to_csv(sheet);
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,100 @@
+/**
+ * Booking pricing and slot rules
+ *
+ * Shared by AdminBookingModal, the reschedule modal and the reschedule API
+ * route so a booking is priced and checked against its slot the same way
+ * everywhere.
+ */
+import { CapacitySlot, getBookingLoad, getOverbookingError } from "@/lib/capacity";
+
+/** A slot as returned by /api/timeslots for one package and date */
+export interface TimeSlotAvailability extends CapacitySlot {
+  time: string;
+  isAvailable: boolean;
+  minimumPerson: number;
+}
+
+export interface PricedPackage {
+  newPrice: number;
+  childPrice?: number;
+  type?: string;
+  minimumPerson?: number;
+  maximumPerson?: number;
+}
+
+/** The slot a booking was moved away from, kept on the booking */
+export interface RescheduleHistoryEntry {
+  date: string;
+  time: string;
+  adults: number;
+  children: number;
+  total: number;
+  reason?: string;
+  changedAt: string;
+  changedBy?: string;
+}
+
+/**
+ * Booking total for a package
+ * Private tours are priced per group of up to 8 adults; everything else is per person.
+ */
+export function calculateBookingTotal(
+  packageType: "tour" | "transfer",
+  pkg: PricedPackage,
+  adults: number,
+  children: number
+): number {
+  if (packageType === "tour" && pkg.type === "private") {
+    return Math.ceil(adults / 8) * pkg.newPrice;
+  }
+  return adults * pkg.newPrice + children * (pkg.childPrice || 0);
+}
+
+/**
+ * Check guests against a target slot's capacity and minimum-person rule
+ * @param slot - Target slot availability
+ * @param pkg - Package limits
+ * @param guests - Adults and children after the change
+ * @param ownGuests - Guests this booking already holds in the slot (when
+ *   editing a booking in place), so they are not counted twice
+ * @param allowOverbooking - Skip the capacity check, for callers that let an
+ *   admin override it (see getOverbookingError)
+ * @returns An error message, or null if the booking fits
+ */
+export function validateSlotBooking(
+  slot: TimeSlotAvailability | undefined,
+  pkg: PricedPackage,
+  guests: { adults: number; children: number },
+  ownGuests = 0,
+  allowOverbooking = false
+): string | null {
+  if (!slot) return "Selected time slot is not available";
+
+  const totalGuests = guests.adults + guests.children;
+  const otherGuests = Math.max(0, slot.bookedCount - ownGuests);
+
+  if (!slot.isAvailable && ownGuests === 0) {
+    return "Selected time slot is closed";
+  }
+
+  if (guests.adults < 1) return "At least 1 adult is required";
+
+  // The first booking in a slot has to meet the minimum on its own
+  const requiredMinimum = slot.minimumPerson || pkg.minimumPerson || 1;
+  if (otherGuests === 0 && totalGuests < requiredMinimum) {
+    return `This would be the first booking for this time slot. Minimum ${requiredMinimum} person${
+      requiredMinimum > 1 ? "s" : ""
+    } required.`;
+  }
+
+  if (pkg.maximumPerson && totalGuests > pkg.maximumPerson) {
+    return `Maximum ${pkg.maximumPerson} guests allowed`;
+  }
+
+  if (allowOverbooking) return null;
+  return getOverbookingError(
+    slot,
+    getBookingLoad(guests, slot.capacityUnit),
+    slot.capacityUnit === "vehicles" && ownGuests > 0 ? 1 : ownGuests
+  );
+}
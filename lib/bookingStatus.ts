@@ -0,0 +1,68 @@
+/**
+ * Booking status workflow
+ *
+ * Shared by the /api/bookings/[id] PATCH handler, which enforces the allowed
+ * transitions, and the admin pages, which only offer actions that are valid
+ * for a booking's current status.
+ */
+
+export const BOOKING_STATUSES = [
+  "pending",
+  "confirmed",
+  "cancelled",
+  "no-show",
+  "completed",
+] as const;
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+/** Statuses each status may move to; cancelled, no-show and completed are final */
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["cancelled", "no-show", "completed"],
+  cancelled: [],
+  "no-show": [],
+  completed: [],
+};
+
+/** Transitions that must be given a reason */
+export const REASON_REQUIRED_STATUSES: BookingStatus[] = ["cancelled"];
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  cancelled: "Cancelled",
+  "no-show": "No-show",
+  completed: "Completed",
+};
+
+/** Button labels for moving a booking into each status */
+export const BOOKING_STATUS_ACTIONS: Record<BookingStatus, string> = {
+  pending: "Mark Pending",
+  confirmed: "Confirm",
+  cancelled: "Cancel",
+  "no-show": "Mark No-show",
+  completed: "Mark Completed",
+};
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === "string" && (BOOKING_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses a booking can move to next (none for unknown statuses)
+ */
+export function getAllowedTransitions(status: string | undefined): BookingStatus[] {
+  return isBookingStatus(status) ? BOOKING_STATUS_TRANSITIONS[status] : [];
+}
+
+export function canTransition(from: string | undefined, to: BookingStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Whether a booking still takes up seats in its slot
+ */
+export function countsTowardCapacity(status: string | undefined): boolean {
+  return status?.toLowerCase() !== "cancelled";
+}
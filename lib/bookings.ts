@@ -0,0 +1,38 @@
+/**
+ * Server-side access to bookings stored in the backend
+ *
+ * Used by route handlers that aggregate bookings (customers, revenue) instead
+ * of proxying a single backend response.
+ */
+
+/**
+ * Fetch bookings from the backend API
+ * @param params - Optional query filters passed through to the backend
+ * @returns Raw booking objects
+ */
+export async function fetchBackendBookings<T = unknown>(
+  params: Record<string, string | undefined> = {}
+): Promise<T[]> {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) searchParams.set(key, value);
+  });
+
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_API_URL}/api/bookings?${searchParams}`,
+    {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      cache: "no-store",
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch bookings: HTTP ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.bookings || data.data || [];
+}
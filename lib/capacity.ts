@@ -0,0 +1,143 @@
+/**
+ * Departure capacity
+ *
+ * The one place that decides how many seats (or vehicles) a departure has and
+ * how many are taken. The server resolves it for /api/timeslots, booking
+ * creation, reschedules and the bookings calendar, so an admin booking can no
+ * longer exceed what the calendar shows.
+ *
+ * Capacity comes from the slot's own maximumPerson, then the package's
+ * maximumPerson, then DEFAULT_SLOT_CAPACITY. Private packages with a vehicle
+ * are sold by vehicle instead: the departure has as many units as the vehicle
+ * and every booking takes one. Vehicles are shared, so a private departure
+ * counts bookings of every private package using the same vehicle at the
+ * same time.
+ */
+import { countsTowardCapacity } from "@/lib/bookingStatus";
+import { normalizeTime } from "@/lib/dateUtils";
+
+export const DEFAULT_SLOT_CAPACITY = 15;
+
+export type CapacityUnit = "seats" | "vehicles";
+
+export interface CapacityPackage {
+  _id: string;
+  type?: string;
+  vehicle?: string;
+  maximumPerson?: number;
+  slotConfigs?: { time: string; maximumPerson?: number }[];
+}
+
+export interface CapacityVehicle {
+  name: string;
+  units: number;
+}
+
+/** A booking on the departure's date, with its package populated when known */
+export interface CapacityBooking {
+  packageId?: string | { _id: string; type?: string; vehicle?: string };
+  time: string;
+  adults?: number;
+  children?: number;
+  status?: string;
+  isVehicleBooking?: boolean;
+}
+
+export interface DepartureCapacity {
+  capacity: number;
+  unit: CapacityUnit;
+  booked: number;
+  /** Set when the departure is sold by vehicle */
+  vehicleName?: string;
+}
+
+/** Slot fields the overbooking check needs, as returned by /api/timeslots */
+export interface CapacitySlot {
+  capacity: number;
+  bookedCount: number;
+  capacityUnit?: CapacityUnit;
+  vehicleName?: string;
+}
+
+export function isPrivatePackage(pkg: { type?: string }): boolean {
+  return (pkg.type || "").toLowerCase() === "private";
+}
+
+function getPackageRef(booking: CapacityBooking) {
+  return typeof booking.packageId === "string"
+    ? { _id: booking.packageId }
+    : booking.packageId;
+}
+
+/** Seats or vehicles a booking takes */
+export function getBookingLoad(
+  booking: Pick<CapacityBooking, "adults" | "children" | "isVehicleBooking">,
+  unit: CapacityUnit = "seats"
+): number {
+  if (unit === "vehicles" || booking.isVehicleBooking) return 1;
+  return (booking.adults || 0) + (booking.children || 0);
+}
+
+/**
+ * Capacity and current load of one departure
+ * @param bookings - Bookings on the departure's date for any package
+ */
+export function resolveDepartureCapacity(
+  pkg: CapacityPackage,
+  time: string,
+  vehicles: CapacityVehicle[],
+  bookings: CapacityBooking[]
+): DepartureCapacity {
+  const normTime = normalizeTime(time);
+  const vehicle = isPrivatePackage(pkg)
+    ? vehicles.find((v) => v.name === pkg.vehicle && typeof v.units === "number")
+    : undefined;
+
+  const departureBookings = bookings.filter(
+    (booking) =>
+      countsTowardCapacity(booking.status) && normalizeTime(booking.time) === normTime
+  );
+
+  if (vehicle) {
+    const booked = departureBookings.filter((booking) => {
+      const ref = getPackageRef(booking);
+      if (ref?._id === pkg._id) return true;
+      return !!ref && isPrivatePackage(ref) && ref.vehicle === vehicle.name;
+    }).length;
+    return { capacity: vehicle.units, unit: "vehicles", booked, vehicleName: vehicle.name };
+  }
+
+  const slotConfig = pkg.slotConfigs?.find((config) => normalizeTime(config.time) === normTime);
+  const capacity =
+    typeof slotConfig?.maximumPerson === "number"
+      ? slotConfig.maximumPerson
+      : pkg.maximumPerson || DEFAULT_SLOT_CAPACITY;
+  const booked = departureBookings
+    .filter((booking) => getPackageRef(booking)?._id === pkg._id)
+    .reduce((sum, booking) => sum + getBookingLoad(booking), 0);
+  return { capacity, unit: "seats", booked };
+}
+
+/**
+ * Check whether adding a booking would overbook a departure
+ * @param load - Seats or vehicles the booking takes (see getBookingLoad)
+ * @param ownLoad - Load this booking already holds in the slot, when editing
+ *   it in place
+ * @returns An error message, or null if the booking fits
+ */
+export function getOverbookingError(
+  slot: CapacitySlot,
+  load: number,
+  ownLoad = 0
+): string | null {
+  const available = slot.capacity - Math.max(0, slot.bookedCount - ownLoad);
+  if (load <= available) return null;
+
+  if (slot.capacityUnit === "vehicles") {
+    const vehicles = slot.vehicleName ? `${slot.vehicleName} vehicles` : "vehicles";
+    return available <= 0
+      ? `All ${slot.capacity} ${vehicles} are booked at this time`
+      : `Only ${available} ${vehicles} available at this time`;
+  }
+  return `Only ${Math.max(0, available)} seats available for this time slot`;
+}
@@ -0,0 +1,225 @@
+/**
+ * Resolving departure capacity from backend data (server only)
+ *
+ * Loads the package, the vehicle fleet and the day's bookings once and
+ * resolves every departure asked for with lib/capacity, so /api/timeslots,
+ * booking creation, reschedules and the bookings calendar agree on what a
+ * slot holds.
+ */
+import { BackendUnavailableError, fetchBackendRecord } from "@/lib/audit";
+import { fetchBackendBookings } from "@/lib/bookings";
+import {
+  CapacityBooking,
+  CapacityPackage,
+  CapacitySlot,
+  CapacityVehicle,
+  DepartureCapacity,
+  getBookingLoad,
+  getOverbookingError,
+  isPrivatePackage,
+  resolveDepartureCapacity,
+} from "@/lib/capacity";
+import { normalizeTime } from "@/lib/dateUtils";
+
+export interface DepartureRef {
+  packageType: "tour" | "transfer";
+  packageId: string;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+/** Capacity of one package's departures on a date */
+export type DepartureCapacityLookup = (time: string) => DepartureCapacity;
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * The override reason from a booking request body
+ * @returns The reason, or undefined if no override was asked for
+ */
+export function parseCapacityOverride(body: Record<string, unknown>): string | undefined {
+  const override = body.capacityOverride as Record<string, unknown> | undefined;
+  return optionalString(override?.reason);
+}
+
+/**
+ * The vehicle fleet
+ * @throws BackendUnavailableError rather than returning [], which would drop
+ *   every vehicle-based capacity
+ */
+export async function fetchBackendVehicles(): Promise<CapacityVehicle[]> {
+  const vehicles = await fetchBackendRecord("/api/vehicles");
+  return Array.isArray(vehicles) ? vehicles : [];
+}
+
+// Throws rather than returning [], which would make every departure look empty
+async function fetchDayBookings(date: string): Promise<CapacityBooking[]> {
+  try {
+    return await fetchBackendBookings<CapacityBooking>({ date });
+  } catch (error) {
+    console.error("Error fetching bookings for capacity:", error);
+    throw new BackendUnavailableError();
+  }
+}
+
+type CalendarPackage = CapacityPackage & { departureTimes?: string[]; times?: string[] };
+
+async function fetchBackendPackages(packageType: "tour" | "transfer"): Promise<CalendarPackage[]> {
+  const key = packageType === "tour" ? "tours" : "transfers";
+  const data = (await fetchBackendRecord(`/api/${key}?limit=1000`)) as Record<string, unknown> | null;
+  const packages = data?.[key] ?? data ?? [];
+  return Array.isArray(packages) ? packages : [];
+}
+
+/**
+ * Fill in the package of bookings that only carry its id, so shared-vehicle
+ * counting can tell which vehicle they use
+ */
+function populateBookingPackages(
+  bookings: CapacityBooking[],
+  packages: CapacityPackage[]
+): CapacityBooking[] {
+  const byId = new Map(packages.map((pkg) => [String(pkg._id), pkg]));
+  return bookings.map((booking) => {
+    if (typeof booking.packageId !== "string") return booking;
+    const pkg = byId.get(booking.packageId);
+    return pkg
+      ? { ...booking, packageId: { _id: booking.packageId, type: pkg.type, vehicle: pkg.vehicle } }
+      : booking;
+  });
+}
+
+/**
+ * Load what a package's capacity depends on for one date
+ * @returns A lookup by departure time, or null if the package does not exist
+ * @throws BackendUnavailableError if the package, fleet or bookings cannot be read
+ */
+export async function loadDepartureCapacities(
+  departure: DepartureRef
+): Promise<DepartureCapacityLookup | null> {
+  const [pkg, vehicles, dayBookings] = await Promise.all([
+    fetchBackendRecord(
+      `/api/${departure.packageType === "tour" ? "tours" : "transfers"}/${departure.packageId}`
+    ) as Promise<CapacityPackage | null>,
+    fetchBackendVehicles(),
+    fetchDayBookings(departure.date),
+  ]);
+  if (!pkg || !pkg._id) return null;
+
+  // Other packages' bookings only matter when the vehicle is shared
+  let bookings = dayBookings;
+  if (
+    isPrivatePackage(pkg) &&
+    pkg.vehicle &&
+    dayBookings.some((booking) => typeof booking.packageId === "string")
+  ) {
+    const [tours, transfers] = await Promise.all([
+      fetchBackendPackages("tour"),
+      fetchBackendPackages("transfer"),
+    ]);
+    bookings = populateBookingPackages(dayBookings, [...tours, ...transfers]);
+  }
+
+  return (time) =>
+    resolveDepartureCapacity({ ...pkg, _id: String(pkg._id) }, time, vehicles, bookings);
+}
+
+/**
+ * Replace the backend's capacity and booked count on each slot with the
+ * resolved ones
+ */
+export async function resolveSlotCapacities<T extends CapacitySlot & { time: string }>(
+  slots: T[],
+  departure: DepartureRef
+): Promise<T[]> {
+  if (slots.length === 0) return slots;
+
+  const lookup = await loadDepartureCapacities(departure);
+  if (!lookup) return slots;
+
+  return slots.map((slot) => {
+    const { capacity, booked, unit, vehicleName } = lookup(slot.time);
+    return {
+      ...slot,
+      capacity,
+      bookedCount: booked,
+      capacityUnit: unit,
+      ...(vehicleName ? { vehicleName } : {}),
+    };
+  });
+}
+
+export type DepartureCapacityCheck =
+  | {
+      ok: true;
+      /** The overbooking message, or null if the booking fits */
+      overbooking: string | null;
+    }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Whether a booking would overbook its departure
+ * @returns Not ok if the package does not exist, since its capacity cannot be checked
+ */
+export async function checkDepartureCapacity(
+  departure: DepartureRef & { time: string },
+  guests: { adults: number; children: number }
+): Promise<DepartureCapacityCheck> {
+  const lookup = await loadDepartureCapacities(departure);
+  if (!lookup) return { ok: false, error: "Package not found", status: 404 };
+
+  const { capacity, booked, unit, vehicleName } = lookup(departure.time);
+  return {
+    ok: true,
+    overbooking: getOverbookingError(
+      { capacity, bookedCount: booked, capacityUnit: unit, vehicleName },
+      getBookingLoad(guests, unit)
+    ),
+  };
+}
+
+/**
+ * Capacity of every departure of every package on a date, for the bookings
+ * calendar
+ * @returns Capacities keyed by `${packageId}_${HH:mm}`
+ */
+export async function getDayCapacities(date: string): Promise<Record<string, DepartureCapacity>> {
+  const [tours, transfers, vehicles, dayBookings] = await Promise.all([
+    fetchBackendPackages("tour"),
+    fetchBackendPackages("transfer"),
+    fetchBackendVehicles(),
+    fetchDayBookings(date),
+  ]);
+  const bookings = populateBookingPackages(dayBookings, [...tours, ...transfers]);
+
+  const capacities: Record<string, DepartureCapacity> = {};
+  [...tours, ...transfers].forEach((pkg) => {
+    const packageId = String(pkg._id);
+    const times = new Set(
+      [
+        ...(pkg.departureTimes || pkg.times || []),
+        ...(pkg.slotConfigs || []).map((config) => config.time),
+        ...bookings
+          .filter((booking) => {
+            const ref = booking.packageId;
+            return (typeof ref === "string" ? ref : ref?._id) === packageId;
+          })
+          .map((booking) => booking.time),
+      ]
+        .filter(Boolean)
+        .map(normalizeTime)
+    );
+
+    times.forEach((time) => {
+      capacities[`${packageId}_${time}`] = resolveDepartureCapacity(
+        { ...pkg, _id: packageId },
+        time,
+        vehicles,
+        bookings
+      );
+    });
+  });
+
+  return capacities;
+}
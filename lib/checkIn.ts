@@ -0,0 +1,61 @@
+/**
+ * Boarding check-in at pickup
+ *
+ * Confirmation PDFs carry a QR code of the booking ID. Guides scan it (or
+ * type the ID) on the departure's check-in page, which stamps the booking
+ * with `checkedInAt`/`checkedInBy`. A booking boards as a whole party.
+ */
+import { countsTowardCapacity } from "@/lib/bookingStatus";
+
+export interface CheckInBooking {
+  _id: string;
+  adults: number;
+  children: number;
+  status?: string;
+  checkedInAt?: string | null;
+  checkedInBy?: string | null;
+}
+
+export interface CheckInCounts {
+  /** Persons booked on the departure, the same figure as Total Customers */
+  expectedPersons: number;
+  boardedPersons: number;
+  expectedBookings: number;
+  boardedBookings: number;
+}
+
+// Backend booking IDs are MongoDB ObjectIds
+const BOOKING_ID_PATTERN = /\b[a-f\d]{24}\b/i;
+
+/**
+ * Booking ID from scanned or typed text. Accepts the bare ID or any text
+ * containing it, such as a link.
+ * @returns The ID, or null if the text contains none
+ */
+export function parseCheckInCode(text: string): string | null {
+  const match = text.trim().match(BOOKING_ID_PATTERN);
+  return match ? match[0].toLowerCase() : null;
+}
+
+export function isCheckedIn(booking: CheckInBooking): boolean {
+  return Boolean(booking.checkedInAt);
+}
+
+/** Cancelled bookings are not expected at pickup and cannot board */
+export function canCheckIn(booking: CheckInBooking): boolean {
+  return countsTowardCapacity(booking.status) && booking.status !== "no-show";
+}
+
+export function getCheckInCounts(bookings: CheckInBooking[]): CheckInCounts {
+  const expected = bookings.filter((booking) => countsTowardCapacity(booking.status));
+  const boarded = expected.filter(isCheckedIn);
+  const persons = (list: CheckInBooking[]) =>
+    list.reduce((sum, booking) => sum + booking.adults + booking.children, 0);
+
+  return {
+    expectedPersons: persons(expected),
+    boardedPersons: persons(boarded),
+    expectedBookings: expected.length,
+    boardedBookings: boarded.length,
+  };
+}
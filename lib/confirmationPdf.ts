@@ -0,0 +1,84 @@
+/**
+ * Booking confirmation PDF
+ *
+ * Same content as the confirmation modal, drawn as vector content with a QR
+ * code of the booking ID so staff can scan it at pickup.
+ */
+import type jsPDF from "jspdf";
+import {
+  ConfirmationDetails,
+  formatConfirmationDate,
+  formatConfirmationTotal,
+  formatGuests,
+} from "@/lib/bookingConfirmation";
+import { createPdfDocument } from "@/lib/pdfDocument";
+
+const QR_SIZE = 34;
+
+const IMPORTANT_NOTES = [
+  "Payment has been collected in cash at the office",
+  "Please arrive 15 minutes before departure time",
+  "Bring a valid ID for verification",
+  "Contact us for any changes or cancellations",
+];
+
+export function buildConfirmationPdf(details: ConfirmationDetails): jsPDF {
+  const doc = createPdfDocument({
+    title: "Booking Confirmation",
+    subtitle: details.packageTitle,
+    headerRight: [`Booking ID: ${details.bookingId}`],
+  });
+  const { pdf, margin, pageWidth } = doc;
+  const top = doc.y;
+
+  doc.qrCode(details.bookingId, pageWidth - margin - QR_SIZE, top - 2, QR_SIZE);
+  pdf.setFontSize(7);
+  pdf.setTextColor(123, 123, 123);
+  pdf.text("Scan at pickup", pageWidth - margin - QR_SIZE / 2, top + QR_SIZE, {
+    align: "center",
+  });
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(20);
+  pdf.setTextColor(22, 163, 74);
+  pdf.text("Booking Confirmed", margin, top + 8);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(11);
+  pdf.setTextColor(33, 33, 33);
+  pdf.text(`Booking ID: ${details.bookingId}`, margin, top + 16);
+  pdf.text(`Guest: ${details.customerName}`, margin, top + 22);
+  doc.y = top + QR_SIZE + 6;
+
+  doc.heading("Package Details");
+  doc.keyValues([
+    ["Package", details.packageTitle],
+    [
+      "Route",
+      details.packageFrom && details.packageTo
+        ? `${details.packageFrom} to ${details.packageTo}`
+        : undefined,
+    ],
+    ["Date", formatConfirmationDate(details.date)],
+    ["Time", details.time],
+    ["Guests", formatGuests(details)],
+    ["Pickup Location", details.pickupLocation],
+  ]);
+
+  doc.heading("Customer Information");
+  doc.keyValues([
+    ["Name", details.customerName],
+    ["Email", details.customerEmail],
+    ["Phone", details.customerPhone],
+  ]);
+
+  doc.heading("Payment Information");
+  doc.keyValues([
+    ["Total Amount", formatConfirmationTotal(details.total)],
+    ["Payment Status", "Confirmed (Cash)"],
+  ]);
+
+  doc.heading("Important Notes");
+  IMPORTANT_NOTES.forEach((note) => doc.text(`•  ${note}`));
+
+  return doc.finish();
+}
@@ -0,0 +1,160 @@
+/**
+ * Customer directory derived from booking contact details
+ *
+ * There is no customer collection in the backend, so customers are built from
+ * each booking's contactInfo. Bookings sharing an email address or a phone
+ * number belong to the same customer, even if the other field differs.
+ */
+
+export interface CustomerBooking {
+  _id: string;
+  contactInfo?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+    whatsapp?: string;
+  };
+  packageId?: { _id?: string; title?: string } | string;
+  packageType?: string;
+  date?: string;
+  time?: string;
+  status?: string;
+  total?: number;
+  adults?: number;
+  children?: number;
+  createdAt?: string;
+}
+
+export interface Customer {
+  /** Stable identifier derived from the customer's primary email or phone */
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  emails: string[];
+  phones: string[];
+  totalBookings: number;
+  /** Sum of booking totals, excluding cancelled bookings */
+  lifetimeSpend: number;
+  firstBookingDate: string | null;
+  lastBookingDate: string | null;
+  bookingIds: string[];
+}
+
+export function normalizeEmail(email?: string): string {
+  return (email || "").trim().toLowerCase();
+}
+
+/**
+ * Reduce a phone number to digits, treating local Malaysian numbers
+ * ("012-345 6789") the same as their international form ("+60 12-345 6789")
+ */
+export function normalizePhone(phone?: string): string {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits.startsWith("0") ? `6${digits}` : digits;
+}
+
+function bookedAt(booking: CustomerBooking): string | null {
+  return booking.createdAt || booking.date || null;
+}
+
+/**
+ * Group bookings into customers, de-duplicated by email and phone
+ * @param bookings - Bookings as returned by the backend
+ * @returns Customers sorted by most recent booking first
+ */
+export function buildCustomerDirectory(bookings: CustomerBooking[]): Customer[] {
+  // Union-find over booking indexes, joined through shared emails and phones
+  const parent = bookings.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const firstIndexByKey = new Map<string, number>();
+  bookings.forEach((booking, index) => {
+    const keys = [
+      normalizeEmail(booking.contactInfo?.email) && `email:${normalizeEmail(booking.contactInfo?.email)}`,
+      normalizePhone(booking.contactInfo?.phone) && `phone:${normalizePhone(booking.contactInfo?.phone)}`,
+    ].filter(Boolean) as string[];
+
+    keys.forEach((key) => {
+      const existing = firstIndexByKey.get(key);
+      if (existing === undefined) {
+        firstIndexByKey.set(key, index);
+      } else {
+        parent[find(index)] = find(existing);
+      }
+    });
+  });
+
+  const groups = new Map<number, CustomerBooking[]>();
+  bookings.forEach((booking, index) => {
+    // Bookings without any contact details cannot be attributed to anyone
+    if (!booking.contactInfo?.email && !booking.contactInfo?.phone) return;
+
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), booking]);
+  });
+
+  return Array.from(groups.values())
+    .map(buildCustomer)
+    .sort((a, b) => (b.lastBookingDate || "").localeCompare(a.lastBookingDate || ""));
+}
+
+function buildCustomer(bookings: CustomerBooking[]): Customer {
+  const sorted = [...bookings].sort((a, b) =>
+    (bookedAt(a) || "").localeCompare(bookedAt(b) || "")
+  );
+  const latest = sorted[sorted.length - 1];
+
+  const emails = Array.from(
+    new Set(sorted.map((b) => normalizeEmail(b.contactInfo?.email)).filter(Boolean))
+  );
+  const phones = Array.from(
+    new Set(sorted.map((b) => b.contactInfo?.phone?.trim() || "").filter(Boolean))
+  );
+
+  const email = normalizeEmail(latest.contactInfo?.email) || emails[0] || "";
+  const phone = latest.contactInfo?.phone?.trim() || phones[0] || "";
+
+  // The smallest key keeps the id stable as new bookings arrive
+  const id = emails.length > 0
+    ? `email:${[...emails].sort()[0]}`
+    : `phone:${phones.map(normalizePhone).sort()[0]}`;
+
+  return {
+    id,
+    name: latest.contactInfo?.name?.trim() || email || phone,
+    email,
+    phone,
+    emails,
+    phones,
+    totalBookings: sorted.length,
+    lifetimeSpend: sorted
+      .filter((b) => b.status?.toLowerCase() !== "cancelled")
+      .reduce((sum, b) => sum + (b.total || 0), 0),
+    firstBookingDate: bookedAt(sorted[0]),
+    lastBookingDate: bookedAt(latest),
+    bookingIds: sorted.map((b) => b._id),
+  };
+}
+
+/**
+ * Case-insensitive match against a customer's name, emails and phones
+ */
+export function matchesCustomerSearch(customer: Customer, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  const digits = term.replace(/\D/g, "");
+  return (
+    customer.name.toLowerCase().includes(term) ||
+    customer.emails.some((email) => email.includes(term)) ||
+    (digits.length > 0 &&
+      customer.phones.some((phone) => phone.replace(/\D/g, "").includes(digits)))
+  );
+}
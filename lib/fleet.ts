@@ -0,0 +1,334 @@
+/**
+ * Fleet, drivers and departure assignments
+ *
+ * The vehicles returned by /api/vehicles are vehicle types (e.g. "Van", 3
+ * units) that packages are sold by. The fleet lists the actual vehicles of
+ * each type, with plate numbers, seats and maintenance windows, and the
+ * drivers who can take them out. Operations assigns a vehicle and/or driver
+ * to a departure; an assignment runs from the departure time to its end time,
+ * and conflicts (the same vehicle or driver on overlapping departures, a
+ * vehicle in maintenance, an expired license) are flagged rather than
+ * rejected, so a late change can still be recorded and fixed afterwards.
+ */
+import { normalizeTime } from "@/lib/dateUtils";
+
+export const ASSIGNMENT_PACKAGE_TYPES = ["tour", "transfer"] as const;
+
+export type AssignmentPackageType = (typeof ASSIGNMENT_PACKAGE_TYPES)[number];
+
+/** Used when a package's duration cannot be read, e.g. "Flexible" */
+export const DEFAULT_DEPARTURE_MINUTES = 240;
+
+/** A period a vehicle is off the road, YYYY-MM-DD inclusive */
+export interface MaintenanceWindow {
+  start: string;
+  end: string;
+  reason: string;
+}
+
+/** Fields an admin sets on a fleet vehicle */
+export interface FleetVehicleInput {
+  /** Stored uppercase without extra spaces, e.g. "PKA 1234" */
+  plateNumber: string;
+  /** Name of the vehicle type from /api/vehicles, e.g. "Van" */
+  vehicleType: string;
+  seats: number;
+  /** e.g. "Toyota Hiace, white" */
+  description?: string;
+  maintenance: MaintenanceWindow[];
+  /** Inactive vehicles are kept for history but should not be assigned */
+  isActive: boolean;
+}
+
+/** A vehicle as returned by /api/fleet/vehicles */
+export interface FleetVehicleRecord extends FleetVehicleInput {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields an admin sets on a driver */
+export interface DriverInput {
+  name: string;
+  phone: string;
+  email?: string;
+  licenseNumber: string;
+  /** YYYY-MM-DD */
+  licenseExpiry: string;
+  notes?: string;
+  isActive: boolean;
+}
+
+/** A driver as returned by /api/fleet/drivers */
+export interface DriverRecord extends DriverInput {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A vehicle and/or driver booked for one departure */
+export interface DepartureAssignmentInput {
+  packageType: AssignmentPackageType;
+  packageId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Departure time, HH:mm */
+  time: string;
+  /** When the vehicle and driver are free again, HH:mm */
+  endTime: string;
+  vehicleId?: string;
+  driverId?: string;
+  notes?: string;
+}
+
+/** An assignment as returned by /api/fleet/assignments */
+export interface DepartureAssignmentRecord extends DepartureAssignmentInput {
+  _id: string;
+  assignedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssignmentConflictType =
+  | "vehicle-double-booked"
+  | "driver-double-booked"
+  | "vehicle-maintenance"
+  | "vehicle-inactive"
+  | "vehicle-missing"
+  | "driver-inactive"
+  | "driver-missing"
+  | "license-expired";
+
+/** Vehicle and driver fields conflict checks read */
+export type ConflictVehicle = Pick<
+  FleetVehicleRecord,
+  "_id" | "plateNumber" | "isActive" | "maintenance"
+>;
+export type ConflictDriver = Pick<DriverRecord, "_id" | "name" | "licenseExpiry" | "isActive">;
+
+export interface AssignmentConflict {
+  type: AssignmentConflictType;
+  message: string;
+  /** The other assignment, for double bookings */
+  assignmentId?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export function normalizePlateNumber(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+function validateMaintenanceWindow(entry: MaintenanceWindow): string | null {
+  if (!DATE_PATTERN.test(entry.start) || !DATE_PATTERN.test(entry.end)) {
+    return "Maintenance dates must be YYYY-MM-DD";
+  }
+  if (entry.start > entry.end) return "A maintenance window ends before it starts";
+  if (!entry.reason.trim()) return "Enter a reason for each maintenance window";
+  return null;
+}
+
+/**
+ * Check a vehicle's settings
+ * @returns An error message, or null if the vehicle can be saved
+ */
+export function validateFleetVehicle(input: FleetVehicleInput): string | null {
+  if (!input.plateNumber.trim()) return "Enter the plate number";
+  if (!input.vehicleType.trim()) return "Choose a vehicle type";
+  if (!Number.isInteger(input.seats) || input.seats < 1) return "Seats must be at least 1";
+  for (const entry of input.maintenance) {
+    const error = validateMaintenanceWindow(entry);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Check a driver's details
+ * @returns An error message, or null if the driver can be saved
+ */
+export function validateDriver(input: DriverInput): string | null {
+  if (!input.name.trim()) return "Enter the driver's name";
+  if (!input.phone.trim()) return "Enter a phone number to reach the driver";
+  if (!input.licenseNumber.trim()) return "Enter the license number";
+  if (!DATE_PATTERN.test(input.licenseExpiry)) return "License expiry must be YYYY-MM-DD";
+  return null;
+}
+
+/**
+ * Check an assignment before it is saved
+ * @returns An error message, or null if the assignment can be saved
+ */
+export function validateDepartureAssignment(input: DepartureAssignmentInput): string | null {
+  if (!ASSIGNMENT_PACKAGE_TYPES.includes(input.packageType)) return "Invalid package type";
+  if (!input.packageId) return "Choose a package";
+  if (!DATE_PATTERN.test(input.date)) return "Dates must be YYYY-MM-DD";
+  if (!TIME_PATTERN.test(input.time) || !TIME_PATTERN.test(input.endTime)) {
+    return "Times must be HH:mm";
+  }
+  if (input.endTime <= input.time) return "The end time must be after the departure time";
+  if (!input.vehicleId && !input.driverId) return "Choose a vehicle or a driver";
+  return null;
+}
+
+/**
+ * Minutes a departure takes, read from a package's duration or period
+ * @param duration - Free text such as "4 hours", "1.5 hrs" or "45 mins"
+ * @param period - Tour period, "Half-Day" or "Full-Day"
+ * @returns The minutes, or null if neither can be read
+ */
+export function parseDurationMinutes(duration?: string, period?: string): number | null {
+  const text = (duration || "").toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/);
+  if (hours || minutes) {
+    return Math.round(Number(hours?.[1] || 0) * 60) + Number(minutes?.[1] || 0);
+  }
+
+  const label = `${text} ${(period || "").toLowerCase()}`;
+  if (label.includes("full")) return 480;
+  if (label.includes("half")) return 240;
+  return null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = normalizeTime(time).split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Default end time of an assignment, capped at 23:59
+ * @param time - Departure time
+ */
+export function getAssignmentEndTime(time: string, duration?: string, period?: string): string {
+  const end = Math.min(
+    toMinutes(time) + (parseDurationMinutes(duration, period) ?? DEFAULT_DEPARTURE_MINUTES),
+    23 * 60 + 59
+  );
+  return `${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+}
+
+/** The maintenance window covering a date, if any */
+export function getMaintenanceWindow(
+  vehicle: Pick<FleetVehicleInput, "maintenance">,
+  date: string
+): MaintenanceWindow | null {
+  return vehicle.maintenance.find((entry) => entry.start <= date && date <= entry.end) || null;
+}
+
+/** Whether a vehicle can be sent out on a date */
+export function isVehicleAvailable(
+  vehicle: Pick<FleetVehicleInput, "isActive" | "maintenance">,
+  date: string
+): boolean {
+  return vehicle.isActive && !getMaintenanceWindow(vehicle, date);
+}
+
+function overlaps(
+  a: Pick<DepartureAssignmentInput, "date" | "time" | "endTime">,
+  b: Pick<DepartureAssignmentInput, "date" | "time" | "endTime">
+): boolean {
+  return a.date === b.date && a.time < b.endTime && b.time < a.endTime;
+}
+
+/**
+ * Everything wrong with one assignment
+ * @param others - The other assignments on the same date
+ */
+export function findAssignmentConflicts(
+  assignment: DepartureAssignmentInput & { _id?: string },
+  others: (DepartureAssignmentInput & { _id: string })[],
+  vehicles: ConflictVehicle[],
+  drivers: ConflictDriver[]
+): AssignmentConflict[] {
+  const conflicts: AssignmentConflict[] = [];
+  const overlapping = others.filter(
+    (other) => other._id !== assignment._id && overlaps(assignment, other)
+  );
+
+  if (assignment.vehicleId) {
+    const vehicle = vehicles.find((v) => v._id === assignment.vehicleId);
+    if (!vehicle) {
+      conflicts.push({ type: "vehicle-missing", message: "The vehicle is no longer in the fleet" });
+    } else {
+      const maintenance = getMaintenanceWindow(vehicle, assignment.date);
+      if (maintenance) {
+        conflicts.push({
+          type: "vehicle-maintenance",
+          message: `${vehicle.plateNumber} is in maintenance: ${maintenance.reason}`,
+        });
+      }
+      if (!vehicle.isActive) {
+        conflicts.push({
+          type: "vehicle-inactive",
+          message: `${vehicle.plateNumber} is marked unavailable`,
+        });
+      }
+    }
+
+    overlapping
+      .filter((other) => other.vehicleId === assignment.vehicleId)
+      .forEach((other) => {
+        conflicts.push({
+          type: "vehicle-double-booked",
+          message: `${vehicle?.plateNumber || "The vehicle"} is also assigned ${other.time}–${other.endTime}`,
+          assignmentId: other._id,
+        });
+      });
+  }
+
+  if (assignment.driverId) {
+    const driver = drivers.find((d) => d._id === assignment.driverId);
+    if (!driver) {
+      conflicts.push({ type: "driver-missing", message: "The driver is no longer listed" });
+    } else {
+      if (driver.licenseExpiry < assignment.date) {
+        conflicts.push({
+          type: "license-expired",
+          message: `${driver.name}'s license expired on ${driver.licenseExpiry}`,
+        });
+      }
+      if (!driver.isActive) {
+        conflicts.push({
+          type: "driver-inactive",
+          message: `${driver.name} is marked unavailable`,
+        });
+      }
+    }
+
+    overlapping
+      .filter((other) => other.driverId === assignment.driverId)
+      .forEach((other) => {
+        conflicts.push({
+          type: "driver-double-booked",
+          message: `${driver?.name || "The driver"} is also assigned ${other.time}–${other.endTime}`,
+          assignmentId: other._id,
+        });
+      });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Conflicts of every assignment on a date
+ * @returns Conflicts keyed by assignment id; assignments without any are left out
+ */
+export function getAssignmentConflicts(
+  assignments: (DepartureAssignmentInput & { _id: string })[],
+  vehicles: ConflictVehicle[],
+  drivers: ConflictDriver[]
+): Record<string, AssignmentConflict[]> {
+  const conflicts: Record<string, AssignmentConflict[]> = {};
+  assignments.forEach((assignment) => {
+    const found = findAssignmentConflicts(
+      assignment,
+      assignments.filter((other) => other.date === assignment.date),
+      vehicles,
+      drivers
+    );
+    if (found.length > 0) conflicts[assignment._id] = found;
+  });
+  return conflicts;
+}
@@ -0,0 +1,120 @@
+/**
+ * Loading fleet records and departure assignments (server only)
+ */
+import dbConnect from "@/lib/dbConnect";
+import { normalizeTime } from "@/lib/dateUtils";
+import {
+  AssignmentConflict,
+  DepartureAssignmentInput,
+  DriverInput,
+  FleetVehicleInput,
+  getAssignmentConflicts,
+  MaintenanceWindow,
+  normalizePlateNumber,
+} from "@/lib/fleet";
+import DepartureAssignment from "@/models/DepartureAssignment";
+import Driver from "@/models/Driver";
+import FleetVehicle from "@/models/FleetVehicle";
+
+const trimmedString = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const optionalString = (value: unknown) => trimmedString(value) || undefined;
+
+/** Vehicle fields from a create/update request body */
+export function parseFleetVehicleInput(body: Record<string, unknown>): FleetVehicleInput {
+  const maintenance = Array.isArray(body.maintenance) ? body.maintenance : [];
+  return {
+    plateNumber: normalizePlateNumber(trimmedString(body.plateNumber)),
+    vehicleType: trimmedString(body.vehicleType),
+    seats: Number(body.seats),
+    description: optionalString(body.description),
+    maintenance: maintenance
+      .map(
+        (entry: Record<string, unknown>): MaintenanceWindow => ({
+          start: trimmedString(entry?.start),
+          end: trimmedString(entry?.end),
+          reason: trimmedString(entry?.reason),
+        })
+      )
+      .sort((a, b) => a.start.localeCompare(b.start)),
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive),
+  };
+}
+
+/** Driver fields from a create/update request body */
+export function parseDriverInput(body: Record<string, unknown>): DriverInput {
+  return {
+    name: trimmedString(body.name),
+    phone: trimmedString(body.phone),
+    email: optionalString(body.email)?.toLowerCase(),
+    licenseNumber: trimmedString(body.licenseNumber).toUpperCase(),
+    licenseExpiry: trimmedString(body.licenseExpiry),
+    notes: optionalString(body.notes),
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive),
+  };
+}
+
+/** Assignment fields from a create request body */
+export function parseDepartureAssignmentInput(
+  body: Record<string, unknown>
+): DepartureAssignmentInput {
+  return {
+    packageType: body.packageType as DepartureAssignmentInput["packageType"],
+    packageId: trimmedString(body.packageId),
+    date: trimmedString(body.date),
+    time: normalizeTime(trimmedString(body.time)),
+    endTime: normalizeTime(trimmedString(body.endTime)),
+    vehicleId: optionalString(body.vehicleId),
+    driverId: optionalString(body.driverId),
+    notes: optionalString(body.notes),
+  };
+}
+
+/** Whether a duplicate key error came from a unique index */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/**
+ * A day's assignments with their conflicts
+ * Conflicts are worked out across the whole day, so narrowing to one
+ * departure still flags a vehicle or driver that is busy elsewhere.
+ * @param departure - Only return assignments for this package and/or time
+ */
+export async function getDayAssignments(
+  date: string,
+  departure: { packageId?: string; time?: string } = {}
+) {
+  await dbConnect();
+  const [assignments, vehicles, drivers] = await Promise.all([
+    DepartureAssignment.find({ date }).sort({ time: 1, createdAt: 1 }).lean(),
+    FleetVehicle.find({}).lean(),
+    Driver.find({}).lean(),
+  ]);
+
+  const withIds = assignments.map((assignment) => ({
+    ...assignment,
+    _id: String(assignment._id),
+  }));
+  const conflicts = getAssignmentConflicts(
+    withIds,
+    vehicles.map((vehicle) => ({ ...vehicle, _id: String(vehicle._id) })),
+    drivers.map((driver) => ({ ...driver, _id: String(driver._id) }))
+  );
+
+  const time = departure.time ? normalizeTime(departure.time) : undefined;
+  const selected = withIds.filter(
+    (assignment) =>
+      (!departure.packageId || assignment.packageId === departure.packageId) &&
+      (!time || assignment.time === time)
+  );
+
+  return {
+    assignments: selected,
+    conflicts: Object.fromEntries(
+      selected
+        .filter((assignment) => conflicts[assignment._id])
+        .map((assignment) => [assignment._id, conflicts[assignment._id]])
+    ) as Record<string, AssignmentConflict[]>,
+  };
+}
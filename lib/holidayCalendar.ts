@@ -0,0 +1,43 @@
+/**
+ * Loading the holiday calendar (server only)
+ */
+import dbConnect from "@/lib/dbConnect";
+import { BUNDLED_HOLIDAYS } from "@/lib/holidayData";
+import { CalendarHoliday, resolveHolidays } from "@/lib/holidays";
+import HolidayOverride from "@/models/HolidayOverride";
+
+export function isBundledHolidayDate(date: string): boolean {
+  return BUNDLED_HOLIDAYS.some((holiday) => holiday.date === date);
+}
+
+/**
+ * The holiday calendar with admin edits applied
+ * If the edits cannot be loaded the bundled dataset is returned on its own,
+ * so pricing and availability still see the standard holidays.
+ * @param year - Only holidays in this year
+ */
+export async function getHolidayCalendar(
+  options: { year?: number; includeRemoved?: boolean } = {}
+): Promise<CalendarHoliday[]> {
+  let overrides: Awaited<ReturnType<typeof loadOverrides>> = [];
+  try {
+    overrides = await loadOverrides();
+  } catch (error) {
+    console.error("Error loading holiday edits:", error);
+  }
+
+  const calendar = resolveHolidays(BUNDLED_HOLIDAYS, overrides, options.includeRemoved);
+  return options.year
+    ? calendar.filter((holiday) => holiday.date.startsWith(`${options.year}-`))
+    : calendar;
+}
+
+async function loadOverrides() {
+  await dbConnect();
+  return HolidayOverride.find({}).lean();
+}
+
+/** Dates of all holidays, for pricing rules and slot closures */
+export async function getHolidayDates(): Promise<string[]> {
+  return (await getHolidayCalendar()).map((holiday) => holiday.date);
+}
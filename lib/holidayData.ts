@@ -0,0 +1,59 @@
+/**
+ * Bundled public holidays observed in Pahang: national holidays plus Pahang
+ * state holidays, with the replacement days Pahang (Saturday-Sunday weekend)
+ * gives when a holiday falls on a Sunday.
+ *
+ * Islamic and other lunar holidays depend on moon sighting and can move by a
+ * day from these dates; 2027 lunar dates are estimates until the official
+ * calendar is gazetted. Correct them from the Holidays page rather than here,
+ * so the edit takes effect without a deploy.
+ */
+import type { Holiday } from "@/lib/holidays";
+
+export const BUNDLED_HOLIDAYS: Holiday[] = [
+  // 2026
+  { date: "2026-01-01", name: "New Year's Day", scope: "national" },
+  { date: "2026-02-17", name: "Chinese New Year", scope: "national" },
+  { date: "2026-02-18", name: "Chinese New Year (second day)", scope: "national" },
+  { date: "2026-03-07", name: "Nuzul Al-Quran", scope: "pahang" },
+  { date: "2026-03-21", name: "Hari Raya Aidilfitri", scope: "national" },
+  { date: "2026-03-22", name: "Hari Raya Aidilfitri (second day)", scope: "national" },
+  { date: "2026-03-23", name: "Hari Raya Aidilfitri (replacement)", scope: "national" },
+  { date: "2026-05-01", name: "Labour Day", scope: "national" },
+  { date: "2026-05-07", name: "Hari Hol Pahang", scope: "pahang" },
+  { date: "2026-05-27", name: "Hari Raya Haji", scope: "national" },
+  { date: "2026-05-31", name: "Wesak Day", scope: "national" },
+  { date: "2026-06-01", name: "Agong's Birthday", scope: "national" },
+  { date: "2026-06-02", name: "Wesak Day (replacement)", scope: "national" },
+  { date: "2026-06-17", name: "Awal Muharram", scope: "national" },
+  { date: "2026-07-30", name: "Sultan of Pahang's Birthday", scope: "pahang" },
+  { date: "2026-08-25", name: "Maulidur Rasul", scope: "national" },
+  { date: "2026-08-31", name: "National Day", scope: "national" },
+  { date: "2026-09-16", name: "Malaysia Day", scope: "national" },
+  { date: "2026-11-08", name: "Deepavali", scope: "national" },
+  { date: "2026-11-09", name: "Deepavali (replacement)", scope: "national" },
+  { date: "2026-12-25", name: "Christmas Day", scope: "national" },
+
+  // 2027
+  { date: "2027-01-01", name: "New Year's Day", scope: "national" },
+  { date: "2027-02-06", name: "Chinese New Year", scope: "national" },
+  { date: "2027-02-07", name: "Chinese New Year (second day)", scope: "national" },
+  { date: "2027-02-08", name: "Chinese New Year (replacement)", scope: "national" },
+  { date: "2027-02-24", name: "Nuzul Al-Quran", scope: "pahang" },
+  { date: "2027-03-10", name: "Hari Raya Aidilfitri", scope: "national" },
+  { date: "2027-03-11", name: "Hari Raya Aidilfitri (second day)", scope: "national" },
+  { date: "2027-05-01", name: "Labour Day", scope: "national" },
+  { date: "2027-05-07", name: "Hari Hol Pahang", scope: "pahang" },
+  { date: "2027-05-17", name: "Hari Raya Haji", scope: "national" },
+  { date: "2027-05-20", name: "Wesak Day", scope: "national" },
+  { date: "2027-06-06", name: "Awal Muharram", scope: "national" },
+  { date: "2027-06-07", name: "Agong's Birthday", scope: "national" },
+  { date: "2027-06-08", name: "Awal Muharram (replacement)", scope: "national" },
+  { date: "2027-07-30", name: "Sultan of Pahang's Birthday", scope: "pahang" },
+  { date: "2027-08-15", name: "Maulidur Rasul", scope: "national" },
+  { date: "2027-08-16", name: "Maulidur Rasul (replacement)", scope: "national" },
+  { date: "2027-08-31", name: "National Day", scope: "national" },
+  { date: "2027-09-16", name: "Malaysia Day", scope: "national" },
+  { date: "2027-10-28", name: "Deepavali", scope: "national" },
+  { date: "2027-12-25", name: "Christmas Day", scope: "national" },
+];
@@ -0,0 +1,108 @@
+/**
+ * Malaysian public holiday calendar
+ *
+ * The calendar is the bundled national and Pahang dataset (lib/holidayData)
+ * with admin edits layered on top. An edit is stored per date: it can rename
+ * or re-scope a bundled holiday, remove it (moon sighting moved a date), or
+ * add a holiday that is not bundled at all, such as a replacement holiday
+ * announced during the year. Dates are calendar days in Malaysian time.
+ */
+export const HOLIDAY_SCOPES = ["national", "pahang"] as const;
+
+export type HolidayScope = (typeof HOLIDAY_SCOPES)[number];
+
+export const HOLIDAY_SCOPE_LABELS: Record<HolidayScope, string> = {
+  national: "National",
+  pahang: "Pahang",
+};
+
+export interface Holiday {
+  /** YYYY-MM-DD */
+  date: string;
+  name: string;
+  scope: HolidayScope;
+}
+
+/** An admin edit to the calendar for one date */
+export interface HolidayOverride {
+  date: string;
+  name?: string;
+  scope?: HolidayScope;
+  /** Drops the bundled holiday on this date */
+  removed: boolean;
+}
+
+/** A holiday as returned by /api/holidays */
+export interface CalendarHoliday extends Holiday {
+  /** "bundled" if the date is in the shipped dataset, even when edited */
+  source: "bundled" | "custom";
+  edited: boolean;
+  /** Only present with includeRemoved: a bundled holiday an admin removed */
+  removed?: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isHolidayDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value);
+}
+
+/**
+ * Check a holiday from the admin form
+ * @returns An error message, or null if it can be saved
+ */
+export function validateHoliday(holiday: Holiday): string | null {
+  if (!isHolidayDate(holiday.date)) return "Date must be YYYY-MM-DD";
+  if (!holiday.name.trim()) return "Enter the holiday's name";
+  if (!HOLIDAY_SCOPES.includes(holiday.scope)) return "Invalid holiday scope";
+  return null;
+}
+
+/**
+ * The calendar after admin edits, sorted by date
+ * @param includeRemoved - Keep removed bundled holidays, flagged `removed`,
+ *   so they can be restored
+ */
+export function resolveHolidays(
+  bundled: Holiday[],
+  overrides: HolidayOverride[],
+  includeRemoved = false
+): CalendarHoliday[] {
+  const byDate = new Map(overrides.map((override) => [override.date, override]));
+  const bundledDates = new Set(bundled.map((holiday) => holiday.date));
+
+  const calendar: CalendarHoliday[] = bundled.flatMap((holiday): CalendarHoliday[] => {
+    const override = byDate.get(holiday.date);
+    if (!override) return [{ ...holiday, source: "bundled", edited: false }];
+    if (override.removed && !includeRemoved) return [];
+    return [
+      {
+        date: holiday.date,
+        name: override.name || holiday.name,
+        scope: override.scope || holiday.scope,
+        source: "bundled",
+        edited: true,
+        ...(override.removed ? { removed: true } : {}),
+      },
+    ];
+  });
+
+  overrides
+    .filter((override) => !bundledDates.has(override.date) && !override.removed && override.name)
+    .forEach((override) =>
+      calendar.push({
+        date: override.date,
+        name: override.name as string,
+        scope: override.scope || "national",
+        source: "custom",
+        edited: true,
+      })
+    );
+
+  return calendar.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Holidays keyed by date for quick lookups while rendering a calendar */
+export function toHolidayMap<T extends Holiday>(holidays: T[]): Map<string, T> {
+  return new Map(holidays.map((holiday) => [holiday.date, holiday]));
+}
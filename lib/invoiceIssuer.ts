@@ -0,0 +1,131 @@
+/**
+ * Storing and numbering invoices (server only)
+ *
+ * The next number is the highest sequence issued this year plus one, and
+ * the unique index on (year, sequence) makes concurrent issues collide
+ * instead of sharing a number; the loser simply retries with the next one.
+ * Nothing is reserved ahead of the insert, so a failed issue never leaves a
+ * gap. An issued invoice is never changed: if the booking changed since, issuing
+ * again stores a new revision with its own number that supersedes the last one.
+ */
+import dbConnect from "@/lib/dbConnect";
+import { formatDateAsMYT } from "@/lib/dateUtils";
+import { formatInvoiceNumber, InvoiceCompany } from "@/lib/invoices";
+import Invoice, { IInvoice } from "@/models/Invoice";
+
+export type InvoiceSnapshot = Omit<
+  IInvoice,
+  | "invoiceNumber"
+  | "year"
+  | "sequence"
+  | "revision"
+  | "supersedes"
+  | "supersededBy"
+  | "issuedBy"
+  | "issuedAt"
+>;
+
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// Fields compared to decide whether a re-issue needs a new revision
+const REVISION_FIELDS = [
+  "customer",
+  "packageTitle",
+  "serviceDate",
+  "serviceTime",
+  "lineItems",
+  "subtotal",
+  "discount",
+  "promoCode",
+  "bankCharge",
+  "sstRate",
+  "sstAmount",
+  "total",
+  "paymentStatus",
+] as const;
+
+/** Issuer details printed on every invoice, from the COMPANY_* env vars */
+export function getCompanyDetails(): InvoiceCompany {
+  return {
+    name: process.env.COMPANY_NAME || "Oastel",
+    registrationNumber: process.env.COMPANY_REG_NO || undefined,
+    sstNumber: process.env.COMPANY_SST_NO || undefined,
+    address: process.env.COMPANY_ADDRESS || undefined,
+    phone: process.env.COMPANY_PHONE || undefined,
+    email: process.env.COMPANY_EMAIL || undefined,
+  };
+}
+
+/** SST percentage from INVOICE_SST_RATE; 0 when not registered for SST */
+export function getSstRate(): number {
+  const rate = Number(process.env.INVOICE_SST_RATE);
+  return Number.isFinite(rate) && rate > 0 ? rate : 0;
+}
+
+function isDuplicateKeyError(error: unknown, field: string): boolean {
+  const mongoError = error as { code?: number; keyPattern?: Record<string, unknown> };
+  return mongoError?.code === 11000 && Boolean(mongoError.keyPattern?.[field]);
+}
+
+/** The booking's current invoice, i.e. its latest revision */
+export async function findInvoice(bookingId: string) {
+  await dbConnect();
+  return Invoice.findOne({ bookingId }).sort({ revision: -1 }).lean();
+}
+
+/**
+ * Issue the booking's invoice, or a new revision if the booking changed since
+ * @param snapshot - Booking, company and amounts as of now
+ * @param issuedBy - Admin issuing the invoice
+ * @returns The current invoice, whether it was newly created, and whether
+ *   it supersedes an earlier revision
+ */
+export async function issueInvoice(snapshot: InvoiceSnapshot, issuedBy: string) {
+  const previous = await findInvoice(snapshot.bookingId);
+  if (
+    previous &&
+    REVISION_FIELDS.every(
+      (field) => JSON.stringify(previous[field]) === JSON.stringify(snapshot[field])
+    )
+  ) {
+    return { invoice: previous, created: false, revised: false };
+  }
+
+  const revision = previous ? (previous.revision ?? 1) + 1 : 1;
+  const issuedAt = new Date();
+  const year = Number(formatDateAsMYT(issuedAt).slice(0, 4));
+
+  for (let attempt = 0; attempt < MAX_NUMBERING_ATTEMPTS; attempt++) {
+    const last = await Invoice.findOne({ year }).sort({ sequence: -1 }).select("sequence").lean();
+    const sequence = (last?.sequence ?? 0) + 1;
+
+    try {
+      const invoiceNumber = formatInvoiceNumber(year, sequence);
+      const invoice = await Invoice.create({
+        ...snapshot,
+        invoiceNumber,
+        year,
+        sequence,
+        revision,
+        supersedes: previous?.invoiceNumber,
+        issuedBy,
+        issuedAt,
+      });
+      if (previous) {
+        await Invoice.updateOne({ _id: previous._id }, { $set: { supersededBy: invoiceNumber } });
+      }
+      return { invoice: invoice.toObject(), created: true, revised: Boolean(previous) };
+    } catch (error) {
+      // Another admin issued the same revision at the same moment
+      if (isDuplicateKeyError(error, "revision")) {
+        const invoice = await findInvoice(snapshot.bookingId);
+        if (invoice) return { invoice, created: false, revised: false };
+      }
+      if (!isDuplicateKeyError(error, "year") && !isDuplicateKeyError(error, "invoiceNumber")) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("Could not assign an invoice number, please try again");
+}
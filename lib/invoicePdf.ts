@@ -0,0 +1,123 @@
+/**
+ * Tax invoice and official receipt PDFs
+ *
+ * Both are drawn from the stored invoice snapshot. A receipt is the same
+ * document marked as paid and refers back to its invoice number.
+ */
+import type jsPDF from "jspdf";
+import { formatConfirmationDate } from "@/lib/bookingConfirmation";
+import {
+  formatMoney,
+  INVOICE_DOCUMENT_LABELS,
+  InvoiceDocumentType,
+  InvoiceRecord,
+  isInvoicePaid,
+} from "@/lib/invoices";
+import { createPdfDocument } from "@/lib/pdfDocument";
+
+export function getInvoiceFileName(invoice: InvoiceRecord, type: InvoiceDocumentType) {
+  return `${type}-${invoice.invoiceNumber}.pdf`;
+}
+
+export function buildInvoicePdf(invoice: InvoiceRecord, type: InvoiceDocumentType): jsPDF {
+  const label = INVOICE_DOCUMENT_LABELS[type];
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+  const doc = createPdfDocument({
+    title: label,
+    subtitle: invoice.invoiceNumber,
+    headerRight: [
+      `Issued: ${formatConfirmationDate(invoice.issuedAt)}`,
+      invoice.supersedes ? `Replaces: ${invoice.supersedes}` : "",
+    ].filter(Boolean),
+  });
+  const { pdf, margin, pageWidth } = doc;
+  const { company } = invoice;
+
+  doc.text(company.name, { size: 12, bold: true });
+  doc.text(
+    [
+      company.registrationNumber ? `Company No. ${company.registrationNumber}` : null,
+      company.sstNumber ? `SST No. ${company.sstNumber}` : null,
+      company.address,
+      [company.phone, company.email].filter(Boolean).join(" | "),
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    { size: 9 }
+  );
+
+  doc.heading(type === "receipt" ? "Received From" : "Bill To");
+  doc.keyValues(
+    [
+      ["Name", invoice.customer.name],
+      ["Email", invoice.customer.email],
+      ["Phone", invoice.customer.phone],
+    ],
+    3
+  );
+
+  doc.heading("Booking");
+  doc.keyValues([
+    ["Booking ID", invoice.bookingId],
+    ["Invoice No.", type === "receipt" ? invoice.invoiceNumber : undefined],
+    ["Package", invoice.packageTitle],
+    ["Service Date", `${formatConfirmationDate(invoice.serviceDate)} ${invoice.serviceTime}`],
+  ]);
+
+  doc.table(
+    [
+      { header: "Description", width: 6 },
+      { header: "Qty", width: 1, align: "right" },
+      { header: "Unit Price", width: 2, align: "right" },
+      { header: "Amount", width: 2, align: "right" },
+    ],
+    invoice.lineItems.map((item) => [
+      item.description,
+      String(item.quantity),
+      money(item.unitPrice),
+      money(item.amount),
+    ]),
+    { footer: ["Subtotal", "", "", money(invoice.subtotal)] }
+  );
+
+  const totals: [string, string][] = [];
+  if (invoice.discount > 0) {
+    totals.push([
+      invoice.promoCode ? `Promo code ${invoice.promoCode}` : "Discount",
+      `-${money(invoice.discount)}`,
+    ]);
+  }
+  if (invoice.bankCharge > 0) totals.push(["Bank charge", money(invoice.bankCharge)]);
+  if (invoice.sstRate > 0) {
+    totals.push([`SST ${invoice.sstRate}% (included)`, money(invoice.sstAmount)]);
+  }
+  totals.push([type === "receipt" ? "Amount Received" : "Total", money(invoice.total)]);
+
+  doc.ensureSpace(totals.length * 6 + 4);
+  totals.forEach(([name, value], index) => {
+    const isTotal = index === totals.length - 1;
+    pdf.setFont("helvetica", isTotal ? "bold" : "normal");
+    pdf.setFontSize(isTotal ? 12 : 10);
+    pdf.text(name, pageWidth - margin - 50, doc.y + 4, { align: "right" });
+    pdf.text(value, pageWidth - margin, doc.y + 4, { align: "right" });
+    doc.y += 6;
+  });
+  doc.y += 6;
+
+  if (type === "receipt") {
+    doc.text("PAID - Thank you for your payment.", { size: 12, bold: true, color: [22, 163, 74] });
+  } else {
+    doc.text(
+      isInvoicePaid(invoice)
+        ? "Payment status: Paid"
+        : `Payment status: ${invoice.paymentStatus || "Unpaid"}`,
+      { size: 10, bold: true }
+    );
+  }
+  doc.text("This is a computer-generated document. No signature is required.", {
+    size: 8,
+    color: [123, 123, 123],
+  });
+
+  return doc.finish();
+}
@@ -0,0 +1,198 @@
+/**
+ * Tax invoices and receipts for bookings
+ *
+ * An invoice is a snapshot of the booking taken when it is issued: company
+ * details, customer, line items and tax. PDFs are always rendered from that
+ * snapshot, so an invoice downloaded again looks the same and keeps its
+ * number. A booking changed after invoicing gets a new revision with its own
+ * number, which states the one it replaces. Numbers are gapless per calendar year (INV-2026-000001, ...) and
+ * are only assigned when an invoice is actually stored.
+ *
+ * Booking totals are what the customer paid, so SST is treated as included
+ * in the package price and broken out of it rather than added on top. A promo
+ * code discount is taken off the subtotal before SST is broken out.
+ */
+import type { PricedPackage } from "@/lib/bookingSchedule";
+
+export const INVOICE_DOCUMENT_TYPES = ["invoice", "receipt"] as const;
+
+export type InvoiceDocumentType = (typeof INVOICE_DOCUMENT_TYPES)[number];
+
+export const INVOICE_DOCUMENT_LABELS: Record<InvoiceDocumentType, string> = {
+  invoice: "Tax Invoice",
+  receipt: "Official Receipt",
+};
+
+export interface InvoiceCompany {
+  name: string;
+  registrationNumber?: string;
+  sstNumber?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/** Booking fields an invoice is built from */
+export interface InvoiceableBooking {
+  packageType: "tour" | "transfer";
+  date: string;
+  time: string;
+  adults: number;
+  children: number;
+  subtotal?: number;
+  /** Promo code discount taken off the subtotal */
+  discount?: number;
+  promoCode?: string;
+  total: number;
+  contactInfo?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+  paymentInfo?: {
+    bankCharge?: number;
+    currency?: string;
+    paymentStatus?: string;
+  };
+}
+
+export interface InvoiceAmounts {
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  discount: number;
+  promoCode?: string;
+  bankCharge: number;
+  /** SST percentage the amounts were calculated with */
+  sstRate: number;
+  /** SST included in the discounted subtotal */
+  sstAmount: number;
+  total: number;
+}
+
+/** An invoice as returned by /api/bookings/[id]/invoice */
+export interface InvoiceRecord extends InvoiceAmounts {
+  _id: string;
+  invoiceNumber: string;
+  bookingId: string;
+  company: InvoiceCompany;
+  customer: { name: string; email?: string; phone?: string };
+  packageTitle: string;
+  packageType: "tour" | "transfer";
+  serviceDate: string;
+  serviceTime: string;
+  currency: string;
+  paymentStatus?: string;
+  /** Starts at 1; each change to the booking after issuing adds one */
+  revision: number;
+  /** Number of the invoice this revision replaces */
+  supersedes?: string;
+  /** Number of the revision that replaced this one */
+  supersededBy?: string;
+  issuedAt: string;
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `INV-${year}-${String(sequence).padStart(6, "0")}`;
+}
+
+export function formatMoney(amount: number, currency = "MYR"): string {
+  const prefix = currency === "MYR" ? "RM" : currency;
+  return `${prefix} ${amount.toLocaleString("en-MY", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+/**
+ * Line items, bank charge and SST for a booking
+ *
+ * Items are priced from the package when that reproduces the booking's
+ * subtotal; if prices changed since the booking was made, a single line at
+ * the booked subtotal is used instead so the invoice always matches what
+ * was charged.
+ */
+export function calculateInvoiceAmounts(
+  booking: InvoiceableBooking,
+  packageTitle: string,
+  pkg: PricedPackage | null,
+  sstRate: number
+): InvoiceAmounts {
+  const bankCharge = roundMoney(booking.paymentInfo?.bankCharge || 0);
+  const discount = roundMoney(booking.discount || 0);
+  const subtotal = roundMoney(booking.subtotal ?? booking.total - bankCharge + discount);
+  const taxable = roundMoney(subtotal - discount);
+  const adults = booking.adults || 0;
+  const children = booking.children || 0;
+
+  let lineItems: InvoiceLineItem[] = [];
+  if (pkg) {
+    if (booking.packageType === "tour" && pkg.type === "private") {
+      const vehicles = Math.ceil(adults / 8);
+      lineItems = [
+        {
+          description: `${packageTitle} - private vehicle (up to 8 guests)`,
+          quantity: vehicles,
+          unitPrice: pkg.newPrice,
+          amount: roundMoney(vehicles * pkg.newPrice),
+        },
+      ];
+    } else {
+      lineItems = [
+        {
+          description: `${packageTitle} - adult`,
+          quantity: adults,
+          unitPrice: pkg.newPrice,
+          amount: roundMoney(adults * pkg.newPrice),
+        },
+        {
+          description: `${packageTitle} - child`,
+          quantity: children,
+          unitPrice: pkg.childPrice || 0,
+          amount: roundMoney(children * (pkg.childPrice || 0)),
+        },
+      ].filter((item) => item.quantity > 0);
+    }
+  }
+
+  const itemsTotal = roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  if (lineItems.length === 0 || Math.abs(itemsTotal - subtotal) > 0.005) {
+    const guests = [`${adults} adult(s)`, children > 0 ? `${children} child(ren)` : null]
+      .filter(Boolean)
+      .join(", ");
+    lineItems = [
+      {
+        description: `${packageTitle} (${guests})`,
+        quantity: 1,
+        unitPrice: subtotal,
+        amount: subtotal,
+      },
+    ];
+  }
+
+  return {
+    lineItems,
+    subtotal,
+    discount,
+    promoCode: discount > 0 ? booking.promoCode : undefined,
+    bankCharge,
+    sstRate,
+    sstAmount: sstRate > 0 ? roundMoney((taxable * sstRate) / (100 + sstRate)) : 0,
+    total: roundMoney(taxable + bankCharge),
+  };
+}
+
+/** Receipts are only issued for bookings that have been paid */
+export function isInvoicePaid(invoice: Pick<InvoiceRecord, "paymentStatus">) {
+  return invoice.paymentStatus === "succeeded";
+}
@@ -0,0 +1,306 @@
+/**
+ * Outgoing mail with pluggable transports (server only)
+ *
+ * - "smtp" talks to any SMTP server directly over node:net/tls, so no mail
+ *   SDK is needed (implicit TLS on SMTP_SECURE=true, STARTTLS otherwise when
+ *   the server offers it). Credentials are never sent over a plaintext
+ *   connection unless SMTP_ALLOW_INSECURE=true
+ * - "file" writes each message as an .eml file to MAIL_FILE_DIR, for local
+ *   development and testing without a mail server
+ *
+ * MAIL_TRANSPORT picks the transport; it defaults to "smtp". The file
+ * transport is only used when set explicitly, so a missing SMTP_HOST fails
+ * the send instead of quietly writing files nobody receives.
+ */
+import { randomBytes } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+import tls from "node:tls";
+
+export type MailTransportName = "smtp" | "file";
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailResult {
+  transport: MailTransportName;
+  messageId: string;
+  /** Where the file transport wrote the message */
+  location?: string;
+}
+
+interface MailTransport {
+  name: MailTransportName;
+  send(raw: string, from: string, to: string): Promise<string | undefined>;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+const DEFAULT_FROM = "Oastel <no-reply@localhost>";
+
+function getFromAddress() {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+// "Name <user@host>" -> "user@host"
+function getEnvelopeAddress(address: string) {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+// One plain address, no display name, comments or control characters
+const EMAIL_ADDRESS_PATTERN =
+  /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+$/;
+
+/**
+ * Whether a recipient is a single plain email address, safe to put in the
+ * To: header and the SMTP RCPT TO command as is
+ */
+export function isValidRecipient(address: string): boolean {
+  return address.length <= 254 && EMAIL_ADDRESS_PATTERN.test(address);
+}
+
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function wrapBase64(content: Buffer) {
+  return content.toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+/**
+ * Render a message as RFC 5322 text with the attachments as MIME parts
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  from: string,
+  messageId: string
+): string {
+  const boundary = `----=_Part_${randomBytes(12).toString("hex")}`;
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+
+  const parts = [
+    [
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(Buffer.from(message.text, "utf8")),
+    ].join("\r\n"),
+    ...(message.attachments || []).map((attachment) =>
+      [
+        `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+        "Content-Transfer-Encoding: base64",
+        `Content-Disposition: attachment; filename="${attachment.filename}"`,
+        "",
+        wrapBase64(attachment.content),
+      ].join("\r\n")
+    ),
+  ];
+
+  return [
+    ...headers,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Collects multi-line replies ("250-..." up to "250 ...") from the server
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+
+      const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.join(" ") };
+      lines = [];
+      if (waiting) {
+        waiting.resolve(reply);
+        waiting = null;
+      } else {
+        replies.push(reply);
+      }
+    }
+  };
+  const onError = (error: Error) => {
+    waiting?.reject(error);
+    waiting = null;
+  };
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+
+  return {
+    read(): Promise<SmtpReply> {
+      const next = replies.shift();
+      if (next) return Promise.resolve(next);
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+    },
+  };
+}
+
+const smtpTransport: MailTransport = {
+  name: "smtp",
+  async send(raw, from, to) {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error("SMTP_HOST is not configured");
+
+    const secure = process.env.SMTP_SECURE === "true";
+    const port = Number(process.env.SMTP_PORT) || (secure ? 465 : 587);
+    const user = process.env.SMTP_USER;
+    const pass = process.env.SMTP_PASS || "";
+    const heloName = getEnvelopeAddress(from).split("@")[1] || "localhost";
+
+    let socket: net.Socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connection = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(connection))
+        : net.connect({ host, port }, () => resolve(connection));
+      connection.once("error", reject);
+    });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout")));
+    let reader = createReplyReader(socket);
+
+    const command = async (line: string | null, expected: number[]) => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.read();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${reply.code}: ${reply.text}`);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      const ehlo = await command(`EHLO ${heloName}`, [250]);
+
+      const offersStartTls = /\bSTARTTLS\b/i.test(ehlo.text);
+      if (!secure && offersStartTls) {
+        await command("STARTTLS", [220]);
+        reader.detach();
+        const plain = socket;
+        socket = await new Promise<net.Socket>((resolve, reject) => {
+          const upgraded = tls.connect({ socket: plain, servername: host }, () =>
+            resolve(upgraded)
+          );
+          upgraded.once("error", reject);
+        });
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP timeout")));
+        reader = createReplyReader(socket);
+        await command(`EHLO ${heloName}`, [250]);
+      }
+
+      if (user) {
+        if (!secure && !offersStartTls && process.env.SMTP_ALLOW_INSECURE !== "true") {
+          throw new Error(
+            "SMTP server does not offer STARTTLS; refusing to send credentials in plaintext"
+          );
+        }
+        const credentials = Buffer.from(`\0${user}\0${pass}`, "utf8").toString("base64");
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${getEnvelopeAddress(from)}>`, [250]);
+      await command(`RCPT TO:<${getEnvelopeAddress(to)}>`, [250, 251]);
+      await command("DATA", [354]);
+      // Dot-stuffing: lines starting with "." get an extra one
+      const body = raw.replace(/\r\n\./g, "\r\n..");
+      const accepted = await command(`${body}\r\n.`, [250]);
+      await command("QUIT", [221]).catch(() => undefined);
+
+      return accepted.text;
+    } finally {
+      reader.detach();
+      socket.destroy();
+    }
+  },
+};
+
+const fileTransport: MailTransport = {
+  name: "file",
+  async send(raw, _from, to) {
+    const directory = path.resolve(process.env.MAIL_FILE_DIR || ".mail");
+    await mkdir(directory, { recursive: true });
+
+    const safeTo = to.replace(/[^a-z0-9@._-]/gi, "_");
+    const location = path.join(directory, `${Date.now()}-${safeTo}.eml`);
+    await writeFile(location, raw, "utf8");
+    return location;
+  },
+};
+
+function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || "smtp";
+  if (name === "file") return fileTransport;
+  if (name !== "smtp") throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is not configured; set MAIL_TRANSPORT=file to write emails to disk instead");
+  }
+  return smtpTransport;
+}
+
+/**
+ * Send a message through the configured transport
+ * @throws Error if the recipient is not a plain address, mail is not
+ *   configured or the transport rejects the message
+ */
+export async function sendMail(message: MailMessage): Promise<MailResult> {
+  if (!isValidRecipient(message.to)) {
+    throw new Error(`"${message.to}" is not a valid email address`);
+  }
+
+  const transport = getMailTransport();
+  const from = getFromAddress();
+  const domain = getEnvelopeAddress(from).split("@")[1] || "localhost";
+  const messageId = `${Date.now()}.${randomBytes(8).toString("hex")}@${domain}`;
+
+  const raw = buildMimeMessage(message, from, messageId);
+  const info = await transport.send(raw, from, message.to);
+
+  return {
+    transport: transport.name,
+    messageId,
+    location: transport.name === "file" ? info : undefined,
+  };
+}
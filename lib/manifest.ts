@@ -0,0 +1,133 @@
+/**
+ * Passenger manifests for drivers and guides
+ *
+ * Groups a day's bookings into departures (package + time slot) with the
+ * passengers ordered by pickup location, so the list follows the pickup run.
+ */
+import { formatDateAsMYT, normalizeTime, parseFlexibleDate } from "@/lib/dateUtils";
+
+export interface ManifestBooking {
+  _id: string;
+  packageType?: "tour" | "transfer";
+  packageId?: {
+    _id: string;
+    title?: string;
+  };
+  contactInfo?: {
+    name?: string;
+    phone?: string;
+  };
+  adults: number;
+  children: number;
+  date: string;
+  time?: string;
+  pickupLocation?: string;
+  status?: string;
+}
+
+export interface ManifestPassenger {
+  bookingId: string;
+  name: string;
+  phone: string;
+  adults: number;
+  children: number;
+  pickupLocation: string;
+  status: string;
+}
+
+export interface ManifestDeparture {
+  packageId: string;
+  title: string;
+  packageType: string;
+  /** Malaysian calendar date, YYYY-MM-DD */
+  date: string;
+  /** Normalized HH:MM */
+  time: string;
+  passengers: ManifestPassenger[];
+  totalAdults: number;
+  totalChildren: number;
+}
+
+/**
+ * Plain text pickup location (the booking form stores it as HTML)
+ */
+export function toPlainPickupLocation(html?: string): string {
+  if (!html) return "";
+  return html
+    .replace(/<br\s*\/?>|<\/(p|div|li)>/gi, ", ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .replace(/\s*,(\s*,)*\s*/g, ", ")
+    .replace(/^[\s,]+|[\s,]+$/g, "");
+}
+
+function comparePassengers(a: ManifestPassenger, b: ManifestPassenger): number {
+  // Passengers without a pickup location go last
+  if (!a.pickupLocation !== !b.pickupLocation) return a.pickupLocation ? -1 : 1;
+  return (
+    a.pickupLocation.localeCompare(b.pickupLocation, "en", { sensitivity: "base" }) ||
+    a.name.localeCompare(b.name, "en", { sensitivity: "base" })
+  );
+}
+
+/**
+ * Departures for a Malaysian calendar date, in time order
+ * @param bookings - Bookings that may span several dates; cancelled ones are skipped
+ * @param date - YYYY-MM-DD
+ */
+export function buildManifestDepartures(
+  bookings: ManifestBooking[],
+  date: string
+): ManifestDeparture[] {
+  const departures = new Map<string, ManifestDeparture>();
+
+  bookings.forEach((booking) => {
+    if (booking.status?.toLowerCase() === "cancelled") return;
+
+    const bookingDate = parseFlexibleDate(booking.date);
+    if (!bookingDate || formatDateAsMYT(bookingDate) !== date) return;
+
+    const packageId = booking.packageId?._id || "unknown";
+    const time = normalizeTime(booking.time || "");
+    const key = `${packageId}-${time}`;
+
+    if (!departures.has(key)) {
+      departures.set(key, {
+        packageId,
+        title: booking.packageId?.title || "Unknown Package",
+        packageType: booking.packageType || "",
+        date,
+        time,
+        passengers: [],
+        totalAdults: 0,
+        totalChildren: 0,
+      });
+    }
+
+    const departure = departures.get(key)!;
+    departure.passengers.push({
+      bookingId: booking._id,
+      name: booking.contactInfo?.name || "",
+      phone: booking.contactInfo?.phone || "",
+      adults: booking.adults || 0,
+      children: booking.children || 0,
+      pickupLocation: toPlainPickupLocation(booking.pickupLocation),
+      status: booking.status || "",
+    });
+    departure.totalAdults += booking.adults || 0;
+    departure.totalChildren += booking.children || 0;
+  });
+
+  return Array.from(departures.values())
+    .map((departure) => ({
+      ...departure,
+      passengers: departure.passengers.sort(comparePassengers),
+    }))
+    .sort((a, b) => a.time.localeCompare(b.time) || a.title.localeCompare(b.title));
+}
@@ -0,0 +1,150 @@
+/**
+ * Passenger manifest exports (browser only)
+ *
+ * Each departure gets its own PDF page(s) or workbook sheet so a manifest can
+ * be handed to the driver or guide running that slot.
+ */
+import * as XLSX from "xlsx";
+import {
+  formatMalaysianDateForDisplay,
+  formatTimeDisplay,
+  parseDateStringAsMYT,
+} from "@/lib/dateUtils";
+import type { ManifestDeparture } from "@/lib/manifest";
+import { BRAND_NAME, createPdfDocument, PdfTableColumn } from "@/lib/pdfDocument";
+import { escapeFormulaCells } from "@/lib/spreadsheet";
+
+function formatDate(dateStr: string): string {
+  return formatMalaysianDateForDisplay(parseDateStringAsMYT(dateStr), {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function getFileName(departures: ManifestDeparture[], extension: string): string {
+  if (departures.length === 1) {
+    const [departure] = departures;
+    const slug = departure.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    return `manifest-${departure.date}-${departure.time.replace(":", "")}-${slug}.${extension}`;
+  }
+  return `manifest-${departures[0]?.date || "empty"}-all-departures.${extension}`;
+}
+
+// Excel sheet names: max 31 characters, unique, no []:*?/\
+function getSheetName(departure: ManifestDeparture, used: Set<string>): string {
+  const base = `${formatTimeDisplay(departure.time)} ${departure.title}`
+    .replace(/[[\]:*?/\\]/g, "")
+    .slice(0, 31);
+  let name = base;
+  for (let i = 2; used.has(name); i++) {
+    const suffix = ` (${i})`;
+    name = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Workbook with one sheet per departure
+ */
+export function exportManifestXlsx(departures: ManifestDeparture[]) {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  departures.forEach((departure) => {
+    const sheet = XLSX.utils.aoa_to_sheet(escapeFormulaCells([
+      [`${BRAND_NAME} Passenger Manifest`],
+      ["Package", departure.title],
+      ["Date", formatDate(departure.date)],
+      ["Time", formatTimeDisplay(departure.time)],
+      [],
+      ["#", "Name", "Phone", "Adults", "Children", "Pickup Location", "Signature"],
+      ...departure.passengers.map((passenger, index) => [
+        index + 1,
+        passenger.name,
+        passenger.phone,
+        passenger.adults,
+        passenger.children,
+        passenger.pickupLocation,
+        "",
+      ]),
+      ["", "TOTAL", "", departure.totalAdults, departure.totalChildren, "", ""],
+    ]));
+    sheet["!cols"] = [
+      { wch: 4 }, { wch: 28 }, { wch: 16 }, { wch: 8 }, { wch: 9 }, { wch: 48 }, { wch: 24 },
+    ];
+    XLSX.utils.book_append_sheet(workbook, sheet, getSheetName(departure, usedNames));
+  });
+
+  XLSX.writeFile(workbook, getFileName(departures, "xlsx"));
+}
+
+const PDF_COLUMNS: PdfTableColumn[] = [
+  { header: "#", width: 8, align: "right" },
+  { header: "Name", width: 48 },
+  { header: "Phone", width: 32 },
+  { header: "Adults", width: 14, align: "right" },
+  { header: "Children", width: 16, align: "right" },
+  { header: "Pickup Location", width: 92 },
+  { header: "Signature", width: 40 },
+];
+
+/**
+ * A4 landscape PDF, each departure starting on a new page
+ */
+export function exportManifestPdf(departures: ManifestDeparture[]) {
+  const getHeader = (departure: ManifestDeparture): [string, string[]] => [
+    departure.title,
+    [formatDate(departure.date), `Departure: ${formatTimeDisplay(departure.time)}`],
+  ];
+  const [subtitle, headerRight] = departures[0]
+    ? getHeader(departures[0])
+    : ["No departures", []];
+  const doc = createPdfDocument({
+    orientation: "landscape",
+    title: "Passenger Manifest",
+    subtitle,
+    headerRight,
+  });
+  const { pdf, margin } = doc;
+
+  departures.forEach((departure, departureIndex) => {
+    if (departureIndex > 0) {
+      doc.setHeader(...getHeader(departure));
+      doc.newPage();
+    }
+
+    doc.text(
+      `Bookings: ${departure.passengers.length}    Adults: ${departure.totalAdults}    Children: ${departure.totalChildren}    Total pax: ${departure.totalAdults + departure.totalChildren}`
+    );
+
+    doc.table(
+      PDF_COLUMNS,
+      departure.passengers.map((passenger, index) => [
+        String(index + 1),
+        passenger.name,
+        passenger.phone,
+        String(passenger.adults),
+        String(passenger.children),
+        passenger.pickupLocation,
+        "",
+      ])
+    );
+
+    // Sign-off line stays with the end of the table
+    doc.ensureSpace(16);
+    doc.y += 8;
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(10);
+    pdf.text("Driver / Guide: ______________________________", margin, doc.y);
+    pdf.text("Vehicle: ____________________", margin + 110, doc.y);
+    pdf.text("Signature: ____________________", margin + 190, doc.y);
+  });
+
+  doc.finish().save(getFileName(departures, "pdf"));
+}
@@ -0,0 +1,51 @@
+/**
+ * Password hashing for admin accounts (server only)
+ *
+ * Hashes are stored as `scrypt:<salt hex>:<key hex>`. Generate one with
+ * `npm run hash-password -- "<password>"`.
+ */
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scryptCallback(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hash a plain-text password with a random salt
+ * @param password - Plain-text password
+ * @returns Encoded hash string
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt);
+  return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+/**
+ * Check a plain-text password against a stored hash in constant time
+ * @param password - Plain-text password from the login form
+ * @param storedHash - Encoded hash produced by hashPassword
+ * @returns true if the password matches
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = storedHash.split(":");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await scrypt(password, Buffer.from(saltHex, "hex"));
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
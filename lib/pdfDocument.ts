@@ -0,0 +1,302 @@
+/**
+ * Branded A4 documents drawn as vector content with jsPDF
+ *
+ * Shared by confirmations, manifests and invoices so they all get the same
+ * header bar, logo, section headings, tables with repeating headers and
+ * page numbers. Everything is real text and shapes, so the output stays
+ * sharp, small and searchable.
+ *
+ * Usage: create a document, draw top to bottom (the cursor `y` advances and
+ * pages break automatically), then call finish() for the finished jsPDF.
+ */
+import jsPDF from "jspdf";
+import { createQrMatrix } from "@/lib/qrCode";
+
+type RGB = [number, number, number];
+
+export const BRAND_NAME = "Oastel";
+export const BRAND_COLOR: RGB = [12, 113, 87]; // #0C7157
+
+const TEXT_COLOR: RGB = [33, 33, 33];
+const MUTED_COLOR: RGB = [123, 123, 123];
+const BORDER_COLOR: RGB = [200, 200, 200];
+const TABLE_HEADER_FILL: RGB = [230, 241, 238];
+
+const MARGIN = 12;
+const HEADER_HEIGHT = 24;
+const FOOTER_SPACE = 12;
+const LINE_HEIGHT = 4.2;
+
+export interface PdfTableColumn {
+  header: string;
+  /** Relative width; columns are scaled to fill the content width */
+  width: number;
+  align?: "left" | "right";
+}
+
+export interface PdfDocumentOptions {
+  orientation?: "portrait" | "landscape";
+  title: string;
+  subtitle?: string;
+  /** Up to two lines shown right-aligned in the header bar */
+  headerRight?: string[];
+}
+
+export interface PdfDocument {
+  pdf: jsPDF;
+  margin: number;
+  pageWidth: number;
+  pageHeight: number;
+  contentWidth: number;
+  /** Vertical cursor in mm; drawing methods start here and move it down */
+  y: number;
+  /** Change the header for pages added from now on */
+  setHeader(subtitle?: string, headerRight?: string[]): void;
+  newPage(): void;
+  /** Break to a new page unless `height` mm still fit; returns true on a break */
+  ensureSpace(height: number): boolean;
+  heading(text: string): void;
+  text(text: string, options?: { size?: number; bold?: boolean; color?: RGB }): void;
+  /** Label/value pairs laid out in a grid, skipping empty values */
+  keyValues(pairs: [string, string | undefined][], columns?: number): void;
+  table(columns: PdfTableColumn[], rows: string[][], options?: { footer?: string[] }): void;
+  /** QR code with a quiet zone, `size` mm square, at the given position */
+  qrCode(value: string, x: number, y: number, size: number): void;
+  /** Stamp page numbers on every page and return the jsPDF */
+  finish(): jsPDF;
+}
+
+// Vector logo mark: mountains and sun on a white tile
+function drawLogo(pdf: jsPDF, x: number, y: number, size: number) {
+  pdf.setFillColor(255, 255, 255);
+  pdf.roundedRect(x, y, size, size, 2, 2, "F");
+  pdf.setFillColor(...BRAND_COLOR);
+  pdf.triangle(
+    x + size * 0.12, y + size * 0.82,
+    x + size * 0.45, y + size * 0.3,
+    x + size * 0.78, y + size * 0.82,
+    "F"
+  );
+  pdf.setFillColor(76, 175, 140);
+  pdf.triangle(
+    x + size * 0.45, y + size * 0.82,
+    x + size * 0.68, y + size * 0.46,
+    x + size * 0.9, y + size * 0.82,
+    "F"
+  );
+  pdf.setFillColor(245, 179, 66);
+  pdf.circle(x + size * 0.74, y + size * 0.26, size * 0.1, "F");
+}
+
+export function createPdfDocument(options: PdfDocumentOptions): PdfDocument {
+  const pdf = new jsPDF(options.orientation === "landscape" ? "l" : "p", "mm", "a4");
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let subtitle = options.subtitle;
+  let headerRight = options.headerRight || [];
+
+  const drawHeader = (continued: boolean) => {
+    pdf.setFillColor(...BRAND_COLOR);
+    pdf.rect(0, 0, pageWidth, HEADER_HEIGHT, "F");
+    drawLogo(pdf, MARGIN, 5, 14);
+
+    pdf.setTextColor(255, 255, 255);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(16);
+    pdf.text(`${BRAND_NAME} ${options.title}`, MARGIN + 18, 11);
+    if (subtitle) {
+      pdf.setFont("helvetica", "normal");
+      pdf.setFontSize(11);
+      pdf.text(`${subtitle}${continued ? " (continued)" : ""}`, MARGIN + 18, 18);
+    }
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(10);
+    headerRight.slice(0, 2).forEach((line, index) => {
+      pdf.text(line, pageWidth - MARGIN, 11 + index * 7, { align: "right" });
+    });
+    pdf.setTextColor(...TEXT_COLOR);
+  };
+
+  const doc: PdfDocument = {
+    pdf,
+    margin: MARGIN,
+    pageWidth,
+    pageHeight,
+    contentWidth,
+    y: HEADER_HEIGHT + 8,
+
+    setHeader(nextSubtitle, nextHeaderRight) {
+      subtitle = nextSubtitle;
+      headerRight = nextHeaderRight || [];
+    },
+
+    newPage() {
+      pdf.addPage();
+      drawHeader(false);
+      doc.y = HEADER_HEIGHT + 8;
+    },
+
+    ensureSpace(height) {
+      if (doc.y + height <= pageHeight - MARGIN - FOOTER_SPACE) return false;
+      pdf.addPage();
+      drawHeader(true);
+      doc.y = HEADER_HEIGHT + 8;
+      return true;
+    },
+
+    heading(text) {
+      doc.ensureSpace(14);
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(12);
+      pdf.setTextColor(...BRAND_COLOR);
+      pdf.text(text, MARGIN, doc.y + 4);
+      pdf.setDrawColor(...BRAND_COLOR);
+      pdf.setLineWidth(0.4);
+      pdf.line(MARGIN, doc.y + 6, MARGIN + contentWidth, doc.y + 6);
+      pdf.setLineWidth(0.2);
+      pdf.setTextColor(...TEXT_COLOR);
+      doc.y += 11;
+    },
+
+    text(text, { size = 10, bold = false, color = TEXT_COLOR } = {}) {
+      pdf.setFont("helvetica", bold ? "bold" : "normal");
+      pdf.setFontSize(size);
+      const lines = pdf.splitTextToSize(text, contentWidth) as string[];
+      const lineHeight = size * 0.42;
+      lines.forEach((line) => {
+        doc.ensureSpace(lineHeight);
+        pdf.setFont("helvetica", bold ? "bold" : "normal");
+        pdf.setFontSize(size);
+        pdf.setTextColor(...color);
+        pdf.text(line, MARGIN, doc.y + lineHeight * 0.8);
+        doc.y += lineHeight;
+      });
+      pdf.setTextColor(...TEXT_COLOR);
+      doc.y += 2;
+    },
+
+    keyValues(pairs, columns = 2) {
+      const cellWidth = contentWidth / columns;
+      const filled = pairs.filter(([, value]) => value !== undefined && value !== "");
+
+      for (let start = 0; start < filled.length; start += columns) {
+        const row = filled.slice(start, start + columns);
+        pdf.setFont("helvetica", "bold");
+        pdf.setFontSize(10);
+        const valueLines = row.map(
+          ([, value]) => pdf.splitTextToSize(value as string, cellWidth - 4) as string[]
+        );
+        const height = 6 + Math.max(...valueLines.map((lines) => lines.length)) * LINE_HEIGHT + 3;
+        doc.ensureSpace(height);
+
+        row.forEach(([label], index) => {
+          const x = MARGIN + index * cellWidth;
+          pdf.setFont("helvetica", "normal");
+          pdf.setFontSize(8);
+          pdf.setTextColor(...MUTED_COLOR);
+          pdf.text(label.toUpperCase(), x, doc.y + 3);
+          pdf.setFont("helvetica", "bold");
+          pdf.setFontSize(10);
+          pdf.setTextColor(...TEXT_COLOR);
+          pdf.text(valueLines[index], x, doc.y + 8);
+        });
+        doc.y += height;
+      }
+      doc.y += 2;
+    },
+
+    table(columns, rows, { footer } = {}) {
+      const scale = contentWidth / columns.reduce((sum, column) => sum + column.width, 0);
+      const widths = columns.map((column) => column.width * scale);
+
+      const drawRow = (cells: string[], style: "header" | "body" | "footer") => {
+        const setRowFont = () => {
+          pdf.setFont("helvetica", style === "body" ? "normal" : "bold");
+          pdf.setFontSize(9);
+          pdf.setTextColor(...TEXT_COLOR);
+        };
+        setRowFont();
+        const lines = cells.map(
+          (cell, index) => pdf.splitTextToSize(cell, widths[index] - 2) as string[]
+        );
+        const height = Math.max(8, Math.max(...lines.map((l) => l.length)) * LINE_HEIGHT + 4);
+
+        if (style === "body") {
+          // Repeat the column headers at the top of every page
+          if (doc.ensureSpace(height)) drawRow(columns.map((column) => column.header), "header");
+        } else {
+          // Keep a header together with at least its first row
+          doc.ensureSpace(height + (style === "header" ? 8 : 0));
+        }
+        setRowFont();
+        if (style !== "body") {
+          pdf.setFillColor(...TABLE_HEADER_FILL);
+          pdf.rect(MARGIN, doc.y, contentWidth, height, "F");
+        }
+
+        let x = MARGIN;
+        pdf.setDrawColor(...BORDER_COLOR);
+        lines.forEach((cellLines, index) => {
+          pdf.rect(x, doc.y, widths[index], height, "S");
+          if (columns[index].align === "right") {
+            pdf.text(cellLines, x + widths[index] - 1, doc.y + 5, { align: "right" });
+          } else {
+            pdf.text(cellLines, x + 1, doc.y + 5);
+          }
+          x += widths[index];
+        });
+        doc.y += height;
+      };
+
+      drawRow(columns.map((column) => column.header), "header");
+      rows.forEach((row) => drawRow(row, "body"));
+      if (footer) drawRow(footer, "footer");
+      doc.y += 4;
+    },
+
+    qrCode(value, x, y, size) {
+      const matrix = createQrMatrix(value);
+      const quietZone = 4;
+      const moduleSize = size / (matrix.length + quietZone * 2);
+
+      pdf.setFillColor(255, 255, 255);
+      pdf.rect(x, y, size, size, "F");
+      pdf.setFillColor(0, 0, 0);
+      // One rectangle per horizontal run keeps the file small
+      matrix.forEach((row, rowIndex) => {
+        let runStart = -1;
+        row.concat(false).forEach((dark, colIndex) => {
+          if (dark && runStart < 0) runStart = colIndex;
+          if (!dark && runStart >= 0) {
+            pdf.rect(
+              x + (quietZone + runStart) * moduleSize,
+              y + (quietZone + rowIndex) * moduleSize,
+              (colIndex - runStart) * moduleSize,
+              moduleSize,
+              "F"
+            );
+            runStart = -1;
+          }
+        });
+      });
+    },
+
+    finish() {
+      const pageCount = pdf.getNumberOfPages();
+      for (let page = 1; page <= pageCount; page++) {
+        pdf.setPage(page);
+        pdf.setFont("helvetica", "normal");
+        pdf.setFontSize(8);
+        pdf.setTextColor(...MUTED_COLOR);
+        pdf.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 6, {
+          align: "center",
+        });
+      }
+      return pdf;
+    },
+  };
+
+  drawHeader(false);
+  return doc;
+}
@@ -0,0 +1,95 @@
+/**
+ * Admin roles and per-route permissions
+ *
+ * Shared by middleware (Edge runtime), route handlers and client navigation,
+ * so this module must stay free of Node-only imports.
+ *
+ * Access is resolved by the longest matching route prefix. Owners can reach
+ * everything; any route without a rule is owner-only.
+ */
+
+export type AdminRole = "owner" | "operations" | "content" | "finance";
+
+export const ADMIN_ROLES: AdminRole[] = ["owner", "operations", "content", "finance"];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  operations: "Operations",
+  content: "Content Editor",
+  finance: "Finance",
+};
+
+interface RouteRule {
+  path: string;
+  // Roles with full access to the route
+  roles: AdminRole[];
+  // Roles that may only read (GET/HEAD) the route
+  readOnlyRoles?: AdminRole[];
+}
+
+const ALL_ROLES = ADMIN_ROLES;
+
+const ROUTE_RULES: RouteRule[] = [
+  // Pages
+  { path: "/", roles: ALL_ROLES },
+  { path: "/bookings", roles: ["operations"] },
+  { path: "/users", roles: ["operations"] },
+  { path: "/tours", roles: ["content"] },
+  { path: "/transfers", roles: ["content"] },
+  { path: "/blogs", roles: ["content"] },
+  { path: "/revenue", roles: ["finance"] },
+  { path: "/recovery", roles: ["finance"] },
+  { path: "/promotions", roles: ["operations", "finance"] },
+  { path: "/holidays", roles: ["operations", "content"] },
+  { path: "/fleet", roles: ["operations"] },
+
+  // API routes
+  { path: "/api/auth", roles: ALL_ROLES },
+  { path: "/api/bookings", roles: ["operations"], readOnlyRoles: ["finance"] },
+  { path: "/api/customers", roles: ["operations"] },
+  { path: "/api/bookings/revenue", roles: ["finance"] },
+  { path: "/api/recovery", roles: ["finance"] },
+  { path: "/api/promotions", roles: ["operations"], readOnlyRoles: ["finance"] },
+  { path: "/api/holidays", roles: ["operations", "content"], readOnlyRoles: ["finance"] },
+  { path: "/api/timeslots", roles: ["operations"] },
+  // Closure rules are also managed from the tour and transfer lists
+  { path: "/api/timeslots/closures", roles: ["operations", "content"] },
+  { path: "/api/tours", roles: ["content"], readOnlyRoles: ["operations", "finance"] },
+  { path: "/api/transfers", roles: ["content"], readOnlyRoles: ["operations", "finance"] },
+  { path: "/api/vehicles", roles: ["content"], readOnlyRoles: ["operations"] },
+  { path: "/api/fleet", roles: ["operations"] },
+];
+
+function matchesPath(rulePath: string, pathname: string): boolean {
+  if (rulePath === "/") return pathname === "/";
+  return pathname === rulePath || pathname.startsWith(`${rulePath}/`);
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as string[]).includes(value);
+}
+
+/**
+ * Check whether a role may access a page or API route
+ * @param role - Role of the signed-in admin
+ * @param pathname - Request path, e.g. "/bookings/123" or "/api/timeslots"
+ * @param method - HTTP method (defaults to GET for page navigation)
+ * @returns true if access is allowed
+ */
+export function canAccess(
+  role: AdminRole,
+  pathname: string,
+  method: string = "GET"
+): boolean {
+  if (role === "owner") return true;
+
+  const rule = ROUTE_RULES.filter((r) => matchesPath(r.path, pathname)).sort(
+    (a, b) => b.path.length - a.path.length
+  )[0];
+  if (!rule) return false;
+
+  if (rule.roles.includes(role)) return true;
+
+  const isReadOnlyMethod = method === "GET" || method === "HEAD";
+  return isReadOnlyMethod && !!rule.readOnlyRoles?.includes(role);
+}
@@ -0,0 +1,342 @@
+/**
+ * Seasonal and dynamic pricing rules for tours and transfers
+ *
+ * A package keeps its base `newPrice`/`childPrice`; rules stored on the
+ * package as `pricingRules` adjust those prices for a booking. Every rule
+ * that matches applies: percentages are taken from the base price and added
+ * up with fixed amounts, so the order of the rules never changes the result.
+ * Positive adjustments are surcharges, negative ones discounts. For private
+ * tours the adjustment applies to the per-vehicle price.
+ */
+import { calculateBookingTotal, PricedPackage } from "@/lib/bookingSchedule";
+import { formatDateAsMYT } from "@/lib/dateUtils";
+
+export const PRICING_RULE_TYPES = [
+  "date-range",
+  "day-of-week",
+  "group-size",
+  "early-bird",
+  "public-holiday",
+] as const;
+
+export type PricingRuleType = (typeof PRICING_RULE_TYPES)[number];
+
+export const PRICING_RULE_TYPE_LABELS: Record<PricingRuleType, string> = {
+  "date-range": "Date range",
+  "day-of-week": "Day of week",
+  "group-size": "Group size",
+  "early-bird": "Early bird",
+  "public-holiday": "Public holiday",
+};
+
+export type PricingAdjustmentType = "percent" | "amount";
+
+export const DAY_OF_WEEK_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface PricingRule {
+  id: string;
+  type: PricingRuleType;
+  /** Shown to admins and in the price breakdown, e.g. "School holidays" */
+  label: string;
+  enabled: boolean;
+  adjustmentType: PricingAdjustmentType;
+  /** Percent or RM per person (per vehicle for private tours) */
+  adjustment: number;
+  /** date-range: inclusive YYYY-MM-DD bounds */
+  startDate?: string;
+  endDate?: string;
+  /** day-of-week: 0 = Sunday */
+  daysOfWeek?: number[];
+  /** group-size: total guests, either bound optional */
+  minGuests?: number;
+  maxGuests?: number;
+  /** early-bird: booked at least this many days before the travel date */
+  minDaysAhead?: number;
+}
+
+export interface RuleBasedPackage extends PricedPackage {
+  pricingRules?: PricingRule[];
+}
+
+export interface PricingContext {
+  /** Travel date, YYYY-MM-DD */
+  date: string;
+  adults: number;
+  children: number;
+  /** When the booking is made; defaults to now */
+  bookedOn?: Date;
+  /** Holiday calendar dates, YYYY-MM-DD; public-holiday rules never match without it */
+  holidays?: string[];
+}
+
+export interface PriceAdjustment {
+  ruleId: string;
+  label: string;
+  adultDelta: number;
+  childDelta: number;
+}
+
+export interface ResolvedPrice {
+  baseAdultPrice: number;
+  baseChildPrice: number;
+  adultPrice: number;
+  childPrice: number;
+  adjustments: PriceAdjustment[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Calendar dates are compared as UTC midnights so the server's timezone
+// never shifts a travel date onto another weekday
+function toUtcDay(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+export function createPricingRule(type: PricingRuleType): PricingRule {
+  return {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    label: "",
+    enabled: true,
+    adjustmentType: "percent",
+    adjustment: type === "early-bird" ? -10 : 10,
+    ...(type === "day-of-week" ? { daysOfWeek: [0, 6] } : {}),
+    ...(type === "group-size" ? { minGuests: 10 } : {}),
+    ...(type === "early-bird" ? { minDaysAhead: 30 } : {}),
+  };
+}
+
+/**
+ * Check a rule's settings
+ * @returns An error message, or null if the rule is usable
+ */
+export function validatePricingRule(rule: PricingRule): string | null {
+  const name = rule.label.trim() || PRICING_RULE_TYPE_LABELS[rule.type];
+  if (!rule.label.trim()) return `${name} rule needs a name`;
+  if (!Number.isFinite(rule.adjustment) || rule.adjustment === 0) {
+    return `${name}: enter a non-zero adjustment`;
+  }
+  if (rule.adjustmentType === "percent" && rule.adjustment <= -100) {
+    return `${name}: a discount must be less than 100%`;
+  }
+
+  switch (rule.type) {
+    case "date-range":
+      if (!DATE_PATTERN.test(rule.startDate || "") || !DATE_PATTERN.test(rule.endDate || "")) {
+        return `${name}: choose a start and end date`;
+      }
+      if ((rule.startDate as string) > (rule.endDate as string)) {
+        return `${name}: the end date is before the start date`;
+      }
+      return null;
+    case "day-of-week":
+      return rule.daysOfWeek?.length ? null : `${name}: choose at least one day`;
+    case "group-size":
+      if (rule.minGuests === undefined && rule.maxGuests === undefined) {
+        return `${name}: set a minimum or maximum group size`;
+      }
+      if (
+        rule.minGuests !== undefined &&
+        rule.maxGuests !== undefined &&
+        rule.minGuests > rule.maxGuests
+      ) {
+        return `${name}: the minimum group size is above the maximum`;
+      }
+      return null;
+    case "early-bird":
+      return rule.minDaysAhead && rule.minDaysAhead > 0
+        ? null
+        : `${name}: set how many days ahead the booking must be made`;
+    case "public-holiday":
+      return null;
+  }
+}
+
+/** First problem across a package's rules, or null if all are usable */
+export function getPricingRulesError(rules: PricingRule[]): string | null {
+  for (const rule of rules) {
+    const error = validatePricingRule(rule);
+    if (error) return error;
+  }
+  return null;
+}
+
+function ruleMatches(rule: PricingRule, context: PricingContext): boolean {
+  if (!rule.enabled || !DATE_PATTERN.test(context.date)) return false;
+
+  switch (rule.type) {
+    case "date-range":
+      return (
+        !!rule.startDate &&
+        !!rule.endDate &&
+        context.date >= rule.startDate &&
+        context.date <= rule.endDate
+      );
+    case "day-of-week":
+      return !!rule.daysOfWeek?.includes(new Date(toUtcDay(context.date)).getUTCDay());
+    case "group-size": {
+      const guests = context.adults + context.children;
+      return (
+        (rule.minGuests === undefined || guests >= rule.minGuests) &&
+        (rule.maxGuests === undefined || guests <= rule.maxGuests)
+      );
+    }
+    case "early-bird": {
+      const bookedOn = formatDateAsMYT(context.bookedOn || new Date());
+      const daysAhead = (toUtcDay(context.date) - toUtcDay(bookedOn)) / DAY_MS;
+      return !!rule.minDaysAhead && daysAhead >= rule.minDaysAhead;
+    }
+    case "public-holiday":
+      return !!context.holidays?.includes(context.date);
+  }
+}
+
+function adjustmentFor(rule: PricingRule, basePrice: number) {
+  return rule.adjustmentType === "percent"
+    ? roundMoney((basePrice * rule.adjustment) / 100)
+    : rule.adjustment;
+}
+
+/**
+ * Adult and child prices for a booking after the package's pricing rules
+ * @returns Base and final prices with one entry per rule that applied
+ */
+export function resolvePackagePrice(
+  pkg: RuleBasedPackage,
+  context: PricingContext
+): ResolvedPrice {
+  const baseAdultPrice = pkg.newPrice;
+  const baseChildPrice = pkg.childPrice || 0;
+
+  const adjustments = (pkg.pricingRules || [])
+    .filter((rule) => ruleMatches(rule, context))
+    .map((rule) => ({
+      ruleId: rule.id,
+      label: rule.label,
+      adultDelta: adjustmentFor(rule, baseAdultPrice),
+      // A child price of 0 means children travel free; keep it that way
+      childDelta: baseChildPrice > 0 ? adjustmentFor(rule, baseChildPrice) : 0,
+    }));
+
+  const total = (base: number, key: "adultDelta" | "childDelta") =>
+    Math.max(0, roundMoney(adjustments.reduce((sum, adjustment) => sum + adjustment[key], base)));
+
+  return {
+    baseAdultPrice,
+    baseChildPrice,
+    adultPrice: total(baseAdultPrice, "adultDelta"),
+    childPrice: total(baseChildPrice, "childDelta"),
+    adjustments,
+  };
+}
+
+/** The package with its prices replaced by the resolved ones */
+export function applyResolvedPrice<T extends PricedPackage>(pkg: T, price: ResolvedPrice): T {
+  return { ...pkg, newPrice: price.adultPrice, childPrice: price.childPrice };
+}
+
+export interface PriceBreakdownLine {
+  label: string;
+  amount: number;
+  /** "base" for guests at base prices, "rule" for a pricing rule adjustment */
+  kind: "base" | "rule";
+}
+
+export interface PriceBreakdown {
+  price: ResolvedPrice;
+  /** Base price lines followed by one line per applied rule */
+  lines: PriceBreakdownLine[];
+  total: number;
+}
+
+function formatAdjustment(amount: number) {
+  return `${amount < 0 ? "-" : "+"}RM ${Math.abs(amount).toLocaleString()}`;
+}
+
+/**
+ * Booking total with pricing rules applied, itemised for display
+ * @param packageType - "tour" or "transfer"; private tours are priced per vehicle
+ */
+export function getPriceBreakdown(
+  packageType: "tour" | "transfer",
+  pkg: RuleBasedPackage,
+  context: PricingContext
+): PriceBreakdown {
+  const price = resolvePackagePrice(pkg, context);
+  const isPerVehicle = packageType === "tour" && pkg.type === "private";
+  const adultUnits = isPerVehicle ? Math.ceil(context.adults / 8) : context.adults;
+  const childUnits = isPerVehicle ? 0 : context.children;
+
+  const lines: PriceBreakdownLine[] = [
+    {
+      label: isPerVehicle
+        ? `Vehicles (${adultUnits}x RM ${price.baseAdultPrice.toLocaleString()})`
+        : `Adults (${adultUnits}x RM ${price.baseAdultPrice.toLocaleString()})`,
+      amount: roundMoney(adultUnits * price.baseAdultPrice),
+      kind: "base",
+    },
+  ];
+  if (childUnits > 0 && price.baseChildPrice > 0) {
+    lines.push({
+      label: `Children (${childUnits}x RM ${price.baseChildPrice.toLocaleString()})`,
+      amount: roundMoney(childUnits * price.baseChildPrice),
+      kind: "base",
+    });
+  }
+  price.adjustments.forEach((adjustment) => {
+    const perUnit = [
+      `${formatAdjustment(adjustment.adultDelta)}/${isPerVehicle ? "vehicle" : "adult"}`,
+      childUnits > 0 && adjustment.childDelta !== 0
+        ? `${formatAdjustment(adjustment.childDelta)}/child`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(", ");
+    lines.push({
+      label: `${adjustment.label} (${perUnit})`,
+      amount: roundMoney(adjustment.adultDelta * adultUnits + adjustment.childDelta * childUnits),
+      kind: "rule",
+    });
+  });
+
+  return {
+    price,
+    lines,
+    total: calculateBookingTotal(
+      packageType,
+      applyResolvedPrice(pkg, price),
+      context.adults,
+      context.children
+    ),
+  };
+}
+
+/** One-line summary of a rule, e.g. "+20% from 2026-12-01 to 2026-12-31" */
+export function describePricingRule(rule: PricingRule): string {
+  const sign = rule.adjustment > 0 ? "+" : "-";
+  const amount = Math.abs(rule.adjustment);
+  const adjustment =
+    rule.adjustmentType === "percent" ? `${sign}${amount}%` : `${sign}RM ${amount}`;
+
+  switch (rule.type) {
+    case "date-range":
+      return `${adjustment} from ${rule.startDate || "?"} to ${rule.endDate || "?"}`;
+    case "day-of-week":
+      return `${adjustment} on ${(rule.daysOfWeek || [])
+        .map((day) => DAY_OF_WEEK_LABELS[day])
+        .join(", ")}`;
+    case "group-size":
+      if (rule.maxGuests === undefined) return `${adjustment} for ${rule.minGuests}+ guests`;
+      return `${adjustment} for ${rule.minGuests ?? 1}-${rule.maxGuests} guests`;
+    case "early-bird":
+      return `${adjustment} when booked ${rule.minDaysAhead}+ days ahead`;
+    case "public-holiday":
+      return `${adjustment} on public holidays`;
+  }
+}
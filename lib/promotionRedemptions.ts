@@ -0,0 +1,295 @@
+/**
+ * Checking and redeeming promo codes (server only)
+ *
+ * A code is checked when an admin applies it to a booking, and POST
+ * /api/bookings reserves it before the booking is created. Reserving re-checks
+ * everything and claims a use with a conditional increment of `usedCount`, so
+ * two bookings racing for the last use of a code cannot both get it. The
+ * per-customer limit is claimed the same way: each of a customer's uses takes
+ * one numbered slot, unique per promotion and email. A reservation is released
+ * if the booking cannot be created, and a redemption when its booking is
+ * cancelled.
+ */
+import { isValidObjectId, Types } from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import {
+  calculatePromoDiscount,
+  getPromotionIneligibility,
+  normalizePromoCode,
+  PROMOTION_PACKAGE_TYPES,
+  PromotionContext,
+  PromotionInput,
+  PromotionPackageType,
+  PromotionUsage,
+} from "@/lib/promotions";
+import Promotion, { IPromotion } from "@/models/Promotion";
+import PromotionRedemption from "@/models/PromotionRedemption";
+
+export interface PromotionCheck extends PromotionContext {
+  code: string;
+  subtotal: number;
+  customerEmail?: string;
+}
+
+export type PromotionCheckResult =
+  | { ok: true; promotion: IPromotion & { _id: unknown }; discount: number }
+  | { ok: false; error: string; status: number };
+
+export interface ReservationRequest extends PromotionCheck {
+  customerEmail: string;
+}
+
+export type PromotionReservationResult =
+  | {
+      ok: true;
+      promotion: IPromotion & { _id: unknown };
+      discount: number;
+      /** Pass to attachRedemption or releaseReservation */
+      redemptionId: string;
+    }
+  | { ok: false; error: string; status: number };
+
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === "" ? undefined : Number(value);
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/** Promotion fields from a create/update request body */
+export function parsePromotionInput(body: Record<string, unknown>): PromotionInput {
+  return {
+    code: normalizePromoCode(typeof body.code === "string" ? body.code : ""),
+    description: optionalString(body.description),
+    discountType: body.discountType as PromotionInput["discountType"],
+    discountValue: Number(body.discountValue),
+    maxDiscount: body.discountType === "percent" ? optionalNumber(body.maxDiscount) : undefined,
+    startsOn: optionalString(body.startsOn),
+    endsOn: optionalString(body.endsOn),
+    usageLimit: optionalNumber(body.usageLimit),
+    perCustomerLimit: optionalNumber(body.perCustomerLimit),
+    packageTypes: Array.isArray(body.packageTypes) ? body.packageTypes : [],
+    packageIds: Array.isArray(body.packageIds)
+      ? body.packageIds.filter((id): id is string => typeof id === "string")
+      : [],
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive),
+  };
+}
+
+export function isPromotionPackageType(value: unknown): value is PromotionPackageType {
+  return PROMOTION_PACKAGE_TYPES.includes(value as PromotionPackageType);
+}
+
+/**
+ * Whether a code can be applied to a booking, and the discount it gives
+ */
+export async function checkPromotion(check: PromotionCheck): Promise<PromotionCheckResult> {
+  await dbConnect();
+  const promotion = await Promotion.findOne({ code: normalizePromoCode(check.code) }).lean();
+  if (!promotion) return { ok: false, error: "Unknown promo code", status: 404 };
+
+  const reason = getPromotionIneligibility(promotion, check);
+  if (reason) return { ok: false, error: reason, status: 409 };
+
+  if (promotion.perCustomerLimit !== undefined && check.customerEmail) {
+    const used = await PromotionRedemption.countDocuments({
+      promotionId: promotion._id,
+      customerEmail: check.customerEmail.trim().toLowerCase(),
+    });
+    if (used >= promotion.perCustomerLimit) {
+      return { ok: false, error: "This customer has already used this code", status: 409 };
+    }
+  }
+
+  return { ok: true, promotion, discount: calculatePromoDiscount(promotion, check.subtotal) };
+}
+
+const isDuplicateKey = (error: unknown, field: string) => {
+  const mongoError = error as { code?: number; keyPattern?: Record<string, unknown> };
+  return mongoError?.code === 11000 && Boolean(mongoError.keyPattern?.[field]);
+};
+
+async function releaseUse(promotionId: unknown) {
+  await Promotion.updateOne({ _id: promotionId }, { $inc: { usedCount: -1 } });
+}
+
+/**
+ * Claim one use of a code for a booking that is about to be created
+ * @param redeemedBy - Admin making the booking
+ */
+export async function reservePromotion(
+  reservation: ReservationRequest,
+  redeemedBy: string
+): Promise<PromotionReservationResult> {
+  const customerEmail = reservation.customerEmail.trim().toLowerCase();
+  const check = await checkPromotion({ ...reservation, customerEmail });
+  if (!check.ok) return check;
+
+  const { promotion, discount } = check;
+  // Claim a use only while the limit still allows it
+  const claimed = await Promotion.findOneAndUpdate(
+    {
+      _id: promotion._id,
+      ...(promotion.usageLimit !== undefined ? { usedCount: { $lt: promotion.usageLimit } } : {}),
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true }
+  ).lean();
+  if (!claimed) return { ok: false, error: "This code has been fully redeemed", status: 409 };
+
+  const redemption = {
+    promotionId: promotion._id,
+    code: promotion.code,
+    customerEmail,
+    packageType: reservation.packageType,
+    packageId: reservation.packageId,
+    subtotal: reservation.subtotal,
+    discount,
+    total: Math.round((reservation.subtotal - discount) * 100) / 100,
+    redeemedBy,
+  };
+
+  try {
+    if (promotion.perCustomerLimit === undefined) {
+      const created = await PromotionRedemption.create(redemption);
+      return { ok: true, promotion: claimed, discount, redemptionId: String(created._id) };
+    }
+
+    // Slots 1..perCustomerLimit are unique per customer, so concurrent
+    // bookings cannot both take the last one
+    for (let slot = 1; slot <= promotion.perCustomerLimit; slot++) {
+      try {
+        const created = await PromotionRedemption.create({ ...redemption, customerSlot: slot });
+        return { ok: true, promotion: claimed, discount, redemptionId: String(created._id) };
+      } catch (error) {
+        if (!isDuplicateKey(error, "customerSlot")) throw error;
+      }
+    }
+  } catch (error) {
+    await releaseUse(promotion._id);
+    throw error;
+  }
+
+  await releaseUse(promotion._id);
+  return { ok: false, error: "This customer has already used this code", status: 409 };
+}
+
+/**
+ * Link a reservation to the booking it was made for
+ *
+ * Runs after the booking exists, so a failure is logged rather than thrown.
+ */
+export async function attachRedemption(redemptionId: string, bookingId: string) {
+  try {
+    await dbConnect();
+    await PromotionRedemption.updateOne({ _id: redemptionId }, { $set: { bookingId } });
+  } catch (error) {
+    console.error("Error attaching promo code redemption:", error);
+  }
+}
+
+/** Give back a reserved use when its booking could not be created */
+export async function releaseReservation(redemptionId: string) {
+  await dbConnect();
+  const redemption = await PromotionRedemption.findByIdAndDelete(redemptionId).lean();
+  if (redemption) await releaseUse(redemption.promotionId);
+}
+
+/**
+ * Give back the code a cancelled or deleted booking used, if any
+ *
+ * Runs after the booking has changed, so a failure is logged rather than thrown.
+ * @returns The released code
+ */
+export async function releaseBookingRedemption(bookingId: string): Promise<string | null> {
+  try {
+    await dbConnect();
+    const redemption = await PromotionRedemption.findOneAndDelete({ bookingId }).lean();
+    if (!redemption) return null;
+
+    await releaseUse(redemption.promotionId);
+    return redemption.code;
+  } catch (error) {
+    console.error("Error releasing promo code redemption:", error);
+    return null;
+  }
+}
+
+/**
+ * Recompute a booking's promo discount from its promotion's terms, for a
+ * changed subtotal
+ * @returns The discount, or null if the booking has no redemption or its
+ *   promotion no longer exists
+ */
+export async function getRedemptionDiscount(
+  bookingId: string,
+  subtotal: number
+): Promise<number | null> {
+  await dbConnect();
+  const redemption = await PromotionRedemption.findOne({ bookingId }).lean();
+  if (!redemption) return null;
+
+  const promotion = await Promotion.findById(redemption.promotionId).lean();
+  return promotion ? calculatePromoDiscount(promotion, subtotal) : null;
+}
+
+/**
+ * Store a rescheduled booking's new amounts on its redemption, so promotion
+ * usage reports what the booking is now worth
+ *
+ * Runs after the booking has changed, so a failure is logged rather than thrown.
+ */
+export async function updateBookingRedemption(
+  bookingId: string,
+  amounts: { subtotal: number; discount: number }
+) {
+  try {
+    await dbConnect();
+    await PromotionRedemption.updateOne(
+      { bookingId },
+      {
+        $set: {
+          ...amounts,
+          total: Math.round((amounts.subtotal - amounts.discount) * 100) / 100,
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error updating promo code redemption:", error);
+  }
+}
+
+/** Bookings, booking revenue and discount given per promotion ID */
+export async function getPromotionUsage(
+  promotionIds: string[]
+): Promise<Record<string, PromotionUsage>> {
+  const ids = promotionIds.filter((id) => isValidObjectId(id));
+  if (ids.length === 0) return {};
+
+  await dbConnect();
+  const rows = await PromotionRedemption.aggregate<{
+    _id: unknown;
+    bookings: number;
+    revenue: number;
+    discount: number;
+  }>([
+    // Reservations whose booking was never created are left out
+    {
+      $match: {
+        promotionId: { $in: ids.map((id) => new Types.ObjectId(id)) },
+        bookingId: { $exists: true },
+      },
+    },
+    {
+      $group: {
+        _id: "$promotionId",
+        bookings: { $sum: 1 },
+        revenue: { $sum: "$total" },
+        discount: { $sum: "$discount" },
+      },
+    },
+  ]);
+
+  return Object.fromEntries(
+    rows.map(({ _id, ...usage }) => [String(_id), usage])
+  );
+}
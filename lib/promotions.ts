@@ -0,0 +1,166 @@
+/**
+ * Promo codes and vouchers
+ *
+ * A promotion discounts a booking's subtotal (after pricing rules) by a
+ * percentage, optionally capped, or by a fixed amount. Codes are matched
+ * case-insensitively and stored upper case. Validity windows are calendar
+ * dates in Malaysian time and refer to when the code is used, not the travel
+ * date. Empty package/package-type lists mean the code applies everywhere.
+ */
+import { formatDateAsMYT } from "@/lib/dateUtils";
+
+export const DISCOUNT_TYPES = ["percent", "fixed"] as const;
+
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+export const PROMOTION_PACKAGE_TYPES = ["tour", "transfer"] as const;
+
+export type PromotionPackageType = (typeof PROMOTION_PACKAGE_TYPES)[number];
+
+/** Fields an admin sets on a promotion */
+export interface PromotionInput {
+  code: string;
+  description?: string;
+  discountType: DiscountType;
+  discountValue: number;
+  /** Cap for percentage discounts, in RM */
+  maxDiscount?: number;
+  /** First and last day the code can be used, YYYY-MM-DD */
+  startsOn?: string;
+  endsOn?: string;
+  /** Total redemptions allowed across all customers */
+  usageLimit?: number;
+  /** Redemptions allowed per customer email */
+  perCustomerLimit?: number;
+  packageTypes: PromotionPackageType[];
+  packageIds: string[];
+  isActive: boolean;
+}
+
+/** A promotion as returned by /api/promotions, with its usage */
+export interface PromotionRecord extends PromotionInput {
+  _id: string;
+  usedCount: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  usage?: PromotionUsage;
+}
+
+export interface PromotionUsage {
+  bookings: number;
+  revenue: number;
+  discount: number;
+}
+
+/** Where a code is being applied */
+export interface PromotionContext {
+  packageType: PromotionPackageType;
+  packageId: string;
+  /** Defaults to now */
+  on?: Date;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CODE_PATTERN = /^[A-Z0-9_-]{3,30}$/;
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check promotion settings from the create/edit form
+ * @returns An error message, or null if the promotion can be saved
+ */
+export function validatePromotionInput(input: PromotionInput): string | null {
+  if (!CODE_PATTERN.test(input.code)) {
+    return "Code must be 3-30 letters, numbers, dashes or underscores";
+  }
+  if (!DISCOUNT_TYPES.includes(input.discountType)) return "Invalid discount type";
+  if (!Number.isFinite(input.discountValue) || input.discountValue <= 0) {
+    return "Discount must be greater than 0";
+  }
+  if (input.discountType === "percent" && input.discountValue > 100) {
+    return "A percentage discount cannot exceed 100%";
+  }
+  if (input.maxDiscount !== undefined && !(input.maxDiscount > 0)) {
+    return "Maximum discount must be greater than 0";
+  }
+  if (
+    (input.startsOn && !DATE_PATTERN.test(input.startsOn)) ||
+    (input.endsOn && !DATE_PATTERN.test(input.endsOn))
+  ) {
+    return "Dates must be YYYY-MM-DD";
+  }
+  if (input.startsOn && input.endsOn && input.startsOn > input.endsOn) {
+    return "The end date is before the start date";
+  }
+  for (const limit of [input.usageLimit, input.perCustomerLimit]) {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return "Usage limits must be whole numbers of at least 1";
+    }
+  }
+  if (input.packageTypes.some((type) => !PROMOTION_PACKAGE_TYPES.includes(type))) {
+    return "Invalid package type";
+  }
+  return null;
+}
+
+/**
+ * Why a promotion cannot be used here, ignoring per-customer limits which
+ * need the redemption history
+ * @returns A customer-facing reason, or null if the code applies
+ */
+export function getPromotionIneligibility(
+  promotion: Pick<
+    PromotionRecord,
+    "isActive" | "startsOn" | "endsOn" | "usageLimit" | "usedCount" | "packageTypes" | "packageIds"
+  >,
+  context: PromotionContext
+): string | null {
+  const today = formatDateAsMYT(context.on || new Date());
+
+  if (!promotion.isActive) return "This code is no longer active";
+  if (promotion.startsOn && today < promotion.startsOn) return "This code is not valid yet";
+  if (promotion.endsOn && today > promotion.endsOn) return "This code has expired";
+  if (promotion.usageLimit !== undefined && promotion.usedCount >= promotion.usageLimit) {
+    return "This code has been fully redeemed";
+  }
+  if (
+    promotion.packageTypes.length > 0 &&
+    !promotion.packageTypes.includes(context.packageType)
+  ) {
+    return `This code is not valid for ${context.packageType}s`;
+  }
+  if (promotion.packageIds.length > 0 && !promotion.packageIds.includes(context.packageId)) {
+    return "This code is not valid for this package";
+  }
+  return null;
+}
+
+/** Discount in RM on a subtotal, never more than the subtotal itself */
+export function calculatePromoDiscount(
+  promotion: Pick<PromotionInput, "discountType" | "discountValue" | "maxDiscount">,
+  subtotal: number
+): number {
+  let discount =
+    promotion.discountType === "percent"
+      ? (subtotal * promotion.discountValue) / 100
+      : promotion.discountValue;
+  if (promotion.maxDiscount !== undefined) discount = Math.min(discount, promotion.maxDiscount);
+  return roundMoney(Math.max(0, Math.min(discount, subtotal)));
+}
+
+/** e.g. "10% off (max RM 50)" or "RM 20 off" */
+export function describePromotionDiscount(
+  promotion: Pick<PromotionInput, "discountType" | "discountValue" | "maxDiscount">
+): string {
+  if (promotion.discountType === "fixed") return `RM ${promotion.discountValue} off`;
+  return promotion.maxDiscount !== undefined
+    ? `${promotion.discountValue}% off (max RM ${promotion.maxDiscount})`
+    : `${promotion.discountValue}% off`;
+}
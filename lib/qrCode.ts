@@ -0,0 +1,338 @@
+/**
+ * Minimal QR code encoder
+ *
+ * Byte mode, error correction level M, versions 1-10 (up to 213 bytes),
+ * which is plenty for booking IDs and short URLs. Returns the module matrix
+ * so callers can draw it with whatever primitives they have (jsPDF
+ * rectangles, SVG, canvas).
+ *
+ * Follows ISO/IEC 18004; the structure mirrors Project Nayuki's reference
+ * implementation.
+ */
+
+// Per version (index 0 = version 1), error correction level M
+const ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const TOTAL_CODEWORDS = [26, 44, 70, 100, 134, 172, 196, 242, 292, 346];
+const ALIGNMENT_POSITIONS = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+const MAX_VERSION = 10;
+// Format bits for level M
+const ECC_FORMAT_BITS = 0;
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function getBit(value: number, index: number) {
+  return ((value >>> index) & 1) !== 0;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function getReedSolomonDivisor(degree: number): number[] {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const capacity =
+    TOTAL_CODEWORDS[version - 1] -
+    ECC_CODEWORDS_PER_BLOCK[version - 1] * NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+// Split into blocks, add error correction and interleave
+function addErrorCorrection(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version - 1];
+  const total = TOTAL_CODEWORDS[version - 1];
+  const numShortBlocks = numBlocks - (total % numBlocks);
+  const shortBlockLength = Math.floor(total / numBlocks);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = getReedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so every block has the same shape
+    if (i < numShortBlocks) blockData.push(-1);
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  // Runs of five or more same-coloured modules, and finder-like patterns
+  const scanLine = (get: (i: number) => boolean) => {
+    let runLength = 0;
+    let previous: boolean | null = null;
+    for (let i = 0; i < size; i++) {
+      const current = get(i);
+      if (current === previous) {
+        runLength++;
+        if (runLength === 5) penalty += 3;
+        else if (runLength > 5) penalty++;
+      } else {
+        previous = current;
+        runLength = 1;
+      }
+
+      if (i >= 6) {
+        const pattern = [1, 0, 1, 1, 1, 0, 1].every(
+          (dark, k) => get(i - 6 + k) === (dark === 1)
+        );
+        const lightBefore = i < 10 || [7, 8, 9, 10].every((k) => !get(i - k));
+        const lightAfter = i + 4 >= size || [1, 2, 3, 4].every((k) => !get(i + k));
+        if (pattern && (lightBefore || lightAfter)) penalty += 40;
+      }
+    }
+  };
+
+  for (let y = 0; y < size; y++) scanLine((x) => modules[y][x]);
+  for (let x = 0; x < size; x++) scanLine((y) => modules[y][x]);
+
+  // 2x2 blocks of one colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (
+        color === modules[y][x + 1] &&
+        color === modules[y + 1][x] &&
+        color === modules[y + 1][x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += Math.ceil(Math.abs(dark * 20 - total * 10) / total - 1) * 10;
+
+  return penalty;
+}
+
+/**
+ * Encode text as a QR code
+ * @param text - Encoded as UTF-8 bytes
+ * @param mask - Force a mask pattern (0-7) instead of picking the best one
+ * @returns Square matrix of modules, true = dark, without the quiet zone
+ * @throws Error if the text does not fit in a version 10 code
+ */
+export function createQrMatrix(text: string, mask?: number): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const capacity =
+      TOTAL_CODEWORDS[version - 1] -
+      ECC_CODEWORDS_PER_BLOCK[version - 1] * NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+    if (4 + (version < 10 ? 8 : 16) + bytes.length * 8 <= capacity * 8) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error("Text is too long for a QR code");
+  }
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap a finder
+  const positions = ALIGNMENT_POSITIONS[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  const drawFormatBits = (maskPattern: number) => {
+    const data = (ECC_FORMAT_BITS << 3) | maskPattern;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i));
+    setFunction(8, 7, getBit(bits, 6));
+    setFunction(8, 8, getBit(bits, 7));
+    setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+
+  // Reserve the format areas before placing data
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Data in two-module columns, zig-zagging up and down from the right
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (maskPattern: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[maskPattern](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let chosenMask = mask;
+  if (chosenMask === undefined) {
+    let lowestPenalty = Infinity;
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      applyMask(candidate);
+      drawFormatBits(candidate);
+      const penalty = getPenaltyScore(modules);
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty;
+        chosenMask = candidate;
+      }
+      // Masks are XOR, so applying again undoes it
+      applyMask(candidate);
+    }
+  }
+
+  applyMask(chosenMask as number);
+  drawFormatBits(chosenMask as number);
+  return modules;
+}
@@ -1,4 +1,8 @@
 // Payment Recovery API Client
+import type { RefundMethod, RefundRecord } from "@/lib/refunds";
+import type { IRecoveryAttempt, RecoveryMode } from "@/models/RecoveryAttempt";
+import type { IRecoveryScan } from "@/models/RecoveryScan";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
 export interface OrphanedPayment {
@@ -90,6 +94,40 @@ export interface BatchRecoveryResult {
   }>;
 }
 
+export interface CreateRefundInput {
+  bookingId: string;
+  amount: number;
+  method: RefundMethod;
+  reason: string;
+  reference?: string;
+  paymentIntentId?: string;
+  // Manual refunds only: record as already paid out or still to be paid
+  status?: "requested" | "processed";
+}
+
+// Stored result of a scheduled or manual scan (dates arrive as ISO strings)
+export interface RecoveryScanRecord
+  extends Omit<IRecoveryScan, "startedAt" | "finishedAt"> {
+  _id: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// Stored single, batch or automatic recovery attempt
+export interface RecoveryAttemptRecord
+  extends Omit<IRecoveryAttempt, "createdAt" | "paymentDetails"> {
+  _id: string;
+  createdAt: string;
+  paymentDetails?: PaymentDetails | null;
+}
+
+export interface RecoveryAttemptQuery {
+  search?: string;
+  outcome?: "success" | "failed";
+  mode?: RecoveryMode;
+  page?: number;
+}
+
 export const recoveryApi = {
   // Scan for orphaned payments
   scanOrphanedPayments: async (hours: number = 24, limit: number = 50): Promise<ScanResult> => {
@@ -112,7 +150,7 @@ export const recoveryApi = {
   // Recover a single payment
   recoverPayment: async (paymentIntentId: string): Promise<RecoveryResult> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/recovery/recover-payment`, {
+      const response = await fetch(`/api/recovery/recover-payment`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -151,7 +189,7 @@ export const recoveryApi = {
   // Batch recover multiple payments
   batchRecover: async (paymentIntentIds: string[]): Promise<BatchRecoveryResult> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/recovery/batch-recover`, {
+      const response = await fetch(`/api/recovery/batch-recover`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -170,6 +208,109 @@ export const recoveryApi = {
     }
   },
 
+  // Get refunds recorded for the given bookings
+  getRefunds: async (bookingIds: string[]): Promise<RefundRecord[]> => {
+    try {
+      const response = await fetch(
+        `/api/recovery/refunds?bookingIds=${encodeURIComponent(bookingIds.join(","))}`
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      return data.refunds;
+    } catch (error) {
+      console.error("Error getting refunds:", error);
+      throw error;
+    }
+  },
+
+  // Issue a Stripe refund or record a manual one
+  createRefund: async (input: CreateRefundInput): Promise<RefundRecord> => {
+    try {
+      const response = await fetch(`/api/recovery/refunds`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      return data.refund;
+    } catch (error) {
+      console.error("Error creating refund:", error);
+      throw error;
+    }
+  },
+
+  // Mark a requested manual refund as processed or failed
+  updateRefund: async (
+    refundId: string,
+    status: "processed" | "failed",
+    reference?: string
+  ): Promise<RefundRecord> => {
+    try {
+      const response = await fetch(`/api/recovery/refunds/${refundId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status, reference }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      return data.refund;
+    } catch (error) {
+      console.error("Error updating refund:", error);
+      throw error;
+    }
+  },
+
+  // Get the most recent stored scans
+  getRecoveryScans: async (limit: number = 10): Promise<RecoveryScanRecord[]> => {
+    try {
+      const response = await fetch(`/api/recovery/scans?limit=${limit}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      return data.scans;
+    } catch (error) {
+      console.error("Error getting recovery scans:", error);
+      throw error;
+    }
+  },
+
+  // Search the persisted recovery history
+  getRecoveryAttempts: async (
+    query: RecoveryAttemptQuery = {}
+  ): Promise<{ attempts: RecoveryAttemptRecord[]; pages: number; total: number }> => {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value) params.set(key, String(value));
+      });
+      const response = await fetch(`/api/recovery/attempts?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      return {
+        attempts: data.attempts,
+        pages: data.pagination.pages,
+        total: data.pagination.total,
+      };
+    } catch (error) {
+      console.error("Error getting recovery history:", error);
+      throw error;
+    }
+  },
+
   // Get cancelled/refunded bookings
   getRefundedBookings: async (): Promise<{ success: boolean; data: any[] }> => {
     try {
@@ -0,0 +1,77 @@
+/**
+ * Persistent history of payment recovery attempts (server only)
+ *
+ * Every single, batch and automatic recovery is stored with the admin who
+ * ran it, the outcome and the backend's PaymentDetails as they were just
+ * before the attempt. Like the audit log, failures to store an attempt are
+ * logged but never fail the recovery itself.
+ */
+import type { NextRequest } from "next/server";
+import { SYSTEM_ACTOR } from "@/lib/audit";
+import { getSession } from "@/lib/auth";
+import dbConnect from "@/lib/dbConnect";
+import type { PaymentDetails } from "@/lib/recoveryApi";
+import RecoveryAttempt, { IRecoveryAttempt } from "@/models/RecoveryAttempt";
+
+export type RecoveryAttemptEntry = Omit<
+  IRecoveryAttempt,
+  "actor" | "actorRole" | "createdAt"
+>;
+
+/**
+ * Fetch the backend's view of a payment intent
+ * @returns The details, or null if they could not be read
+ */
+export async function fetchPaymentDetails(
+  paymentIntentId: string
+): Promise<PaymentDetails | null> {
+  try {
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/api/recovery/payment/${encodeURIComponent(paymentIntentId)}`,
+      { cache: "no-store" }
+    );
+    if (!response.ok) return null;
+    return (await response.json()) as PaymentDetails;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store recovery attempts attributed to the signed-in admin
+ * @param request - Incoming request carrying the session cookie, or null for
+ *   the scheduler (recorded as SYSTEM_ACTOR)
+ * @param entries - One entry per payment intent
+ */
+export async function recordRecoveryAttempts(
+  request: NextRequest | null,
+  entries: RecoveryAttemptEntry[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    const session = request ? await getSession(request) : null;
+    const actor = session?.sub ?? (request ? "unknown" : SYSTEM_ACTOR);
+
+    await dbConnect();
+    await RecoveryAttempt.insertMany(
+      entries.map((entry) => ({ ...entry, actor, actorRole: session?.role }))
+    );
+  } catch (error) {
+    console.error("Error recording recovery attempts:", error);
+  }
+}
+
+/**
+ * Amount, currency and email to index an attempt by, taken from the snapshot
+ */
+export function getPaymentSummary(details: PaymentDetails | null) {
+  return {
+    amount: details?.payment?.amount,
+    currency: details?.payment?.currency,
+    customerEmail:
+      details?.booking?.customerEmail ||
+      details?.payment?.metadata?.customerEmail ||
+      undefined,
+  };
+}
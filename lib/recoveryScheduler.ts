@@ -0,0 +1,251 @@
+/**
+ * Scheduled orphaned-payment scans (server only)
+ *
+ * Started from instrumentation.ts, so it needs a long-lived Node server
+ * (`next start`); serverless deployments never run it. A scan runs on
+ * startup and then every interval: the backend is scanned for successful
+ * payments without a booking; when auto recovery is enabled, payments the
+ * backend reports as recoverable get their booking created, and the rest
+ * are left for an admin (surfaced as a badge on Recovery). Each scan holds a
+ * lease on its RecoveryScan document, so with several instances only one
+ * scans at a time.
+ *
+ * Configuration:
+ * - RECOVERY_SCAN_INTERVAL_MINUTES - minutes between scans, 0 disables (default 15)
+ * - RECOVERY_SCAN_HOURS - how far back each scan looks (default 24)
+ * - RECOVERY_AUTO_RECOVER - "true" to recover payments automatically
+ */
+import { recordAudit } from "@/lib/audit";
+import dbConnect from "@/lib/dbConnect";
+import { recordRecoveryAttempts } from "@/lib/recoveryAttempts";
+import type {
+  OrphanedPayment,
+  PaymentDetails,
+  RecoveryResult,
+  ScanResult,
+} from "@/lib/recoveryApi";
+import RecoveryScan, { IRecoveryScan, IScannedOrphan } from "@/models/RecoveryScan";
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+const DEFAULT_SCAN_HOURS = 24;
+const SCAN_LIMIT = 100;
+const LEASE_KEY = "recovery-scan";
+// Well over how long a scan of SCAN_LIMIT payments takes; a crashed
+// instance's lease is taken over once it expires
+const LEASE_MS = 30 * 60 * 1000;
+
+interface SchedulerState {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+}
+
+declare global {
+  var recoveryScheduler: SchedulerState | undefined;
+}
+
+// Kept on the global object so hot reloads don't start a second timer
+const state: SchedulerState = global.recoveryScheduler || { timer: null, running: false };
+global.recoveryScheduler = state;
+
+export function getRecoveryPolicy() {
+  const interval = Number(process.env.RECOVERY_SCAN_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+  const hours = Number(process.env.RECOVERY_SCAN_HOURS ?? DEFAULT_SCAN_HOURS);
+
+  return {
+    intervalMinutes: Number.isFinite(interval) ? interval : DEFAULT_INTERVAL_MINUTES,
+    hours: Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SCAN_HOURS,
+    autoRecover: process.env.RECOVERY_AUTO_RECOVER === "true",
+  };
+}
+
+async function fetchBackend<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+    cache: "no-store",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+async function processOrphan(
+  payment: OrphanedPayment,
+  autoRecover: boolean
+): Promise<IScannedOrphan> {
+  const orphan: IScannedOrphan = {
+    paymentIntentId: payment.paymentIntentId,
+    amount: payment.amount,
+    currency: payment.currency,
+    customerEmail: payment.customerEmail,
+    customerName: payment.customerName,
+    packageName: payment.packageName,
+    date: payment.date,
+    time: payment.time,
+    canRecover: false,
+    outcome: "needs-review",
+  };
+
+  let details: PaymentDetails | null = null;
+  let result: RecoveryResult | null = null;
+
+  try {
+    details = await fetchBackend<PaymentDetails>(
+      `/api/recovery/payment/${payment.paymentIntentId}`
+    );
+    orphan.canRecover = details.analysis?.canRecover === true;
+    if (!autoRecover || !orphan.canRecover) return orphan;
+
+    result = await fetchBackend<RecoveryResult>(
+      "/api/recovery/recover-payment",
+      {
+        method: "POST",
+        body: JSON.stringify({ paymentIntentId: payment.paymentIntentId }),
+      }
+    );
+    if (!result.success) throw new Error(result.error || "Recovery failed");
+
+    orphan.outcome = "recovered";
+    orphan.bookingId = result.bookingId;
+    await recordAudit(null, {
+      action: "payment.auto-recover",
+      entityType: "payment",
+      entityId: payment.paymentIntentId,
+      before: null,
+      after: {
+        bookingId: result.bookingId,
+        amount: payment.amount,
+        currency: payment.currency,
+        customerEmail: payment.customerEmail,
+      },
+    });
+  } catch (error) {
+    orphan.outcome = "failed";
+    orphan.error = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  // Only attempts that reached the recover step belong in the history
+  if (details && orphan.canRecover) {
+    await recordRecoveryAttempts(null, [
+      {
+        paymentIntentId: payment.paymentIntentId,
+        mode: "automatic",
+        success: orphan.outcome === "recovered",
+        bookingId: orphan.bookingId,
+        alreadyExists: result?.alreadyExists,
+        message: result?.message,
+        error: orphan.error,
+        customerEmail: payment.customerEmail,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentDetails: details,
+      },
+    ]);
+  }
+
+  return orphan;
+}
+
+/**
+ * Create the scan's document holding the lease
+ * @returns Its id, or null if another instance's scan holds the lease
+ */
+async function claimScanLease(scan: IRecoveryScan): Promise<string | null> {
+  await dbConnect();
+  const now = new Date();
+
+  try {
+    // Only matches an expired lease; otherwise the upsert hits the unique index
+    const claimed = await RecoveryScan.findOneAndUpdate(
+      { lease: LEASE_KEY, leaseExpiresAt: { $lte: now } },
+      { $set: { ...scan, leaseExpiresAt: new Date(now.getTime() + LEASE_MS) } },
+      { upsert: true, new: true }
+    );
+    return claimed._id.toString();
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) return null;
+    throw error;
+  }
+}
+
+/**
+ * Scan for orphaned payments once and store the result
+ * @returns The stored scan, or null if a scan is already running
+ */
+async function runRecoveryScan(): Promise<IRecoveryScan | null> {
+  if (state.running) return null;
+  state.running = true;
+
+  const { hours, autoRecover } = getRecoveryPolicy();
+  const scan: IRecoveryScan = {
+    startedAt: new Date(),
+    hours,
+    autoRecoverEnabled: autoRecover,
+    totalScanned: 0,
+    orphans: [],
+    recoveredCount: 0,
+    needsAttentionCount: 0,
+  };
+
+  let scanId: string | null;
+  try {
+    scanId = await claimScanLease(scan);
+  } catch (error) {
+    state.running = false;
+    throw error;
+  }
+  if (!scanId) {
+    state.running = false;
+    return null;
+  }
+
+  try {
+    const result = await fetchBackend<ScanResult>(
+      `/api/recovery/scan?hours=${hours}&limit=${SCAN_LIMIT}`
+    );
+    scan.totalScanned = result.summary?.totalScanned ?? 0;
+
+    // One at a time so the backend never creates two bookings for a payment
+    for (const payment of result.orphanedPayments || []) {
+      scan.orphans.push(await processOrphan(payment, autoRecover));
+    }
+    scan.recoveredCount = scan.orphans.filter((o) => o.outcome === "recovered").length;
+    scan.needsAttentionCount = scan.orphans.length - scan.recoveredCount;
+  } catch (error) {
+    console.error("Error running recovery scan:", error);
+    scan.error = error instanceof Error ? error.message : "Unknown error";
+  } finally {
+    scan.finishedAt = new Date();
+    state.running = false;
+  }
+
+  try {
+    await RecoveryScan.updateOne(
+      { _id: scanId },
+      { $set: scan, $unset: { lease: 1, leaseExpiresAt: 1 } }
+    );
+  } catch (error) {
+    console.error("Error storing recovery scan:", error);
+  }
+
+  return scan;
+}
+
+function runScheduledScan() {
+  runRecoveryScan().catch((error) => {
+    console.error("Scheduled recovery scan failed:", error);
+  });
+}
+
+/**
+ * Scan now and start the interval timer (no-op if disabled or already started)
+ */
+export function startRecoveryScheduler() {
+  const { intervalMinutes } = getRecoveryPolicy();
+  if (state.timer || intervalMinutes <= 0 || !process.env.NEXT_PUBLIC_API_URL) return;
+
+  state.timer = setInterval(runScheduledScan, intervalMinutes * 60 * 1000);
+  runScheduledScan();
+}
@@ -0,0 +1,161 @@
+/**
+ * Refund bookkeeping (server only)
+ *
+ * Refunds for one booking are created under a short-lived lock so two
+ * concurrent requests cannot both pass the remaining-balance check. Card
+ * refunds Stripe reports as pending are re-fetched until they settle, and ones
+ * Stripe never confirmed are resent with the same idempotency key.
+ */
+import { randomBytes } from "node:crypto";
+import dbConnect from "@/lib/dbConnect";
+import { getCommittedRefundTotal, RefundStatus } from "@/lib/refunds";
+import {
+  createStripeRefund,
+  getStripeRefund,
+  isStripeRejection,
+  StripeRefund,
+} from "@/lib/stripe";
+import RefundLock from "@/models/RefundLock";
+import Refund, { IRefund } from "@/models/Refund";
+
+// Longer than a check-and-create takes; a stale lock expires on its own
+const LOCK_TTL_MS = 30_000;
+// Gives the original request time to finish before an unconfirmed refund is resent
+const RESEND_AFTER_MS = 60_000;
+// Stripe forgets idempotency keys after 24 hours; a later resend could refund twice
+const RESEND_WINDOW_MS = 23 * 60 * 60 * 1000;
+
+/**
+ * Take the booking's refund lock
+ * @returns A token for releaseRefundLock, or null if another refund holds it
+ */
+export async function acquireRefundLock(bookingId: string): Promise<string | null> {
+  await dbConnect();
+  const now = new Date();
+  const token = randomBytes(12).toString("hex");
+
+  try {
+    // Matches only an expired lock; otherwise the upsert hits the unique index
+    await RefundLock.findOneAndUpdate(
+      { bookingId, expiresAt: { $lte: now } },
+      { $set: { token, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) } },
+      { upsert: true }
+    );
+    return token;
+  } catch (error) {
+    if ((error as { code?: number })?.code === 11000) return null;
+    throw error;
+  }
+}
+
+export async function releaseRefundLock(bookingId: string, token: string) {
+  await RefundLock.deleteOne({ bookingId, token });
+}
+
+/**
+ * Amount left to refund on a booking; call while holding its lock
+ */
+export async function getRemainingRefundable(bookingId: string, paid: number) {
+  await dbConnect();
+  const existing = await Refund.find({ bookingId }).lean();
+  return paid - getCommittedRefundTotal(existing);
+}
+
+type SubmittableRefund = Pick<IRefund, "bookingId" | "paymentIntentId" | "amount"> & {
+  _id: unknown;
+};
+
+type SyncableRefund = SubmittableRefund &
+  Pick<IRefund, "method" | "status" | "stripeRefundId" | "createdAt">;
+
+export function getRefundStatus(stripeRefund: StripeRefund): RefundStatus {
+  if (stripeRefund.status === "succeeded") return "processed";
+  if (stripeRefund.status === "failed" || stripeRefund.status === "canceled") return "failed";
+  return "requested";
+}
+
+/**
+ * Send a card refund to Stripe, keyed on our refund id so a resend never refunds twice
+ * @returns The fields to store on the refund. Only a definite rejection marks
+ *   it failed; if Stripe could not be reached it stays requested, still
+ *   counting against the balance, until a sync resends it
+ */
+export async function submitStripeRefund(refund: SubmittableRefund): Promise<Partial<IRefund>> {
+  const refundId = String(refund._id);
+  try {
+    const stripeRefund = await createStripeRefund(
+      refund.paymentIntentId!,
+      refund.amount,
+      { bookingId: refund.bookingId, refundId },
+      refundId
+    );
+    const status = getRefundStatus(stripeRefund);
+    return {
+      stripeRefundId: stripeRefund.id,
+      status,
+      error: stripeRefund.failure_reason,
+      ...(status === "processed" ? { processedAt: new Date() } : {}),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Stripe refund failed";
+    if (isStripeRejection(error)) return { status: "failed", error: message };
+
+    console.error("Error submitting Stripe refund:", error);
+    return { status: "requested", error: `Not confirmed by Stripe yet: ${message}` };
+  }
+}
+
+// Mongoose drops undefined values from $set, so clear those fields explicitly
+function toRefundUpdate(fields: Partial<IRefund>) {
+  const entries = Object.entries(fields);
+  const cleared = entries.filter(([, value]) => value === undefined);
+  return {
+    $set: Object.fromEntries(entries.filter(([, value]) => value !== undefined)),
+    ...(cleared.length ? { $unset: Object.fromEntries(cleared.map(([key]) => [key, ""])) } : {}),
+  };
+}
+
+/**
+ * Bring requested card refunds up to date with Stripe: re-fetch pending ones
+ * and resend ones Stripe never confirmed. Unconfirmed refunds older than the
+ * idempotency window are left for a manual check in the Stripe dashboard.
+ * @returns The refunds with their current status; lookups that fail are left as they were
+ */
+export async function syncStripeRefunds<T extends SyncableRefund>(refunds: T[]): Promise<T[]> {
+  return Promise.all(
+    refunds.map(async (refund) => {
+      if (refund.method !== "stripe" || refund.status !== "requested") {
+        return refund;
+      }
+
+      try {
+        if (!refund.stripeRefundId) {
+          const age = Date.now() - new Date(refund.createdAt).getTime();
+          if (age < RESEND_AFTER_MS || age > RESEND_WINDOW_MS) return refund;
+
+          const update = await submitStripeRefund(refund);
+          await Refund.updateOne(
+            { _id: refund._id, status: "requested", stripeRefundId: { $exists: false } },
+            toRefundUpdate(update)
+          );
+          return { ...refund, ...update };
+        }
+
+        const stripeRefund = await getStripeRefund(refund.stripeRefundId);
+        const status = getRefundStatus(stripeRefund);
+        if (status === "requested") return refund;
+
+        const update = {
+          status,
+          error: stripeRefund.failure_reason,
+          ...(status === "processed" ? { processedAt: new Date() } : {}),
+        };
+        await Refund.updateOne({ _id: refund._id, status: "requested" }, toRefundUpdate(update));
+        return { ...refund, ...update };
+      } catch (error) {
+        console.error("Error syncing Stripe refund:", error);
+        return refund;
+      }
+    })
+  );
+}
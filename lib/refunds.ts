@@ -0,0 +1,61 @@
+/**
+ * Refund methods and states
+ *
+ * Card refunds are issued against the booking's Stripe payment intent; bank
+ * transfer and cash refunds are paid outside the system and only recorded.
+ */
+
+export const REFUND_METHODS = ["stripe", "bank_transfer", "cash"] as const;
+
+export type RefundMethod = (typeof REFUND_METHODS)[number];
+
+export const REFUND_STATUSES = ["requested", "processed", "failed"] as const;
+
+export type RefundStatus = (typeof REFUND_STATUSES)[number];
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  stripe: "Card (Stripe)",
+  bank_transfer: "Bank transfer",
+  cash: "Cash",
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  requested: "Requested",
+  processed: "Processed",
+  failed: "Failed",
+};
+
+/** A refund as returned by /api/recovery/refunds */
+export interface RefundRecord {
+  _id: string;
+  bookingId: string;
+  paymentIntentId?: string;
+  amount: number;
+  currency: string;
+  method: RefundMethod;
+  status: RefundStatus;
+  reason?: string;
+  reference?: string;
+  stripeRefundId?: string;
+  error?: string;
+  requestedBy: string;
+  processedAt?: string;
+  createdAt: string;
+}
+
+export function isRefundMethod(value: unknown): value is RefundMethod {
+  return typeof value === "string" && (REFUND_METHODS as readonly string[]).includes(value);
+}
+
+export function isRefundStatus(value: unknown): value is RefundStatus {
+  return typeof value === "string" && (REFUND_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Amount already refunded or on its way to the customer (failed refunds excluded)
+ */
+export function getCommittedRefundTotal(refunds: Pick<RefundRecord, "amount" | "status">[]): number {
+  return refunds
+    .filter((refund) => refund.status !== "failed")
+    .reduce((sum, refund) => sum + refund.amount, 0);
+}
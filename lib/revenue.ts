@@ -0,0 +1,499 @@
+/**
+ * Revenue aggregation over bookings
+ *
+ * Runs in the /api/bookings/revenue route so the browser only receives the
+ * aggregated series instead of every booking in the range. All bucketing is
+ * done on Malaysian calendar dates.
+ */
+import {
+  addDaysMYT,
+  createMalaysianDate,
+  formatDateAsMYT,
+  getDayOfWeekMYT,
+  getDaysInMonthMYT,
+  parseDateStringAsMYT,
+  parseFlexibleDate,
+} from "@/lib/dateUtils";
+
+export interface RevenueBooking {
+  _id: string;
+  packageType: "tour" | "transfer";
+  packageId?: {
+    _id: string;
+    title: string;
+    type?: string;
+  };
+  adults: number;
+  children: number;
+  total: number;
+  status: string;
+  date: string;
+  time?: string;
+  createdAt: string;
+  transport?: "Van" | "Van + Ferry" | "Private";
+  contactInfo?: {
+    name?: string;
+    email?: string;
+    phone?: string;
+  };
+}
+
+export const REVENUE_GROUP_BY = [
+  "day",
+  "week",
+  "month",
+  "package",
+  "packageType",
+] as const;
+
+export type RevenueGroupBy = (typeof REVENUE_GROUP_BY)[number];
+
+export interface RevenueSeriesPoint {
+  key: string;
+  label: string;
+  revenue: number;
+  bookings: number;
+  persons: number;
+}
+
+export interface PackagePerformance {
+  id: string;
+  name: string;
+  type: string;
+  bookings: number;
+  totalPersons: number;
+  revenue: number;
+}
+
+export interface RevenueSummary {
+  /** Net of processed refunds */
+  totalRevenue: number;
+  totalRefunds: number;
+  totalBookings: number;
+  totalPersons: number;
+  avgBookingValue: number;
+}
+
+/** A processed refund against a booking */
+export interface RevenueRefund {
+  bookingId: string;
+  amount: number;
+  method: string;
+}
+
+export interface RevenueLineItem {
+  kind: "booking" | "refund";
+  bookingId: string;
+  /** Malaysian calendar date, YYYY-MM-DD */
+  date: string;
+  time: string;
+  packageName: string;
+  packageType: string;
+  customerName: string;
+  customerEmail: string;
+  adults: number;
+  children: number;
+  status: string;
+  total: number;
+}
+
+export const REVENUE_COMPARISONS = ["previousPeriod", "lastYear"] as const;
+
+export type RevenueComparisonKind = (typeof REVENUE_COMPARISONS)[number];
+
+export interface MetricChange {
+  current: number;
+  previous: number;
+  delta: number;
+  /** null when the previous value is zero */
+  percentChange: number | null;
+}
+
+export interface PackageComparison {
+  bookings: MetricChange;
+  totalPersons: MetricChange;
+  revenue: MetricChange;
+}
+
+export interface RevenueComparison {
+  kind: RevenueComparisonKind;
+  from: string;
+  to: string;
+  summary: RevenueSummary;
+  metrics: Record<keyof RevenueSummary, MetricChange>;
+  /** Keyed by PackagePerformance.id of the current period */
+  packages: Record<string, PackageComparison>;
+}
+
+export interface RevenueReport {
+  from: string;
+  to: string;
+  groupBy: RevenueGroupBy;
+  summary: RevenueSummary;
+  series: RevenueSeriesPoint[];
+  packagePerformance: PackagePerformance[];
+  /** Per-booking rows, only included when requested (used by exports) */
+  lineItems?: RevenueLineItem[];
+  /** Previous period and same period last year, only included when requested */
+  comparisons?: RevenueComparison[];
+}
+
+export function isRevenueGroupBy(value: unknown): value is RevenueGroupBy {
+  return typeof value === "string" && (REVENUE_GROUP_BY as readonly string[]).includes(value);
+}
+
+/**
+ * Malaysian calendar date (YYYY-MM-DD) a booking counts towards
+ */
+export function getBookingDateMYT(booking: RevenueBooking): string | null {
+  const date = parseFlexibleDate(booking.date || booking.createdAt);
+  return date ? formatDateAsMYT(date) : null;
+}
+
+/**
+ * Package type label used in reports: transport for transfers, tour type for tours
+ */
+export function getPackageTypeLabel(booking: RevenueBooking): string {
+  return booking.packageType === "transfer"
+    ? booking.transport || "Unknown Transfer Type"
+    : booking.packageId?.type || booking.packageType || "unknown";
+}
+
+function getPersons(booking: RevenueBooking): number {
+  return (booking.adults || 0) + (booking.children || 0);
+}
+
+/**
+ * Bookings that count as revenue within an inclusive MYT date range
+ */
+export function filterRevenueBookings(
+  bookings: RevenueBooking[],
+  from: string,
+  to: string
+): RevenueBooking[] {
+  return bookings.filter((booking) => {
+    if (booking.status?.toLowerCase() === "cancelled") return false;
+
+    const date = getBookingDateMYT(booking);
+    return date !== null && date >= from && date <= to;
+  });
+}
+
+function getWeekStartMYT(dateStr: string): string {
+  const date = parseDateStringAsMYT(dateStr);
+  // Weeks start on Monday
+  const offset = (getDayOfWeekMYT(date) + 6) % 7;
+  return formatDateAsMYT(addDaysMYT(date, -offset));
+}
+
+function getTimeBucket(dateStr: string, groupBy: "day" | "week" | "month"): string {
+  if (groupBy === "month") return dateStr.slice(0, 7);
+  if (groupBy === "week") return getWeekStartMYT(dateStr);
+  return dateStr;
+}
+
+function formatBucketLabel(key: string, groupBy: "day" | "week" | "month"): string {
+  if (groupBy === "month") {
+    return new Intl.DateTimeFormat("en-MY", {
+      month: "short",
+      year: "numeric",
+      timeZone: "Asia/Kuala_Lumpur",
+    }).format(parseDateStringAsMYT(`${key}-01`));
+  }
+
+  const label = new Intl.DateTimeFormat("en-MY", {
+    day: "numeric",
+    month: "short",
+    timeZone: "Asia/Kuala_Lumpur",
+  }).format(parseDateStringAsMYT(key));
+  return groupBy === "week" ? `Wk of ${label}` : label;
+}
+
+// Every bucket between from and to, so the chart shows gaps as zero
+function listTimeBuckets(from: string, to: string, groupBy: "day" | "week" | "month"): string[] {
+  const buckets: string[] = [];
+  let cursor = parseDateStringAsMYT(from);
+  const end = parseDateStringAsMYT(to);
+
+  while (cursor <= end) {
+    const bucket = getTimeBucket(formatDateAsMYT(cursor), groupBy);
+    if (buckets[buckets.length - 1] !== bucket) buckets.push(bucket);
+    cursor = addDaysMYT(cursor, 1);
+  }
+
+  return buckets;
+}
+
+function getSeriesKey(booking: RevenueBooking, groupBy: RevenueGroupBy): { key: string; label: string } {
+  switch (groupBy) {
+    case "package":
+      return {
+        key: booking.packageId?._id || "unknown",
+        label: booking.packageId?.title || "Unknown Package",
+      };
+    case "packageType": {
+      const type = getPackageTypeLabel(booking);
+      return { key: type, label: type };
+    }
+    default: {
+      const key = getTimeBucket(getBookingDateMYT(booking)!, groupBy);
+      return { key, label: formatBucketLabel(key, groupBy) };
+    }
+  }
+}
+
+/**
+ * Summary metrics for a set of revenue bookings
+ */
+export function summarizeRevenue(bookings: RevenueBooking[]): RevenueSummary {
+  const totalRevenue = bookings.reduce((sum, b) => sum + (b.total || 0), 0);
+  const totalBookings = bookings.length;
+
+  return {
+    totalRevenue,
+    totalRefunds: 0,
+    totalBookings,
+    totalPersons: bookings.reduce((sum, b) => sum + getPersons(b), 0),
+    avgBookingValue: totalBookings > 0 ? totalRevenue / totalBookings : 0,
+  };
+}
+
+/**
+ * Revenue per package, highest revenue first
+ */
+export function getPackagePerformance(bookings: RevenueBooking[]): PackagePerformance[] {
+  const packageMap = new Map<string, PackagePerformance>();
+
+  bookings.forEach((booking) => {
+    const packageId = booking.packageId?._id || "unknown";
+    if (!packageMap.has(packageId)) {
+      packageMap.set(packageId, {
+        id: packageId,
+        name: booking.packageId?.title || "Unknown Package",
+        type: getPackageTypeLabel(booking),
+        bookings: 0,
+        totalPersons: 0,
+        revenue: 0,
+      });
+    }
+
+    const packageData = packageMap.get(packageId)!;
+    packageData.bookings += 1;
+    packageData.totalPersons += getPersons(booking);
+    packageData.revenue += booking.total || 0;
+  });
+
+  return Array.from(packageMap.values()).sort((a, b) => b.revenue - a.revenue);
+}
+
+/**
+ * One row per booking, in date and time order
+ */
+export function getRevenueLineItems(bookings: RevenueBooking[]): RevenueLineItem[] {
+  return bookings
+    .map((booking) => ({
+      kind: "booking" as const,
+      bookingId: booking._id,
+      date: getBookingDateMYT(booking) || "",
+      time: booking.time || "",
+      packageName: booking.packageId?.title || "Unknown Package",
+      packageType: getPackageTypeLabel(booking),
+      customerName: booking.contactInfo?.name || "",
+      customerEmail: booking.contactInfo?.email || "",
+      adults: booking.adults || 0,
+      children: booking.children || 0,
+      status: booking.status || "",
+      total: booking.total || 0,
+    }))
+    .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+}
+
+/**
+ * Deduct refunds from the bookings they were issued against
+ * Refunds on bookings outside the set (e.g. cancelled ones, which never
+ * counted as revenue) are ignored.
+ */
+function applyRefunds(bookings: RevenueBooking[], refunds: RevenueRefund[]) {
+  const bookingIds = new Set(bookings.map((booking) => booking._id));
+  const applied = refunds.filter((refund) => bookingIds.has(refund.bookingId));
+  const refundedByBooking = new Map<string, number>();
+  applied.forEach((refund) => {
+    refundedByBooking.set(
+      refund.bookingId,
+      (refundedByBooking.get(refund.bookingId) || 0) + refund.amount
+    );
+  });
+
+  return {
+    netBookings: bookings.map((booking) =>
+      refundedByBooking.has(booking._id)
+        ? { ...booking, total: (booking.total || 0) - refundedByBooking.get(booking._id)! }
+        : booking
+    ),
+    applied,
+    totalRefunds: applied.reduce((sum, refund) => sum + refund.amount, 0),
+  };
+}
+
+function getRefundLineItems(
+  bookings: RevenueBooking[],
+  refunds: RevenueRefund[]
+): RevenueLineItem[] {
+  const bookingLines = new Map(
+    getRevenueLineItems(bookings).map((item) => [item.bookingId, item])
+  );
+
+  return refunds.map((refund) => ({
+    ...bookingLines.get(refund.bookingId)!,
+    kind: "refund" as const,
+    status: `refund (${refund.method})`,
+    total: -refund.amount,
+  }));
+}
+
+/**
+ * Build the revenue report for an inclusive MYT date range
+ * @param bookings - Bookings fetched for the range (may include cancelled ones)
+ * @param from - Start date, YYYY-MM-DD
+ * @param to - End date, YYYY-MM-DD
+ * @param groupBy - How to bucket the series
+ * @param options.includeLineItems - Also return one row per booking and per refund
+ * @param options.refunds - Processed refunds, deducted from the bookings they belong to
+ */
+export function buildRevenueReport(
+  bookings: RevenueBooking[],
+  from: string,
+  to: string,
+  groupBy: RevenueGroupBy,
+  options: { includeLineItems?: boolean; refunds?: RevenueRefund[] } = {}
+): RevenueReport {
+  const grossBookings = filterRevenueBookings(bookings, from, to);
+  const {
+    netBookings: revenueBookings,
+    applied: appliedRefunds,
+    totalRefunds,
+  } = applyRefunds(grossBookings, options.refunds || []);
+
+  const seriesMap = new Map<string, RevenueSeriesPoint>();
+  if (groupBy === "day" || groupBy === "week" || groupBy === "month") {
+    listTimeBuckets(from, to, groupBy).forEach((key) => {
+      seriesMap.set(key, {
+        key,
+        label: formatBucketLabel(key, groupBy),
+        revenue: 0,
+        bookings: 0,
+        persons: 0,
+      });
+    });
+  }
+
+  revenueBookings.forEach((booking) => {
+    const { key, label } = getSeriesKey(booking, groupBy);
+    const point = seriesMap.get(key) || { key, label, revenue: 0, bookings: 0, persons: 0 };
+    point.revenue += booking.total || 0;
+    point.bookings += 1;
+    point.persons += getPersons(booking);
+    seriesMap.set(key, point);
+  });
+
+  const series = Array.from(seriesMap.values());
+  // Time series stay chronological, categories are ranked by revenue
+  if (groupBy === "package" || groupBy === "packageType") {
+    series.sort((a, b) => b.revenue - a.revenue);
+  }
+
+  return {
+    from,
+    to,
+    groupBy,
+    summary: { ...summarizeRevenue(revenueBookings), totalRefunds },
+    series,
+    packagePerformance: getPackagePerformance(revenueBookings),
+    ...(options.includeLineItems && {
+      lineItems: [
+        ...getRevenueLineItems(grossBookings),
+        ...getRefundLineItems(grossBookings, appliedRefunds),
+      ].sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)),
+    }),
+  };
+}
+
+function shiftYear(dateStr: string, years: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  // 29 Feb falls back to 28 Feb in non-leap years
+  const daysInMonth = getDaysInMonthMYT(createMalaysianDate(year + years, month, 1));
+  return formatDateAsMYT(createMalaysianDate(year + years, month, Math.min(day, daysInMonth)));
+}
+
+/**
+ * Date range to compare an inclusive MYT range against
+ * - previousPeriod: the equal-length range ending the day before `from`
+ * - lastYear: the same calendar dates one year earlier
+ */
+export function getComparisonRange(
+  from: string,
+  to: string,
+  kind: RevenueComparisonKind
+): { from: string; to: string } {
+  if (kind === "lastYear") {
+    return { from: shiftYear(from, -1), to: shiftYear(to, -1) };
+  }
+
+  const start = parseDateStringAsMYT(from);
+  const days =
+    Math.round((parseDateStringAsMYT(to).getTime() - start.getTime()) / 86400000) + 1;
+  return {
+    from: formatDateAsMYT(addDaysMYT(start, -days)),
+    to: formatDateAsMYT(addDaysMYT(start, -1)),
+  };
+}
+
+export function getMetricChange(current: number, previous: number): MetricChange {
+  return {
+    current,
+    previous,
+    delta: current - previous,
+    percentChange: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+  };
+}
+
+/**
+ * Compare a report against bookings from another period
+ * @param report - Report for the current period
+ * @param bookings - Bookings fetched for the comparison range (may include cancelled ones)
+ * @param kind - Which comparison the range belongs to
+ * @param refunds - Processed refunds for those bookings
+ */
+export function buildRevenueComparison(
+  report: RevenueReport,
+  bookings: RevenueBooking[],
+  kind: RevenueComparisonKind,
+  refunds: RevenueRefund[] = []
+): RevenueComparison {
+  const { from, to } = getComparisonRange(report.from, report.to, kind);
+  const { netBookings: revenueBookings, totalRefunds } = applyRefunds(
+    filterRevenueBookings(bookings, from, to),
+    refunds
+  );
+  const summary = { ...summarizeRevenue(revenueBookings), totalRefunds };
+  const previousPackages = new Map(
+    getPackagePerformance(revenueBookings).map((item) => [item.id, item])
+  );
+
+  const metrics = {} as Record<keyof RevenueSummary, MetricChange>;
+  (Object.keys(summary) as (keyof RevenueSummary)[]).forEach((metric) => {
+    metrics[metric] = getMetricChange(report.summary[metric], summary[metric]);
+  });
+
+  const packages: Record<string, PackageComparison> = {};
+  report.packagePerformance.forEach((item) => {
+    const previous = previousPackages.get(item.id);
+    packages[item.id] = {
+      bookings: getMetricChange(item.bookings, previous?.bookings || 0),
+      totalPersons: getMetricChange(item.totalPersons, previous?.totalPersons || 0),
+      revenue: getMetricChange(item.revenue, previous?.revenue || 0),
+    };
+  });
+
+  return { kind, from, to, summary, metrics, packages };
+}
@@ -0,0 +1,339 @@
+/**
+ * Revenue report exports (browser only)
+ *
+ * All three formats are built from the same RevenueReport so the numbers
+ * always match what the revenue page shows. Dates are rendered in Malaysian
+ * time.
+ */
+import jsPDF from "jspdf";
+import * as XLSX from "xlsx";
+import {
+  formatDateAsMYT,
+  formatMalaysianDateForDisplay,
+  formatTimeDisplay,
+  parseDateStringAsMYT,
+} from "@/lib/dateUtils";
+import type { RevenueLineItem, RevenueReport } from "@/lib/revenue";
+import { escapeFormulaCells } from "@/lib/spreadsheet";
+
+const BRAND_NAME = "Oastel";
+const BRAND_COLOR: [number, number, number] = [12, 113, 87]; // #0C7157
+
+function formatDate(dateStr: string): string {
+  if (!dateStr) return "";
+  return formatMalaysianDateForDisplay(parseDateStringAsMYT(dateStr), {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+}
+
+function formatPeriod(report: RevenueReport): string {
+  return `${formatDate(report.from)} - ${formatDate(report.to)}`;
+}
+
+function formatGeneratedAt(): string {
+  return formatMalaysianDateForDisplay(new Date(), {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatCurrency(amount: number): string {
+  return `RM ${amount.toLocaleString("en-MY", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function getFileName(report: RevenueReport, extension: string): string {
+  return `revenue-report-${report.from}-to-${report.to}-${formatDateAsMYT(new Date())}.${extension}`;
+}
+
+const LINE_ITEM_HEADERS = [
+  "Booking ID",
+  "Date",
+  "Time",
+  "Package",
+  "Type",
+  "Customer",
+  "Email",
+  "Adults",
+  "Children",
+  "Status",
+  "Total (RM)",
+];
+
+function toLineItemRow(item: RevenueLineItem): (string | number)[] {
+  return [
+    item.bookingId,
+    formatDate(item.date),
+    item.time ? formatTimeDisplay(item.time) : "",
+    item.packageName,
+    item.packageType,
+    item.customerName,
+    item.customerEmail,
+    item.adults,
+    item.children,
+    item.status,
+    Number(item.total.toFixed(2)),
+  ];
+}
+
+/**
+ * Multi-sheet workbook: Summary, Packages and Bookings
+ */
+export function exportRevenueXlsx(report: RevenueReport) {
+  const { summary } = report;
+  const workbook = XLSX.utils.book_new();
+
+  const summarySheet = XLSX.utils.aoa_to_sheet(escapeFormulaCells([
+    [`${BRAND_NAME} Revenue Report`],
+    ["Report Period", formatPeriod(report)],
+    ["Generated", formatGeneratedAt()],
+    [],
+    ["Metric", "Value"],
+    ["Total Revenue (RM)", Number(summary.totalRevenue.toFixed(2))],
+    ["Refunds (RM)", Number(summary.totalRefunds.toFixed(2))],
+    ["Total Bookings", summary.totalBookings],
+    ["Total Persons", summary.totalPersons],
+    ["Average Booking Value (RM)", Number(summary.avgBookingValue.toFixed(2))],
+  ]));
+  summarySheet["!cols"] = [{ wch: 28 }, { wch: 28 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+
+  const packagesSheet = XLSX.utils.aoa_to_sheet(escapeFormulaCells([
+    ["Package Name", "Package Type", "Bookings", "Total Persons", "Revenue (RM)"],
+    ...report.packagePerformance.map((item) => [
+      item.name,
+      item.type,
+      item.bookings,
+      item.totalPersons,
+      Number(item.revenue.toFixed(2)),
+    ]),
+    [
+      "TOTAL",
+      "All Packages",
+      summary.totalBookings,
+      summary.totalPersons,
+      Number(summary.totalRevenue.toFixed(2)),
+    ],
+  ]));
+  packagesSheet["!cols"] = [{ wch: 40 }, { wch: 18 }, { wch: 10 }, { wch: 14 }, { wch: 14 }];
+  XLSX.utils.book_append_sheet(workbook, packagesSheet, "Packages");
+
+  const bookingsSheet = XLSX.utils.aoa_to_sheet(escapeFormulaCells([
+    LINE_ITEM_HEADERS,
+    ...(report.lineItems || []).map(toLineItemRow),
+  ]));
+  bookingsSheet["!cols"] = [
+    { wch: 26 }, { wch: 12 }, { wch: 10 }, { wch: 36 }, { wch: 14 }, { wch: 24 },
+    { wch: 28 }, { wch: 8 }, { wch: 8 }, { wch: 12 }, { wch: 12 },
+  ];
+  XLSX.utils.book_append_sheet(workbook, bookingsSheet, "Bookings");
+
+  XLSX.writeFile(workbook, getFileName(report, "xlsx"));
+}
+
+/**
+ * Flat CSV with one row per booking
+ */
+export function exportRevenueCsv(report: RevenueReport) {
+  const sheet = XLSX.utils.aoa_to_sheet(escapeFormulaCells([
+    LINE_ITEM_HEADERS,
+    ...(report.lineItems || []).map(toLineItemRow),
+  ]));
+  // Byte order mark so Excel opens the file as UTF-8
+  const csv = "\uFEFF" + XLSX.utils.sheet_to_csv(sheet);
+
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = getFileName(report, "csv");
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+type PdfColumn = {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+};
+
+/**
+ * Branded A4 PDF with summary metrics, package breakdown and booking lines
+ */
+export function exportRevenuePdf(report: RevenueReport) {
+  const pdf = new jsPDF("p", "mm", "a4");
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const contentWidth = pageWidth - margin * 2;
+  const rowHeight = 6;
+  let y = 0;
+
+  const drawHeader = () => {
+    pdf.setFillColor(...BRAND_COLOR);
+    pdf.rect(0, 0, pageWidth, 24, "F");
+    pdf.setTextColor(255, 255, 255);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(16);
+    pdf.text(BRAND_NAME, margin, 11);
+    pdf.setFontSize(11);
+    pdf.setFont("helvetica", "normal");
+    pdf.text("Revenue Report", margin, 18);
+    pdf.setFontSize(9);
+    pdf.text(`Period: ${formatPeriod(report)}`, pageWidth - margin, 11, { align: "right" });
+    pdf.text(`Generated: ${formatGeneratedAt()}`, pageWidth - margin, 18, { align: "right" });
+    pdf.setTextColor(33, 33, 33);
+    y = 32;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin - 6) {
+      pdf.addPage();
+      drawHeader();
+      return true;
+    }
+    return false;
+  };
+
+  const drawSectionTitle = (title: string) => {
+    ensureSpace(14);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(12);
+    pdf.text(title, margin, y);
+    y += 6;
+  };
+
+  const drawTable = (columns: PdfColumn[], rows: string[][]) => {
+    const totalWidth = columns.reduce((sum, c) => sum + c.width, 0);
+    const scale = contentWidth / totalWidth;
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      if (isHeader) {
+        pdf.setFillColor(230, 241, 238);
+        pdf.rect(margin, y - 4, contentWidth, rowHeight, "F");
+        pdf.setFont("helvetica", "bold");
+      } else {
+        pdf.setFont("helvetica", "normal");
+      }
+
+      let x = margin;
+      cells.forEach((cell, index) => {
+        const width = columns[index].width * scale;
+        const text = pdf.splitTextToSize(cell, width - 2)[0] || "";
+        if (columns[index].align === "right") {
+          pdf.text(text, x + width - 1, y, { align: "right" });
+        } else {
+          pdf.text(text, x + 1, y);
+        }
+        x += width;
+      });
+      y += rowHeight;
+    };
+
+    ensureSpace(rowHeight * 2);
+    pdf.setFontSize(8);
+    drawRow(columns.map((c) => c.header), true);
+
+    rows.forEach((row) => {
+      // Repeat the header row on every new page
+      if (ensureSpace(rowHeight)) {
+        pdf.setFontSize(8);
+        drawRow(columns.map((c) => c.header), true);
+      }
+      drawRow(row, false);
+    });
+    y += 4;
+  };
+
+  drawHeader();
+
+  // Summary metric boxes
+  const { summary } = report;
+  const metrics = [
+    ["Total Revenue", formatCurrency(summary.totalRevenue)],
+    ["Total Bookings", summary.totalBookings.toLocaleString()],
+    ["Total Persons", summary.totalPersons.toLocaleString()],
+    ["Avg Booking Value", formatCurrency(summary.avgBookingValue)],
+  ];
+  const boxGap = 2;
+  const boxWidth = (contentWidth - boxGap * (metrics.length - 1)) / metrics.length;
+  metrics.forEach(([label, value], index) => {
+    const x = margin + index * (boxWidth + boxGap);
+    pdf.setDrawColor(...BRAND_COLOR);
+    pdf.roundedRect(x, y, boxWidth, 16, 2, 2, "S");
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    pdf.text(label, x + 3, y + 6);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(11);
+    pdf.text(value, x + 3, y + 12);
+  });
+  y += 22;
+  if (summary.totalRefunds > 0) {
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    pdf.text(`Revenue is net of ${formatCurrency(summary.totalRefunds)} in refunds`, margin, y);
+  }
+  y += 6;
+
+  drawSectionTitle("Package Performance");
+  drawTable(
+    [
+      { header: "Package", width: 70 },
+      { header: "Type", width: 30 },
+      { header: "Bookings", width: 20, align: "right" },
+      { header: "Persons", width: 20, align: "right" },
+      { header: "Revenue", width: 30, align: "right" },
+    ],
+    report.packagePerformance.map((item) => [
+      item.name,
+      item.type,
+      item.bookings.toString(),
+      item.totalPersons.toString(),
+      formatCurrency(item.revenue),
+    ])
+  );
+
+  drawSectionTitle("Bookings");
+  drawTable(
+    [
+      { header: "Date", width: 20 },
+      { header: "Time", width: 16 },
+      { header: "Package", width: 52 },
+      { header: "Customer", width: 36 },
+      { header: "Pax", width: 12, align: "right" },
+      { header: "Status", width: 20 },
+      { header: "Total", width: 26, align: "right" },
+    ],
+    (report.lineItems || []).map((item) => [
+      formatDate(item.date),
+      item.time ? formatTimeDisplay(item.time) : "",
+      item.packageName,
+      item.customerName,
+      (item.adults + item.children).toString(),
+      item.status,
+      formatCurrency(item.total),
+    ])
+  );
+
+  // Page numbers
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    pdf.setTextColor(123, 123, 123);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 6, { align: "center" });
+  }
+
+  pdf.save(getFileName(report, "pdf"));
+}
@@ -0,0 +1,142 @@
+/**
+ * Signed admin session tokens
+ *
+ * A session token is `<payload>.<signature>`, both base64url encoded, where the
+ * signature is an HMAC-SHA256 of the payload keyed with ADMIN_SESSION_SECRET.
+ * The token lives in an HTTP-only cookie so it is never readable from the
+ * browser bundle.
+ *
+ * Only Web Crypto APIs are used here so the same helpers work in middleware
+ * (Edge runtime) and in route handlers (Node runtime). getSession in lib/auth
+ * also checks the token's session version against the admin account, which
+ * is bumped whenever the account's role, status or password changes;
+ * middleware gets that check through /api/auth/session.
+ */
+
+import { AdminRole, isAdminRole } from "@/lib/permissions";
+
+export const SESSION_COOKIE_NAME = "oastel_admin_session";
+
+// 24 hours, same lifetime as the previous client-side token
+export const SESSION_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+export interface SessionPayload {
+  /** Admin username */
+  sub: string;
+  /** Admin role, used for per-route permissions */
+  role: AdminRole;
+  /** Account session version; absent for the bootstrap owner */
+  ver?: number;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expires at (seconds since epoch) */
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret) {
+    throw new Error("ADMIN_SESSION_SECRET is not configured");
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Create a signed session token for an authenticated admin
+ * @param username - Admin username to store in the token
+ * @param role - Admin role to store in the token
+ * @param version - The stored account's session version
+ * @returns Signed token suitable for the session cookie
+ */
+export async function createSessionToken(
+  username: string,
+  role: AdminRole,
+  version?: number
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    sub: username,
+    role,
+    ver: version,
+    iat: now,
+    exp: now + SESSION_MAX_AGE_SECONDS,
+  };
+
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(encodedPayload));
+
+  return `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * @param token - Raw cookie value
+ * @returns The session payload, or null if the token is missing, forged or expired
+ */
+export async function verifySessionToken(
+  token: string | undefined | null
+): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [encodedPayload, encodedSignature] = token.split(".");
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const key = await getSigningKey();
+    const signature = base64UrlDecode(encodedSignature);
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      signature,
+      encoder.encode(encodedPayload)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload))) as SessionPayload;
+    if (
+      typeof payload.sub !== "string" ||
+      typeof payload.exp !== "number" ||
+      !isAdminRole(payload.role)
+    ) {
+      return null;
+    }
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    console.error("Error verifying session token:", error);
+    return null;
+  }
+}
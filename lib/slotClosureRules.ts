@@ -0,0 +1,86 @@
+/**
+ * Loading and applying slot closure rules (server only)
+ *
+ * Rules live in the admin panel's own database, so they are applied by the
+ * admin API (availability, booking creation and reschedules) and not by the
+ * backend; bookings made elsewhere, e.g. on the customer site, ignore them.
+ */
+import dbConnect from "@/lib/dbConnect";
+import { normalizeTime } from "@/lib/dateUtils";
+import { getHolidayDates } from "@/lib/holidayCalendar";
+import {
+  applySlotClosures,
+  SLOT_CLOSURE_PACKAGE_TYPES,
+  SlotClosureContext,
+  SlotClosureInput,
+  SlotClosurePackageType,
+  slotClosureMatches,
+} from "@/lib/slotClosures";
+import SlotClosure from "@/models/SlotClosure";
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+/** Closure rule fields from a create/update request body */
+export function parseSlotClosureInput(body: Record<string, unknown>): SlotClosureInput {
+  const recurrence = body.recurrence as SlotClosureInput["recurrence"];
+  return {
+    reason: typeof body.reason === "string" ? body.reason.trim() : "",
+    packageTypes: stringList(body.packageTypes) as SlotClosurePackageType[],
+    packageIds: stringList(body.packageIds),
+    times: Array.from(new Set(stringList(body.times).map(normalizeTime))).sort(),
+    recurrence,
+    // Only the list for the chosen recurrence is kept
+    daysOfWeek:
+      recurrence === "weekly" && Array.isArray(body.daysOfWeek)
+        ? Array.from(new Set(body.daysOfWeek.map(Number))).sort((a, b) => a - b)
+        : [],
+    dates: recurrence === "dates" ? Array.from(new Set(stringList(body.dates))).sort() : [],
+    startsOn: optionalString(body.startsOn),
+    endsOn: optionalString(body.endsOn),
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive),
+  };
+}
+
+export function isSlotClosurePackageType(value: unknown): value is SlotClosurePackageType {
+  return SLOT_CLOSURE_PACKAGE_TYPES.includes(value as SlotClosurePackageType);
+}
+
+/**
+ * Active rules, loaded once per request
+ * A failure to load them is logged and treated as "no closures" so that
+ * availability still resolves when the rules store is unreachable.
+ */
+export async function getActiveSlotClosures() {
+  try {
+    await dbConnect();
+    return await SlotClosure.find({ isActive: true }).lean();
+  } catch (error) {
+    console.error("Error loading slot closure rules:", error);
+    return [];
+  }
+}
+
+/** Slots for one package and date with closure rules applied */
+export async function resolveSlotClosures<T extends { time: string; isAvailable: boolean }>(
+  slots: T[],
+  context: Omit<SlotClosureContext, "holidays">
+) {
+  if (slots.length === 0) return slots;
+  const [rules, holidays] = await Promise.all([getActiveSlotClosures(), getHolidayDates()]);
+  return applySlotClosures(slots, rules, { ...context, holidays });
+}
+
+/**
+ * The rule closing one departure, if any, for checking a booking before it is made
+ */
+export async function findSlotClosure(
+  context: Omit<SlotClosureContext, "holidays">,
+  time: string
+) {
+  const [rules, holidays] = await Promise.all([getActiveSlotClosures(), getHolidayDates()]);
+  return rules.find((rule) => slotClosureMatches(rule, { ...context, holidays }, time)) ?? null;
+}
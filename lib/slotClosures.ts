@@ -0,0 +1,194 @@
+/**
+ * Recurring slot closure rules
+ *
+ * A rule closes departures on the days it matches, e.g. "08:00 every Monday",
+ * "all transfers on 31 Aug and 16 Sep" or "all transfers on public holidays"
+ * (from the holiday calendar). Rules are stored once and applied
+ * whenever /api/timeslots resolves availability, so they never turn into
+ * per-slot toggles. A closure always wins over a slot enabled by hand; to
+ * reopen a departure, edit or deactivate the rule.
+ *
+ * Empty package, package-type and time lists mean "all", like promotions.
+ */
+import { normalizeTime } from "@/lib/dateUtils";
+import { DAY_OF_WEEK_LABELS } from "@/lib/pricingRules";
+
+export const SLOT_CLOSURE_RECURRENCES = ["weekly", "dates", "public-holidays"] as const;
+
+export type SlotClosureRecurrence = (typeof SLOT_CLOSURE_RECURRENCES)[number];
+
+export const SLOT_CLOSURE_PACKAGE_TYPES = ["tour", "transfer"] as const;
+
+export type SlotClosurePackageType = (typeof SLOT_CLOSURE_PACKAGE_TYPES)[number];
+
+/** Fields an admin sets on a closure rule */
+export interface SlotClosureInput {
+  /** Shown wherever the rule closes a slot, e.g. "Boat maintenance" */
+  reason: string;
+  packageTypes: SlotClosurePackageType[];
+  packageIds: string[];
+  /** Departure times, HH:mm */
+  times: string[];
+  recurrence: SlotClosureRecurrence;
+  /** weekly: 0 = Sunday */
+  daysOfWeek: number[];
+  /** dates: YYYY-MM-DD */
+  dates: string[];
+  /** Optional window the rule is in effect, YYYY-MM-DD inclusive */
+  startsOn?: string;
+  endsOn?: string;
+  isActive: boolean;
+}
+
+/** A rule as returned by /api/timeslots/closures */
+export interface SlotClosureRecord extends SlotClosureInput {
+  _id: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The departure being resolved */
+export interface SlotClosureContext {
+  packageType: SlotClosurePackageType;
+  packageId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Holiday calendar dates; public-holidays rules never match without it */
+  holidays?: string[];
+}
+
+/** Added to a slot closed by a rule */
+export interface SlotClosureInfo {
+  closureRuleId: string;
+  closureReason: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+export function createSlotClosureInput(
+  scope: Pick<SlotClosureInput, "packageTypes" | "packageIds">
+): SlotClosureInput {
+  return {
+    reason: "",
+    ...scope,
+    times: [],
+    recurrence: "weekly",
+    daysOfWeek: [1],
+    dates: [],
+    isActive: true,
+  };
+}
+
+/**
+ * Check a closure rule's settings
+ * @returns An error message, or null if the rule can be saved
+ */
+export function validateSlotClosureInput(input: SlotClosureInput): string | null {
+  if (!input.reason.trim()) return "Enter a reason for the closure";
+  if (!SLOT_CLOSURE_RECURRENCES.includes(input.recurrence)) return "Invalid recurrence";
+  if (input.packageTypes.some((type) => !SLOT_CLOSURE_PACKAGE_TYPES.includes(type))) {
+    return "Invalid package type";
+  }
+  if (input.times.some((time) => !TIME_PATTERN.test(time))) {
+    return "Times must be HH:mm";
+  }
+  if (input.recurrence === "weekly") {
+    if (input.daysOfWeek.length === 0) return "Choose at least one day";
+    if (input.daysOfWeek.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return "Invalid day of week";
+    }
+  }
+  if (input.recurrence === "dates") {
+    if (input.dates.length === 0) return "Add at least one date";
+    if (input.dates.some((date) => !DATE_PATTERN.test(date))) return "Dates must be YYYY-MM-DD";
+  }
+  if (
+    (input.startsOn && !DATE_PATTERN.test(input.startsOn)) ||
+    (input.endsOn && !DATE_PATTERN.test(input.endsOn))
+  ) {
+    return "Dates must be YYYY-MM-DD";
+  }
+  if (input.startsOn && input.endsOn && input.startsOn > input.endsOn) {
+    return "The end date is before the start date";
+  }
+  return null;
+}
+
+/** Whether a rule covers a package at all, regardless of date and time */
+export function slotClosureAppliesToPackage(
+  rule: Pick<SlotClosureInput, "packageTypes" | "packageIds">,
+  packageType: SlotClosurePackageType,
+  packageId: string
+): boolean {
+  if (rule.packageIds.length > 0) return rule.packageIds.includes(packageId);
+  return rule.packageTypes.length === 0 || rule.packageTypes.includes(packageType);
+}
+
+function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Whether a rule closes one departure */
+export function slotClosureMatches(
+  rule: SlotClosureInput,
+  context: SlotClosureContext,
+  time: string
+): boolean {
+  if (!rule.isActive || !DATE_PATTERN.test(context.date)) return false;
+  if (!slotClosureAppliesToPackage(rule, context.packageType, context.packageId)) return false;
+  if (rule.startsOn && context.date < rule.startsOn) return false;
+  if (rule.endsOn && context.date > rule.endsOn) return false;
+  if (rule.times.length > 0 && !rule.times.includes(normalizeTime(time))) return false;
+
+  switch (rule.recurrence) {
+    case "weekly":
+      return rule.daysOfWeek.includes(dayOfWeek(context.date));
+    case "dates":
+      return rule.dates.includes(context.date);
+    case "public-holidays":
+      return !!context.holidays?.includes(context.date);
+  }
+}
+
+/**
+ * Close the slots matched by any rule
+ * @returns The slots with `isAvailable` false and the rule's reason on
+ *   every closed one; other slots are returned unchanged
+ */
+export function applySlotClosures<T extends { time: string; isAvailable: boolean }>(
+  slots: T[],
+  rules: (SlotClosureInput & { _id: unknown })[],
+  context: SlotClosureContext
+): (T & Partial<SlotClosureInfo>)[] {
+  return slots.map((slot) => {
+    const rule = rules.find((r) => slotClosureMatches(r, context, slot.time));
+    if (!rule) return slot;
+    return {
+      ...slot,
+      isAvailable: false,
+      closureRuleId: String(rule._id),
+      closureReason: rule.reason,
+    };
+  });
+}
+
+/** e.g. "08:00 every Mon, Fri" or "All departures on 2026-08-31, 2026-09-16" */
+export function describeSlotClosure(rule: SlotClosureInput): string {
+  const times = rule.times.length > 0 ? rule.times.join(", ") : "All departures";
+  const when =
+    rule.recurrence === "weekly"
+      ? `every ${rule.daysOfWeek.map((day) => DAY_OF_WEEK_LABELS[day]).join(", ")}`
+      : rule.recurrence === "dates"
+        ? `on ${rule.dates.join(", ")}`
+        : "on public holidays";
+  const window =
+    rule.startsOn || rule.endsOn
+      ? ` (${rule.startsOn ? `from ${rule.startsOn}` : ""}${
+          rule.startsOn && rule.endsOn ? " " : ""
+        }${rule.endsOn ? `until ${rule.endsOn}` : ""})`
+      : "";
+  return `${times} ${when}${window}`;
+}
@@ -0,0 +1,20 @@
+/**
+ * Spreadsheet export helpers
+ */
+
+// Leading characters Excel and Sheets treat as the start of a formula
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * Quote text cells that would otherwise run as formulas when an exported
+ * file is opened; numbers and other values are left as they are
+ */
+export function escapeFormulaCells<T>(rows: T[][]): T[][] {
+  return rows.map((row) =>
+    row.map((cell) =>
+      typeof cell === "string" && FORMULA_PREFIXES.some((prefix) => cell.startsWith(prefix))
+        ? (`'${cell}` as T)
+        : cell
+    )
+  );
+}
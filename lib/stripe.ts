@@ -0,0 +1,115 @@
+/**
+ * Minimal Stripe REST client (server only)
+ *
+ * Only refunds are issued from the admin panel, so this calls the REST API
+ * directly instead of pulling in the Stripe SDK.
+ */
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+export interface StripeRefund {
+  id: string;
+  amount: number;
+  currency: string;
+  status: "pending" | "requires_action" | "succeeded" | "failed" | "canceled";
+  failure_reason?: string;
+}
+
+/**
+ * An error response from the Stripe API
+ *
+ * `rejected` is true only when Stripe definitely did not act on the request:
+ * a 4xx other than 409 (idempotency key in use) and 429 (rate limited), or a
+ * request that was never sent. Network errors and timeouts are thrown as is,
+ * since the refund may still have gone through.
+ */
+export class StripeRequestError extends Error {
+  constructor(message: string, public readonly rejected: boolean) {
+    super(message);
+    this.name = "StripeRequestError";
+  }
+}
+
+function isRejectedStatus(status: number) {
+  return status >= 400 && status < 500 && status !== 409 && status !== 429;
+}
+
+/**
+ * Whether a failed call definitely left nothing behind on Stripe
+ */
+export function isStripeRejection(error: unknown): boolean {
+  return error instanceof StripeRequestError && error.rejected;
+}
+
+/**
+ * Refund part or all of a payment intent
+ * @param paymentIntentId - Payment intent the booking was paid with
+ * @param amount - Amount in ringgit (converted to sen for Stripe)
+ * @param metadata - Stored on the Stripe refund for reconciliation
+ * @param idempotencyKey - Our refund id, so a retried request never refunds twice
+ * @throws StripeRequestError with Stripe's message if the refund is rejected,
+ *   or the fetch error if Stripe could not be reached
+ */
+export async function createStripeRefund(
+  paymentIntentId: string,
+  amount: number,
+  metadata: Record<string, string> = {},
+  idempotencyKey?: string
+): Promise<StripeRefund> {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new StripeRequestError("STRIPE_SECRET_KEY is not configured", true);
+  }
+
+  const body = new URLSearchParams({
+    payment_intent: paymentIntentId,
+    amount: Math.round(amount * 100).toString(),
+  });
+  Object.entries(metadata).forEach(([key, value]) => {
+    body.set(`metadata[${key}]`, value);
+  });
+
+  const response = await fetch(`${STRIPE_API_URL}/refunds`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+    },
+    body,
+    cache: "no-store",
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new StripeRequestError(
+      data.error?.message || `Stripe refund failed: HTTP ${response.status}`,
+      isRejectedStatus(response.status)
+    );
+  }
+
+  return data as StripeRefund;
+}
+
+/**
+ * Current state of a refund, for settling ones Stripe reported as pending
+ * @throws Error with Stripe's message if the lookup fails
+ */
+export async function getStripeRefund(refundId: string): Promise<StripeRefund> {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("STRIPE_SECRET_KEY is not configured");
+  }
+
+  const response = await fetch(`${STRIPE_API_URL}/refunds/${encodeURIComponent(refundId)}`, {
+    headers: { Authorization: `Bearer ${secretKey}` },
+    cache: "no-store",
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || `Stripe refund lookup failed: HTTP ${response.status}`);
+  }
+
+  return data as StripeRefund;
+}
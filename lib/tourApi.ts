@@ -1,3 +1,5 @@
+import type { PricingRule } from "@/lib/pricingRules"
+
 export interface TourType {
     _id: string
     title: string
@@ -19,6 +21,7 @@ export interface TourType {
     minimumPerson: number
     maximumPerson?: number
     departureTimes: string[]
+    pricingRules?: PricingRule[]
     label?: "Recommended" | "Popular" | "Best Value" | "Best seller" | null
     isAvailable: boolean
     details: {
@@ -88,7 +91,7 @@ export const tourApi = {
     // Delete a tour
     deleteTour: async (id: string): Promise<{ success: boolean; message: string }> => {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/tours/${id}`, {
+            const response = await fetch(`/api/tours/${id}`, {
                 method: "DELETE",
                 headers: {
                     "Content-Type": "application/json",
@@ -128,7 +131,7 @@ export const tourApi = {
         status: "active" | "sold"
     ): Promise<{ success: boolean; message: string; data: TourType }> => {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/tours/${id}`, {
+            const response = await fetch(`/api/tours/${id}`, {
                 method: "PATCH",
                 headers: {
                     "Content-Type": "application/json",
@@ -150,7 +153,7 @@ export const tourApi = {
     // Update a tour
     updateTour: async (id: string, tourData: any): Promise<{ success: boolean; message: string; data: TourType }> => {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/tours/${id}`, {
+            const response = await fetch(`/api/tours/${id}`, {
                 method: "PUT",
                 headers: {
                     "Content-Type": "application/json",
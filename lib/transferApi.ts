@@ -1,3 +1,5 @@
+import type { PricingRule } from "@/lib/pricingRules"
+
 export interface TransferType {
     _id: string
     title: string
@@ -19,6 +21,7 @@ export interface TransferType {
     minimumPerson: number
     maximumPerson?: number
     times: string[]
+    pricingRules?: PricingRule[]
     label?: "Recommended" | "Popular" | "Best Value" | "Best seller" | null
     isAvailable: boolean
     from: string
@@ -111,7 +114,7 @@ export const transferApi = {
     // Delete a transfer
     deleteTransfer: async (id: string): Promise<{ success: boolean; message: string }> => {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/transfers/${id}`, {
+            const response = await fetch(`/api/transfers/${id}`, {
                 method: "DELETE",
                 headers: {
                     "Content-Type": "application/json",
@@ -151,7 +154,7 @@ export const transferApi = {
         status: "active" | "sold"
     ): Promise<{ success: boolean; message: string; data: TransferType }> => {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/transfers/${id}`, {
+            const response = await fetch(`/api/transfers/${id}`, {
                 method: "PATCH",
                 headers: {
                     "Content-Type": "application/json",
@@ -176,7 +179,7 @@ export const transferApi = {
         transferData: any
     ): Promise<{ success: boolean; message: string; data: TransferType }> => {
         try {
-            const response = await fetch(`${API_BASE_URL}/api/transfers/${id}`, {
+            const response = await fetch(`/api/transfers/${id}`, {
                 method: "PUT",
                 headers: {
                     "Content-Type": "application/json",
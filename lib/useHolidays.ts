@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import type { CalendarHoliday } from "@/lib/holidays";
+
+/**
+ * The holiday calendar for client components; empty until loaded or if it
+ * cannot be fetched, in which case holiday pricing and highlights are skipped
+ */
+export function useHolidays(): CalendarHoliday[] {
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/holidays")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.success) setHolidays(data.holidays);
+      })
+      .catch((error) => console.error("Error fetching holidays:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return holidays;
+}
@@ -0,0 +1,119 @@
+/**
+ * Waitlist for full departures
+ *
+ * Customers are queued per package, date and time. Nothing is promoted
+ * automatically: whenever a slot has seats again (a booking was cancelled or
+ * its capacity was raised) the first waiting customer whose party fits is
+ * surfaced, and an admin turns them into a real booking through
+ * AdminBookingModal. Larger parties further up the queue are skipped rather
+ * than blocking everyone behind them.
+ */
+import { normalizeTime } from "@/lib/dateUtils";
+
+export const WAITLIST_STATUSES = ["waiting", "promoted", "removed"] as const;
+
+export type WaitlistStatus = (typeof WAITLIST_STATUSES)[number];
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "Waiting",
+  promoted: "Booked",
+  removed: "Removed",
+};
+
+export const WAITLIST_PACKAGE_TYPES = ["tour", "transfer"] as const;
+
+export type WaitlistPackageType = (typeof WAITLIST_PACKAGE_TYPES)[number];
+
+/** Fields an admin enters when adding a customer to a waitlist */
+export interface WaitlistEntryInput {
+  packageType: WaitlistPackageType;
+  packageId: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:mm */
+  time: string;
+  contactInfo: {
+    name: string;
+    email: string;
+    phone: string;
+  };
+  adults: number;
+  children: number;
+  notes?: string;
+}
+
+/** An entry as returned by /api/bookings/waitlist */
+export interface WaitlistEntryRecord extends WaitlistEntryInput {
+  _id: string;
+  status: WaitlistStatus;
+  /** Set once the customer has been booked */
+  bookingId?: string;
+  addedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+/**
+ * Check a waitlist entry before it is saved
+ * @returns An error message, or null if the entry can be saved
+ */
+export function validateWaitlistEntry(input: WaitlistEntryInput): string | null {
+  if (!WAITLIST_PACKAGE_TYPES.includes(input.packageType)) return "Invalid package type";
+  if (!input.packageId) return "Choose a package";
+  if (!DATE_PATTERN.test(input.date)) return "Dates must be YYYY-MM-DD";
+  if (!TIME_PATTERN.test(input.time)) return "Times must be HH:mm";
+  if (!input.contactInfo.name.trim()) return "Enter the customer's name";
+  if (!input.contactInfo.email.trim() && !input.contactInfo.phone.trim()) {
+    return "Enter an email or phone number to reach the customer";
+  }
+  if (!Number.isInteger(input.adults) || input.adults < 1) return "At least 1 adult is required";
+  if (!Number.isInteger(input.children) || input.children < 0) {
+    return "Children must be 0 or more";
+  }
+  return null;
+}
+
+/**
+ * Seats an entry needs once booked
+ * @param perVehicle - The slot is sold by vehicle (private transfers), so a
+ *   party always takes one unit
+ */
+export function getWaitlistPartySize(
+  entry: Pick<WaitlistEntryInput, "adults" | "children">,
+  perVehicle = false
+): number {
+  return perVehicle ? 1 : entry.adults + entry.children;
+}
+
+/** Whether an entry is queued for a departure */
+export function isWaitlistedFor(
+  entry: Pick<WaitlistEntryInput, "packageId" | "date" | "time">,
+  slot: Pick<WaitlistEntryInput, "packageId" | "date" | "time">
+): boolean {
+  return (
+    entry.packageId === slot.packageId &&
+    entry.date === slot.date &&
+    normalizeTime(entry.time) === normalizeTime(slot.time)
+  );
+}
+
+/**
+ * The customer to offer freed seats to
+ * @param entries - One departure's entries, in any order
+ * @param seatsLeft - Seats (or vehicles) the slot can still take
+ * @returns The longest-waiting entry whose party fits, or null
+ */
+export function getNextWaitlistCandidate<
+  T extends Pick<WaitlistEntryRecord, "status" | "adults" | "children" | "createdAt">,
+>(entries: T[], seatsLeft: number, perVehicle = false): T | null {
+  if (seatsLeft <= 0) return null;
+  return (
+    entries
+      .filter((entry) => entry.status === "waiting")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .find((entry) => getWaitlistPartySize(entry, perVehicle) <= seatsLeft) || null
+  );
+}
@@ -1,20 +1,96 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { AdminRole, canAccess, isAdminRole } from '@/lib/permissions';
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/session';
 
-export function middleware(request: NextRequest) {
+// Checks the session against the admin account in the Node runtime; the Edge
+// runtime cannot reach the database. It answers for itself, so the guard
+// below skips it.
+const SESSION_CHECK_PATH = '/api/auth/session';
+
+function isPublicPath(pathname: string) {
+  return (
+    pathname === '/login' ||
+    pathname === '/api/auth/login' ||
+    pathname.startsWith('/_next') ||
+    pathname.startsWith('/images') ||
+    pathname.startsWith('/icons') ||
+    pathname.startsWith('/fonts') ||
+    pathname.startsWith('/favicons')
+  );
+}
+
+/**
+ * Role of the signed-in admin as their account stands now, so a disabled,
+ * deleted or re-roled admin loses access on every route at once
+ * @returns The role, or null if the session is no longer valid
+ * @throws Error if the session check itself failed
+ */
+async function getCurrentRole(request: NextRequest): Promise<AdminRole | null> {
+  const response = await fetch(new URL(SESSION_CHECK_PATH, request.url), {
+    headers: { cookie: request.headers.get('cookie') || '' },
+    cache: 'no-store',
+  });
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Session check failed: HTTP ${response.status}`);
+  }
+
+  const data = await response.json();
+  return isAdminRole(data.user?.role) ? data.user.role : null;
+}
+
+export async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
-  
-  // Allow access to login page and static assets
-  if (pathname === '/login' || 
-      pathname.startsWith('/_next') || 
-      pathname.startsWith('/images') || 
-      pathname.startsWith('/icons') ||
-      pathname.startsWith('/fonts')) {
+
+  // Allow access to login page, login endpoint, static assets and the session check
+  if (isPublicPath(pathname) || pathname === SESSION_CHECK_PATH) {
     return NextResponse.next();
   }
 
-  // For admin routes, we'll let the client-side auth handle it
-  // since we're using localStorage for session management
+  // The signature check alone turns away forged or expired cookies cheaply
+  const session = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE_NAME)?.value
+  );
+
+  let role: AdminRole | null = null;
+  if (session) {
+    try {
+      role = await getCurrentRole(request);
+    } catch (error) {
+      console.error('Error checking admin session:', error);
+      return pathname.startsWith('/api/')
+        ? NextResponse.json(
+            { success: false, error: 'Could not verify your session, please try again' },
+            { status: 503 }
+          )
+        : new NextResponse('Could not verify your session, please try again', { status: 503 });
+    }
+  }
+
+  if (!role) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+
+  // Each role may only reach the pages and proxy routes it needs
+  if (!canAccess(role, pathname, request.method)) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
   return NextResponse.next();
 }
 
@@ -22,11 +98,10 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
   ],
 };
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ADMIN_ROLES, AdminRole } from "@/lib/permissions";
+
+export interface IAdminUser {
+  username: string;
+  name: string;
+  passwordHash: string;
+  role: AdminRole;
+  isActive: boolean;
+  // Bumped to sign out existing sessions after a role or status change
+  sessionVersion: number;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AdminUserSchema = new Schema<IAdminUser>(
+  {
+    username: { type: String, required: true, unique: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, enum: ADMIN_ROLES, required: true },
+    isActive: { type: Boolean, default: true },
+    sessionVersion: { type: Number, default: 0 },
+    lastLoginAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    // Never send password hashes to the client
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete (ret as Partial<IAdminUser>).passwordHash;
+        return ret;
+      },
+    },
+  }
+);
+
+const AdminUser: Model<IAdminUser> =
+  (mongoose.models.AdminUser as Model<IAdminUser>) ||
+  mongoose.model<IAdminUser>("AdminUser", AdminUserSchema);
+
+export default AdminUser;
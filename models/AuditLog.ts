@@ -0,0 +1,53 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ADMIN_ROLES, AdminRole } from "@/lib/permissions";
+
+export const AUDIT_ENTITY_TYPES = [
+  "timeslot",
+  "booking",
+  "tour",
+  "transfer",
+  "payment",
+  "promotion",
+  "slot-closure",
+  "holiday",
+  "waitlist",
+  "vehicle",
+  "driver",
+  "assignment",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export interface IAuditLog {
+  actor: string;
+  actorRole?: AdminRole;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    actor: { type: String, required: true, index: true },
+    actorRole: { type: String, enum: ADMIN_ROLES },
+    action: { type: String, required: true },
+    entityType: { type: String, enum: AUDIT_ENTITY_TYPES, required: true },
+    entityId: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  // Entries are append-only, so only the creation time is tracked
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+
+const AuditLog: Model<IAuditLog> =
+  (mongoose.models.AuditLog as Model<IAuditLog>) ||
+  mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
+
+export default AuditLog;
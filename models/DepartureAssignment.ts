@@ -0,0 +1,34 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ASSIGNMENT_PACKAGE_TYPES, DepartureAssignmentInput } from "@/lib/fleet";
+
+export interface IDepartureAssignment extends DepartureAssignmentInput {
+  assignedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DepartureAssignmentSchema = new Schema<IDepartureAssignment>(
+  {
+    packageType: { type: String, enum: ASSIGNMENT_PACKAGE_TYPES, required: true },
+    packageId: { type: String, required: true },
+    date: { type: String, required: true },
+    time: { type: String, required: true },
+    endTime: { type: String, required: true },
+    vehicleId: { type: String },
+    driverId: { type: String },
+    notes: { type: String, trim: true },
+    assignedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+// Conflicts are checked across a whole day
+DepartureAssignmentSchema.index({ date: 1, time: 1 });
+DepartureAssignmentSchema.index({ vehicleId: 1, date: 1 });
+DepartureAssignmentSchema.index({ driverId: 1, date: 1 });
+
+const DepartureAssignment: Model<IDepartureAssignment> =
+  (mongoose.models.DepartureAssignment as Model<IDepartureAssignment>) ||
+  mongoose.model<IDepartureAssignment>("DepartureAssignment", DepartureAssignmentSchema);
+
+export default DepartureAssignment;
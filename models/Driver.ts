@@ -0,0 +1,25 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { DriverInput } from "@/lib/fleet";
+
+export interface IDriver extends DriverInput {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DriverSchema = new Schema<IDriver>(
+  {
+    name: { type: String, required: true, trim: true },
+    phone: { type: String, required: true, trim: true },
+    email: { type: String, lowercase: true, trim: true },
+    licenseNumber: { type: String, required: true, unique: true, trim: true, uppercase: true },
+    licenseExpiry: { type: String, required: true },
+    notes: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+const Driver: Model<IDriver> =
+  (mongoose.models.Driver as Model<IDriver>) || mongoose.model<IDriver>("Driver", DriverSchema);
+
+export default Driver;
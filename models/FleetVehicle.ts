@@ -0,0 +1,34 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { FleetVehicleInput } from "@/lib/fleet";
+
+export interface IFleetVehicle extends FleetVehicleInput {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MaintenanceWindowSchema = new Schema(
+  {
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+    reason: { type: String, required: true, trim: true },
+  },
+  { _id: false }
+);
+
+const FleetVehicleSchema = new Schema<IFleetVehicle>(
+  {
+    plateNumber: { type: String, required: true, unique: true, trim: true, uppercase: true },
+    vehicleType: { type: String, required: true, trim: true },
+    seats: { type: Number, required: true, min: 1 },
+    description: { type: String, trim: true },
+    maintenance: { type: [MaintenanceWindowSchema], default: [] },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+const FleetVehicle: Model<IFleetVehicle> =
+  (mongoose.models.FleetVehicle as Model<IFleetVehicle>) ||
+  mongoose.model<IFleetVehicle>("FleetVehicle", FleetVehicleSchema);
+
+export default FleetVehicle;
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { HOLIDAY_SCOPES, HolidayOverride } from "@/lib/holidays";
+
+export interface IHolidayOverride extends HolidayOverride {
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One admin edit per date on top of the bundled holiday dataset
+const HolidayOverrideSchema = new Schema<IHolidayOverride>(
+  {
+    date: { type: String, required: true, unique: true },
+    name: { type: String, trim: true },
+    scope: { type: String, enum: HOLIDAY_SCOPES },
+    removed: { type: Boolean, default: false },
+    updatedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+const HolidayOverrideModel: Model<IHolidayOverride> =
+  (mongoose.models.HolidayOverride as Model<IHolidayOverride>) ||
+  mongoose.model<IHolidayOverride>("HolidayOverride", HolidayOverrideSchema);
+
+export default HolidayOverrideModel;
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Model } from "mongoose";
+import type { InvoiceCompany, InvoiceLineItem } from "@/lib/invoices";
+
+export interface IInvoice {
+  invoiceNumber: string;
+  // Numbering is gapless within a calendar year (Malaysian time)
+  year: number;
+  sequence: number;
+  bookingId: string;
+  // Issued invoices are never changed; a changed booking gets a new revision
+  revision: number;
+  // Invoice number of the revision this one replaces
+  supersedes?: string;
+  // Invoice number of the revision that replaced this one
+  supersededBy?: string;
+  company: InvoiceCompany;
+  customer: { name: string; email?: string; phone?: string };
+  packageTitle: string;
+  packageType: "tour" | "transfer";
+  serviceDate: string;
+  serviceTime: string;
+  currency: string;
+  paymentStatus?: string;
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  discount: number;
+  promoCode?: string;
+  bankCharge: number;
+  sstRate: number;
+  sstAmount: number;
+  total: number;
+  issuedBy: string;
+  issuedAt: Date;
+}
+
+const LineItemSchema = new Schema<InvoiceLineItem>(
+  {
+    description: { type: String, required: true },
+    quantity: { type: Number, required: true },
+    unitPrice: { type: Number, required: true },
+    amount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const InvoiceSchema = new Schema<IInvoice>({
+  invoiceNumber: { type: String, required: true, unique: true },
+  year: { type: Number, required: true },
+  sequence: { type: Number, required: true },
+  bookingId: { type: String, required: true },
+  revision: { type: Number, default: 1 },
+  supersedes: { type: String },
+  supersededBy: { type: String },
+  company: {
+    name: { type: String, required: true },
+    registrationNumber: { type: String },
+    sstNumber: { type: String },
+    address: { type: String },
+    phone: { type: String },
+    email: { type: String },
+  },
+  customer: {
+    name: { type: String, required: true },
+    email: { type: String },
+    phone: { type: String },
+  },
+  packageTitle: { type: String, required: true },
+  packageType: { type: String, enum: ["tour", "transfer"], required: true },
+  serviceDate: { type: String, required: true },
+  serviceTime: { type: String, required: true },
+  currency: { type: String, default: "MYR" },
+  paymentStatus: { type: String },
+  lineItems: { type: [LineItemSchema], default: [] },
+  subtotal: { type: Number, required: true },
+  discount: { type: Number, default: 0 },
+  promoCode: { type: String },
+  bankCharge: { type: Number, default: 0 },
+  sstRate: { type: Number, default: 0 },
+  sstAmount: { type: Number, default: 0 },
+  total: { type: Number, required: true },
+  issuedBy: { type: String, required: true },
+  issuedAt: { type: Date, required: true },
+});
+
+InvoiceSchema.index({ year: 1, sequence: 1 }, { unique: true });
+InvoiceSchema.index({ bookingId: 1, revision: 1 }, { unique: true });
+
+const Invoice: Model<IInvoice> =
+  (mongoose.models.Invoice as Model<IInvoice>) ||
+  mongoose.model<IInvoice>("Invoice", InvoiceSchema);
+
+export default Invoice;
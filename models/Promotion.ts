@@ -0,0 +1,54 @@
+import mongoose, { Schema, Model } from "mongoose";
+import {
+  DISCOUNT_TYPES,
+  DiscountType,
+  PROMOTION_PACKAGE_TYPES,
+  PromotionPackageType,
+} from "@/lib/promotions";
+
+export interface IPromotion {
+  code: string;
+  description?: string;
+  discountType: DiscountType;
+  discountValue: number;
+  maxDiscount?: number;
+  startsOn?: string;
+  endsOn?: string;
+  usageLimit?: number;
+  perCustomerLimit?: number;
+  packageTypes: PromotionPackageType[];
+  packageIds: string[];
+  isActive: boolean;
+  // Kept in step with PromotionRedemption so the usage limit can be
+  // enforced with a single conditional update
+  usedCount: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromotionSchema = new Schema<IPromotion>(
+  {
+    code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+    description: { type: String, trim: true },
+    discountType: { type: String, enum: DISCOUNT_TYPES, required: true },
+    discountValue: { type: Number, required: true, min: 0 },
+    maxDiscount: { type: Number, min: 0 },
+    startsOn: { type: String },
+    endsOn: { type: String },
+    usageLimit: { type: Number, min: 1 },
+    perCustomerLimit: { type: Number, min: 1 },
+    packageTypes: { type: [String], enum: PROMOTION_PACKAGE_TYPES, default: [] },
+    packageIds: { type: [String], default: [] },
+    isActive: { type: Boolean, default: true },
+    usedCount: { type: Number, default: 0 },
+    createdBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+const Promotion: Model<IPromotion> =
+  (mongoose.models.Promotion as Model<IPromotion>) ||
+  mongoose.model<IPromotion>("Promotion", PromotionSchema);
+
+export default Promotion;
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Model, Types } from "mongoose";
+import { PROMOTION_PACKAGE_TYPES, PromotionPackageType } from "@/lib/promotions";
+
+export interface IPromotionRedemption {
+  promotionId: Types.ObjectId;
+  code: string;
+  /** Unset while the use is reserved for a booking being created */
+  bookingId?: string;
+  customerEmail: string;
+  /** Which of the customer's allowed uses this is, when the code has a per-customer limit */
+  customerSlot?: number;
+  packageType: PromotionPackageType;
+  packageId: string;
+  // Booking amounts in RM: subtotal before the discount, total after it
+  subtotal: number;
+  discount: number;
+  total: number;
+  redeemedBy: string;
+  createdAt: Date;
+}
+
+const PromotionRedemptionSchema = new Schema<IPromotionRedemption>(
+  {
+    promotionId: { type: Schema.Types.ObjectId, ref: "Promotion", required: true },
+    code: { type: String, required: true },
+    // A booking can only use one code, once
+    bookingId: { type: String, unique: true, sparse: true },
+    customerEmail: { type: String, required: true, lowercase: true, trim: true },
+    customerSlot: { type: Number },
+    packageType: { type: String, enum: PROMOTION_PACKAGE_TYPES, required: true },
+    packageId: { type: String, required: true },
+    subtotal: { type: Number, required: true },
+    discount: { type: Number, required: true },
+    total: { type: Number, required: true },
+    redeemedBy: { type: String, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+PromotionRedemptionSchema.index({ promotionId: 1, customerEmail: 1 });
+// Enforces perCustomerLimit atomically, see reservePromotion
+PromotionRedemptionSchema.index(
+  { promotionId: 1, customerEmail: 1, customerSlot: 1 },
+  { unique: true, partialFilterExpression: { customerSlot: { $exists: true } } }
+);
+
+const PromotionRedemption: Model<IPromotionRedemption> =
+  (mongoose.models.PromotionRedemption as Model<IPromotionRedemption>) ||
+  mongoose.model<IPromotionRedemption>("PromotionRedemption", PromotionRedemptionSchema);
+
+export default PromotionRedemption;
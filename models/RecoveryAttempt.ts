@@ -0,0 +1,51 @@
+import mongoose, { Schema, Model } from "mongoose";
+
+export const RECOVERY_MODES = ["single", "batch", "automatic"] as const;
+
+export type RecoveryMode = (typeof RECOVERY_MODES)[number];
+
+export interface IRecoveryAttempt {
+  paymentIntentId: string;
+  mode: RecoveryMode;
+  success: boolean;
+  bookingId?: string;
+  // The backend found an existing booking instead of creating one
+  alreadyExists?: boolean;
+  message?: string;
+  error?: string;
+  customerEmail?: string;
+  amount?: number;
+  currency?: string;
+  actor: string;
+  actorRole?: string;
+  // PaymentDetails from the backend just before the recovery ran
+  paymentDetails?: unknown;
+  createdAt: Date;
+}
+
+const RecoveryAttemptSchema = new Schema<IRecoveryAttempt>(
+  {
+    paymentIntentId: { type: String, required: true, index: true },
+    mode: { type: String, enum: RECOVERY_MODES, required: true },
+    success: { type: Boolean, required: true },
+    bookingId: { type: String, index: true },
+    alreadyExists: { type: Boolean },
+    message: { type: String },
+    error: { type: String },
+    customerEmail: { type: String, lowercase: true, trim: true },
+    amount: { type: Number },
+    currency: { type: String },
+    actor: { type: String, required: true },
+    actorRole: { type: String },
+    paymentDetails: { type: Schema.Types.Mixed },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+RecoveryAttemptSchema.index({ createdAt: -1 });
+
+const RecoveryAttempt: Model<IRecoveryAttempt> =
+  (mongoose.models.RecoveryAttempt as Model<IRecoveryAttempt>) ||
+  mongoose.model<IRecoveryAttempt>("RecoveryAttempt", RecoveryAttemptSchema);
+
+export default RecoveryAttempt;
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Model } from "mongoose";
+
+export const ORPHAN_OUTCOMES = ["recovered", "needs-review", "failed"] as const;
+
+export type OrphanOutcome = (typeof ORPHAN_OUTCOMES)[number];
+
+export interface IScannedOrphan {
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  customerEmail?: string;
+  customerName?: string;
+  packageName?: string;
+  date?: string;
+  time?: string;
+  canRecover: boolean;
+  outcome: OrphanOutcome;
+  bookingId?: string;
+  error?: string;
+}
+
+export interface IRecoveryScan {
+  startedAt: Date;
+  finishedAt?: Date;
+  hours: number;
+  autoRecoverEnabled: boolean;
+  totalScanned: number;
+  orphans: IScannedOrphan[];
+  recoveredCount: number;
+  // Orphans left for an admin to look at
+  needsAttentionCount: number;
+  error?: string;
+  // Set while the scan runs so only one server instance scans at a time
+  lease?: string;
+  leaseExpiresAt?: Date;
+}
+
+const ScannedOrphanSchema = new Schema<IScannedOrphan>(
+  {
+    paymentIntentId: { type: String, required: true },
+    amount: { type: Number, required: true },
+    currency: { type: String, required: true },
+    customerEmail: { type: String },
+    customerName: { type: String },
+    packageName: { type: String },
+    date: { type: String },
+    time: { type: String },
+    canRecover: { type: Boolean, default: false },
+    outcome: { type: String, enum: ORPHAN_OUTCOMES, required: true },
+    bookingId: { type: String },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+const RecoveryScanSchema = new Schema<IRecoveryScan>({
+  startedAt: { type: Date, required: true },
+  finishedAt: { type: Date },
+  hours: { type: Number, required: true },
+  autoRecoverEnabled: { type: Boolean, default: false },
+  totalScanned: { type: Number, default: 0 },
+  orphans: { type: [ScannedOrphanSchema], default: [] },
+  recoveredCount: { type: Number, default: 0 },
+  needsAttentionCount: { type: Number, default: 0 },
+  error: { type: String },
+  lease: { type: String },
+  leaseExpiresAt: { type: Date },
+});
+
+RecoveryScanSchema.index({ startedAt: -1 });
+RecoveryScanSchema.index(
+  { lease: 1 },
+  { unique: true, partialFilterExpression: { lease: { $exists: true } } }
+);
+
+const RecoveryScan: Model<IRecoveryScan> =
+  (mongoose.models.RecoveryScan as Model<IRecoveryScan>) ||
+  mongoose.model<IRecoveryScan>("RecoveryScan", RecoveryScanSchema);
+
+export default RecoveryScan;
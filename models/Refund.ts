@@ -0,0 +1,51 @@
+import mongoose, { Schema, Model } from "mongoose";
+import {
+  REFUND_METHODS,
+  REFUND_STATUSES,
+  RefundMethod,
+  RefundStatus,
+} from "@/lib/refunds";
+
+export interface IRefund {
+  bookingId: string;
+  paymentIntentId?: string;
+  amount: number;
+  currency: string;
+  method: RefundMethod;
+  status: RefundStatus;
+  reason?: string;
+  // Bank transfer reference, receipt number, etc.
+  reference?: string;
+  stripeRefundId?: string;
+  error?: string;
+  requestedBy: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundSchema = new Schema<IRefund>(
+  {
+    bookingId: { type: String, required: true, index: true },
+    paymentIntentId: { type: String },
+    amount: { type: Number, required: true, min: 0.01 },
+    currency: { type: String, default: "MYR" },
+    method: { type: String, enum: REFUND_METHODS, required: true },
+    status: { type: String, enum: REFUND_STATUSES, required: true },
+    reason: { type: String, trim: true },
+    reference: { type: String, trim: true },
+    stripeRefundId: { type: String },
+    error: { type: String },
+    requestedBy: { type: String, required: true },
+    processedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+RefundSchema.index({ status: 1, processedAt: -1 });
+
+const Refund: Model<IRefund> =
+  (mongoose.models.Refund as Model<IRefund>) ||
+  mongoose.model<IRefund>("Refund", RefundSchema);
+
+export default Refund;
@@ -0,0 +1,23 @@
+import mongoose, { Schema, Model } from "mongoose";
+
+// Held while a refund is checked against the booking's remaining balance
+export interface IRefundLock {
+  bookingId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+const RefundLockSchema = new Schema<IRefundLock>({
+  bookingId: { type: String, required: true, unique: true },
+  token: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+// Locks left behind by a crashed request are cleaned up by MongoDB
+RefundLockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefundLock: Model<IRefundLock> =
+  (mongoose.models.RefundLock as Model<IRefundLock>) ||
+  mongoose.model<IRefundLock>("RefundLock", RefundLockSchema);
+
+export default RefundLock;
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Model } from "mongoose";
+import {
+  SLOT_CLOSURE_PACKAGE_TYPES,
+  SLOT_CLOSURE_RECURRENCES,
+  SlotClosurePackageType,
+  SlotClosureRecurrence,
+} from "@/lib/slotClosures";
+
+export interface ISlotClosure {
+  reason: string;
+  packageTypes: SlotClosurePackageType[];
+  packageIds: string[];
+  times: string[];
+  recurrence: SlotClosureRecurrence;
+  daysOfWeek: number[];
+  dates: string[];
+  startsOn?: string;
+  endsOn?: string;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlotClosureSchema = new Schema<ISlotClosure>(
+  {
+    reason: { type: String, required: true, trim: true },
+    packageTypes: { type: [String], enum: SLOT_CLOSURE_PACKAGE_TYPES, default: [] },
+    packageIds: { type: [String], default: [] },
+    times: { type: [String], default: [] },
+    recurrence: { type: String, enum: SLOT_CLOSURE_RECURRENCES, required: true },
+    daysOfWeek: { type: [Number], default: [] },
+    dates: { type: [String], default: [] },
+    startsOn: { type: String },
+    endsOn: { type: String },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+const SlotClosure: Model<ISlotClosure> =
+  (mongoose.models.SlotClosure as Model<ISlotClosure>) ||
+  mongoose.model<ISlotClosure>("SlotClosure", SlotClosureSchema);
+
+export default SlotClosure;
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Model } from "mongoose";
+import {
+  WAITLIST_PACKAGE_TYPES,
+  WAITLIST_STATUSES,
+  WaitlistEntryInput,
+  WaitlistStatus,
+} from "@/lib/waitlist";
+
+export interface IWaitlistEntry extends WaitlistEntryInput {
+  status: WaitlistStatus;
+  bookingId?: string;
+  addedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    packageType: { type: String, enum: WAITLIST_PACKAGE_TYPES, required: true },
+    packageId: { type: String, required: true },
+    date: { type: String, required: true },
+    time: { type: String, required: true },
+    contactInfo: {
+      name: { type: String, required: true, trim: true },
+      email: { type: String, lowercase: true, trim: true, default: "" },
+      phone: { type: String, trim: true, default: "" },
+    },
+    adults: { type: Number, required: true, min: 1 },
+    children: { type: Number, default: 0, min: 0 },
+    notes: { type: String, trim: true },
+    status: { type: String, enum: WAITLIST_STATUSES, default: "waiting" },
+    bookingId: { type: String },
+    addedBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+// Queue order within a departure is by createdAt
+WaitlistEntrySchema.index({ packageId: 1, date: 1, time: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ date: 1, status: 1 });
+
+const WaitlistEntry: Model<IWaitlistEntry> =
+  (mongoose.models.WaitlistEntry as Model<IWaitlistEntry>) ||
+  mongoose.model<IWaitlistEntry>("WaitlistEntry", WaitlistEntrySchema);
+
+export default WaitlistEntry;
@@ -0,0 +1,13 @@
+// Prints an ADMIN_PASSWORD_HASH value for the given password.
+// Usage: npm run hash-password -- "<password>"
+import { randomBytes, scryptSync } from "crypto";
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run hash-password -- "<password>"');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const key = scryptSync(password, salt, 64);
+console.log(`scrypt:${salt.toString("hex")}:${key.toString("hex")}`);